@@ -1,30 +1,96 @@
 import { useEffect, useState, useRef, lazy, Suspense } from 'react';
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  Cog6ToothIcon,
+  CommandLineIcon,
+  MagnifyingGlassIcon,
+  TagIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
 import { useTaskStore } from './stores/taskStore';
 import { useAppStore } from './stores/appStore';
 import { usePreferencesStore } from './stores/preferencesStore';
-import { isToday, addDays, getTodayISO } from './utils/dateUtils';
+import {
+  isToday,
+  addDays,
+  getTodayISO,
+  getMsUntilTomorrow,
+} from './utils/dateUtils';
 import { exportRawData, clearStorage } from './utils/storage';
 import { createInitialAppData } from './utils/validation';
 import { atomicWrite } from './utils/storage';
-import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { downloadFile } from './utils/download';
+import { filterTasksByTags } from './utils/tags';
+import { getReminderDelay } from './utils/reminders';
+import { countTasks, type BulkAction } from './utils/bulk';
+import { SORT_ORDERS } from './utils/ordering';
+import { parseDateValue } from './utils/query';
+import type { Command } from './utils/commands';
+import { getCommandKeys } from './utils/keymap';
+import {
+  getCommandShortcuts,
+  getKeySequenceText,
+  useKeyboardShortcuts,
+} from './hooks/useKeyboardShortcuts';
 
 import DatePicker from './components/DatePicker';
 import TaskForm from './components/TaskForm';
 import TaskList from './components/TaskList';
 import EmptyState from './components/EmptyState';
 import ErrorBanner from './components/ErrorBanner';
+import TagFilterBar from './components/TagFilterBar';
+import BulkActionBar from './components/BulkActionBar';
+import SavedViews from './components/SavedViews';
 
 // Lazy-loaded dialog components (code splitting)
-const DeleteConfirmDialog = lazy(() => import('./components/DeleteConfirmDialog'));
+const DeleteConfirmDialog = lazy(
+  () => import('./components/DeleteConfirmDialog')
+);
 const EditTaskDialog = lazy(() => import('./components/EditTaskDialog'));
+const RecoveryReportDialog = lazy(
+  () => import('./components/RecoveryReportDialog')
+);
+const BackupHistoryDialog = lazy(
+  () => import('./components/BackupHistoryDialog')
+);
+const ImportDialog = lazy(() => import('./components/ImportDialog'));
+const ExportDialog = lazy(() => import('./components/ExportDialog'));
+const TrashDialog = lazy(() => import('./components/TrashDialog'));
+const SettingsDialog = lazy(() => import('./components/SettingsDialog'));
+const TagManagerDialog = lazy(() => import('./components/TagManagerDialog'));
+const RescheduleDialog = lazy(() => import('./components/RescheduleDialog'));
+const SearchDialog = lazy(() => import('./components/SearchDialog'));
+const CommandPalette = lazy(() => import('./components/CommandPalette'));
+const ShortcutsOverlay = lazy(() => import('./components/ShortcutsOverlay'));
 
-import type { Task } from './types';
+import type { Task, TaskEdits, TaskPriority } from './types';
+import type { ImportPlan } from './utils/importData';
+import type { RecurrenceRule } from './utils/recurrence';
+import type { RescheduleMode } from './utils/reschedule';
 
 function App() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
   const [editTask, setEditTask] = useState<Task | null>(null);
+  const [reschedule, setReschedule] = useState<{
+    ids: string[];
+    mode: RescheduleMode;
+  } | null>(null);
+  const [selection, setSelection] = useState<Set<string> | null>(null); // Set while selecting
+  const [isBackupHistoryOpen, setIsBackupHistoryOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<string | null>(null); // Initial query while open
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isReadOnlyInfoHidden, setIsReadOnlyInfoHidden] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Stores
@@ -32,23 +98,55 @@ function App() {
     tasks,
     isLoading,
     loadTasks,
+    series,
+    tags,
     addTask,
+    addRecurringTask,
+    materializeDate,
+    carryOverTasks,
     updateTask,
+    updateFutureOccurrences,
     deleteTask,
     toggleTaskCompletion,
+    toggleChecklistItem,
+    reorderTask,
+    rescheduleTask,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    deliverReminders,
+    purgeExpiredTrash,
     getTasksByDate,
     getTaskCounts,
+    getUrgentDates,
+    importData,
+    undo,
+    redo,
   } = useTaskStore();
 
   const {
     selectedDate,
     setSelectedDate,
+    tagFilter,
+    setTagFilter,
     initializeApp,
     isReadOnlyMode,
+    hasTabLock,
     readOnlyReason,
+    isStorageCorrupted,
+    recoveryReport,
+    dismissRecoveryReport,
+    migrationReport,
   } = useAppStore();
 
-  const { setLastViewedDate, loadPreferences } = usePreferencesStore();
+  const {
+    setLastViewedDate,
+    loadPreferences,
+    rolloverMode,
+    sortOrder,
+    setSortOrder,
+    savedQueries,
+    keymap,
+  } = usePreferencesStore();
 
   // Initialize app on mount
   useEffect(() => {
@@ -62,6 +160,16 @@ function App() {
     initialize();
   }, [initializeApp, loadPreferences, loadTasks]);
 
+  // Report the schema upgrade done at startup
+  useEffect(() => {
+    if (migrationReport) {
+      const { fromVersion, toVersion } = migrationReport;
+      toast.success(
+        `Your data was upgraded from version ${fromVersion} to ${toVersion}`
+      );
+    }
+  }, [migrationReport]);
+
   // Update last viewed date when selected date changes
   useEffect(() => {
     if (isInitialized) {
@@ -69,67 +177,82 @@ function App() {
     }
   }, [selectedDate, setLastViewedDate, isInitialized]);
 
-  // Keyboard shortcuts
-  useKeyboardShortcuts(
-    [
-      {
-        key: 'n',
-        description: 'Focus task input',
-        handler: () => {
-          if (inputRef.current && !isReadOnlyMode) {
-            inputRef.current.focus();
-          }
-        },
-      },
-      {
-        key: 'ArrowLeft',
-        description: 'Previous day',
-        handler: () => {
-          const prevDate = addDays(selectedDate, -1);
-          setSelectedDate(prevDate);
-        },
-      },
-      {
-        key: 'ArrowRight',
-        description: 'Next day',
-        handler: () => {
-          const today = getTodayISO();
-          if (selectedDate < today) {
-            const nextDate = addDays(selectedDate, 1);
-            setSelectedDate(nextDate);
-          }
-        },
-      },
-      {
-        key: 't',
-        description: 'Go to today',
-        handler: () => {
-          setSelectedDate(getTodayISO());
-        },
-      },
-      {
-        key: 'Escape',
-        description: 'Close dialogs',
-        handler: () => {
-          setDeleteTaskId(null);
-          setEditTask(null);
-        },
-      },
-      {
-        key: 'e',
-        ctrlKey: true,
-        description: 'Export data',
-        handler: () => {
-          handleExportData();
-        },
-      },
-    ],
-    isInitialized && !isReadOnlyMode
-  );
+  // Selection is per day
+  useEffect(() => {
+    setSelection(null);
+  }, [selectedDate]);
+
+  // Materialize recurring tasks for the date being viewed
+  useEffect(() => {
+    if (isInitialized && !isReadOnlyMode) {
+      materializeDate(selectedDate);
+    }
+  }, [selectedDate, series, materializeDate, isInitialized, isReadOnlyMode]);
+
+  // Carry over unfinished tasks on start and whenever the day changes
+  // Only the tab holding the lock runs it
+  useEffect(() => {
+    if (
+      !isInitialized ||
+      isReadOnlyMode ||
+      !hasTabLock ||
+      rolloverMode === 'off'
+    ) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const run = () => {
+      carryOverTasks();
+      timer = setTimeout(run, getMsUntilTomorrow() + 1000);
+    };
+    run();
+
+    return () => clearTimeout(timer);
+  }, [isInitialized, isReadOnlyMode, hasTabLock, rolloverMode, carryOverTasks]);
+
+  // Delete expired tasks from the trash; only the tab holding the lock runs it
+  useEffect(() => {
+    if (isInitialized && !isReadOnlyMode && hasTabLock) {
+      purgeExpiredTrash();
+    }
+  }, [isInitialized, isReadOnlyMode, hasTabLock, purgeExpiredTrash]);
+
+  // Deliver due reminders, then check again when the next one is due
+  // Rescheduled whenever the tasks change; only the tab holding the lock runs it
+  useEffect(() => {
+    if (!isInitialized || isReadOnlyMode || !hasTabLock) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const run = () => {
+      deliverReminders();
+      timer = setTimeout(run, getReminderDelay(tasks) + 1000);
+    };
+    run();
+
+    return () => clearTimeout(timer);
+  }, [isInitialized, isReadOnlyMode, hasTabLock, tasks, deliverReminders]);
 
   // Handlers
-  const handleAddTask = (description: string) => {
-    addTask(description, selectedDate);
+  // New tasks get the filtered tags, so they stay visible
+  const handleAddTask = (description: string, priority: TaskPriority) => {
+    addTask(description, selectedDate, priority, activeTagFilter);
+  };
+
+  const handleAddRecurringTask = (
+    description: string,
+    rule: RecurrenceRule,
+    priority: TaskPriority
+  ) => {
+    addRecurringTask(
+      description,
+      rule,
+      selectedDate,
+      priority,
+      activeTagFilter
+    );
   };
 
   const handleToggleTask = (id: string) => {
@@ -143,12 +266,46 @@ function App() {
     }
   };
 
-  const handleSaveEdit = (description: string) => {
+  const handleSaveEdit = (changes: TaskEdits) => {
+    if (editTask) {
+      updateTask(editTask.id, changes);
+    }
+  };
+
+  const handleSaveFutureOccurrences = (
+    changes: TaskEdits,
+    rule: RecurrenceRule
+  ) => {
     if (editTask) {
-      updateTask(editTask.id, { description });
+      updateFutureOccurrences(editTask.id, changes, rule);
     }
   };
 
+  const handleRescheduleTask = (id: string, mode: RescheduleMode) => {
+    setReschedule({ ids: [id], mode });
+  };
+
+  const handleConfirmReschedule = (date: string) => {
+    const [id] = reschedule?.ids ?? [];
+    if (reschedule?.ids.length === 1 && id) {
+      rescheduleTask(id, date, reschedule.mode);
+    } else if (reschedule) {
+      bulkUpdateTasks(reschedule.ids, { type: 'move', date });
+    }
+  };
+
+  const handleSelectAll = () => {
+    setSelection(new Set(currentTasks.map((task) => task.id)));
+  };
+
+  const handleBulkAction = (action: BulkAction) => {
+    bulkUpdateTasks(selectedIds, action);
+  };
+
+  const handleBulkDelete = () => {
+    bulkDeleteTasks(selectedIds);
+  };
+
   const handleDeleteTask = (id: string) => {
     setDeleteTaskId(id);
   };
@@ -160,35 +317,314 @@ function App() {
     }
   };
 
-  const handleExportData = () => {
-    const rawData = exportRawData();
-    const blob = new Blob([rawData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `todo-app-backup-${new Date().toISOString()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExportData = async () => {
+    const rawData = await exportRawData();
+    downloadFile(
+      rawData,
+      `todo-app-backup-${new Date().toISOString()}.json`,
+      'application/json'
+    );
+  };
+
+  const handleBackupRestored = async () => {
+    await loadPreferences();
+    await loadTasks();
+  };
+
+  const handleImportData = async (plan: ImportPlan) => {
+    const imported = await importData(plan);
+    if (imported && isStorageCorrupted) {
+      // Storage is readable again, so leave read-only mode
+      await initializeApp();
+    }
+    if (imported) {
+      await loadPreferences();
+      await loadTasks();
+    }
+    return imported;
   };
 
   const handleResetStorage = async () => {
-    if (
-      confirm('This will delete all your tasks. Are you sure?')
-    ) {
-      clearStorage();
+    if (confirm('This will delete all your tasks. Are you sure?')) {
+      await clearStorage();
       const initialData = createInitialAppData();
       await atomicWrite(initialData);
       window.location.reload();
     }
   };
 
-  // Get tasks for selected date
-  const currentTasks = getTasksByDate(selectedDate);
-  const taskCounts = getTaskCounts();
+  // Get tasks for selected date, ignoring filtered tags that were deleted
+  const activeTagFilter = tagFilter.filter((id) =>
+    tags.some((tag) => tag.id === id)
+  );
+  const dateTasks = getTasksByDate(selectedDate);
+  const currentTasks = filterTasksByTags(dateTasks, activeTagFilter);
+  const taskCounts = getTaskCounts(activeTagFilter);
+  const selectedTasks = selection
+    ? currentTasks.filter((task) => selection.has(task.id))
+    : [];
+  const selectedIds = selectedTasks.map((task) => task.id);
+  const rescheduledTasks = reschedule
+    ? tasks.filter((t) => reschedule.ids.includes(t.id))
+    : [];
   const isSelectedToday = isToday(selectedDate);
 
+  const closeDialogs = () => {
+    setDeleteTaskId(null);
+    setEditTask(null);
+    setIsBackupHistoryOpen(false);
+    setIsImportOpen(false);
+    setIsExportOpen(false);
+    setIsTrashOpen(false);
+    setIsSettingsOpen(false);
+    setIsTagManagerOpen(false);
+    setSearchQuery(null);
+    setIsCommandPaletteOpen(false);
+    setIsShortcutsOpen(false);
+    setReschedule(null);
+    setSelection(null);
+  };
+
+  // Every action, shared by the keyboard shortcuts, the command palette and the header
+  // Commands that change data are disabled in read-only mode
+  const commands: Command[] = [
+    {
+      id: 'task.add',
+      title: 'Add task',
+      group: 'Tasks',
+      shortcuts: ['n'],
+      keywords: ['new', 'create', 'focus'],
+      disabled: isReadOnlyMode,
+      run: () => inputRef.current?.focus(),
+    },
+    {
+      id: 'task.select',
+      title: 'Select tasks',
+      group: 'Tasks',
+      disabled:
+        isReadOnlyMode || selection !== null || currentTasks.length === 0,
+      run: () => setSelection(new Set()),
+    },
+    {
+      id: 'task.selectAll',
+      title: 'Select all tasks',
+      group: 'Tasks',
+      shortcuts: ['Ctrl+A'],
+      disabled: isReadOnlyMode,
+      run: () => handleSelectAll(),
+    },
+    {
+      id: 'history.undo',
+      title: 'Undo',
+      group: 'Tasks',
+      shortcuts: ['Ctrl+Z'],
+      disabled: isReadOnlyMode,
+      run: () => undo(),
+    },
+    {
+      id: 'history.redo',
+      title: 'Redo',
+      group: 'Tasks',
+      shortcuts: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      disabled: isReadOnlyMode,
+      run: () => redo(),
+    },
+    {
+      id: 'search.open',
+      title: 'Search tasks',
+      group: 'Navigation',
+      shortcuts: ['/'],
+      keywords: ['find', 'filter'],
+      run: () => setSearchQuery(''),
+    },
+    {
+      id: 'date.previous',
+      title: 'Previous day',
+      group: 'Navigation',
+      shortcuts: ['ArrowLeft'],
+      run: () => setSelectedDate(addDays(selectedDate, -1)),
+    },
+    {
+      id: 'date.next',
+      title: 'Next day',
+      group: 'Navigation',
+      shortcuts: ['ArrowRight'],
+      disabled: selectedDate >= getTodayISO(),
+      run: () => setSelectedDate(addDays(selectedDate, 1)),
+    },
+    {
+      id: 'date.today',
+      title: 'Go to today',
+      group: 'Navigation',
+      shortcuts: ['t', 'g t'],
+      run: () => setSelectedDate(getTodayISO()),
+    },
+    {
+      id: 'date.goTo',
+      title: 'Go to date',
+      group: 'Navigation',
+      keywords: ['jump', 'calendar'],
+      prompt: {
+        placeholder: 'YYYY-MM-DD, yesterday or 7d (7 days ago)',
+        validate: (value) => {
+          const date = parseDateValue(value);
+          if (!date) {
+            return 'Enter a date like 2025-01-31, yesterday or 7d';
+          }
+          return date > getTodayISO() ? 'Future dates cannot be opened' : null;
+        },
+      },
+      run: (value = '') => {
+        const date = parseDateValue(value);
+        if (date) {
+          setSelectedDate(date);
+        }
+      },
+    },
+    ...SORT_ORDERS.map(
+      (order): Command => ({
+        id: `view.sort.${order.value}`,
+        title: `Sort ${order.label.toLowerCase()}`,
+        group: 'View',
+        keywords: ['order'],
+        disabled: isReadOnlyMode || sortOrder === order.value,
+        run: () => setSortOrder(order.value),
+      })
+    ),
+    ...tags.map(
+      (tag): Command => ({
+        id: `view.tag.${tag.id}`,
+        title: activeTagFilter.includes(tag.id)
+          ? `Stop filtering by #${tag.name}`
+          : `Filter by #${tag.name}`,
+        group: 'View',
+        keywords: ['tag'],
+        run: () =>
+          setTagFilter(
+            activeTagFilter.includes(tag.id)
+              ? activeTagFilter.filter((id) => id !== tag.id)
+              : [...activeTagFilter, tag.id]
+          ),
+      })
+    ),
+    {
+      id: 'view.tags.clear',
+      title: 'Show all tags',
+      group: 'View',
+      keywords: ['filter', 'clear'],
+      disabled: activeTagFilter.length === 0,
+      run: () => setTagFilter([]),
+    },
+    {
+      id: 'view.readOnlyInfo',
+      title: isReadOnlyInfoHidden
+        ? 'Show read-only details'
+        : 'Hide read-only details',
+      group: 'View',
+      keywords: ['banner', 'error', 'locked'],
+      disabled: !isReadOnlyMode || !readOnlyReason,
+      run: () => setIsReadOnlyInfoHidden((hidden) => !hidden),
+    },
+    ...savedQueries.map(
+      (saved): Command => ({
+        id: `query.${saved.id}`,
+        title: `Run ${saved.name}`,
+        group: 'Saved queries',
+        keywords: [saved.query, 'view'],
+        run: () => setSearchQuery(saved.query),
+      })
+    ),
+    {
+      id: 'data.exportBackup',
+      title: 'Export backup',
+      group: 'Data',
+      shortcuts: ['Ctrl+E'],
+      keywords: ['json', 'download', 'raw data'],
+      run: () => handleExportData(),
+    },
+    {
+      id: 'data.export',
+      title: 'Export tasks',
+      group: 'Data',
+      keywords: ['csv', 'markdown', 'icalendar', 'todo.txt', 'report'],
+      run: () => setIsExportOpen(true),
+    },
+    {
+      id: 'data.import',
+      title: 'Import data',
+      group: 'Data',
+      shortcuts: ['Ctrl+I'],
+      keywords: ['backup', 'restore', 'upload'],
+      disabled: isReadOnlyMode && !isStorageCorrupted,
+      run: () => setIsImportOpen(true),
+    },
+    {
+      id: 'data.backups',
+      title: 'Backup history',
+      group: 'Data',
+      keywords: ['restore', 'snapshot'],
+      run: () => setIsBackupHistoryOpen(true),
+    },
+    {
+      id: 'data.trash',
+      title: 'Open trash',
+      group: 'Data',
+      keywords: ['deleted', 'restore'],
+      run: () => setIsTrashOpen(true),
+    },
+    {
+      id: 'app.tags',
+      title: 'Manage tags',
+      group: 'General',
+      run: () => setIsTagManagerOpen(true),
+    },
+    {
+      id: 'app.settings',
+      title: 'Settings',
+      group: 'General',
+      keywords: ['preferences', 'options'],
+      run: () => setIsSettingsOpen(true),
+    },
+    {
+      id: 'app.commandPalette',
+      title: 'Command palette',
+      group: 'General',
+      shortcuts: ['Ctrl+K'],
+      allowInInput: true,
+      hidden: true,
+      run: () => setIsCommandPaletteOpen(true),
+    },
+    {
+      id: 'app.shortcuts',
+      title: 'Keyboard shortcuts',
+      group: 'General',
+      shortcuts: ['?'],
+      keywords: ['keys', 'help', 'bindings'],
+      run: () => setIsShortcutsOpen(true),
+    },
+    {
+      id: 'app.closeDialogs',
+      title: 'Close dialogs',
+      group: 'General',
+      shortcuts: ['Escape'],
+      hidden: true,
+      run: closeDialogs,
+    },
+  ];
+
+  useKeyboardShortcuts(getCommandShortcuts(commands, keymap), isInitialized);
+
+  // Header buttons run the same commands, with their shortcut in the tooltip
+  const runCommand = (id: string) =>
+    commands.find((command) => command.id === id)?.run();
+  const getCommandTooltip = (id: string) => {
+    const command = commands.find((candidate) => candidate.id === id);
+    const [shortcut] = command ? getCommandKeys(command, keymap) : [];
+    return shortcut
+      ? `${command?.title} (${getKeySequenceText(shortcut)})`
+      : command?.title;
+  };
+
   if (!isInitialized) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -204,46 +640,192 @@ function App() {
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-2xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
         {/* Header */}
-        <header className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Daily Todo</h1>
-          <p className="mt-1 text-sm text-gray-500">
-            Manage your tasks day by day
-          </p>
+        <header className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Daily Todo</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Manage your tasks day by day
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => setIsCommandPaletteOpen(true)}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Command palette"
+              title={getCommandTooltip('app.commandPalette')}
+            >
+              <CommandLineIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('search.open')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Search tasks"
+              title={getCommandTooltip('search.open')}
+            >
+              <MagnifyingGlassIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('data.export')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Export tasks"
+              title="Export tasks (CSV, Markdown, iCalendar, todo.txt)"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('data.import')}
+              disabled={isReadOnlyMode && !isStorageCorrupted}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+              aria-label="Import backup"
+              title={getCommandTooltip('data.import')}
+            >
+              <ArrowUpTrayIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('data.backups')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Backup history"
+              title={getCommandTooltip('data.backups')}
+            >
+              <ClockIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('data.trash')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Trash"
+              title={getCommandTooltip('data.trash')}
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('app.tags')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Tags"
+              title={getCommandTooltip('app.tags')}
+            >
+              <TagIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => runCommand('app.settings')}
+              className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              aria-label="Settings"
+              title={getCommandTooltip('app.settings')}
+            >
+              <Cog6ToothIcon className="h-5 w-5" />
+            </button>
+          </div>
         </header>
 
         {/* Error Banner (Read-Only Mode) */}
-        {isReadOnlyMode && readOnlyReason && (
+        {isReadOnlyMode && readOnlyReason && !isReadOnlyInfoHidden && (
           <ErrorBanner
             message={readOnlyReason}
             onExport={handleExportData}
             onReset={handleResetStorage}
+            onImport={
+              isStorageCorrupted ? () => setIsImportOpen(true) : undefined
+            }
           />
         )}
 
+        {/* Pinned Saved Queries */}
+        <SavedViews
+          views={savedQueries.filter((saved) => saved.pinned)}
+          onOpen={setSearchQuery}
+        />
+
         {/* Date Picker */}
         <DatePicker
           selectedDate={selectedDate}
           onDateChange={setSelectedDate}
           taskCounts={taskCounts}
+          urgentDates={getUrgentDates()}
+          onTaskDrop={
+            isReadOnlyMode
+              ? undefined
+              : (id, date, copy) =>
+                  rescheduleTask(id, date, copy ? 'copy' : 'move')
+          }
         />
 
         {/* Task Form */}
         <TaskForm
           ref={inputRef}
           onAddTask={handleAddTask}
+          onAddRecurringTask={handleAddRecurringTask}
+          date={selectedDate}
           readOnly={isReadOnlyMode}
           isLoading={isLoading}
         />
 
+        {/* Tag Filter */}
+        {tags.length > 0 && (
+          <TagFilterBar
+            tags={tags}
+            selected={activeTagFilter}
+            onChange={setTagFilter}
+            onManage={() => setIsTagManagerOpen(true)}
+          />
+        )}
+
+        {/* Bulk Actions */}
+        {selection ? (
+          <BulkActionBar
+            selectedTasks={selectedTasks}
+            totalCount={currentTasks.length}
+            tags={tags}
+            onAction={handleBulkAction}
+            onMove={() => setReschedule({ ids: selectedIds, mode: 'move' })}
+            onDelete={handleBulkDelete}
+            onSelectAll={handleSelectAll}
+            onClose={() => setSelection(null)}
+            readOnly={isReadOnlyMode}
+          />
+        ) : (
+          currentTasks.length > 0 &&
+          !isReadOnlyMode && (
+            <div className="mb-2 flex justify-end">
+              <button
+                type="button"
+                onClick={() => setSelection(new Set())}
+                className="flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 transition-colors"
+                title="Select tasks (Ctrl+A selects all)"
+              >
+                <CheckCircleIcon className="h-4 w-4" aria-hidden="true" />
+                Select
+              </button>
+            </div>
+          )
+        )}
+
         {/* Task List or Empty State */}
-        {currentTasks.length === 0 ? (
+        {currentTasks.length === 0 && dateTasks.length > 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            No tasks with the selected tags
+          </p>
+        ) : currentTasks.length === 0 ? (
           <EmptyState date={selectedDate} isToday={isSelectedToday} />
         ) : (
           <TaskList
             tasks={currentTasks}
+            tags={tags}
             onToggle={handleToggleTask}
+            onToggleChecklistItem={toggleChecklistItem}
             onEdit={handleEditTask}
             onDelete={handleDeleteTask}
+            onReschedule={handleRescheduleTask}
+            onReorder={reorderTask}
+            selectedIds={selection ?? undefined}
+            onSelectionChange={setSelection}
+            sortOrder={sortOrder}
             readOnly={isReadOnlyMode}
           />
         )}
@@ -255,7 +837,9 @@ function App() {
             onClose={() => setDeleteTaskId(null)}
             onConfirm={handleConfirmDelete}
             taskDescription={
-              deleteTaskId ? tasks.find((t) => t.id === deleteTaskId)?.description : undefined
+              deleteTaskId
+                ? tasks.find((t) => t.id === deleteTaskId)?.description
+                : undefined
             }
           />
         </Suspense>
@@ -266,7 +850,133 @@ function App() {
             isOpen={editTask !== null}
             onClose={() => setEditTask(null)}
             onSave={handleSaveEdit}
+            onSaveFuture={handleSaveFutureOccurrences}
             task={editTask}
+            tags={tags}
+            series={series.find((s) => s.id === editTask?.seriesId) ?? null}
+          />
+        </Suspense>
+
+        {/* Move / Duplicate to Date Dialog */}
+        <Suspense fallback={null}>
+          <RescheduleDialog
+            isOpen={reschedule !== null}
+            onClose={() => setReschedule(null)}
+            onConfirm={handleConfirmReschedule}
+            date={rescheduledTasks[0]?.date ?? null}
+            description={
+              rescheduledTasks.length === 1
+                ? `"${rescheduledTasks[0]?.description}"`
+                : countTasks(rescheduledTasks.length)
+            }
+            mode={reschedule?.mode ?? 'move'}
+            taskCounts={taskCounts}
+          />
+        </Suspense>
+
+        {/* Search Dialog */}
+        <Suspense fallback={null}>
+          <SearchDialog
+            isOpen={searchQuery !== null}
+            onClose={() => setSearchQuery(null)}
+            onSelectDate={setSelectedDate}
+            tags={tags}
+            initialQuery={searchQuery ?? undefined}
+            readOnly={isReadOnlyMode}
+          />
+        </Suspense>
+
+        {/* Command Palette */}
+        <Suspense fallback={null}>
+          <CommandPalette
+            isOpen={isCommandPaletteOpen}
+            onClose={() => setIsCommandPaletteOpen(false)}
+            commands={commands}
+            keymap={keymap}
+          />
+        </Suspense>
+
+        {/* Keyboard Shortcuts Overlay */}
+        <Suspense fallback={null}>
+          <ShortcutsOverlay
+            isOpen={isShortcutsOpen}
+            onClose={() => setIsShortcutsOpen(false)}
+            commands={commands}
+            keymap={keymap}
+            onCustomize={() => {
+              setIsShortcutsOpen(false);
+              setIsSettingsOpen(true);
+            }}
+          />
+        </Suspense>
+
+        {/* Recovery Report Dialog */}
+        <Suspense fallback={null}>
+          <RecoveryReportDialog
+            isOpen={recoveryReport !== null}
+            onClose={dismissRecoveryReport}
+            report={recoveryReport}
+          />
+        </Suspense>
+
+        {/* Backup History Dialog */}
+        <Suspense fallback={null}>
+          <BackupHistoryDialog
+            isOpen={isBackupHistoryOpen}
+            onClose={() => setIsBackupHistoryOpen(false)}
+            onRestored={handleBackupRestored}
+            currentTasks={tasks}
+            readOnly={isReadOnlyMode}
+          />
+        </Suspense>
+
+        {/* Import Dialog */}
+        <Suspense fallback={null}>
+          <ImportDialog
+            isOpen={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            onImport={handleImportData}
+            currentTasks={tasks}
+            allowMerge={!isStorageCorrupted}
+            readOnly={isReadOnlyMode && !isStorageCorrupted}
+          />
+        </Suspense>
+
+        {/* Export Dialog */}
+        <Suspense fallback={null}>
+          <ExportDialog
+            isOpen={isExportOpen}
+            onClose={() => setIsExportOpen(false)}
+            tasks={tasks}
+            tags={tags}
+          />
+        </Suspense>
+
+        {/* Trash Dialog */}
+        <Suspense fallback={null}>
+          <TrashDialog
+            isOpen={isTrashOpen}
+            onClose={() => setIsTrashOpen(false)}
+            readOnly={isReadOnlyMode}
+          />
+        </Suspense>
+
+        {/* Settings Dialog */}
+        <Suspense fallback={null}>
+          <SettingsDialog
+            isOpen={isSettingsOpen}
+            onClose={() => setIsSettingsOpen(false)}
+            commands={commands}
+            readOnly={isReadOnlyMode}
+          />
+        </Suspense>
+
+        {/* Tag Manager Dialog */}
+        <Suspense fallback={null}>
+          <TagManagerDialog
+            isOpen={isTagManagerOpen}
+            onClose={() => setIsTagManagerOpen(false)}
+            readOnly={isReadOnlyMode}
           />
         </Suspense>
 
@@ -0,0 +1,318 @@
+import { Fragment, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useBackupStore } from '../stores/backupStore';
+import { formatDate, getRelativeTime } from '../utils/dateUtils';
+import type {
+  SnapshotInfo,
+  SnapshotInterval,
+  TaskDiff,
+} from '../utils/backups';
+import type { Task } from '../types';
+
+interface BackupHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+  currentTasks: Task[];
+  readOnly?: boolean;
+}
+
+const INTERVAL_LABELS: Record<SnapshotInterval, string> = {
+  'every-write': 'on every change',
+  hourly: 'hourly',
+  daily: 'daily',
+};
+
+const SNAPSHOT_COUNTS = [5, 10, 20, 50];
+
+function formatDateRange(snapshot: SnapshotInfo): string {
+  if (!snapshot.oldestTaskDate || !snapshot.newestTaskDate) {
+    return 'No tasks';
+  }
+  if (snapshot.oldestTaskDate === snapshot.newestTaskDate) {
+    return formatDate(snapshot.oldestTaskDate, 'MMM d, yyyy');
+  }
+  return `${formatDate(snapshot.oldestTaskDate, 'MMM d, yyyy')} – ${formatDate(
+    snapshot.newestTaskDate,
+    'MMM d, yyyy'
+  )}`;
+}
+
+function DiffList({
+  title,
+  tasks,
+  className,
+}: {
+  title: string;
+  tasks: Task[];
+  className: string;
+}) {
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h5 className={`text-xs font-medium ${className}`}>
+        {title} ({tasks.length})
+      </h5>
+      <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+        {tasks.slice(0, 5).map((task) => (
+          <li key={task.id} className="truncate">
+            {formatDate(task.date, 'MMM d')} · {task.description}
+          </li>
+        ))}
+        {tasks.length > 5 && (
+          <li className="text-gray-400">and {tasks.length - 5} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function DiffPreview({ diff }: { diff: TaskDiff }) {
+  if (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  ) {
+    return (
+      <p className="text-xs text-gray-500">Identical to your current tasks.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <DiffList
+        title="Will be restored"
+        tasks={diff.added}
+        className="text-green-700"
+      />
+      <DiffList
+        title="Will be changed"
+        tasks={diff.changed.map((change) => change.after)}
+        className="text-amber-700"
+      />
+      <DiffList
+        title="Will be removed"
+        tasks={diff.removed}
+        className="text-red-700"
+      />
+    </div>
+  );
+}
+
+export default function BackupHistoryDialog({
+  isOpen,
+  onClose,
+  onRestored,
+  currentTasks,
+  readOnly = false,
+}: BackupHistoryDialogProps) {
+  const {
+    snapshots,
+    settings,
+    isLoading,
+    previewId,
+    previewDiff,
+    loadSnapshots,
+    previewSnapshot,
+    clearPreview,
+    restoreSnapshot,
+    updateSettings,
+  } = useBackupStore();
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSnapshots();
+    } else {
+      clearPreview();
+    }
+  }, [isOpen, loadSnapshots, clearPreview]);
+
+  const handleRestore = async (id: string) => {
+    if (await restoreSnapshot(id)) {
+      onRestored();
+      onClose();
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <ClockIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Backup History
+                </Dialog.Title>
+
+                {isLoading && snapshots.length === 0 ? (
+                  <p className="text-sm text-gray-500">Loading backups...</p>
+                ) : snapshots.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No backups yet. A backup is taken before your next change.
+                  </p>
+                ) : (
+                  <ul
+                    className="max-h-80 overflow-y-auto divide-y divide-gray-100"
+                    role="list"
+                  >
+                    {snapshots.map((snapshot) => (
+                      <li key={snapshot.id} className="py-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900">
+                              {formatDate(
+                                snapshot.createdAt,
+                                'MMM d, yyyy HH:mm'
+                              )}
+                              {snapshot.reason !== 'scheduled' && (
+                                <span className="ml-2 text-xs font-normal text-amber-700">
+                                  {snapshot.reason === 'before-import'
+                                    ? 'before import'
+                                    : 'before restore'}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {getRelativeTime(snapshot.createdAt)} ·{' '}
+                              {snapshot.taskCount} task
+                              {snapshot.taskCount !== 1 ? 's' : ''} ·{' '}
+                              {formatDateRange(snapshot)}
+                            </p>
+                          </div>
+                          <div className="flex flex-shrink-0 gap-2">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                previewId === snapshot.id
+                                  ? clearPreview()
+                                  : previewSnapshot(snapshot.id, currentTasks)
+                              }
+                              className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                              aria-expanded={previewId === snapshot.id}
+                            >
+                              {previewId === snapshot.id ? 'Hide' : 'Compare'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(snapshot.id)}
+                              disabled={readOnly}
+                              className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                              aria-label={`Restore backup from ${formatDate(snapshot.createdAt, 'MMM d, yyyy HH:mm')}`}
+                            >
+                              Restore
+                            </button>
+                          </div>
+                        </div>
+
+                        {previewId === snapshot.id && (
+                          <div className="mt-2 rounded-lg bg-gray-50 p-3">
+                            {previewDiff ? (
+                              <DiffPreview diff={previewDiff} />
+                            ) : (
+                              <p className="text-xs text-gray-500">
+                                Comparing...
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Settings */}
+                <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-gray-100 pt-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    Keep
+                    <select
+                      value={settings.maxSnapshots}
+                      onChange={(e) =>
+                        updateSettings({
+                          ...settings,
+                          maxSnapshots: Number(e.target.value),
+                        })
+                      }
+                      disabled={readOnly}
+                      className="rounded border-gray-300 text-sm"
+                      aria-label="Number of backups to keep"
+                    >
+                      {SNAPSHOT_COUNTS.map((count) => (
+                        <option key={count} value={count}>
+                          {count}
+                        </option>
+                      ))}
+                    </select>
+                    backups
+                  </label>
+                  <label className="flex items-center gap-2">
+                    taken
+                    <select
+                      value={settings.interval}
+                      onChange={(e) =>
+                        updateSettings({
+                          ...settings,
+                          interval: e.target.value as SnapshotInterval,
+                        })
+                      }
+                      disabled={readOnly}
+                      className="rounded border-gray-300 text-sm"
+                      aria-label="Backup interval"
+                    >
+                      {Object.entries(INTERVAL_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,165 @@
+import {
+  ArrowUturnLeftIcon,
+  CalendarDaysIcon,
+  CheckIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { Tag, Task, TaskPriority } from '../types';
+import { countTasks, type BulkAction } from '../utils/bulk';
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '../utils/priority';
+
+interface BulkActionBarProps {
+  selectedTasks: Task[];
+  totalCount: number; // Tasks that can be selected
+  tags: Tag[];
+  onAction: (action: BulkAction) => void;
+  onMove: () => void;
+  onDelete: () => void;
+  onSelectAll: () => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Actions on the selected tasks, shown while selecting
+ * The tag menu removes a tag when every selected task already has it
+ */
+export default function BulkActionBar({
+  selectedTasks,
+  totalCount,
+  tags,
+  onAction,
+  onMove,
+  onDelete,
+  onSelectAll,
+  onClose,
+  readOnly = false,
+}: BulkActionBarProps) {
+  const count = selectedTasks.length;
+  const isDisabled = readOnly || count === 0;
+  const hasTagOnAll = (tagId: string) =>
+    count > 0 && selectedTasks.every((task) => task.tags.includes(tagId));
+
+  const handleTag = (tagId: string) => {
+    if (tagId) {
+      onAction({ type: 'tag', tagId, remove: hasTagOnAll(tagId) });
+    }
+  };
+
+  const handlePriority = (priority: string) => {
+    if (priority) {
+      onAction({ type: 'priority', priority: priority as TaskPriority });
+    }
+  };
+
+  const buttonClasses =
+    'flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 transition-colors';
+  const selectClasses =
+    'rounded-lg border-gray-300 py-1 pl-2 pr-8 text-sm focus:border-primary-500 focus:ring-primary-500 disabled:opacity-50';
+
+  return (
+    <div
+      className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 p-2"
+      role="toolbar"
+      aria-label="Selected tasks"
+    >
+      <span
+        className="px-1 text-sm font-medium text-gray-900"
+        aria-live="polite"
+      >
+        {count} selected
+      </span>
+      {count < totalCount && (
+        <button
+          type="button"
+          onClick={onSelectAll}
+          className={buttonClasses}
+          title="Select all (Ctrl+A)"
+        >
+          Select all
+        </button>
+      )}
+
+      <div className="flex flex-1 flex-wrap items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onAction({ type: 'complete' })}
+          disabled={isDisabled}
+          className={buttonClasses}
+        >
+          <CheckIcon className="h-4 w-4" aria-hidden="true" />
+          Complete
+        </button>
+        <button
+          type="button"
+          onClick={() => onAction({ type: 'uncomplete' })}
+          disabled={isDisabled}
+          className={buttonClasses}
+        >
+          <ArrowUturnLeftIcon className="h-4 w-4" aria-hidden="true" />
+          Reopen
+        </button>
+        <button
+          type="button"
+          onClick={onMove}
+          disabled={isDisabled}
+          className={buttonClasses}
+        >
+          <CalendarDaysIcon className="h-4 w-4" aria-hidden="true" />
+          Move…
+        </button>
+        {tags.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleTag(e.target.value)}
+            disabled={isDisabled}
+            className={selectClasses}
+            aria-label="Add or remove tag"
+          >
+            <option value="">Tag…</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {hasTagOnAll(tag.id) ? `✓ ${tag.name}` : tag.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value=""
+          onChange={(e) => handlePriority(e.target.value)}
+          disabled={isDisabled}
+          className={selectClasses}
+          aria-label="Set priority"
+        >
+          <option value="">Priority…</option>
+          {PRIORITY_LEVELS.map((priority) => (
+            <option key={priority} value={priority}>
+              {PRIORITY_LABELS[priority]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={isDisabled}
+          className={`${buttonClasses} hover:text-red-600`}
+          aria-label={`Delete ${countTasks(count)}`}
+        >
+          <TrashIcon className="h-4 w-4" aria-hidden="true" />
+          Delete
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={onClose}
+        className="rounded p-1 text-gray-500 hover:bg-gray-100"
+        aria-label="Stop selecting"
+        title="Stop selecting (Esc)"
+      >
+        <XMarkIcon className="h-5 w-5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import {
+  formatDate,
+  isToday as checkIsToday,
+  getDatesInMonth,
+  getMonthName,
+  parseISO,
+} from '../utils/dateUtils';
+import { TASK_DRAG_TYPE } from '../utils/reschedule';
+import type { TaskCounts } from '../types';
+
+interface CalendarGridProps {
+  month: string; // Any YYYY-MM-DD in the month shown
+  onMonthChange: (month: string) => void;
+  selectedDate: string | null;
+  onSelect: (date: string) => void;
+  isDisabled?: (date: string) => boolean;
+  taskCounts?: TaskCounts;
+  urgentDates?: Set<string>; // Dates with pending urgent tasks
+  onTaskDrop?: (taskId: string, date: string, copy: boolean) => void; // Enables dropping tasks on days
+}
+
+/**
+ * Month calendar with task counts, used by the date picker and the move dialog
+ */
+export default function CalendarGrid({
+  month,
+  onMonthChange,
+  selectedDate,
+  onSelect,
+  isDisabled = () => false,
+  taskCounts = {},
+  urgentDates,
+  onTaskDrop,
+}: CalendarGridProps) {
+  const [dropDate, setDropDate] = useState<string | null>(null);
+
+  const handlePrevMonth = () => {
+    const date = parseISO(month);
+    date.setMonth(date.getMonth() - 1);
+    onMonthChange(formatDate(date, 'yyyy-MM-dd'));
+  };
+
+  const handleNextMonth = () => {
+    const date = parseISO(month);
+    date.setMonth(date.getMonth() + 1);
+    onMonthChange(formatDate(date, 'yyyy-MM-dd'));
+  };
+
+  // Any day accepts a dropped task, including days that cannot be selected
+  // (their buttons let drag events through to the cell)
+  const getDropProps = (date: string): React.HTMLAttributes<HTMLDivElement> =>
+    onTaskDrop
+      ? {
+          onDragOver: (e) => {
+            if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) {
+              return;
+            }
+            e.preventDefault();
+            e.dataTransfer.dropEffect = e.altKey || e.ctrlKey ? 'copy' : 'move';
+            setDropDate(date);
+          },
+          onDragLeave: () => setDropDate(null),
+          onDrop: (e) => {
+            const taskId = e.dataTransfer.getData(TASK_DRAG_TYPE);
+            setDropDate(null);
+            if (taskId) {
+              e.preventDefault();
+              onTaskDrop(taskId, date, e.altKey || e.ctrlKey);
+            }
+          },
+        }
+      : {};
+
+  // Generate calendar dates
+  const monthDates = getDatesInMonth(month);
+  const firstDate = parseISO(monthDates[0] ?? month);
+  const startDay = firstDate.getDay(); // 0 = Sunday
+
+  // Pad with empty cells for alignment
+  const paddedDates = [...Array(startDay).fill(null), ...monthDates];
+
+  return (
+    <>
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={handlePrevMonth}
+          className="p-1 rounded hover:bg-gray-100"
+          aria-label="Previous month"
+        >
+          <ChevronLeftIcon className="h-5 w-5" />
+        </button>
+        <span className="font-medium">
+          {getMonthName(month)} {formatDate(month, 'yyyy')}
+        </span>
+        <button
+          type="button"
+          onClick={handleNextMonth}
+          className="p-1 rounded hover:bg-gray-100"
+          aria-label="Next month"
+        >
+          <ChevronRightIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Day names */}
+      <div className="grid grid-cols-7 gap-1 mb-2">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+          <div
+            key={day}
+            className="text-center text-xs font-medium text-gray-500 py-1"
+          >
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar grid */}
+      <div className="grid grid-cols-7 gap-1">
+        {paddedDates.map((date, index) => {
+          if (!date) {
+            return <div key={`empty-${index}`} />;
+          }
+
+          const isSelected = date === selectedDate;
+          const isTodayDate = checkIsToday(date);
+          const isDisabledDate = isDisabled(date);
+          const taskCount = taskCounts[date] || 0;
+          const hasUrgent = urgentDates?.has(date) ?? false;
+          const dayNum = formatDate(date, 'd');
+
+          return (
+            <div
+              key={date}
+              className={`grid rounded-lg ${dropDate === date ? 'ring-2 ring-primary-500' : ''}`}
+              {...getDropProps(date)}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(date)}
+                disabled={isDisabledDate}
+                className={`
+                  relative p-2 text-sm rounded-lg transition-colors
+                  ${isSelected ? 'bg-primary-600 text-white selected active' : ''}
+                  ${isTodayDate && !isSelected ? 'border-2 border-primary-600 today' : ''}
+                  ${isDisabledDate ? 'text-gray-300 cursor-not-allowed' : 'hover:bg-gray-100'}
+                  ${isDisabledDate && onTaskDrop ? 'pointer-events-none' : ''}
+                  ${!isSelected && !isDisabledDate ? 'text-gray-900' : ''}
+                `}
+                aria-label={`${dayNum}${isTodayDate ? ' today' : ''}${isSelected ? ' selected' : ''}${taskCount > 0 ? ` ${taskCount} tasks` : ''}${hasUrgent ? ' urgent' : ''}`}
+              >
+                <span>{dayNum}</span>
+                {hasUrgent && (
+                  <span
+                    className="absolute top-1 right-1 h-2 w-2 rounded-full bg-red-500"
+                    aria-hidden="true"
+                  />
+                )}
+                {taskCount > 0 && (
+                  <span
+                    className={`block text-xs ${isSelected ? 'text-white' : 'text-gray-500'}`}
+                  >
+                    {taskCount} task{taskCount !== 1 ? 's' : ''}
+                  </span>
+                )}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
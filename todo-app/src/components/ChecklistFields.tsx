@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import {
+  MAX_CHECKLIST_ITEMS,
+  MAX_CHECKLIST_ITEM_LENGTH,
+  createChecklistItem,
+  moveChecklistItem,
+  validateChecklistItemText,
+} from '../utils/checklist';
+import type { ChecklistItem } from '../types';
+
+interface ChecklistFieldsProps {
+  value: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  disabled?: boolean;
+}
+
+export default function ChecklistFields({
+  value,
+  onChange,
+  disabled = false,
+}: ChecklistFieldsProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isFull = value.length >= MAX_CHECKLIST_ITEMS;
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    onChange(
+      value.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    );
+  };
+
+  const handleAdd = () => {
+    const validationError = validateChecklistItemText(text);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    onChange([...value, createChecklistItem(text)]);
+    setText('');
+  };
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <ul className="mb-2 space-y-1" role="list">
+          {value.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={item.completed}
+                onChange={() =>
+                  updateItem(item.id, { completed: !item.completed })
+                }
+                disabled={disabled}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                aria-label={`Mark ${item.text} as ${item.completed ? 'incomplete' : 'complete'}`}
+              />
+              <input
+                type="text"
+                value={item.text}
+                onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+                disabled={disabled}
+                className="input-field min-w-0 flex-1 py-1 text-sm"
+                aria-label={`Checklist item ${index + 1}`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(moveChecklistItem(value, index, -1))}
+                disabled={disabled || index === 0}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                aria-label={`Move ${item.text} up`}
+              >
+                <ChevronUpIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveChecklistItem(value, index, 1))}
+                disabled={disabled || index === value.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                aria-label={`Move ${item.text} down`}
+              >
+                <ChevronDownIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(value.filter((other) => other.id !== item.id))
+                }
+                disabled={disabled}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                aria-label={`Remove ${item.text}`}
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            // Enter adds the item instead of submitting the surrounding form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+          disabled={disabled || isFull}
+          placeholder={
+            isFull ? `At most ${MAX_CHECKLIST_ITEMS} items` : 'Add an item...'
+          }
+          className="input-field min-w-0 flex-1 py-1 text-sm"
+          aria-label="New checklist item"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={disabled || isFull}
+          className="btn-secondary py-1 text-sm"
+        >
+          Add
+        </button>
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
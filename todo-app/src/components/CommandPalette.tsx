@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState, Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ChevronRightIcon, CommandLineIcon } from '@heroicons/react/24/outline';
+import { searchCommands, type Command } from '../utils/commands';
+import { getCommandKeys, type Keymap } from '../utils/keymap';
+import { getKeySequenceText } from '../hooks/useKeyboardShortcuts';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[];
+  keymap: Keymap;
+}
+
+// Title with the characters matched by the query in bold
+function MatchedTitle({
+  title,
+  indices,
+}: {
+  title: string;
+  indices: number[];
+}) {
+  if (indices.length === 0) {
+    return <>{title}</>;
+  }
+
+  const matched = new Set(indices);
+  return (
+    <>
+      {[...title].map((char, index) =>
+        matched.has(index) ? (
+          <b key={index} className="font-semibold text-gray-900">
+            {char}
+          </b>
+        ) : (
+          <Fragment key={index}>{char}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Fuzzy-searchable list of every available command
+ * ↑/↓ move through the commands and Enter runs the highlighted one. Commands
+ * that need a value, such as a date, ask for it before running.
+ */
+export default function CommandPalette({
+  isOpen,
+  onClose,
+  commands,
+  keymap,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [prompted, setPrompted] = useState<Command | null>(null); // Command asking for a value
+  const [promptError, setPromptError] = useState<string | null>(null);
+  // Run once the palette has closed and given focus back, so commands can move it
+  const pendingRun = useRef<(() => void) | null>(null);
+
+  const matches = prompted ? [] : searchCommands(commands, query);
+
+  useEffect(() => {
+    setActiveIndex(0);
+    setPromptError(null);
+  }, [query]);
+
+  // Keep the highlighted command in view
+  const activeId = matches[activeIndex]?.command.id;
+  useEffect(() => {
+    if (activeId) {
+      document
+        .getElementById(`command-${activeId}`)
+        ?.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [activeId]);
+
+  const handleRun = (command: Command) => {
+    if (command.prompt) {
+      setPrompted(command);
+      setQuery('');
+      return;
+    }
+    pendingRun.current = () => command.run();
+    onClose();
+  };
+
+  const handleSubmitPrompt = () => {
+    const error = prompted?.prompt?.validate(query) ?? null;
+    if (error) {
+      setPromptError(error);
+      return;
+    }
+    const value = query;
+    pendingRun.current = () => prompted?.run(value);
+    onClose();
+  };
+
+  const handleBack = () => {
+    setPrompted(null);
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (prompted) {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        handleSubmitPrompt();
+      } else if (e.key === 'Escape' || (e.key === 'Backspace' && !query)) {
+        // Back to the commands instead of closing the palette
+        e.preventDefault();
+        e.stopPropagation();
+        handleBack();
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) =>
+        Math.min(Math.max(index + step, 0), matches.length - 1)
+      );
+    } else if (e.key === 'Enter') {
+      const match = matches[activeIndex];
+      if (match) {
+        e.preventDefault();
+        handleRun(match.command);
+      }
+    }
+  };
+
+  return (
+    <Transition
+      appear
+      show={isOpen}
+      as={Fragment}
+      afterLeave={() => {
+        setQuery('');
+        setPrompted(null);
+        pendingRun.current?.();
+        pendingRun.current = null;
+      }}
+    >
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-start justify-center p-4 pt-16 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="sr-only">Command palette</Dialog.Title>
+                <div className="flex items-center gap-2 border-b border-gray-200 px-4">
+                  <CommandLineIcon
+                    className="h-5 w-5 text-gray-400"
+                    aria-hidden="true"
+                  />
+                  {prompted && (
+                    <span className="flex shrink-0 items-center gap-1 text-sm text-gray-500">
+                      {prompted.title}
+                      <ChevronRightIcon
+                        className="h-4 w-4"
+                        aria-hidden="true"
+                      />
+                    </span>
+                  )}
+                  <input
+                    key={prompted?.id ?? 'commands'}
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={
+                      prompted?.prompt?.placeholder ?? 'Type a command'
+                    }
+                    className="w-full border-0 py-3 text-sm focus:ring-0"
+                    aria-label={prompted?.title ?? 'Command'}
+                    aria-controls={prompted ? undefined : 'command-list'}
+                    aria-activedescendant={
+                      activeId ? `command-${activeId}` : undefined
+                    }
+                    aria-invalid={promptError ? true : undefined}
+                    aria-describedby={promptError ? 'command-error' : undefined}
+                    autoFocus
+                  />
+                </div>
+
+                {prompted ? (
+                  <p
+                    id="command-error"
+                    className={`px-4 py-3 text-xs ${promptError ? 'text-red-600' : 'text-gray-500'}`}
+                    role={promptError ? 'alert' : undefined}
+                  >
+                    {promptError ?? 'Press Enter to confirm, Esc to go back'}
+                  </p>
+                ) : matches.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-gray-500">
+                    No matching commands
+                  </p>
+                ) : (
+                  <ul
+                    id="command-list"
+                    role="listbox"
+                    aria-label="Commands"
+                    className="max-h-96 overflow-y-auto px-2 py-2"
+                  >
+                    {matches.map(({ command, indices }, index) => {
+                      const [shortcut] = getCommandKeys(command, keymap);
+                      const isNewGroup =
+                        !query.trim() &&
+                        matches[index - 1]?.command.group !== command.group;
+
+                      return (
+                        <Fragment key={command.id}>
+                          {isNewGroup && (
+                            <li
+                              role="presentation"
+                              className="px-2 pt-2 pb-1 text-xs font-medium text-gray-500"
+                            >
+                              {command.group}
+                            </li>
+                          )}
+                          <li
+                            id={`command-${command.id}`}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            onClick={() => handleRun(command)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`flex cursor-pointer items-center gap-2 rounded-lg px-2 py-2 text-sm text-gray-700 ${
+                              index === activeIndex ? 'bg-gray-100' : ''
+                            }`}
+                          >
+                            <span className="min-w-0 flex-1 truncate">
+                              <MatchedTitle
+                                title={
+                                  command.prompt
+                                    ? `${command.title}…`
+                                    : command.title
+                                }
+                                indices={indices}
+                              />
+                            </span>
+                            {query.trim() && (
+                              <span className="text-xs text-gray-400">
+                                {command.group}
+                              </span>
+                            )}
+                            {shortcut && (
+                              <kbd className="rounded border border-gray-200 bg-gray-50 px-1.5 py-0.5 font-sans text-xs text-gray-500">
+                                {getKeySequenceText(shortcut)}
+                              </kbd>
+                            )}
+                          </li>
+                        </Fragment>
+                      );
+                    })}
+                  </ul>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
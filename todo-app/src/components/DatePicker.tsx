@@ -1,31 +1,25 @@
 import { useState, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { ChevronLeftIcon, ChevronRightIcon, CalendarIcon } from '@heroicons/react/24/outline';
-import {
-  formatDate,
-  addDays,
-  getTodayISO,
-  isToday as checkIsToday,
-  isFuture,
-  getDatesInMonth,
-  getDayName,
-  getMonthName,
-  parseISO,
-} from '../utils/dateUtils';
+import { formatDate, addDays, getTodayISO, isFuture } from '../utils/dateUtils';
+import { TASK_DRAG_TYPE } from '../utils/reschedule';
 import type { TaskCounts } from '../types';
+import CalendarGrid from './CalendarGrid';
 
 interface DatePickerProps {
   selectedDate: string; // YYYY-MM-DD
   onDateChange: (date: string) => void;
   taskCounts?: TaskCounts;
-  locale?: string;
+  urgentDates?: Set<string>; // Dates with pending urgent tasks
+  onTaskDrop?: (taskId: string, date: string, copy: boolean) => void; // Task dropped on a day
 }
 
 export default function DatePicker({
   selectedDate,
   onDateChange,
   taskCounts = {},
-  locale = 'en-US',
+  urgentDates,
+  onTaskDrop,
 }: DatePickerProps) {
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [calendarMonth, setCalendarMonth] = useState(selectedDate);
@@ -51,16 +45,17 @@ export default function DatePicker({
     setIsCalendarOpen(false);
   };
 
-  const handlePrevMonth = () => {
-    const date = parseISO(calendarMonth);
-    date.setMonth(date.getMonth() - 1);
-    setCalendarMonth(formatDate(date, 'yyyy-MM-dd'));
+  const handleTaskDrop = (taskId: string, date: string, copy: boolean) => {
+    onTaskDrop?.(taskId, date, copy);
+    setIsCalendarOpen(false);
   };
 
-  const handleNextMonth = () => {
-    const date = parseISO(calendarMonth);
-    date.setMonth(date.getMonth() + 1);
-    setCalendarMonth(formatDate(date, 'yyyy-MM-dd'));
+  // Dragging a task over the date opens the calendar to drop it on a day
+  const handleDragOver = (e: React.DragEvent) => {
+    if (onTaskDrop && e.dataTransfer.types.includes(TASK_DRAG_TYPE)) {
+      e.preventDefault();
+      setIsCalendarOpen(true);
+    }
   };
 
   const handleTodayClick = () => {
@@ -69,17 +64,6 @@ export default function DatePicker({
     setIsCalendarOpen(false);
   };
 
-  // Generate calendar dates
-  const monthDates = getDatesInMonth(calendarMonth);
-  const firstDate = parseISO(monthDates[0]);
-  const startDay = firstDate.getDay(); // 0 = Sunday
-
-  // Pad with empty cells for alignment
-  const paddedDates = [
-    ...Array(startDay).fill(null),
-    ...monthDates,
-  ];
-
   return (
     <div className="flex items-center justify-between mb-6">
       {/* Previous day button */}
@@ -96,6 +80,7 @@ export default function DatePicker({
       <button
         type="button"
         onClick={() => setIsCalendarOpen(true)}
+        onDragOver={handleDragOver}
         className="flex items-center gap-2 px-4 py-2 rounded-lg hover:bg-gray-100 transition-colors"
         aria-label="Pick date"
       >
@@ -147,76 +132,16 @@ export default function DatePicker({
                     Select Date
                   </Dialog.Title>
 
-                  {/* Month navigation */}
-                  <div className="flex items-center justify-between mb-4">
-                    <button
-                      type="button"
-                      onClick={handlePrevMonth}
-                      className="p-1 rounded hover:bg-gray-100"
-                      aria-label="Previous month"
-                    >
-                      <ChevronLeftIcon className="h-5 w-5" />
-                    </button>
-                    <span className="font-medium">
-                      {getMonthName(calendarMonth)} {formatDate(calendarMonth, 'yyyy')}
-                    </span>
-                    <button
-                      type="button"
-                      onClick={handleNextMonth}
-                      className="p-1 rounded hover:bg-gray-100"
-                      aria-label="Next month"
-                    >
-                      <ChevronRightIcon className="h-5 w-5" />
-                    </button>
-                  </div>
-
-                  {/* Day names */}
-                  <div className="grid grid-cols-7 gap-1 mb-2">
-                    {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-                      <div key={day} className="text-center text-xs font-medium text-gray-500 py-1">
-                        {day}
-                      </div>
-                    ))}
-                  </div>
-
-                  {/* Calendar grid */}
-                  <div className="grid grid-cols-7 gap-1">
-                    {paddedDates.map((date, index) => {
-                      if (!date) {
-                        return <div key={`empty-${index}`} />;
-                      }
-
-                      const isSelected = date === selectedDate;
-                      const isTodayDate = checkIsToday(date);
-                      const isFutureDate = isFuture(date);
-                      const taskCount = taskCounts[date] || 0;
-                      const dayNum = formatDate(date, 'd');
-
-                      return (
-                        <button
-                          key={date}
-                          type="button"
-                          onClick={() => handleDateSelect(date)}
-                          disabled={isFutureDate}
-                          className={`
-                            relative p-2 text-sm rounded-lg transition-colors
-                            ${isSelected ? 'bg-primary-600 text-white selected active' : ''}
-                            ${isTodayDate && !isSelected ? 'border-2 border-primary-600 today' : ''}
-                            ${isFutureDate ? 'text-gray-300 cursor-not-allowed' : 'hover:bg-gray-100'}
-                            ${!isSelected && !isFutureDate ? 'text-gray-900' : ''}
-                          `}
-                          aria-label={`${dayNum}${isTodayDate ? ' today' : ''}${isSelected ? ' selected' : ''}${taskCount > 0 ? ` ${taskCount} tasks` : ''}`}
-                        >
-                          <span>{dayNum}</span>
-                          {taskCount > 0 && (
-                            <span className={`block text-xs ${isSelected ? 'text-white' : 'text-gray-500'}`}>
-                              {taskCount} task{taskCount !== 1 ? 's' : ''}
-                            </span>
-                          )}
-                        </button>
-                      );
-                    })}
-                  </div>
+                  <CalendarGrid
+                    month={calendarMonth}
+                    onMonthChange={setCalendarMonth}
+                    selectedDate={selectedDate}
+                    onSelect={handleDateSelect}
+                    isDisabled={isFuture}
+                    taskCounts={taskCounts}
+                    urgentDates={urgentDates}
+                    onTaskDrop={onTaskDrop && handleTaskDrop}
+                  />
 
                   {/* Quick actions */}
                   <div className="mt-4 flex justify-between items-center">
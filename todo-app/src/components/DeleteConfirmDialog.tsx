@@ -52,7 +52,7 @@ export default function DeleteConfirmDialog({
                     </Dialog.Title>
                     <div className="mt-2">
                       <p className="text-sm text-gray-500">
-                        Are you sure you want to delete this task? This action cannot be undone.
+                        Are you sure you want to delete this task? It will be moved to the trash.
                       </p>
                       {taskDescription && (
                         <p className="mt-2 text-sm font-medium text-gray-700">
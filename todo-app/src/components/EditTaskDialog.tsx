@@ -1,31 +1,87 @@
 import { useState, useEffect, Fragment } from 'react';
-import { Dialog, Transition } from '@headlessui/react';
-import { validateTaskDescription } from '../utils/validation';
-import type { Task } from '../types';
+import { Dialog, Tab, Transition } from '@headlessui/react';
+import {
+  validateTaskDescription,
+  type TaskPriority,
+} from '../utils/validation';
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '../utils/priority';
+import { MAX_NOTES_LENGTH, validateNotes } from '../utils/notes';
+import { getStorageUsage } from '../utils/storage';
+import {
+  REMINDER_OFFSETS,
+  requestNotificationPermission,
+} from '../utils/reminders';
+import type { RecurrenceRule, RecurringSeries } from '../utils/recurrence';
+import type { ChecklistItem, Tag, Task, TaskEdits } from '../types';
+import ChecklistFields from './ChecklistFields';
+import Markdown from './Markdown';
+import RecurrenceFields from './RecurrenceFields';
+import TagChip from './TagChip';
+
+type EditScope = 'occurrence' | 'future';
+
+const TAB_CLASSES = ({ selected }: { selected: boolean }) =>
+  `rounded-md px-3 py-1 text-sm font-medium ${
+    selected ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-700'
+  }`;
 
 interface EditTaskDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (description: string) => void;
+  onSave: (changes: TaskEdits) => void;
+  onSaveFuture?: (changes: TaskEdits, rule: RecurrenceRule) => void;
   task: Task | null;
+  tags?: Tag[]; // Tag registry to pick from
+  series?: RecurringSeries | null; // Series the task is an occurrence of
 }
 
 export default function EditTaskDialog({
   isOpen,
   onClose,
   onSave,
+  onSaveFuture,
   task,
+  tags = [],
+  series = null,
 }: EditTaskDialogProps) {
   const [description, setDescription] = useState('');
+  const [notes, setNotes] = useState('');
+  const [notesError, setNotesError] = useState<string | null>(null);
+  const [usage, setUsage] = useState({ used: 0, quota: 0, percentage: 0 });
+  const [priority, setPriority] = useState<TaskPriority>('none');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [dueTime, setDueTime] = useState('');
+  const [reminderMinutes, setReminderMinutes] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [scope, setScope] = useState<EditScope>('occurrence');
+  const [rule, setRule] = useState<RecurrenceRule | null>(null);
 
   useEffect(() => {
     if (task) {
       setDescription(task.description);
+      setNotes(task.notes);
+      setNotesError(null);
+      setPriority(task.priority);
+      setTagIds(task.tags);
+      setChecklist(task.checklist);
+      setDueTime(task.dueTime ?? '');
+      setReminderMinutes(task.reminderMinutes ?? null);
       setError(null);
+      setScope('occurrence');
     }
   }, [task]);
 
+  useEffect(() => {
+    setRule(series?.rule ?? null);
+  }, [series]);
+
+  useEffect(() => {
+    if (isOpen) {
+      getStorageUsage().then(setUsage);
+    }
+  }, [isOpen]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -36,13 +92,42 @@ export default function EditTaskDialog({
       return;
     }
 
+    const notesValidationError = validateNotes(notes, task?.notes ?? '', usage);
+    if (notesValidationError) {
+      setNotesError(notesValidationError);
+      return;
+    }
+
     // Clear error and submit
     setError(null);
-    onSave(description.trim());
+    // Items whose text was cleared are removed
+    const items = checklist
+      .map((item) => ({ ...item, text: item.text.trim() }))
+      .filter((item) => item.text.length > 0);
+    // A reminder needs a due time
+    const reminder =
+      dueTime && reminderMinutes !== null ? reminderMinutes : undefined;
+    if (reminder !== undefined) {
+      requestNotificationPermission();
+    }
+    const changes = {
+      description: description.trim(),
+      notes: notes.trim(),
+      priority,
+      tags: tagIds,
+      checklist: items,
+      dueTime: dueTime || undefined,
+      reminderMinutes: reminder,
+    };
+    if (scope === 'future' && rule && onSaveFuture) {
+      onSaveFuture(changes, rule);
+    } else {
+      onSave(changes);
+    }
     onClose();
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let value = e.target.value;
 
     // Enforce max length
@@ -86,22 +171,28 @@ export default function EditTaskDialog({
               leaveTo="opacity-0 scale-95"
             >
               <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
-                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900 mb-4">
+                <Dialog.Title
+                  as="h3"
+                  className="text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
                   Edit Task
                 </Dialog.Title>
 
                 <form onSubmit={handleSubmit}>
                   <div className="mb-4">
-                    <label htmlFor="task-description" className="block text-sm font-medium text-gray-700 mb-2">
+                    <label
+                      htmlFor="task-description"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
                       Task Description
                     </label>
-                    <textarea
+                    <input
                       id="task-description"
-                      rows={4}
+                      type="text"
                       value={description}
                       onChange={handleChange}
                       maxLength={500}
-                      className="input-field w-full resize-none"
+                      className="input-field w-full"
                       placeholder="Enter task description..."
                       aria-label="Task description"
                     />
@@ -115,6 +206,199 @@ export default function EditTaskDialog({
                     </p>
                   </div>
 
+                  <div className="mb-4">
+                    <Tab.Group>
+                      <div className="flex items-center justify-between mb-2">
+                        <label
+                          htmlFor="task-notes"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Notes
+                        </label>
+                        <Tab.List className="flex gap-1">
+                          <Tab className={TAB_CLASSES}>Write</Tab>
+                          <Tab className={TAB_CLASSES}>Preview</Tab>
+                        </Tab.List>
+                      </div>
+                      <Tab.Panels>
+                        <Tab.Panel>
+                          <textarea
+                            id="task-notes"
+                            rows={6}
+                            value={notes}
+                            onChange={(e) => {
+                              setNotes(e.target.value);
+                              setNotesError(null);
+                            }}
+                            maxLength={MAX_NOTES_LENGTH}
+                            className="input-field w-full resize-y font-mono text-sm"
+                            placeholder="Details, links, **Markdown**..."
+                          />
+                        </Tab.Panel>
+                        <Tab.Panel className="min-h-[9rem] rounded-lg border border-gray-200 p-3">
+                          {notes.trim() ? (
+                            <Markdown source={notes} />
+                          ) : (
+                            <p className="text-sm text-gray-500">
+                              Nothing to preview
+                            </p>
+                          )}
+                        </Tab.Panel>
+                      </Tab.Panels>
+                    </Tab.Group>
+                    {notesError && (
+                      <p className="mt-1 text-sm text-red-600" role="alert">
+                        {notesError}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      {notes.length.toLocaleString('en-US')}/
+                      {MAX_NOTES_LENGTH.toLocaleString('en-US')} characters
+                      {usage.quota > 0 &&
+                        ` · storage ${usage.percentage}% used`}
+                    </p>
+                  </div>
+
+                  <div className="mb-4">
+                    <label
+                      htmlFor="task-priority"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Priority
+                    </label>
+                    <select
+                      id="task-priority"
+                      value={priority}
+                      onChange={(e) =>
+                        setPriority(e.target.value as TaskPriority)
+                      }
+                      className="input-field w-full"
+                    >
+                      {PRIORITY_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                          {PRIORITY_LABELS[level]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="mb-4 flex gap-3">
+                    <div className="w-1/3">
+                      <label
+                        htmlFor="task-due-time"
+                        className="block text-sm font-medium text-gray-700 mb-2"
+                      >
+                        Due time
+                      </label>
+                      <input
+                        id="task-due-time"
+                        type="time"
+                        value={dueTime}
+                        onChange={(e) => setDueTime(e.target.value)}
+                        className="input-field w-full"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label
+                        htmlFor="task-reminder"
+                        className="block text-sm font-medium text-gray-700 mb-2"
+                      >
+                        Reminder
+                      </label>
+                      <select
+                        id="task-reminder"
+                        value={reminderMinutes ?? ''}
+                        onChange={(e) =>
+                          setReminderMinutes(
+                            e.target.value === ''
+                              ? null
+                              : Number(e.target.value)
+                          )
+                        }
+                        disabled={!dueTime}
+                        className="input-field w-full"
+                      >
+                        <option value="">No reminder</option>
+                        {REMINDER_OFFSETS.map((offset) => (
+                          <option key={offset.minutes} value={offset.minutes}>
+                            {offset.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {tags.length > 0 && (
+                    <fieldset className="mb-4">
+                      <legend className="block text-sm font-medium text-gray-700 mb-2">
+                        Tags
+                      </legend>
+                      <div className="flex flex-wrap gap-2">
+                        {tags.map((tag) => (
+                          <TagChip
+                            key={tag.id}
+                            tag={tag}
+                            selected={tagIds.includes(tag.id)}
+                            onClick={() =>
+                              setTagIds(
+                                tagIds.includes(tag.id)
+                                  ? tagIds.filter((id) => id !== tag.id)
+                                  : [...tagIds, tag.id]
+                              )
+                            }
+                          />
+                        ))}
+                      </div>
+                    </fieldset>
+                  )}
+
+                  <fieldset className="mb-4">
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">
+                      Checklist
+                    </legend>
+                    <ChecklistFields
+                      value={checklist}
+                      onChange={setChecklist}
+                    />
+                  </fieldset>
+
+                  {series && task && onSaveFuture && (
+                    <fieldset className="mb-4">
+                      <legend className="block text-sm font-medium text-gray-700 mb-2">
+                        Apply changes to
+                      </legend>
+                      <div className="flex gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="edit-scope"
+                            checked={scope === 'occurrence'}
+                            onChange={() => setScope('occurrence')}
+                          />
+                          This occurrence
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="edit-scope"
+                            checked={scope === 'future'}
+                            onChange={() => setScope('future')}
+                          />
+                          This and future occurrences
+                        </label>
+                      </div>
+                      {scope === 'future' && (
+                        <div className="mt-3">
+                          <RecurrenceFields
+                            value={rule}
+                            onChange={(updated) => updated && setRule(updated)}
+                            startDate={task.date}
+                          />
+                        </div>
+                      )}
+                    </fieldset>
+                  )}
+
                   <div className="flex justify-end gap-3">
                     <button
                       type="button"
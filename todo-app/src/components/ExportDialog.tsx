@@ -0,0 +1,329 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import {
+  addDays,
+  getEndOfMonth,
+  getEndOfWeek,
+  getStartOfMonth,
+  getStartOfWeek,
+  getTodayISO,
+} from '../utils/dateUtils';
+import {
+  createReport,
+  filterTasksForReport,
+  type ReportFilter,
+  type ReportFormat,
+  type ReportStatus,
+} from '../utils/reportExport';
+import { tasksToICalendar } from '../utils/icalendar';
+import { tasksToTodoTxt } from '../utils/todoTxt';
+import { downloadFile } from '../utils/download';
+import type { Tag, Task } from '../types';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  tags: Tag[]; // Registry, to export tag names
+}
+
+type ExportFormat = ReportFormat | 'ics' | 'todotxt';
+
+type RangePreset =
+  | 'this-week'
+  | 'last-week'
+  | 'this-month'
+  | 'last-month'
+  | 'all'
+  | 'custom';
+
+const FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; type: string }
+> = {
+  markdown: {
+    label: 'Markdown checklist',
+    extension: 'md',
+    type: 'text/markdown;charset=utf-8',
+  },
+  csv: { label: 'CSV', extension: 'csv', type: 'text/csv;charset=utf-8' },
+  ics: {
+    label: 'iCalendar (.ics)',
+    extension: 'ics',
+    type: 'text/calendar;charset=utf-8',
+  },
+  todotxt: {
+    label: 'todo.txt',
+    extension: 'txt',
+    type: 'text/plain;charset=utf-8',
+  },
+};
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  'this-week': 'This week',
+  'last-week': 'Last week',
+  'this-month': 'This month',
+  'last-month': 'Last month',
+  all: 'All dates',
+  custom: 'Custom',
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  all: 'All tasks',
+  pending: 'Pending only',
+  completed: 'Completed only',
+};
+
+/**
+ * Resolve a preset to a date range around today
+ */
+function getPresetRange(
+  preset: Exclude<RangePreset, 'custom'>,
+  tasks: Task[]
+): [string, string] {
+  const today = getTodayISO();
+
+  switch (preset) {
+    case 'all': {
+      const dates = tasks.map((task) => task.date).sort();
+      return [dates[0] ?? today, dates[dates.length - 1] ?? today];
+    }
+    case 'this-week':
+      return [getStartOfWeek(today), getEndOfWeek(today)];
+    case 'last-week': {
+      const lastWeek = addDays(getStartOfWeek(today), -7);
+      return [lastWeek, getEndOfWeek(lastWeek)];
+    }
+    case 'this-month':
+      return [getStartOfMonth(today), getEndOfMonth(today)];
+    case 'last-month': {
+      const lastMonth = addDays(getStartOfMonth(today), -1);
+      return [getStartOfMonth(lastMonth), getEndOfMonth(lastMonth)];
+    }
+  }
+}
+
+export default function ExportDialog({
+  isOpen,
+  onClose,
+  tasks,
+  tags,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [preset, setPreset] = useState<RangePreset>('this-week');
+  const [startDate, setStartDate] = useState(
+    () => getPresetRange('this-week', tasks)[0]
+  );
+  const [endDate, setEndDate] = useState(
+    () => getPresetRange('this-week', tasks)[1]
+  );
+  const [status, setStatus] = useState<ReportStatus>('all');
+
+  // Refresh preset ranges in case the day changed while the app was open
+  useEffect(() => {
+    if (isOpen && preset !== 'custom') {
+      const [start, end] = getPresetRange(preset, tasks);
+      setStartDate(start);
+      setEndDate(end);
+    }
+  }, [isOpen, preset, tasks]);
+
+  const filter: ReportFilter = useMemo(
+    () => ({ startDate, endDate, status }),
+    [startDate, endDate, status]
+  );
+  const isRangeValid =
+    startDate !== '' && endDate !== '' && startDate <= endDate;
+  const selectedTasks = useMemo(
+    () => (isRangeValid ? filterTasksForReport(tasks, filter) : []),
+    [tasks, filter, isRangeValid]
+  );
+
+  const getContent = () => {
+    switch (format) {
+      case 'ics':
+        return tasksToICalendar(selectedTasks, tags);
+      case 'todotxt':
+        return tasksToTodoTxt(selectedTasks);
+      default:
+        return createReport(tasks, filter, format, tags);
+    }
+  };
+
+  const handleDownload = () => {
+    const { extension, type } = FORMATS[format];
+    const fileName =
+      format === 'todotxt'
+        ? 'todo.txt'
+        : `todo-app-tasks-${startDate}-to-${endDate}.${extension}`;
+    downloadFile(getContent(), fileName, type);
+    onClose();
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getContent());
+      toast.success('Copied to clipboard');
+    } catch (error) {
+      toast.error('Could not copy to clipboard');
+      console.error('Failed to copy export:', error);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <ArrowDownTrayIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Export Tasks
+                </Dialog.Title>
+
+                <div className="space-y-4 text-sm text-gray-700">
+                  <label className="block">
+                    Format
+                    <select
+                      value={format}
+                      onChange={(e) =>
+                        setFormat(e.target.value as ExportFormat)
+                      }
+                      className="input-field mt-1"
+                    >
+                      {Object.entries(FORMATS).map(([value, { label }]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="block">
+                    Date range
+                    <select
+                      value={preset}
+                      onChange={(e) => setPreset(e.target.value as RangePreset)}
+                      className="input-field mt-1"
+                    >
+                      {Object.entries(RANGE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className="flex gap-3">
+                    <label className="flex-1">
+                      From
+                      <input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => {
+                          setPreset('custom');
+                          setStartDate(e.target.value);
+                        }}
+                        className="input-field mt-1"
+                      />
+                    </label>
+                    <label className="flex-1">
+                      To
+                      <input
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => {
+                          setPreset('custom');
+                          setEndDate(e.target.value);
+                        }}
+                        className="input-field mt-1"
+                      />
+                    </label>
+                  </div>
+
+                  <label className="block">
+                    Status
+                    <select
+                      value={status}
+                      onChange={(e) =>
+                        setStatus(e.target.value as ReportStatus)
+                      }
+                      className="input-field mt-1"
+                    >
+                      {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <p className="text-xs text-gray-500" aria-live="polite">
+                    {isRangeValid
+                      ? `${selectedTasks.length} task${selectedTasks.length !== 1 ? 's' : ''} selected`
+                      : 'The start date must not be after the end date'}
+                  </p>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={handleCopy}
+                    disabled={!isRangeValid}
+                  >
+                    Copy
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={handleDownload}
+                    disabled={!isRangeValid}
+                  >
+                    Download
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
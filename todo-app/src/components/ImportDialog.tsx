@@ -0,0 +1,306 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { formatDate } from '../utils/dateUtils';
+import {
+  planImport,
+  readImportFile,
+  type ImportPlan,
+  type ImportSource,
+  type ImportStrategy,
+} from '../utils/importData';
+import type { Task } from '../types';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (plan: ImportPlan) => Promise<boolean>;
+  currentTasks: Task[];
+  allowMerge?: boolean; // Merging needs readable current data
+  readOnly?: boolean;
+}
+
+const STRATEGIES: {
+  value: ImportStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Use the file as your entire task list and settings',
+  },
+  {
+    value: 'merge-by-id',
+    label: 'Merge (file wins)',
+    description: 'Add tasks from the file and overwrite matching tasks',
+  },
+  {
+    value: 'merge-keep-newer',
+    label: 'Merge (keep newer)',
+    description: 'Add tasks from the file, overwriting only older versions',
+  },
+];
+
+function PreviewList({
+  title,
+  tasks,
+  className,
+}: {
+  title: string;
+  tasks: Task[];
+  className: string;
+}) {
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h5 className={`text-xs font-medium ${className}`}>
+        {title} ({tasks.length})
+      </h5>
+      <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+        {tasks.slice(0, 5).map((task) => (
+          <li key={task.id} className="truncate">
+            {formatDate(task.date, 'MMM d')} · {task.description}
+          </li>
+        ))}
+        {tasks.length > 5 && (
+          <li className="text-gray-400">and {tasks.length - 5} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function ImportPreview({ plan }: { plan: ImportPlan }) {
+  const hasChanges =
+    plan.added.length +
+      plan.updated.length +
+      plan.conflicts.length +
+      plan.removed.length >
+    0;
+
+  return (
+    <div className="space-y-2" data-testid="import-preview">
+      <p className="text-xs text-gray-500">
+        {plan.incoming.tasks.length} task
+        {plan.incoming.tasks.length !== 1 ? 's' : ''} in file
+        {plan.unchangedCount > 0 && ` · ${plan.unchangedCount} unchanged`}
+        {!!plan.incoming.skippedCount &&
+          ` · ${plan.incoming.skippedCount} skipped (invalid)`}
+      </p>
+      {!hasChanges && (
+        <p className="text-xs text-gray-500">Nothing to import.</p>
+      )}
+      <PreviewList
+        title="Will be added"
+        tasks={plan.added}
+        className="text-green-700"
+      />
+      <PreviewList
+        title="Will be updated"
+        tasks={plan.updated}
+        className="text-amber-700"
+      />
+      <PreviewList
+        title="Conflicts (your version is kept)"
+        tasks={plan.conflicts.map((conflict) => conflict.current)}
+        className="text-orange-700"
+      />
+      <PreviewList
+        title="Will be removed"
+        tasks={plan.removed}
+        className="text-red-700"
+      />
+    </div>
+  );
+}
+
+export default function ImportDialog({
+  isOpen,
+  onClose,
+  onImport,
+  currentTasks,
+  allowMerge = true,
+  readOnly = false,
+}: ImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [incoming, setIncoming] = useState<ImportSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('replace');
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setIncoming(null);
+      setError(null);
+      setStrategy(allowMerge ? 'merge-keep-newer' : 'replace');
+    }
+  }, [isOpen, allowMerge]);
+
+  const plan = useMemo(
+    () => (incoming ? planImport(currentTasks, incoming, strategy) : null),
+    [incoming, currentTasks, strategy]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    try {
+      setIncoming(readImportFile(file.name, await file.text()));
+      setError(null);
+    } catch (err) {
+      setIncoming(null);
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) {
+      return;
+    }
+
+    setIsImporting(true);
+    const imported = await onImport(plan);
+    setIsImporting(false);
+
+    if (imported) {
+      onClose();
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <ArrowUpTrayIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Import Backup
+                </Dialog.Title>
+
+                <label className="block text-sm text-gray-700">
+                  JSON backup, iCalendar (.ics) or todo.txt file
+                  <input
+                    type="file"
+                    accept=".json,application/json,.ics,text/calendar,.txt,text/plain"
+                    onChange={handleFileChange}
+                    className="mt-1 block w-full text-sm text-gray-600"
+                    aria-label="Backup file"
+                  />
+                </label>
+                {fileName && error && (
+                  <p className="mt-2 text-sm text-red-600" role="alert">
+                    {error}
+                  </p>
+                )}
+
+                <fieldset className="mt-4">
+                  <legend className="text-sm font-medium text-gray-700">
+                    Strategy
+                  </legend>
+                  <div className="mt-2 space-y-2">
+                    {STRATEGIES.map((option) => {
+                      const disabled =
+                        option.value !== 'replace' && !allowMerge;
+                      return (
+                        <label
+                          key={option.value}
+                          className={`flex items-start gap-2 text-sm ${disabled ? 'opacity-50' : ''}`}
+                        >
+                          <input
+                            type="radio"
+                            name="import-strategy"
+                            value={option.value}
+                            checked={strategy === option.value}
+                            onChange={() => setStrategy(option.value)}
+                            disabled={disabled}
+                            className="mt-0.5"
+                          />
+                          <span>
+                            <span className="font-medium text-gray-900">
+                              {option.label}
+                            </span>
+                            <span className="block text-xs text-gray-500">
+                              {option.description}
+                            </span>
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {!allowMerge && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Your current data is unreadable, so it can only be
+                      replaced.
+                    </p>
+                  )}
+                </fieldset>
+
+                {plan && (
+                  <div className="mt-4 rounded-lg bg-gray-50 p-3">
+                    <ImportPreview plan={plan} />
+                  </div>
+                )}
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={handleImport}
+                    disabled={!plan || readOnly || isImporting}
+                  >
+                    {isImporting ? 'Importing...' : 'Import'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
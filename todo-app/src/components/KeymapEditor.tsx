@@ -0,0 +1,314 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  PlusIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { COMMAND_GROUPS, type Command } from '../utils/commands';
+import {
+  findKeyConflicts,
+  formatKeySequence,
+  getCommandKeys,
+  getKeyStroke,
+  MAX_KEYS_PER_COMMAND,
+  MAX_SEQUENCE_LENGTH,
+  SEQUENCE_TIMEOUT_MS,
+  type KeyConflict,
+  type KeySequence,
+} from '../utils/keymap';
+import { getKeySequenceText } from '../hooks/useKeyboardShortcuts';
+
+interface KeymapEditorProps {
+  commands: Command[];
+  readOnly?: boolean;
+}
+
+/**
+ * Settings section to rebind the commands' keyboard shortcuts
+ * A new shortcut is recorded from the keys pressed: it ends a second after the
+ * last key, with Enter, or after three keys. Esc cancels.
+ */
+export default function KeymapEditor({
+  commands,
+  readOnly = false,
+}: KeymapEditorProps) {
+  const { keymap, setCommandKeys, resetKeymap } = usePreferencesStore();
+  const [recording, setRecording] = useState<string | null>(null); // Command id
+  const [strokes, setStrokes] = useState<KeySequence>([]);
+  // Recorded sequence already bound to other commands, waiting for confirmation
+  const [pending, setPending] = useState<{
+    commandId: string;
+    sequence: string;
+    conflicts: KeyConflict[];
+  } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  // Commands that need a value can only run from the command palette
+  const bindable = commands.filter((command) => !command.prompt);
+  const findCommand = (id: string) =>
+    bindable.find((command) => command.id === id);
+
+  const addKeys = async (command: Command, sequence: string) => {
+    await setCommandKeys(command, [
+      ...getCommandKeys(command, keymap),
+      sequence,
+    ]);
+  };
+
+  const stopRecording = () => {
+    clearTimeout(timer.current);
+    setRecording(null);
+    setStrokes([]);
+  };
+
+  const finishRecording = (commandId: string, sequence: KeySequence) => {
+    stopRecording();
+    const command = findCommand(commandId);
+    if (!command || sequence.length === 0) {
+      return;
+    }
+
+    const text = formatKeySequence(sequence);
+    if (getCommandKeys(command, keymap).includes(text)) {
+      return;
+    }
+    const conflicts = findKeyConflicts(bindable, keymap, text, command.id);
+    if (conflicts.length > 0) {
+      setPending({ commandId, sequence: text, conflicts });
+      return;
+    }
+    void addKeys(command, text);
+  };
+
+  // Take the sequence from the commands it conflicts with
+  const handleReplace = async () => {
+    if (!pending) {
+      return;
+    }
+    setPending(null);
+
+    let current = keymap;
+    for (const conflict of pending.conflicts) {
+      const command = findCommand(conflict.commandId);
+      if (command) {
+        const keys = getCommandKeys(command, current);
+        await setCommandKeys(
+          command,
+          keys.filter((sequence) => sequence !== conflict.sequence)
+        );
+        current = usePreferencesStore.getState().keymap;
+      }
+    }
+    const command = findCommand(pending.commandId);
+    if (command) {
+      await setCommandKeys(command, [
+        ...getCommandKeys(command, current),
+        pending.sequence,
+      ]);
+    }
+  };
+
+  const handleRecordKeyDown = (
+    e: React.KeyboardEvent<HTMLButtonElement>,
+    commandId: string
+  ) => {
+    // Keep the keys from the dialog and the app's own shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      stopRecording();
+      return;
+    }
+    if (e.key === 'Enter' && strokes.length > 0) {
+      finishRecording(commandId, strokes);
+      return;
+    }
+
+    const stroke = getKeyStroke(e);
+    if (!stroke) {
+      return;
+    }
+    const sequence = [...strokes, stroke];
+    clearTimeout(timer.current);
+    if (sequence.length >= MAX_SEQUENCE_LENGTH) {
+      finishRecording(commandId, sequence);
+      return;
+    }
+    setStrokes(sequence);
+    timer.current = setTimeout(
+      () => finishRecording(commandId, sequence),
+      SEQUENCE_TIMEOUT_MS
+    );
+  };
+
+  const getConflictText = (conflict: KeyConflict) =>
+    `${findCommand(conflict.commandId)?.title} (${getKeySequenceText(conflict.sequence)})`;
+
+  const hasCustomKeys = Object.keys(keymap).length > 0;
+
+  return (
+    <fieldset className="mt-6">
+      <legend className="text-sm font-medium text-gray-700">
+        Keyboard shortcuts
+      </legend>
+      <p className="mt-1 text-xs text-gray-500">
+        Press + and type the new keys; keys pressed one after the other, like G
+        then T, make a sequence. Ctrl is ⌘ on macOS.
+      </p>
+
+      <div className="mt-2 max-h-72 overflow-y-auto pr-1">
+        {COMMAND_GROUPS.map((group) => {
+          const groupCommands = bindable.filter(
+            (command) => command.group === group
+          );
+          if (groupCommands.length === 0) {
+            return null;
+          }
+
+          return (
+            <div key={group}>
+              <h4 className="pt-2 text-xs font-medium text-gray-500">
+                {group}
+              </h4>
+              <ul>
+                {groupCommands.map((command) => {
+                  const keys = getCommandKeys(command, keymap);
+                  const isRecording = recording === command.id;
+
+                  return (
+                    <li key={command.id} className="py-1">
+                      <div className="flex items-center gap-1.5 text-sm text-gray-700">
+                        <span className="min-w-0 flex-1 truncate">
+                          {command.title}
+                        </span>
+                        {keys.map((sequence) => (
+                          <span
+                            key={sequence}
+                            className="flex items-center gap-0.5 rounded border border-gray-200 bg-gray-50 pl-1.5 pr-0.5 text-xs text-gray-600"
+                          >
+                            <kbd className="font-sans">
+                              {getKeySequenceText(sequence)}
+                            </kbd>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setCommandKeys(
+                                  command,
+                                  keys.filter((other) => other !== sequence)
+                                )
+                              }
+                              disabled={readOnly}
+                              className="rounded p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                              aria-label={`Remove ${getKeySequenceText(sequence)} from ${command.title}`}
+                            >
+                              <XMarkIcon
+                                className="h-3 w-3"
+                                aria-hidden="true"
+                              />
+                            </button>
+                          </span>
+                        ))}
+                        {isRecording ? (
+                          <button
+                            type="button"
+                            onKeyDown={(e) =>
+                              handleRecordKeyDown(e, command.id)
+                            }
+                            onBlur={stopRecording}
+                            className="rounded border border-blue-400 bg-blue-50 px-1.5 text-xs text-blue-700"
+                            aria-label={`Press the new shortcut for ${command.title}`}
+                            autoFocus
+                          >
+                            {strokes.length > 0
+                              ? getKeySequenceText(formatKeySequence(strokes))
+                              : 'Press keys…'}
+                          </button>
+                        ) : (
+                          keys.length < MAX_KEYS_PER_COMMAND && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setPending(null);
+                                setRecording(command.id);
+                              }}
+                              disabled={readOnly}
+                              className="rounded p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                              aria-label={`Add shortcut to ${command.title}`}
+                            >
+                              <PlusIcon
+                                className="h-4 w-4"
+                                aria-hidden="true"
+                              />
+                            </button>
+                          )
+                        )}
+                        {keymap[command.id] && (
+                          <button
+                            type="button"
+                            onClick={() => setCommandKeys(command, null)}
+                            disabled={readOnly}
+                            className="rounded p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                            aria-label={`Reset ${command.title} to its default shortcuts`}
+                            title="Reset to default"
+                          >
+                            <ArrowUturnLeftIcon
+                              className="h-4 w-4"
+                              aria-hidden="true"
+                            />
+                          </button>
+                        )}
+                      </div>
+
+                      {pending?.commandId === command.id && (
+                        <div
+                          className="mt-1 flex items-center gap-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800"
+                          role="alert"
+                        >
+                          <span className="flex-1">
+                            {getKeySequenceText(pending.sequence)} is already
+                            used by{' '}
+                            {pending.conflicts.map(getConflictText).join(', ')}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={handleReplace}
+                            className="font-medium hover:underline"
+                          >
+                            Replace
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPending(null)}
+                            className="hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          setPending(null);
+          void resetKeymap();
+        }}
+        disabled={readOnly || !hasCustomKeys}
+        className="mt-2 text-xs text-gray-600 hover:text-gray-900 hover:underline disabled:opacity-50 disabled:no-underline"
+      >
+        Reset all to defaults
+      </button>
+    </fieldset>
+  );
+}
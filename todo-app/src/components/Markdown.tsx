@@ -0,0 +1,127 @@
+import { memo, useMemo } from 'react';
+import {
+  parseMarkdown,
+  type BlockNode,
+  type InlineNode,
+} from '../utils/markdown';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-medium',
+];
+
+function renderInline(nodes: InlineNode[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 font-mono text-xs"
+          >
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 underline hover:text-primary-700"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: BlockNode, index: number): React.ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(block.level + 3, 6)}` as 'h4' | 'h5' | 'h6';
+      return (
+        <Heading
+          key={index}
+          className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}
+        >
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p key={index} className="whitespace-pre-wrap">
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List
+          key={index}
+          className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+        >
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'blockquote':
+      return (
+        <blockquote
+          key={index}
+          className="whitespace-pre-wrap border-l-2 border-gray-300 pl-3 text-gray-600"
+        >
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre
+          key={index}
+          className="overflow-x-auto rounded bg-gray-100 p-2 font-mono text-xs"
+        >
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'rule':
+      return <hr key={index} className="border-gray-200" />;
+  }
+}
+
+/**
+ * Render task notes
+ * Everything is rendered as React elements, so HTML in the source shows as text
+ */
+const Markdown = memo(function Markdown({
+  source,
+  className = '',
+}: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`space-y-2 break-words text-sm text-gray-700 ${className}`}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+});
+
+export default Markdown;
@@ -0,0 +1,164 @@
+import { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import type { RecoveryReport } from '../utils/recovery';
+
+interface RecoveryReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: RecoveryReport | null;
+}
+
+function describeRecord(record: unknown): string {
+  if (typeof record === 'object' && record !== null) {
+    const description = (record as { description?: unknown }).description;
+    if (typeof description === 'string' && description.trim().length > 0) {
+      return description.length > 60
+        ? description.slice(0, 60) + '...'
+        : description;
+    }
+  }
+  return '(no description)';
+}
+
+export default function RecoveryReportDialog({
+  isOpen,
+  onClose,
+  report,
+}: RecoveryReportDialogProps) {
+  const quarantinedCount = report?.quarantined.length ?? 0;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-start gap-3">
+                  <div className="flex-shrink-0">
+                    <WrenchScrewdriverIcon
+                      className="h-6 w-6 text-amber-600"
+                      aria-hidden="true"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <Dialog.Title
+                      as="h3"
+                      className="text-lg font-medium leading-6 text-gray-900"
+                    >
+                      {quarantinedCount > 0
+                        ? 'Some tasks could not be loaded'
+                        : 'Storage repaired'}
+                    </Dialog.Title>
+
+                    {report && (
+                      <div className="mt-2 space-y-3 text-sm text-gray-600">
+                        <ul className="list-disc pl-5 space-y-1">
+                          <li>
+                            {report.recoveredCount} task
+                            {report.recoveredCount !== 1 ? 's' : ''} recovered
+                            {report.source === 'backup'
+                              ? ' from the last backup'
+                              : ''}
+                          </li>
+                          {report.repaired.length > 0 && (
+                            <li>{report.repaired.length} repaired</li>
+                          )}
+                          {quarantinedCount > 0 && (
+                            <li>{quarantinedCount} quarantined</li>
+                          )}
+                          {report.preferencesReset && (
+                            <li>Preferences reset to defaults</li>
+                          )}
+                        </ul>
+
+                        {report.repaired.length > 0 && (
+                          <div>
+                            <h4 className="font-medium text-gray-700">
+                              Repaired
+                            </h4>
+                            <ul className="mt-1 max-h-32 overflow-y-auto space-y-1">
+                              {report.repaired.map((task) => (
+                                <li key={task.id} className="break-words">
+                                  "{describeRecord(task)}"{' '}
+                                  <span className="text-gray-500">
+                                    ({task.fields.join(', ')})
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {quarantinedCount > 0 && (
+                          <div>
+                            <h4 className="font-medium text-gray-700">
+                              Quarantined
+                            </h4>
+                            <ul className="mt-1 max-h-40 overflow-y-auto space-y-2">
+                              {report.quarantined.map((entry) => (
+                                <li key={entry.index} className="break-words">
+                                  <span>
+                                    #{entry.index + 1} "
+                                    {describeRecord(entry.record)}"
+                                  </span>
+                                  <ul className="text-xs text-red-600">
+                                    {entry.issues.map((issue, index) => (
+                                      <li key={index}>
+                                        {issue.path || 'task'}: {issue.message}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </li>
+                              ))}
+                            </ul>
+                            <p className="mt-2 text-xs text-gray-500">
+                              Quarantined records and the original data are kept
+                              in storage, so nothing has been deleted.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={onClose}
+                    aria-label="Close recovery report"
+                  >
+                    Got it
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
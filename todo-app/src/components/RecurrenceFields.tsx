@@ -0,0 +1,249 @@
+import {
+  describeRule,
+  getNthWeekday,
+  type RecurrenceRule,
+} from '../utils/recurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: string;
+  disabled?: boolean;
+}
+
+type Preset =
+  | 'none'
+  | 'daily'
+  | 'weekdays'
+  | 'every-n-days'
+  | 'weekly'
+  | 'monthly-day'
+  | 'monthly-nth';
+
+type End = 'never' | 'count' | 'until';
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+function getPreset(rule: RecurrenceRule | null): Preset {
+  if (!rule) {
+    return 'none';
+  }
+
+  switch (rule.frequency) {
+    case 'daily':
+      return rule.interval === 1 ? 'daily' : 'every-n-days';
+    case 'weekly':
+      return rule.interval === 1 &&
+        [...(rule.weekdays ?? [])].sort().join() === '1,2,3,4,5'
+        ? 'weekdays'
+        : 'weekly';
+    case 'monthly':
+      return rule.nthWeekday ? 'monthly-nth' : 'monthly-day';
+  }
+}
+
+function createRule(preset: Preset, startDate: string): RecurrenceRule | null {
+  const { weekday } = getNthWeekday(startDate);
+
+  switch (preset) {
+    case 'none':
+      return null;
+    case 'daily':
+      return { frequency: 'daily', interval: 1 };
+    case 'weekdays':
+      return { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] };
+    case 'every-n-days':
+      return { frequency: 'daily', interval: 2 };
+    case 'weekly':
+      return { frequency: 'weekly', interval: 1, weekdays: [weekday] };
+    case 'monthly-day':
+      return {
+        frequency: 'monthly',
+        interval: 1,
+        monthDay: Number(startDate.slice(8, 10)),
+      };
+    case 'monthly-nth':
+      return {
+        frequency: 'monthly',
+        interval: 1,
+        nthWeekday: getNthWeekday(startDate),
+      };
+  }
+}
+
+/**
+ * Repeat settings for a task (rule pattern and end)
+ */
+export default function RecurrenceFields({
+  value,
+  onChange,
+  startDate,
+  disabled = false,
+}: RecurrenceFieldsProps) {
+  const preset = getPreset(value);
+  const end: End =
+    value?.count !== undefined ? 'count' : value?.until ? 'until' : 'never';
+
+  const handlePresetChange = (next: Preset) => {
+    const rule = createRule(next, startDate);
+    // Keep the chosen end when switching patterns
+    onChange(
+      rule && value ? { ...rule, count: value.count, until: value.until } : rule
+    );
+  };
+
+  const handleEndChange = (next: End) => {
+    if (!value) {
+      return;
+    }
+    const { count: _count, until: _until, ...rule } = value;
+    onChange({
+      ...rule,
+      ...(next === 'count' && { count: 10 }),
+      ...(next === 'until' && { until: startDate }),
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) {
+      return;
+    }
+    const weekdays = value.weekdays ?? [];
+    const updated = weekdays.includes(day)
+      ? weekdays.filter((d) => d !== day)
+      : [...weekdays, day].sort();
+    // A weekly rule needs at least one day
+    if (updated.length > 0) {
+      onChange({ ...value, weekdays: updated });
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={preset}
+          onChange={(e) => handlePresetChange(e.target.value as Preset)}
+          disabled={disabled}
+          className="rounded border-gray-300 text-sm"
+          aria-label="Repeat"
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekdays">Every weekday</option>
+          <option value="every-n-days">Every N days</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly-day">Monthly on the same day</option>
+          <option value="monthly-nth">Monthly on the same weekday</option>
+        </select>
+
+        {value && (preset === 'every-n-days' || preset === 'weekly') && (
+          <label className="flex items-center gap-2">
+            every
+            <input
+              type="number"
+              min={1}
+              max={999}
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: Math.min(
+                    Math.max(Number(e.target.value) || 1, 1),
+                    999
+                  ),
+                })
+              }
+              disabled={disabled}
+              className="input-field w-16 py-1"
+              aria-label="Repeat interval"
+            />
+            {preset === 'weekly' ? 'weeks' : 'days'}
+          </label>
+        )}
+
+        {value && (
+          <select
+            value={end}
+            onChange={(e) => handleEndChange(e.target.value as End)}
+            disabled={disabled}
+            className="rounded border-gray-300 text-sm"
+            aria-label="Repeat ends"
+          >
+            <option value="never">forever</option>
+            <option value="count">for a number of times</option>
+            <option value="until">until a date</option>
+          </select>
+        )}
+
+        {value && end === 'count' && (
+          <input
+            type="number"
+            min={1}
+            value={value.count}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                count: Math.max(Number(e.target.value) || 1, 1),
+              })
+            }
+            disabled={disabled}
+            className="input-field w-20 py-1"
+            aria-label="Number of occurrences"
+          />
+        )}
+
+        {value && end === 'until' && (
+          <input
+            type="date"
+            min={startDate}
+            value={value.until}
+            onChange={(e) =>
+              e.target.value && onChange({ ...value, until: e.target.value })
+            }
+            disabled={disabled}
+            className="input-field py-1"
+            aria-label="Repeat until"
+          />
+        )}
+      </div>
+
+      {value && preset === 'weekly' && (
+        <div className="flex gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              disabled={disabled}
+              className={`h-7 w-7 rounded-full text-xs font-medium ${
+                value.weekdays?.includes(day)
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              aria-label={WEEKDAY_LABELS[day]}
+              aria-pressed={value.weekdays?.includes(day) ?? false}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-gray-500">
+          {describeRule(value, startDate)}
+        </p>
+      )}
+    </div>
+  );
+}
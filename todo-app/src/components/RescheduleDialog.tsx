@@ -0,0 +1,123 @@
+import { useEffect, useState, Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { formatDate, getTodayISO } from '../utils/dateUtils';
+import { getQuickDates, type RescheduleMode } from '../utils/reschedule';
+import type { TaskCounts } from '../types';
+import CalendarGrid from './CalendarGrid';
+
+interface RescheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (date: string) => void;
+  date: string | null; // Current date of the tasks
+  description: string; // What is moved, e.g. the task's description
+  mode: RescheduleMode;
+  taskCounts?: TaskCounts;
+}
+
+/**
+ * Pick a date to move or duplicate tasks to
+ * Unlike the date picker, any date can be picked, including future ones
+ */
+export default function RescheduleDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  date,
+  description,
+  mode,
+  taskCounts,
+}: RescheduleDialogProps) {
+  const [month, setMonth] = useState(getTodayISO());
+
+  useEffect(() => {
+    if (isOpen && date) {
+      setMonth(date);
+    }
+  }, [isOpen, date]);
+
+  const handleSelect = (date: string) => {
+    onConfirm(date);
+    onClose();
+  };
+
+  const quickDates = getQuickDates(getTodayISO());
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="text-lg font-medium leading-6 text-gray-900"
+                >
+                  {mode === 'move' ? 'Move to date' : 'Duplicate to date'}
+                </Dialog.Title>
+                <p className="mt-1 truncate text-sm text-gray-500">
+                  {description}
+                </p>
+
+                {/* Quick options */}
+                <div className="mt-4 mb-4 flex flex-wrap gap-2">
+                  {quickDates.map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => handleSelect(option.date)}
+                      className="rounded-full border border-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50"
+                      title={formatDate(option.date, 'EEEE, MMMM d')}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                <CalendarGrid
+                  month={month}
+                  onMonthChange={setMonth}
+                  selectedDate={date}
+                  onSelect={handleSelect}
+                  isDisabled={(day) => mode === 'move' && day === date}
+                  taskCounts={taskCounts}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,40 @@
+import { FunnelIcon } from '@heroicons/react/24/outline';
+import type { SavedQuery } from '../types';
+
+interface SavedViewsProps {
+  views: SavedQuery[]; // Pinned saved queries
+  onOpen: (query: string) => void;
+}
+
+/**
+ * Pinned saved queries, in a sidebar on wide screens and a row above the
+ * calendar otherwise
+ */
+export default function SavedViews({ views, onOpen }: SavedViewsProps) {
+  if (views.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav
+      className="mb-4 flex flex-wrap items-center gap-2 xl:fixed xl:left-8 xl:top-8 xl:mb-0 xl:w-52 xl:flex-col xl:items-stretch xl:gap-1"
+      aria-label="Saved views"
+    >
+      <h2 className="flex items-center gap-1 text-xs font-medium text-gray-500 xl:px-2 xl:pb-1">
+        <FunnelIcon className="h-4 w-4" aria-hidden="true" />
+        Views
+      </h2>
+      {views.map((view) => (
+        <button
+          key={view.id}
+          type="button"
+          onClick={() => onOpen(view.query)}
+          className="truncate rounded-full bg-white px-3 py-1 text-left text-sm text-gray-700 shadow-sm hover:bg-gray-100 xl:rounded-lg xl:bg-transparent xl:px-2 xl:shadow-none"
+          title={view.query}
+        >
+          {view.name}
+        </button>
+      ))}
+    </nav>
+  );
+}
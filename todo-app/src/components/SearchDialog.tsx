@@ -0,0 +1,492 @@
+import { useEffect, useRef, useState, Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import {
+  BookmarkIcon,
+  MagnifyingGlassIcon,
+  StarIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type { Tag, Task } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import {
+  getSnippet,
+  highlightText,
+  type HighlightSegment,
+} from '../utils/search';
+import {
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  MAX_QUERY_NAME_LENGTH,
+  QUERY_FILTERS,
+} from '../utils/query';
+import { useTaskSearch } from '../hooks/useTaskSearch';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+interface SearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectDate: (date: string) => void;
+  tags: Tag[];
+  initialQuery?: string; // Query shown when the dialog opens, e.g. a pinned view
+  readOnly?: boolean;
+}
+
+// Suggestions shown under the search box
+const MAX_SUGGESTIONS = 6;
+
+function Highlight({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Search tasks of every date, jumping to the date of a result
+ * ↑/↓ move through the results, Enter opens the highlighted one and Tab
+ * completes the filter being typed. Queries can be saved and pinned as views.
+ */
+export default function SearchDialog({
+  isOpen,
+  onClose,
+  onSelectDate,
+  tags,
+  initialQuery = '',
+  readOnly = false,
+}: SearchDialogProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [saveName, setSaveName] = useState<string | null>(null); // Name being typed when saving
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { tasks: results, total, errors, words } = useTaskSearch(query);
+  const { savedQueries, saveQuery, updateSavedQuery, deleteSavedQuery } =
+    usePreferencesStore();
+
+  const { start: suggestionStart, suggestions } = getQuerySuggestions(
+    query,
+    tags
+  );
+  const shownSuggestions = query.trim()
+    ? suggestions.slice(0, MAX_SUGGESTIONS)
+    : [];
+  const [error] = errors;
+  const canSave = !readOnly && query.trim() !== '' && !error;
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery(initialQuery);
+    }
+  }, [isOpen, initialQuery]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted result in view
+  const activeId = results[activeIndex]?.id;
+  useEffect(() => {
+    if (activeId) {
+      document
+        .getElementById(`search-result-${activeId}`)
+        ?.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [activeId]);
+
+  const handleSelect = (task: Task) => {
+    onSelectDate(task.date);
+    onClose();
+  };
+
+  const applySuggestion = (value: string) => {
+    setQuery(applyQuerySuggestion(query, suggestionStart, value));
+    inputRef.current?.focus();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saveName !== null && (await saveQuery(saveName, query))) {
+      setSaveName(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const [suggestion] = shownSuggestions;
+    if (e.key === 'Tab' && !e.shiftKey && suggestion) {
+      e.preventDefault();
+      applySuggestion(suggestion.value);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) =>
+        Math.min(Math.max(index + step, 0), results.length - 1)
+      );
+    } else if (e.key === 'Enter') {
+      const task = results[activeIndex];
+      if (task) {
+        e.preventDefault();
+        handleSelect(task);
+      }
+    }
+  };
+
+  // Group consecutive results by date; results are sorted by date
+  const groups: { date: string; tasks: Task[] }[] = [];
+  results.forEach((task) => {
+    const group = groups[groups.length - 1];
+    if (group?.date === task.date) {
+      group.tasks.push(task);
+    } else {
+      groups.push({ date: task.date, tasks: [task] });
+    }
+  });
+
+  return (
+    <Transition
+      appear
+      show={isOpen}
+      as={Fragment}
+      afterLeave={() => {
+        setQuery('');
+        setSaveName(null);
+      }}
+    >
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-start justify-center p-4 pt-16 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="sr-only">Search tasks</Dialog.Title>
+                <div className="flex items-center gap-2 border-b border-gray-200 px-4">
+                  <MagnifyingGlassIcon
+                    className="h-5 w-5 text-gray-400"
+                    aria-hidden="true"
+                  />
+                  <input
+                    ref={inputRef}
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Search, or filter like is:pending tag:work created:<7d"
+                    className="w-full border-0 py-3 text-sm focus:ring-0"
+                    aria-label="Search tasks"
+                    aria-controls="search-results"
+                    aria-activedescendant={
+                      activeId ? `search-result-${activeId}` : undefined
+                    }
+                    aria-invalid={error ? true : undefined}
+                    aria-describedby={error ? 'search-error' : undefined}
+                    autoFocus
+                  />
+                  {canSave && saveName === null && (
+                    <button
+                      type="button"
+                      onClick={() => setSaveName('')}
+                      className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                      aria-label="Save query"
+                      title="Save query"
+                    >
+                      <BookmarkIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+
+                {error && (
+                  <p
+                    id="search-error"
+                    className="px-4 pt-2 text-xs text-red-600"
+                    role="alert"
+                  >
+                    {error.message}
+                  </p>
+                )}
+
+                {shownSuggestions.length > 0 && (
+                  <div
+                    className="flex flex-wrap gap-1 px-4 pt-2"
+                    aria-label="Suggestions"
+                  >
+                    {shownSuggestions.map((suggestion, index) => (
+                      <button
+                        key={suggestion.value}
+                        type="button"
+                        onClick={() => applySuggestion(suggestion.value)}
+                        className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-200"
+                        title={
+                          index === 0
+                            ? `${suggestion.description} (Tab)`
+                            : suggestion.description
+                        }
+                      >
+                        {suggestion.value}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {canSave && saveName !== null && (
+                  <form
+                    onSubmit={handleSave}
+                    className="flex items-center gap-2 px-4 pt-2"
+                  >
+                    <input
+                      type="text"
+                      value={saveName}
+                      onChange={(e) => setSaveName(e.target.value)}
+                      onKeyDown={(e) => {
+                        // Cancel saving instead of closing the dialog
+                        if (e.key === 'Escape') {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setSaveName(null);
+                        }
+                      }}
+                      maxLength={MAX_QUERY_NAME_LENGTH}
+                      placeholder="Name"
+                      className="flex-1 rounded-lg border-gray-300 py-1 text-sm focus:border-primary-500 focus:ring-primary-500"
+                      aria-label="Query name"
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      disabled={!saveName.trim()}
+                      className="rounded-lg bg-primary-600 px-3 py-1 text-sm text-white hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSaveName(null)}
+                      className="rounded-lg px-3 py-1 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                )}
+
+                {!query.trim() && (
+                  <div className="max-h-96 overflow-y-auto px-2 py-2">
+                    {savedQueries.length > 0 && (
+                      <>
+                        <h4 className="px-2 pt-2 pb-1 text-xs font-medium text-gray-500">
+                          Saved queries
+                        </h4>
+                        <ul aria-label="Saved queries">
+                          {savedQueries.map((saved) => (
+                            <li
+                              key={saved.id}
+                              className="flex items-center gap-2 rounded-lg px-2 py-1 hover:bg-gray-100"
+                            >
+                              <button
+                                type="button"
+                                onClick={() => setQuery(saved.query)}
+                                className="min-w-0 flex-1 text-left text-sm"
+                              >
+                                <span className="text-gray-900">
+                                  {saved.name}
+                                </span>
+                                <span className="ml-2 truncate text-xs text-gray-500">
+                                  {saved.query}
+                                </span>
+                              </button>
+                              {!readOnly && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      updateSavedQuery(saved.id, {
+                                        pinned: !saved.pinned,
+                                      })
+                                    }
+                                    className={`rounded p-1 hover:bg-gray-200 ${
+                                      saved.pinned
+                                        ? 'text-amber-500'
+                                        : 'text-gray-400'
+                                    }`}
+                                    aria-label={
+                                      saved.pinned
+                                        ? `Unpin ${saved.name}`
+                                        : `Pin ${saved.name}`
+                                    }
+                                    aria-pressed={saved.pinned}
+                                    title={
+                                      saved.pinned
+                                        ? 'Unpin view'
+                                        : 'Pin as a view'
+                                    }
+                                  >
+                                    <StarIcon className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => deleteSavedQuery(saved.id)}
+                                    className="rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-red-600"
+                                    aria-label={`Delete ${saved.name}`}
+                                    title="Delete"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                    <h4 className="px-2 pt-2 pb-1 text-xs font-medium text-gray-500">
+                      Filters
+                    </h4>
+                    <ul aria-label="Filters">
+                      {Object.entries(QUERY_FILTERS).map(
+                        ([key, description]) => (
+                          <li key={key}>
+                            <button
+                              type="button"
+                              onClick={() => applySuggestion(`${key}:`)}
+                              className="w-full rounded-lg px-2 py-1 text-left text-sm hover:bg-gray-100"
+                            >
+                              <span className="font-mono text-gray-900">
+                                {key}:
+                              </span>
+                              <span className="ml-2 text-xs text-gray-500">
+                                {description}
+                              </span>
+                            </button>
+                          </li>
+                        )
+                      )}
+                    </ul>
+                    <p className="px-2 pt-2 text-xs text-gray-500">
+                      Quote an "exact phrase", and put - before a term to
+                      exclude it.
+                    </p>
+                  </div>
+                )}
+
+                {query.trim() && (
+                  <div className="max-h-96 overflow-y-auto px-2 py-2">
+                    {results.length === 0 ? (
+                      <p className="py-6 text-center text-sm text-gray-500">
+                        No matching tasks
+                      </p>
+                    ) : (
+                      <ul
+                        id="search-results"
+                        role="listbox"
+                        aria-label="Search results"
+                      >
+                        {groups.map((group) => (
+                          <li key={group.date} role="presentation">
+                            <h4 className="px-2 pt-2 pb-1 text-xs font-medium text-gray-500">
+                              {formatDate(group.date, 'EEE, MMM d, yyyy')}
+                            </h4>
+                            <ul role="presentation">
+                              {group.tasks.map((task) => {
+                                const index = results.indexOf(task);
+                                const notesSnippet = getSnippet(
+                                  task.notes,
+                                  words
+                                );
+                                const taskTags = tags.filter((tag) =>
+                                  task.tags.includes(tag.id)
+                                );
+
+                                return (
+                                  <li
+                                    key={task.id}
+                                    id={`search-result-${task.id}`}
+                                    role="option"
+                                    aria-selected={index === activeIndex}
+                                    onClick={() => handleSelect(task)}
+                                    onMouseEnter={() => setActiveIndex(index)}
+                                    className={`cursor-pointer rounded-lg px-2 py-2 text-sm ${
+                                      index === activeIndex ? 'bg-gray-100' : ''
+                                    }`}
+                                  >
+                                    <p
+                                      className={`break-words ${
+                                        task.completed
+                                          ? 'text-gray-500 line-through'
+                                          : 'text-gray-900'
+                                      }`}
+                                    >
+                                      <Highlight
+                                        segments={highlightText(
+                                          task.description,
+                                          words
+                                        )}
+                                      />
+                                    </p>
+                                    {notesSnippet && (
+                                      <p className="mt-0.5 truncate text-xs text-gray-500">
+                                        <Highlight segments={notesSnippet} />
+                                      </p>
+                                    )}
+                                    {taskTags.length > 0 && (
+                                      <p className="mt-0.5 text-xs text-gray-500">
+                                        {taskTags.map((tag, tagIndex) => (
+                                          <Fragment key={tag.id}>
+                                            {tagIndex > 0 && ', '}#
+                                            <Highlight
+                                              segments={highlightText(
+                                                tag.name,
+                                                words
+                                              )}
+                                            />
+                                          </Fragment>
+                                        ))}
+                                      </p>
+                                    )}
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {total > results.length && (
+                      <p className="px-2 pt-2 text-xs text-gray-500">
+                        Showing {results.length} of {total} matches, newest
+                        first
+                      </p>
+                    )}
+                  </div>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,202 @@
+import { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useAppStore } from '../stores/appStore';
+import { STORAGE_DRIVERS } from '../utils/storageDriver';
+import { isIndexedDBAvailable } from '../utils/indexedDBDriver';
+import { ROLLOVER_MODES } from '../utils/rollover';
+import { SORT_ORDERS } from '../utils/ordering';
+import type { Command } from '../utils/commands';
+import KeymapEditor from './KeymapEditor';
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[]; // Listed to rebind their shortcuts
+  readOnly?: boolean;
+}
+
+export default function SettingsDialog({
+  isOpen,
+  onClose,
+  commands,
+  readOnly = false,
+}: SettingsDialogProps) {
+  const {
+    sortOrder,
+    setSortOrder,
+    rolloverMode,
+    setRolloverMode,
+    autoCompleteChecklist,
+    setAutoCompleteChecklist,
+  } = usePreferencesStore();
+  const { storageDriver, setStorageDriver } = useAppStore();
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <Cog6ToothIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Settings
+                </Dialog.Title>
+
+                {/* Task order */}
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-700">
+                    Task order
+                  </legend>
+                  <p className="mt-1 text-xs text-gray-500">
+                    In manual order, drag tasks or move the focused task with
+                    Alt+↑ / Alt+↓.
+                  </p>
+                  <div className="mt-2 space-y-1 text-sm text-gray-700">
+                    {SORT_ORDERS.map((order) => (
+                      <label
+                        key={order.value}
+                        className="flex items-center gap-2"
+                      >
+                        <input
+                          type="radio"
+                          name="sort-order"
+                          value={order.value}
+                          checked={sortOrder === order.value}
+                          onChange={() => setSortOrder(order.value)}
+                          disabled={readOnly}
+                        />
+                        {order.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {/* Carry-over */}
+                <fieldset className="mt-6">
+                  <legend className="text-sm font-medium text-gray-700">
+                    Unfinished tasks from past days
+                  </legend>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Checked when the app starts and at midnight. Recurring tasks
+                    are not carried over.
+                  </p>
+                  <div className="mt-2 space-y-1 text-sm text-gray-700">
+                    {ROLLOVER_MODES.map((mode) => (
+                      <label
+                        key={mode.value}
+                        className="flex items-center gap-2"
+                      >
+                        <input
+                          type="radio"
+                          name="rollover-mode"
+                          value={mode.value}
+                          checked={rolloverMode === mode.value}
+                          onChange={() => setRolloverMode(mode.value)}
+                          disabled={readOnly}
+                        />
+                        {mode.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {/* Checklists */}
+                <fieldset className="mt-6">
+                  <legend className="text-sm font-medium text-gray-700">
+                    Checklists
+                  </legend>
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={autoCompleteChecklist}
+                      onChange={(e) =>
+                        setAutoCompleteChecklist(e.target.checked)
+                      }
+                      disabled={readOnly}
+                    />
+                    Complete a task when all its checklist items are checked
+                  </label>
+                </fieldset>
+
+                {/* Storage */}
+                <fieldset className="mt-6">
+                  <legend className="text-sm font-medium text-gray-700">
+                    Storage
+                  </legend>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Switching copies your data to the new storage; the old copy
+                    is left as it is.
+                  </p>
+                  <div className="mt-2 space-y-1 text-sm text-gray-700">
+                    {STORAGE_DRIVERS.map((driver) => (
+                      <label
+                        key={driver.value}
+                        className="flex items-center gap-2"
+                      >
+                        <input
+                          type="radio"
+                          name="storage-driver"
+                          value={driver.value}
+                          checked={storageDriver === driver.value}
+                          onChange={() => setStorageDriver(driver.value)}
+                          disabled={
+                            readOnly ||
+                            (driver.value === 'indexedDB' &&
+                              !isIndexedDBAvailable())
+                          }
+                        />
+                        {driver.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {/* Keyboard shortcuts */}
+                <KeymapEditor commands={commands} readOnly={readOnly} />
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,171 @@
+import { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { QuestionMarkCircleIcon } from '@heroicons/react/24/outline';
+import { COMMAND_GROUPS, type Command } from '../utils/commands';
+import { getCommandKeys, type Keymap } from '../utils/keymap';
+import { getKeySequenceText } from '../hooks/useKeyboardShortcuts';
+
+// Keys of the focused task in the task list, which cannot be rebound
+const TASK_LIST_KEYS = [
+  { title: 'Next task', keys: ['J', '↓'] },
+  { title: 'Previous task', keys: ['K', '↑'] },
+  { title: 'Complete or reopen', keys: ['X', 'Space'] },
+  { title: 'Edit', keys: ['E'] },
+  { title: 'Delete', keys: ['D', 'Delete'] },
+  { title: 'Show notes and checklist', keys: ['Enter'] },
+  { title: 'Move up or down (manual order)', keys: ['Alt+↑', 'Alt+↓'] },
+];
+
+const KBD_CLASS_NAME =
+  'rounded border border-gray-200 bg-gray-50 px-1.5 py-0.5 font-sans text-xs text-gray-500';
+
+interface ShortcutsOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[];
+  keymap: Keymap;
+  onCustomize: () => void;
+}
+
+/**
+ * List of the keyboard shortcuts in use, opened with ?
+ * Commands unavailable right now, such as Next day on today, are dimmed.
+ */
+export default function ShortcutsOverlay({
+  isOpen,
+  onClose,
+  commands,
+  keymap,
+  onCustomize,
+}: ShortcutsOverlayProps) {
+  const bound = commands
+    .filter((command) => !command.prompt)
+    .map((command) => ({ command, keys: getCommandKeys(command, keymap) }))
+    .filter(({ keys }) => keys.length > 0);
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <QuestionMarkCircleIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Keyboard shortcuts
+                </Dialog.Title>
+
+                <div className="grid gap-x-8 gap-y-4 sm:grid-cols-2">
+                  {COMMAND_GROUPS.map((group) => {
+                    const groupBindings = bound.filter(
+                      ({ command }) => command.group === group
+                    );
+                    if (groupBindings.length === 0) {
+                      return null;
+                    }
+
+                    return (
+                      <section key={group}>
+                        <h4 className="text-xs font-medium text-gray-500">
+                          {group}
+                        </h4>
+                        <dl className="mt-1 space-y-1 text-sm">
+                          {groupBindings.map(({ command, keys }) => (
+                            <div
+                              key={command.id}
+                              className={`flex items-center gap-2 ${
+                                command.disabled
+                                  ? 'text-gray-400'
+                                  : 'text-gray-700'
+                              }`}
+                            >
+                              <dt className="min-w-0 flex-1 truncate">
+                                {command.title}
+                              </dt>
+                              {keys.map((sequence) => (
+                                <dd key={sequence}>
+                                  <kbd className={KBD_CLASS_NAME}>
+                                    {getKeySequenceText(sequence)}
+                                  </kbd>
+                                </dd>
+                              ))}
+                            </div>
+                          ))}
+                        </dl>
+                      </section>
+                    );
+                  })}
+
+                  <section>
+                    <h4 className="text-xs font-medium text-gray-500">
+                      Task list
+                    </h4>
+                    <dl className="mt-1 space-y-1 text-sm text-gray-700">
+                      {TASK_LIST_KEYS.map(({ title, keys }) => (
+                        <div key={title} className="flex items-center gap-2">
+                          <dt className="min-w-0 flex-1 truncate">{title}</dt>
+                          {keys.map((key) => (
+                            <dd key={key}>
+                              <kbd className={KBD_CLASS_NAME}>{key}</kbd>
+                            </dd>
+                          ))}
+                        </div>
+                      ))}
+                    </dl>
+                  </section>
+                </div>
+
+                <p className="mt-4 text-xs text-gray-500">
+                  Keys separated by a space are pressed one after the other.
+                </p>
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onCustomize}
+                  >
+                    Customize
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
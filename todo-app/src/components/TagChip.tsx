@@ -0,0 +1,40 @@
+import type { Tag, TagColor } from '../types';
+
+const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-100 text-red-700',
+  orange: 'bg-orange-100 text-orange-700',
+  amber: 'bg-amber-100 text-amber-800',
+  green: 'bg-green-100 text-green-700',
+  teal: 'bg-teal-100 text-teal-700',
+  blue: 'bg-blue-100 text-blue-700',
+  purple: 'bg-purple-100 text-purple-700',
+  pink: 'bg-pink-100 text-pink-700',
+};
+
+interface TagChipProps {
+  tag: Tag;
+  selected?: boolean; // Outlined when used as a toggle
+  onClick?: () => void;
+}
+
+export default function TagChip({ tag, selected, onClick }: TagChipProps) {
+  const className = `inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+    TAG_COLOR_CLASSES[tag.color]
+  } ${selected ? 'ring-2 ring-primary-500' : ''}`;
+
+  if (!onClick) {
+    return <span className={className}>{tag.name}</span>;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`${className} ${selected === false ? 'opacity-60 hover:opacity-100' : ''}`}
+      aria-pressed={selected}
+    >
+      {tag.name}
+    </button>
+  );
+}
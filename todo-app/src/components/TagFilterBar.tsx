@@ -0,0 +1,59 @@
+import { TagIcon } from '@heroicons/react/24/outline';
+import type { Tag } from '../types';
+import TagChip from './TagChip';
+
+interface TagFilterBarProps {
+  tags: Tag[];
+  selected: string[]; // Tag ids
+  onChange: (tagIds: string[]) => void;
+  onManage: () => void;
+}
+
+export default function TagFilterBar({
+  tags,
+  selected,
+  onChange,
+  onManage,
+}: TagFilterBarProps) {
+  const toggle = (id: string) => {
+    onChange(
+      selected.includes(id)
+        ? selected.filter((tagId) => tagId !== id)
+        : [...selected, id]
+    );
+  };
+
+  return (
+    <div
+      className="mb-4 flex flex-wrap items-center gap-2"
+      role="group"
+      aria-label="Filter by tag"
+    >
+      <TagIcon className="h-4 w-4 text-gray-500" aria-hidden="true" />
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selected.includes(tag.id)}
+          onClick={() => toggle(tag.id)}
+        />
+      ))}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-gray-600 hover:text-gray-900"
+        >
+          Show all
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onManage}
+        className="ml-auto text-xs font-medium text-primary-600 hover:text-primary-700"
+      >
+        Manage tags
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { TagIcon } from '@heroicons/react/24/outline';
+import { useTaskStore } from '../stores/taskStore';
+import {
+  MAX_TAG_NAME_LENGTH,
+  TAG_COLORS,
+  getNextTagColor,
+  validateTagName,
+} from '../utils/tags';
+import type { Tag, TagColor } from '../types';
+import TagChip from './TagChip';
+
+interface TagManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+interface TagRowProps {
+  tag: Tag;
+  tags: Tag[];
+  taskCount: number;
+  readOnly: boolean;
+}
+
+function TagRow({ tag, tags, taskCount, readOnly }: TagRowProps) {
+  const { updateTag, mergeTags, deleteTag } = useTaskStore();
+  const [name, setName] = useState(tag.name);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(tag.name);
+  }, [tag.name]);
+
+  const handleRename = () => {
+    if (name === tag.name) {
+      return;
+    }
+
+    const validationError = validateTagName(tags, name, tag.id);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    updateTag(tag.id, { name });
+  };
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center gap-2">
+        <TagChip tag={tag} />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          onBlur={handleRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleRename();
+            }
+          }}
+          maxLength={MAX_TAG_NAME_LENGTH}
+          disabled={readOnly}
+          className="input-field min-w-0 flex-1 py-1 text-sm"
+          aria-label={`Name of tag ${tag.name}`}
+        />
+        <select
+          value={tag.color}
+          onChange={(e) =>
+            updateTag(tag.id, { color: e.target.value as TagColor })
+          }
+          disabled={readOnly}
+          className="rounded border-gray-300 text-sm"
+          aria-label={`Color of tag ${tag.name}`}
+        >
+          {TAG_COLORS.map((color) => (
+            <option key={color} value={color}>
+              {color}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+        <span>
+          {taskCount} task{taskCount !== 1 ? 's' : ''}
+        </span>
+        {tags.length > 1 && (
+          <select
+            value=""
+            onChange={(e) =>
+              e.target.value && mergeTags(tag.id, e.target.value)
+            }
+            disabled={readOnly}
+            className="rounded border-gray-300 py-0 text-xs"
+            aria-label={`Merge tag ${tag.name} into`}
+          >
+            <option value="">Merge into…</option>
+            {tags
+              .filter((other) => other.id !== tag.id)
+              .map((other) => (
+                <option key={other.id} value={other.id}>
+                  {other.name}
+                </option>
+              ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={() => deleteTag(tag.id)}
+          disabled={readOnly}
+          className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          aria-label={`Delete tag ${tag.name}`}
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function TagManagerDialog({
+  isOpen,
+  onClose,
+  readOnly = false,
+}: TagManagerDialogProps) {
+  const { tags, tasks, createTag } = useTaskStore();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateTagName(tags, name);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    if (await createTag(name, getNextTagColor(tags))) {
+      setName('');
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <TagIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Tags
+                </Dialog.Title>
+
+                {/* New tag */}
+                <form onSubmit={handleCreate}>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => {
+                        setName(e.target.value);
+                        setError(null);
+                      }}
+                      maxLength={MAX_TAG_NAME_LENGTH}
+                      disabled={readOnly}
+                      placeholder="New tag, e.g. work"
+                      className="input-field flex-1"
+                      aria-label="New tag name"
+                    />
+                    <button
+                      type="submit"
+                      className="btn-primary"
+                      disabled={readOnly}
+                    >
+                      Add
+                    </button>
+                  </div>
+                  {error && (
+                    <p className="mt-1 text-sm text-red-600" role="alert">
+                      {error}
+                    </p>
+                  )}
+                </form>
+
+                {tags.length === 0 ? (
+                  <p className="mt-4 text-sm text-gray-500">No tags yet.</p>
+                ) : (
+                  <ul
+                    className="mt-4 max-h-80 overflow-y-auto divide-y divide-gray-100"
+                    role="list"
+                  >
+                    {tags.map((tag) => (
+                      <TagRow
+                        key={tag.id}
+                        tag={tag}
+                        tags={tags}
+                        taskCount={
+                          tasks.filter((task) => task.tags.includes(tag.id))
+                            .length
+                        }
+                        readOnly={readOnly}
+                      />
+                    ))}
+                  </ul>
+                )}
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -1,16 +1,42 @@
 import { useState, forwardRef } from 'react';
-import { validateTaskDescription } from '../utils/validation';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import {
+  validateTaskDescription,
+  type TaskPriority,
+} from '../utils/validation';
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '../utils/priority';
+import { getTodayISO } from '../utils/dateUtils';
+import type { RecurrenceRule } from '../utils/recurrence';
+import RecurrenceFields from './RecurrenceFields';
 
 interface TaskFormProps {
-  onAddTask: (description: string) => void;
+  onAddTask: (description: string, priority: TaskPriority) => void;
+  onAddRecurringTask?: (
+    description: string,
+    rule: RecurrenceRule,
+    priority: TaskPriority
+  ) => void;
+  date?: string; // Date new tasks are added to, used as the start of recurring ones
   readOnly?: boolean;
   isLoading?: boolean;
 }
 
 const TaskForm = forwardRef<HTMLInputElement, TaskFormProps>(
-  ({ onAddTask, readOnly = false, isLoading = false }, ref) => {
+  (
+    {
+      onAddTask,
+      onAddRecurringTask,
+      date = getTodayISO(),
+      readOnly = false,
+      isLoading = false,
+    },
+    ref
+  ) => {
     const [description, setDescription] = useState('');
+    const [priority, setPriority] = useState<TaskPriority>('none');
     const [error, setError] = useState<string | null>(null);
+    const [isRepeatOpen, setIsRepeatOpen] = useState(false);
+    const [rule, setRule] = useState<RecurrenceRule | null>(null);
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
@@ -24,10 +50,17 @@ const TaskForm = forwardRef<HTMLInputElement, TaskFormProps>(
 
       // Clear error and submit
       setError(null);
-      onAddTask(description.trim());
+      if (rule && onAddRecurringTask) {
+        onAddRecurringTask(description.trim(), rule, priority);
+      } else {
+        onAddTask(description.trim(), priority);
+      }
 
       // Clear input
       setDescription('');
+      setPriority('none');
+      setRule(null);
+      setIsRepeatOpen(false);
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -63,6 +96,36 @@ const TaskForm = forwardRef<HTMLInputElement, TaskFormProps>(
               </p>
             )}
           </div>
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as TaskPriority)}
+            disabled={readOnly}
+            className="input-field w-auto"
+            aria-label="Priority"
+          >
+            {PRIORITY_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {PRIORITY_LABELS[level]}
+              </option>
+            ))}
+          </select>
+          {onAddRecurringTask && (
+            <button
+              type="button"
+              onClick={() => setIsRepeatOpen(!isRepeatOpen)}
+              disabled={readOnly}
+              className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                rule
+                  ? 'text-primary-600 bg-primary-50'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              aria-label="Repeat settings"
+              aria-expanded={isRepeatOpen}
+              title="Repeat"
+            >
+              <ArrowPathIcon className="h-5 w-5" />
+            </button>
+          )}
           <button
             type="submit"
             disabled={readOnly || isLoading}
@@ -73,6 +136,16 @@ const TaskForm = forwardRef<HTMLInputElement, TaskFormProps>(
             <span>{isLoading ? 'Adding...' : 'Add Task'}</span>
           </button>
         </div>
+        {onAddRecurringTask && isRepeatOpen && (
+          <div className="mt-2">
+            <RecurrenceFields
+              value={rule}
+              onChange={setRule}
+              startDate={date}
+              disabled={readOnly}
+            />
+          </div>
+        )}
       </form>
     );
   }
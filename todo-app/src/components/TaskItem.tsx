@@ -1,36 +1,97 @@
-import { useState, memo } from 'react';
-import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
-import type { Task } from '../types';
-import { getRelativeTime } from '../utils/dateUtils';
+import { useEffect, useState, memo } from 'react';
+import {
+  ArrowPathIcon,
+  BellIcon,
+  CalendarDaysIcon,
+  ClockIcon,
+  DocumentDuplicateIcon,
+  DocumentTextIcon,
+  ListBulletIcon,
+  PencilIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type { Tag, Task, TaskPriority } from '../types';
+import { formatDate, getRelativeTime } from '../utils/dateUtils';
+import { PRIORITY_LABELS } from '../utils/priority';
+import { getChecklistProgress } from '../utils/checklist';
+import { getDueDate, REMINDER_OFFSETS } from '../utils/reminders';
+import type { RescheduleMode } from '../utils/reschedule';
+import Markdown from './Markdown';
+import TagChip from './TagChip';
 
 interface TaskItemProps {
   task: Task;
+  tags?: Tag[]; // Tag registry, used to show the task's tags
   onToggle: (id: string) => void;
+  onToggleChecklistItem?: (taskId: string, itemId: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onReschedule?: (id: string, mode: RescheduleMode) => void;
+  onSelect?: (id: string, extend: boolean) => void; // Set while selecting tasks
+  isSelected?: boolean;
+  expanded?: boolean; // Notes and checklist shown, set from the keyboard
   readOnly?: boolean;
 }
 
+const PRIORITY_BADGE_CLASSES: Record<TaskPriority, string> = {
+  none: '',
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-700',
+  high: 'bg-orange-100 text-orange-700',
+  urgent: 'bg-red-100 text-red-700',
+};
+
 const TaskItem = memo(function TaskItem({
   task,
+  tags = [],
   onToggle,
+  onToggleChecklistItem,
   onEdit,
   onDelete,
+  onReschedule,
+  onSelect,
+  isSelected = false,
+  expanded,
   readOnly = false,
 }: TaskItemProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
-  const isLongDescription = task.description.length > 200;
-  const displayDescription = isExpanded || !isLongDescription
-    ? task.description
-    : task.description.slice(0, 200) + '...';
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
+
+  // Expanding opens both panels; each can still be toggled on its own
+  useEffect(() => {
+    if (expanded !== undefined) {
+      setIsNotesOpen(expanded);
+      setIsChecklistOpen(expanded);
+    }
+  }, [expanded]);
+
+  const checklistProgress = getChecklistProgress(task.checklist);
+  const taskTags = tags.filter((tag) => task.tags.includes(tag.id));
+  const dueDate = getDueDate(task);
+  const isOverdue = !task.completed && dueDate !== null && dueDate < new Date();
+  const reminderLabel = REMINDER_OFFSETS.find(
+    (offset) => offset.minutes === task.reminderMinutes
+  )?.label;
 
   return (
     <div
       className={`group flex items-start gap-3 p-3 rounded-lg hover:bg-gray-50 transition-colors ${
         task.completed ? 'opacity-75' : ''
-      }`}
+      } ${isSelected ? 'bg-primary-50' : ''}`}
       data-task-id={task.id}
     >
+      {/* Selection checkbox, Shift+click selects a range */}
+      {onSelect && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={(e) => onSelect(task.id, e.shiftKey)}
+          className="mt-1 h-4 w-4 text-primary-600 border-primary-300 rounded-full focus:ring-primary-500"
+          aria-label={`Select ${task.description}`}
+        />
+      )}
+
       {/* Checkbox */}
       <input
         type="checkbox"
@@ -48,21 +109,114 @@ const TaskItem = memo(function TaskItem({
             task.completed ? 'line-through text-gray-500' : ''
           }`}
         >
-          {displayDescription}
+          {task.description}
         </p>
 
-        {isLongDescription && (
-          <button
-            type="button"
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="text-xs text-primary-600 hover:text-primary-700 mt-1"
-          >
-            {isExpanded ? 'Show less' : 'Read more'}
-          </button>
+        {taskTags.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {taskTags.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </div>
+        )}
+
+        {isNotesOpen && task.notes && (
+          <Markdown
+            source={task.notes}
+            className="mt-2 rounded-lg bg-gray-50 p-3"
+          />
+        )}
+
+        {isChecklistOpen && task.checklist.length > 0 && (
+          <ul className="mt-2 space-y-1" role="list" aria-label="Checklist">
+            {task.checklist.map((item) => (
+              <li key={item.id}>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={item.completed}
+                    onChange={() => onToggleChecklistItem?.(task.id, item.id)}
+                    disabled={readOnly || !onToggleChecklistItem}
+                    className="mt-0.5 h-3.5 w-3.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500 disabled:opacity-50"
+                  />
+                  <span
+                    className={`break-words ${item.completed ? 'line-through text-gray-500' : ''}`}
+                  >
+                    {item.text}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
         )}
 
         {/* Timestamps */}
         <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+          {task.priority !== 'none' && (
+            <span
+              className={`rounded-full px-2 py-0.5 font-medium ${PRIORITY_BADGE_CLASSES[task.priority]}`}
+            >
+              {PRIORITY_LABELS[task.priority]}
+            </span>
+          )}
+          {task.dueTime && (
+            <span
+              className={`flex items-center gap-1 ${isOverdue ? 'text-red-600' : ''}`}
+              title={
+                task.reminderMinutes !== undefined
+                  ? `Reminder: ${reminderLabel ?? `${task.reminderMinutes} minutes before`}`
+                  : undefined
+              }
+            >
+              {task.reminderMinutes !== undefined ? (
+                <BellIcon className="h-3 w-3" aria-hidden="true" />
+              ) : (
+                <ClockIcon className="h-3 w-3" aria-hidden="true" />
+              )}
+              {isOverdue ? `Overdue ${task.dueTime}` : `Due ${task.dueTime}`}
+            </span>
+          )}
+          {task.notes && (
+            <button
+              type="button"
+              onClick={() => setIsNotesOpen(!isNotesOpen)}
+              className="flex items-center gap-1 hover:text-primary-600"
+              aria-expanded={isNotesOpen}
+            >
+              <DocumentTextIcon className="h-3 w-3" aria-hidden="true" />
+              {isNotesOpen ? 'Hide notes' : 'Notes'}
+            </button>
+          )}
+          {checklistProgress.total > 0 && (
+            <button
+              type="button"
+              onClick={() => setIsChecklistOpen(!isChecklistOpen)}
+              className={`flex items-center gap-1 hover:text-primary-600 ${
+                checklistProgress.done === checklistProgress.total
+                  ? 'text-green-600'
+                  : ''
+              }`}
+              aria-expanded={isChecklistOpen}
+              aria-label={`Checklist, ${checklistProgress.done} of ${checklistProgress.total} done`}
+            >
+              <ListBulletIcon className="h-3 w-3" aria-hidden="true" />
+              {checklistProgress.done}/{checklistProgress.total}
+            </button>
+          )}
+          {task.seriesId && (
+            <span className="flex items-center gap-1" title="Recurring task">
+              <ArrowPathIcon className="h-3 w-3" aria-hidden="true" />
+              Repeats
+            </span>
+          )}
+          {task.originalDate && (
+            <span
+              className="text-amber-600"
+              title={`Carried over ${task.rolloverCount ?? 1}×`}
+            >
+              From {formatDate(task.originalDate, 'MMM d')}
+            </span>
+          )}
           <span>Created at {getRelativeTime(task.createdAt)}</span>
           {task.completed && task.completedAt && (
             <span className="text-green-600">
@@ -72,8 +226,8 @@ const TaskItem = memo(function TaskItem({
         </div>
       </div>
 
-      {/* Action buttons */}
-      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+      {/* Action buttons, also shown while the task row has keyboard focus */}
+      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 group-focus-visible/row:opacity-100 focus-within:opacity-100 transition-opacity">
         <button
           type="button"
           onClick={() => onEdit(task.id)}
@@ -83,6 +237,30 @@ const TaskItem = memo(function TaskItem({
         >
           <PencilIcon className="h-4 w-4" />
         </button>
+        {onReschedule && (
+          <>
+            <button
+              type="button"
+              onClick={() => onReschedule(task.id, 'move')}
+              disabled={readOnly}
+              className="p-1 text-gray-400 hover:text-primary-600 disabled:opacity-50 transition-colors"
+              aria-label="Move to date"
+              title="Move to date…"
+            >
+              <CalendarDaysIcon className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onReschedule(task.id, 'copy')}
+              disabled={readOnly}
+              className="p-1 text-gray-400 hover:text-primary-600 disabled:opacity-50 transition-colors"
+              aria-label="Duplicate to date"
+              title="Duplicate to date…"
+            >
+              <DocumentDuplicateIcon className="h-4 w-4" />
+            </button>
+          </>
+        )}
         <button
           type="button"
           onClick={() => onDelete(task.id)}
@@ -1,47 +1,352 @@
-import { useRef } from 'react';
-import { useVirtualizer } from '@tanstack/react-virtual';
-import type { Task } from '../types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  defaultRangeExtractor,
+  useVirtualizer,
+  type Range,
+} from '@tanstack/react-virtual';
+import { Bars2Icon } from '@heroicons/react/24/outline';
+import type { SortOrder, Tag, Task } from '../types';
+import { getSelectionRange } from '../utils/bulk';
+import { sortTasks } from '../utils/ordering';
+import { TASK_DRAG_TYPE, type RescheduleMode } from '../utils/reschedule';
 import TaskItem from './TaskItem';
 
+// Distance from the edge of a scrolling list where dragging scrolls it
+const AUTO_SCROLL_EDGE = 40;
+const AUTO_SCROLL_STEP = 12;
+
+type RowAction =
+  | 'next'
+  | 'previous'
+  | 'first'
+  | 'last'
+  | 'toggle'
+  | 'edit'
+  | 'delete'
+  | 'expand';
+
+// Keys of a focused task row
+const ROW_KEYS: Record<string, RowAction> = {
+  j: 'next',
+  ArrowDown: 'next',
+  k: 'previous',
+  ArrowUp: 'previous',
+  Home: 'first',
+  End: 'last',
+  x: 'toggle',
+  ' ': 'toggle',
+  e: 'edit',
+  d: 'delete',
+  Delete: 'delete',
+  Enter: 'expand',
+};
+
+// Actions that change the task, unavailable in read-only mode
+const EDIT_ACTIONS: RowAction[] = ['toggle', 'edit', 'delete'];
+
 interface TaskListProps {
   tasks: Task[];
+  tags?: Tag[]; // Tag registry
   onToggle: (id: string) => void;
+  onToggleChecklistItem?: (taskId: string, itemId: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onReschedule?: (id: string, mode: RescheduleMode) => void;
+  onReorder?: (
+    orderedIds: string[],
+    fromIndex: number,
+    toIndex: number
+  ) => void;
+  selectedIds?: Set<string>; // Set while selecting tasks
+  onSelectionChange?: (ids: Set<string>) => void;
+  sortOrder?: SortOrder;
   readOnly?: boolean;
 }
 
 interface VirtualTaskSectionProps {
   tasks: Task[];
+  tags: Tag[];
   title: string;
   count: number;
   onToggle: (id: string) => void;
+  onToggleChecklistItem?: (taskId: string, itemId: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onReschedule?: (id: string, mode: RescheduleMode) => void;
+  onReorder?: (taskId: string, toIndex: number) => void; // Set when tasks can be reordered
+  selectedIds?: Set<string>;
+  onSelect?: (id: string, extend: boolean) => void;
+  expandedIds: Set<string>;
+  activeId: string | null; // Row in the tab order
+  focusRequest: string | null; // Row to focus once rendered
+  onFocused: () => void;
+  onRowFocus: (id: string) => void;
+  onRowKeyDown: (task: Task, e: React.KeyboardEvent<HTMLLIElement>) => void;
   readOnly: boolean;
 }
 
 function VirtualTaskSection({
   tasks,
+  tags,
   title,
   count,
   onToggle,
+  onToggleChecklistItem,
   onEdit,
   onDelete,
+  onReschedule,
+  onReorder,
+  selectedIds,
+  onSelect,
+  expandedIds,
+  activeId,
+  focusRequest,
+  onFocused,
+  onRowFocus,
+  onRowKeyDown,
   readOnly,
 }: VirtualTaskSectionProps) {
   const parentRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Task moved with the keyboard, focused again once it reaches its new index
+  const [movedTask, setMovedTask] = useState<{
+    id: string;
+    index: number;
+  } | null>(null);
 
   // Use virtualizer only if we have many tasks (50+)
   const useVirtualization = tasks.length >= 50;
+  const canReorder = !readOnly && onReorder !== undefined;
+  const draggedIndex = draggedId
+    ? tasks.findIndex((task) => task.id === draggedId)
+    : -1;
+
+  // Keep the dragged row rendered while it is scrolled out of view
+  const rangeExtractor = useCallback(
+    (range: Range) => {
+      const indexes = defaultRangeExtractor(range);
+      return draggedIndex >= 0 && !indexes.includes(draggedIndex)
+        ? [...indexes, draggedIndex].sort((a, b) => a - b)
+        : indexes;
+    },
+    [draggedIndex]
+  );
 
   const virtualizer = useVirtualizer({
     count: tasks.length,
     getScrollElement: () => parentRef.current,
     estimateSize: () => 72, // Estimated height of each task item
     overscan: 5, // Render 5 extra items above and below viewport
+    rangeExtractor,
     enabled: useVirtualization,
   });
+  const virtualItems = virtualizer.getVirtualItems();
+
+  useEffect(() => {
+    if (!movedTask || tasks[movedTask.index]?.id !== movedTask.id) {
+      return;
+    }
+
+    if (useVirtualization) {
+      virtualizer.scrollToIndex(movedTask.index);
+    }
+    // Wait a frame for the row to be rendered at its new place
+    const frame = requestAnimationFrame(() => {
+      listRef.current
+        ?.querySelector<HTMLElement>(`[data-task-row="${movedTask.id}"]`)
+        ?.focus();
+      setMovedTask(null);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [tasks, movedTask, useVirtualization, virtualizer]);
+
+  useEffect(() => {
+    const index = focusRequest
+      ? tasks.findIndex((task) => task.id === focusRequest)
+      : -1;
+    if (index < 0) {
+      return;
+    }
+
+    if (useVirtualization) {
+      virtualizer.scrollToIndex(index);
+    }
+    const frame = requestAnimationFrame(() => {
+      const row = listRef.current?.querySelector<HTMLElement>(
+        `[data-task-row="${focusRequest}"]`
+      );
+      // A virtualized row is only rendered once scrolled into view, so try again then
+      if (row) {
+        row.focus();
+        onFocused();
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [
+    tasks,
+    focusRequest,
+    onFocused,
+    useVirtualization,
+    virtualizer,
+    virtualItems,
+  ]);
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  // A task dropped on another date leaves the list without a dragend event
+  useEffect(() => {
+    if (draggedId && draggedIndex < 0) {
+      endDrag();
+    }
+  }, [draggedId, draggedIndex]);
+
+  const handleDrop = () => {
+    if (draggedId && draggedIndex >= 0 && dropIndex !== null) {
+      const toIndex = dropIndex > draggedIndex ? dropIndex - 1 : dropIndex;
+      if (toIndex !== draggedIndex) {
+        onReorder?.(draggedId, toIndex);
+      }
+    }
+    endDrag();
+  };
+
+  // Scroll the virtualized list while dragging near its edges
+  const handleScrollerDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!draggedId) {
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (e.clientY < rect.top + AUTO_SCROLL_EDGE) {
+      e.currentTarget.scrollTop -= AUTO_SCROLL_STEP;
+    } else if (e.clientY > rect.bottom - AUTO_SCROLL_EDGE) {
+      e.currentTarget.scrollTop += AUTO_SCROLL_STEP;
+    }
+  };
+
+  /**
+   * Drag and keyboard handlers for a row
+   * Only the active row is in the tab order; the list's keys move between rows.
+   * Any task can be dragged onto a day in the calendar. When reordering,
+   * Alt+↑/↓ moves the focused task, and dropping above or below a row's
+   * middle places the dragged task before or after it
+   */
+  const getRowProps = (
+    task: Task,
+    index: number
+  ): React.LiHTMLAttributes<HTMLLIElement> => {
+    const keyboardProps: React.LiHTMLAttributes<HTMLLIElement> = {
+      tabIndex: task.id === activeId ? 0 : -1,
+      'aria-keyshortcuts': canReorder
+        ? 'J K X Space E D Delete Enter Alt+ArrowUp Alt+ArrowDown'
+        : 'J K X Space E D Delete Enter',
+      onFocus: () => onRowFocus(task.id),
+      onKeyDown: (e) => {
+        if (
+          canReorder &&
+          e.altKey &&
+          (e.key === 'ArrowUp' || e.key === 'ArrowDown')
+        ) {
+          e.preventDefault();
+          const toIndex = index + (e.key === 'ArrowUp' ? -1 : 1);
+          if (toIndex >= 0 && toIndex < tasks.length) {
+            setMovedTask({ id: task.id, index: toIndex });
+            onReorder?.(task.id, toIndex);
+          }
+          return;
+        }
+        onRowKeyDown(task, e);
+      },
+    };
+
+    if (readOnly) {
+      return keyboardProps;
+    }
+
+    const dragProps: React.LiHTMLAttributes<HTMLLIElement> = {
+      ...keyboardProps,
+      draggable: true,
+      onDragStart: (e) => {
+        e.dataTransfer.effectAllowed = 'copyMove';
+        e.dataTransfer.setData(TASK_DRAG_TYPE, task.id);
+        e.dataTransfer.setData('text/plain', task.description);
+        setDraggedId(task.id);
+      },
+      onDragEnd: endDrag,
+    };
+
+    if (!canReorder) {
+      return dragProps;
+    }
+
+    return {
+      ...dragProps,
+      onDragOver: (e) => {
+        if (!draggedId) {
+          return;
+        }
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDropIndex(
+          e.clientY < rect.top + rect.height / 2 ? index : index + 1
+        );
+      },
+      onDrop: (e) => {
+        e.preventDefault();
+        handleDrop();
+      },
+    };
+  };
+
+  const renderRow = (task: Task, index: number) => {
+    // The drop line is drawn above the row, or below the last one
+    const isLast = index === tasks.length - 1;
+    const showDropLine =
+      draggedId !== null &&
+      (dropIndex === index || (isLast && dropIndex === tasks.length));
+
+    return (
+      <>
+        {showDropLine && (
+          <div
+            className={`pointer-events-none absolute inset-x-0 h-0.5 bg-primary-500 ${
+              dropIndex === index ? 'top-0' : 'bottom-0'
+            }`}
+            aria-hidden="true"
+          />
+        )}
+        <div
+          className={`flex items-start ${task.id === draggedId ? 'opacity-50' : ''}`}
+        >
+          {canReorder && (
+            <Bars2Icon
+              className="mt-4 h-4 w-4 shrink-0 cursor-grab text-gray-300 hover:text-gray-500"
+              aria-hidden="true"
+            />
+          )}
+          <div className="min-w-0 flex-1">
+            <TaskItem
+              task={task}
+              tags={tags}
+              onToggle={onToggle}
+              onToggleChecklistItem={onToggleChecklistItem}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onReschedule={onReschedule}
+              onSelect={onSelect}
+              isSelected={selectedIds?.has(task.id)}
+              expanded={expandedIds.has(task.id)}
+              readOnly={readOnly}
+            />
+          </div>
+        </div>
+      </>
+    );
+  };
 
   if (!useVirtualization) {
     // For small lists, render normally without virtualization
@@ -50,16 +355,15 @@ function VirtualTaskSection({
         <h3 className="text-sm font-medium text-gray-700 mb-3">
           {title} ({count})
         </h3>
-        <ul className="space-y-1" role="list">
-          {tasks.map((task) => (
-            <li key={task.id}>
-              <TaskItem
-                task={task}
-                onToggle={onToggle}
-                onEdit={onEdit}
-                onDelete={onDelete}
-                readOnly={readOnly}
-              />
+        <ul ref={listRef} className="space-y-1" role="list">
+          {tasks.map((task, index) => (
+            <li
+              key={task.id}
+              data-task-row={task.id}
+              className="group/row relative rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+              {...getRowProps(task, index)}
+            >
+              {renderRow(task, index)}
             </li>
           ))}
         </ul>
@@ -68,8 +372,6 @@ function VirtualTaskSection({
   }
 
   // Virtual scrolling for large lists
-  const items = virtualizer.getVirtualItems();
-
   return (
     <div>
       <h3 className="text-sm font-medium text-gray-700 mb-3">
@@ -77,6 +379,7 @@ function VirtualTaskSection({
       </h3>
       <div
         ref={parentRef}
+        onDragOver={handleScrollerDragOver}
         className="overflow-y-auto scrollbar-thin"
         style={{
           maxHeight: '400px', // Max height before scrolling
@@ -90,6 +393,7 @@ function VirtualTaskSection({
           }}
         >
           <ul
+            ref={listRef}
             role="list"
             style={{
               position: 'absolute',
@@ -98,12 +402,18 @@ function VirtualTaskSection({
               width: '100%',
             }}
           >
-            {items.map((virtualRow) => {
+            {virtualItems.map((virtualRow) => {
               const task = tasks[virtualRow.index];
+              if (!task) {
+                return null;
+              }
               return (
                 <li
                   key={task.id}
+                  ref={virtualizer.measureElement}
                   data-index={virtualRow.index}
+                  data-task-row={task.id}
+                  className="group/row rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
                   style={{
                     position: 'absolute',
                     top: 0,
@@ -111,14 +421,9 @@ function VirtualTaskSection({
                     width: '100%',
                     transform: `translateY(${virtualRow.start}px)`,
                   }}
+                  {...getRowProps(task, virtualRow.index)}
                 >
-                  <TaskItem
-                    task={task}
-                    onToggle={onToggle}
-                    onEdit={onEdit}
-                    onDelete={onDelete}
-                    readOnly={readOnly}
-                  />
+                  {renderRow(task, virtualRow.index)}
                 </li>
               );
             })}
@@ -129,27 +434,246 @@ function VirtualTaskSection({
   );
 }
 
+/**
+ * Tasks of the day, pending ones first
+ * The list is one tab stop: j/k or ↑/↓ move between tasks across both
+ * sections, x or Space toggles, e edits, d or Delete deletes and Enter
+ * expands the focused task. When the focused task leaves the list, the next
+ * one takes its place, once any dialog open has closed.
+ */
 export default function TaskList({
   tasks,
+  tags = [],
   onToggle,
+  onToggleChecklistItem,
   onEdit,
   onDelete,
+  onReschedule,
+  onReorder,
+  selectedIds,
+  onSelectionChange,
+  sortOrder = 'newest-first',
   readOnly = false,
 }: TaskListProps) {
-  const pendingTasks = tasks.filter((task) => !task.completed);
-  const completedTasks = tasks.filter((task) => task.completed);
+  // Last task clicked without Shift, where a Shift+click range starts
+  const selectionAnchor = useRef<string | null>(null);
+  const [pendingTasks, completedTasks, orderedTasks] = useMemo(() => {
+    const pending = sortTasks(
+      tasks.filter((task) => !task.completed),
+      sortOrder
+    );
+    const completed = sortTasks(
+      tasks.filter((task) => task.completed),
+      sortOrder,
+      false
+    );
+    return [pending, completed, [...pending, ...completed]];
+  }, [tasks, sortOrder]);
+
+  const [focusedId, setFocusedId] = useState<string | null>(null); // Last row focused
+  const [focusRequest, setFocusRequest] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const hasFocus = useRef(false); // Focus is in the list, or in a dialog opened from it
+  const orderedIds = useRef<string[]>([]);
+  const restoreAfterDialog = useRef<string | null>(null); // Row to focus once a dialog closes
+  const activeId = orderedTasks.some((task) => task.id === focusedId)
+    ? focusedId
+    : (orderedTasks[0]?.id ?? null);
+
+  const handleFocused = useCallback(() => setFocusRequest(null), []);
+
+  // Keep keyboard focus in the list when rows are removed or change sections
+  useEffect(() => {
+    const ids = orderedTasks.map((task) => task.id);
+    const previousIds = orderedIds.current;
+    orderedIds.current = ids;
+    if (!focusedId || !hasFocus.current) {
+      return;
+    }
+
+    let targetId = focusedId;
+    if (!ids.includes(focusedId)) {
+      const index = previousIds.indexOf(focusedId);
+      const nextId =
+        previousIds.slice(index + 1).find((id) => ids.includes(id)) ??
+        previousIds
+          .slice(0, Math.max(index, 0))
+          .reverse()
+          .find((id) => ids.includes(id)) ??
+        ids[0]; // A different day
+      if (!nextId) {
+        return;
+      }
+      targetId = nextId;
+      setFocusedId(nextId);
+    }
+
+    const active = document.activeElement;
+    if (!active || active === document.body) {
+      setFocusRequest(targetId);
+    } else if (active.closest('[role="dialog"]') && targetId !== focusedId) {
+      restoreAfterDialog.current = targetId;
+    }
+  }, [orderedTasks, focusedId]);
+
+  useEffect(() => {
+    const handleFocusIn = (e: FocusEvent) => {
+      const id = restoreAfterDialog.current;
+      if (
+        id &&
+        e.target instanceof Element &&
+        !e.target.closest('[role="dialog"]')
+      ) {
+        restoreAfterDialog.current = null;
+        setFocusRequest(id);
+      }
+    };
+    document.addEventListener('focusin', handleFocusIn);
+    return () => document.removeEventListener('focusin', handleFocusIn);
+  }, []);
+
+  const handleRowFocus = (id: string) => {
+    hasFocus.current = true;
+    setFocusedId(id);
+  };
+
+  // Focus leaving the page or moving elsewhere, but not into a dialog
+  const handleListBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    const next = e.relatedTarget;
+    const isFocusKept =
+      next instanceof Element
+        ? e.currentTarget.contains(next) ||
+          next.closest('[role="dialog"]') !== null
+        : !e.target.isConnected;
+    if (!isFocusKept) {
+      hasFocus.current = false;
+    }
+  };
+
+  const handleRowKeyDown = (
+    task: Task,
+    e: React.KeyboardEvent<HTMLLIElement>
+  ) => {
+    const action = ROW_KEYS[e.key];
+    // Keys typed in the task's own controls, or with a modifier, are left alone
+    if (
+      !action ||
+      e.target !== e.currentTarget ||
+      e.ctrlKey ||
+      e.metaKey ||
+      e.altKey
+    ) {
+      return;
+    }
+    if (readOnly && EDIT_ACTIONS.includes(action)) {
+      return;
+    }
+    // Keep the key from the app's shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+
+    const index = orderedTasks.findIndex(
+      (candidate) => candidate.id === task.id
+    );
+    const focusTask = (target: Task | undefined) => {
+      if (target) {
+        setFocusRequest(target.id);
+      }
+    };
+
+    switch (action) {
+      case 'next':
+        focusTask(orderedTasks[index + 1]);
+        break;
+      case 'previous':
+        focusTask(orderedTasks[index - 1]);
+        break;
+      case 'first':
+        focusTask(orderedTasks[0]);
+        break;
+      case 'last':
+        focusTask(orderedTasks[orderedTasks.length - 1]);
+        break;
+      case 'toggle':
+        onToggle(task.id);
+        break;
+      case 'edit':
+        onEdit(task.id);
+        break;
+      case 'delete':
+        onDelete(task.id);
+        break;
+      case 'expand':
+        setExpandedIds((current) => {
+          const updated = new Set(current);
+          if (!updated.delete(task.id)) {
+            updated.add(task.id);
+          }
+          return updated;
+        });
+        break;
+    }
+  };
+
+  const handleSelect =
+    selectedIds && onSelectionChange
+      ? (id: string, extend: boolean) => {
+          const updated = new Set(selectedIds);
+          if (extend) {
+            const orderedIds = [...pendingTasks, ...completedTasks].map(
+              (task) => task.id
+            );
+            getSelectionRange(orderedIds, selectionAnchor.current, id).forEach(
+              (rangeId) => updated.add(rangeId)
+            );
+          } else if (updated.has(id)) {
+            updated.delete(id);
+          } else {
+            updated.add(id);
+          }
+          if (!extend) {
+            selectionAnchor.current = id;
+          }
+          onSelectionChange(updated);
+        }
+      : undefined;
+
+  // Tasks are reordered within their section, in manual order only
+  const getReorderHandler = (sectionTasks: Task[]) =>
+    sortOrder === 'manual' && onReorder
+      ? (taskId: string, toIndex: number) => {
+          const orderedIds = sectionTasks.map((task) => task.id);
+          onReorder(orderedIds, orderedIds.indexOf(taskId), toIndex);
+        }
+      : undefined;
+
+  const focusProps = {
+    expandedIds,
+    activeId,
+    focusRequest,
+    onFocused: handleFocused,
+    onRowFocus: handleRowFocus,
+    onRowKeyDown: handleRowKeyDown,
+  };
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-6" onBlur={handleListBlur}>
       {/* Pending Tasks */}
       {pendingTasks.length > 0 && (
         <VirtualTaskSection
           tasks={pendingTasks}
+          tags={tags}
           title="Pending"
           count={pendingTasks.length}
           onToggle={onToggle}
+          onToggleChecklistItem={onToggleChecklistItem}
           onEdit={onEdit}
           onDelete={onDelete}
+          onReschedule={onReschedule}
+          onReorder={getReorderHandler(pendingTasks)}
+          selectedIds={selectedIds}
+          onSelect={handleSelect}
+          {...focusProps}
           readOnly={readOnly}
         />
       )}
@@ -158,11 +682,18 @@ export default function TaskList({
       {completedTasks.length > 0 && (
         <VirtualTaskSection
           tasks={completedTasks}
+          tags={tags}
           title="Completed"
           count={completedTasks.length}
           onToggle={onToggle}
+          onToggleChecklistItem={onToggleChecklistItem}
           onEdit={onEdit}
           onDelete={onDelete}
+          onReschedule={onReschedule}
+          onReorder={getReorderHandler(completedTasks)}
+          selectedIds={selectedIds}
+          onSelect={handleSelect}
+          {...focusProps}
           readOnly={readOnly}
         />
       )}
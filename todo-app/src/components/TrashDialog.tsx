@@ -0,0 +1,182 @@
+import { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useTaskStore } from '../stores/taskStore';
+import { formatDate, getRelativeTime } from '../utils/dateUtils';
+import { groupTrashByDate } from '../utils/trash';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 0, label: 'forever' },
+];
+
+export default function TrashDialog({
+  isOpen,
+  onClose,
+  readOnly = false,
+}: TrashDialogProps) {
+  const {
+    trash,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    setTrashRetention,
+  } = useTaskStore();
+  const groups = groupTrashByDate(trash.tasks);
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title
+                  as="h3"
+                  className="flex items-center gap-2 text-lg font-medium leading-6 text-gray-900 mb-4"
+                >
+                  <TrashIcon
+                    className="h-5 w-5 text-gray-600"
+                    aria-hidden="true"
+                  />
+                  Trash
+                </Dialog.Title>
+
+                {groups.length === 0 ? (
+                  <p className="text-sm text-gray-500">The trash is empty.</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto space-y-4">
+                    {groups.map(([date, tasks]) => (
+                      <section
+                        key={date}
+                        aria-label={formatDate(date, 'EEEE, MMM d, yyyy')}
+                      >
+                        <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                          {formatDate(date, 'EEEE, MMM d, yyyy')}
+                        </h4>
+                        <ul
+                          className="mt-1 divide-y divide-gray-100"
+                          role="list"
+                        >
+                          {tasks.map((task) => (
+                            <li
+                              key={task.id}
+                              className="flex items-start justify-between gap-3 py-2"
+                            >
+                              <div className="min-w-0">
+                                <p
+                                  className={`truncate text-sm text-gray-900 ${
+                                    task.completed
+                                      ? 'line-through text-gray-500'
+                                      : ''
+                                  }`}
+                                >
+                                  {task.description}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  Deleted {getRelativeTime(task.deletedAt)}
+                                </p>
+                              </div>
+                              <div className="flex flex-shrink-0 gap-2">
+                                <button
+                                  type="button"
+                                  onClick={() => restoreFromTrash(task.id)}
+                                  disabled={readOnly}
+                                  className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                                  aria-label={`Restore "${task.description}"`}
+                                >
+                                  Restore
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => deleteFromTrash(task.id)}
+                                  disabled={readOnly}
+                                  className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                                  aria-label={`Delete "${task.description}" forever`}
+                                >
+                                  Delete forever
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    ))}
+                  </div>
+                )}
+
+                {/* Settings */}
+                <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-gray-100 pt-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    Keep deleted tasks
+                    <select
+                      value={trash.retentionDays}
+                      onChange={(e) =>
+                        setTrashRetention(Number(e.target.value))
+                      }
+                      disabled={readOnly}
+                      className="rounded border-gray-300 text-sm"
+                      aria-label="How long to keep deleted tasks"
+                    >
+                      {RETENTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="mt-6 flex justify-between">
+                  <button
+                    type="button"
+                    className="btn-danger"
+                    onClick={emptyTrash}
+                    disabled={readOnly || trash.tasks.length === 0}
+                  >
+                    Empty trash
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
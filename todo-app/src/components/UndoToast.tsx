@@ -0,0 +1,28 @@
+import toast from 'react-hot-toast';
+
+/**
+ * Show a success toast with an Undo button
+ * Without an undo callback the toast only shows the message
+ */
+export function showUndoToast(message: string, onUndo?: () => void) {
+  if (!onUndo) {
+    toast.success(message);
+    return;
+  }
+
+  toast.success((t) => (
+    <span className="flex items-center gap-3">
+      {message}
+      <button
+        type="button"
+        onClick={() => {
+          toast.dismiss(t.id);
+          onUndo();
+        }}
+        className="text-sm font-medium text-primary-600 hover:text-primary-700"
+      >
+        Undo
+      </button>
+    </span>
+  ));
+}
@@ -1,17 +1,32 @@
-import { useEffect } from 'react';
-
-interface KeyboardShortcut {
-  key: string;
-  ctrlKey?: boolean;
-  shiftKey?: boolean;
-  altKey?: boolean;
-  metaKey?: boolean;
+import { useEffect, useRef } from 'react';
+import type { Command } from '../utils/commands';
+import {
+  getCommandKeys,
+  isMacPlatform,
+  isModifierKey,
+  matchKeySequence,
+  parseKeySequence,
+  SEQUENCE_TIMEOUT_MS,
+  type KeyPress,
+  type KeySequence,
+  type KeyStroke,
+  type Keymap,
+} from '../utils/keymap';
+
+export interface KeyboardShortcut {
+  keys: KeySequence; // One stroke, or several pressed in turn
   handler: () => void;
   description: string;
+  allowInInput?: boolean;
 }
 
+// Single keys that work in input fields by default
+const INPUT_KEYS = ['Escape', 'Enter'];
+
 /**
  * Custom hook for managing keyboard shortcuts
+ * Sequences such as "g t" wait up to a second for each next key; a key
+ * that does not continue the sequence starts over.
  * @param shortcuts Array of keyboard shortcut configurations
  * @param enabled Whether shortcuts are enabled (default: true)
  */
@@ -19,12 +34,19 @@ export function useKeyboardShortcuts(
   shortcuts: KeyboardShortcut[],
   enabled: boolean = true
 ) {
+  // Keys of a sequence pressed so far, kept across re-renders
+  const pending = useRef<{ presses: KeyPress[]; at: number }>({ presses: [], at: 0 });
+
   useEffect(() => {
     if (!enabled) {
       return;
     }
 
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (isModifierKey(event.key)) {
+        return;
+      }
+
       // Don't trigger shortcuts when typing in input/textarea
       const target = event.target as HTMLElement;
       const isInputElement =
@@ -32,23 +54,34 @@ export function useKeyboardShortcuts(
         target.tagName === 'TEXTAREA' ||
         target.isContentEditable;
 
-      for (const shortcut of shortcuts) {
-        const matchesKey = event.key.toLowerCase() === shortcut.key.toLowerCase();
-        const matchesCtrl = shortcut.ctrlKey === undefined || event.ctrlKey === shortcut.ctrlKey;
-        const matchesShift = shortcut.shiftKey === undefined || event.shiftKey === shortcut.shiftKey;
-        const matchesAlt = shortcut.altKey === undefined || event.altKey === shortcut.altKey;
-        const matchesMeta = shortcut.metaKey === undefined || event.metaKey === shortcut.metaKey;
-
-        if (matchesKey && matchesCtrl && matchesShift && matchesAlt && matchesMeta) {
-          // Some shortcuts should work in input fields (like Escape)
-          const allowInInput = shortcut.key === 'Escape' || shortcut.key === 'Enter';
-
-          if (!isInputElement || allowInInput) {
-            event.preventDefault();
-            shortcut.handler();
-            break;
-          }
-        }
+      // Some shortcuts should work in input fields (like Escape)
+      const available = shortcuts.filter(
+        (shortcut) =>
+          !isInputElement ||
+          shortcut.allowInInput ||
+          (shortcut.keys.length === 1 && INPUT_KEYS.includes(shortcut.keys[0]?.key ?? ''))
+      );
+      const sequences = available.map((shortcut) => shortcut.keys);
+
+      const now = Date.now();
+      const previous =
+        now - pending.current.at < SEQUENCE_TIMEOUT_MS ? pending.current.presses : [];
+      let presses = [...previous, event];
+      let match = matchKeySequence(presses, sequences);
+      if (match.status === 'none' && previous.length > 0) {
+        presses = [event];
+        match = matchKeySequence(presses, sequences);
+      }
+
+      if (match.status === 'complete') {
+        event.preventDefault();
+        pending.current = { presses: [], at: 0 };
+        available[match.index]?.handler();
+      } else if (match.status === 'partial') {
+        event.preventDefault();
+        pending.current = { presses, at: now };
+      } else {
+        pending.current = { presses: [], at: 0 };
       }
     };
 
@@ -60,14 +93,50 @@ export function useKeyboardShortcuts(
   }, [shortcuts, enabled]);
 }
 
+/**
+ * Bind the key sequences of the enabled commands
+ * Commands with a prompt are left to the command palette
+ * @param keymap Sequences replacing the commands' defaults
+ */
+export function getCommandShortcuts(commands: Command[], keymap: Keymap = {}): KeyboardShortcut[] {
+  return commands
+    .filter((command) => !command.disabled && !command.prompt)
+    .flatMap((command) =>
+      getCommandKeys(command, keymap).flatMap((sequence) => {
+        const keys = parseKeySequence(sequence);
+        return keys
+          ? [
+              {
+                keys,
+                description: command.title,
+                allowInInput: command.allowInInput,
+                handler: () => command.run(),
+              },
+            ]
+          : [];
+      })
+    );
+}
+
+// Keys shown by symbol or name rather than uppercased
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Enter: 'Enter',
+  ' ': 'Space',
+};
+
 /**
  * Get keyboard shortcut display text
  */
-export function getShortcutText(shortcut: KeyboardShortcut): string {
+export function getShortcutText(shortcut: KeyStroke): string {
   const parts: string[] = [];
 
   // Detect OS
-  const isMac = typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+  const isMac = isMacPlatform();
 
   if (shortcut.ctrlKey) {
     parts.push(isMac ? '⌘' : 'Ctrl');
@@ -78,11 +147,16 @@ export function getShortcutText(shortcut: KeyboardShortcut): string {
   if (shortcut.altKey) {
     parts.push(isMac ? '⌥' : 'Alt');
   }
-  if (shortcut.metaKey) {
-    parts.push('Meta');
-  }
 
-  parts.push(shortcut.key.toUpperCase());
+  parts.push(KEY_LABELS[shortcut.key] ?? shortcut.key.toUpperCase());
 
   return parts.join(isMac ? '' : '+');
 }
+
+/**
+ * Get the display text of a key sequence, e.g. "G T" for "g t"
+ */
+export function getKeySequenceText(sequence: string): string {
+  const strokes = parseKeySequence(sequence);
+  return strokes ? strokes.map(getShortcutText).join(' ') : sequence;
+}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { useTaskStore } from '../stores/taskStore';
+import type { Task } from '../types';
+import { getTodayISO } from '../utils/dateUtils';
+import { createSearchIndex, type SearchResult } from '../utils/search';
+import {
+  getQueryWords,
+  hasQueryFilters,
+  matchesQuery,
+  parseQuery,
+  type QueryError,
+} from '../utils/query';
+
+// Shared by every search, so it is only built once
+const searchIndex = createSearchIndex();
+
+export interface TaskSearch extends SearchResult {
+  errors: QueryError[];
+  words: string; // Words to highlight in the results
+}
+
+/**
+ * Custom hook searching tasks of every date
+ * The index is synced once per store update, re-indexing only the tasks
+ * that changed, so typing a query never goes through the task list. The
+ * words of a query narrow the search through the index, and its filters
+ * are then checked on the tasks found.
+ * @param query Filter query, see utils/query
+ */
+export function useTaskSearch(query: string): TaskSearch {
+  const { tasks, tags } = useTaskStore();
+
+  const search = useMemo(() => {
+    searchIndex.sync(tasks, tags);
+    return (text: string): TaskSearch => {
+      const parsed = parseQuery(text);
+      const words = getQueryWords(parsed);
+      if (parsed.terms.length === 0) {
+        return { tasks: [], total: 0, errors: parsed.errors, words };
+      }
+
+      const context = { tags, today: getTodayISO(), now: new Date() };
+      const filter = hasQueryFilters(parsed)
+        ? (task: Task) => matchesQuery(task, parsed, context)
+        : undefined;
+      return {
+        ...searchIndex.search(words, undefined, filter),
+        errors: parsed.errors,
+        words,
+      };
+    };
+  }, [tasks, tags]);
+
+  return useMemo(() => search(query), [search, query]);
+}
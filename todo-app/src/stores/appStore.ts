@@ -1,50 +1,101 @@
 import { create } from 'zustand';
+import toast from 'react-hot-toast';
 import { getTodayISO } from '../utils/dateUtils';
-import { validateStorage } from '../utils/storage';
+import {
+  migrateStorage,
+  validateStorage,
+  recoverCorruptedStorage,
+} from '../utils/storage';
+import {
+  getStorageDriver,
+  initStorageDriver,
+  switchStorageDriver,
+  type StorageDriverName,
+} from '../utils/storageDriver';
 import { acquireTabLock, isLockActive } from '../utils/tabLock';
+import type { RecoveryReport } from '../utils/recovery';
+import type { MigrationReport } from '../utils/migrations';
 
 interface AppStore {
   // State
   selectedDate: string; // YYYY-MM-DD
+  tagFilter: string[]; // Tag ids; tasks with any of them are shown, none shows all
   isReadOnlyMode: boolean;
   readOnlyReason: string | null;
+  isStorageCorrupted: boolean;
   hasTabLock: boolean;
   lockId: string | null;
   isInitialized: boolean;
+  recoveryReport: RecoveryReport | null;
+  migrationReport: MigrationReport | null; // Schema upgrade done at startup
+  storageDriver: StorageDriverName;
 
   // Actions
   setSelectedDate: (date: string) => void;
+  setTagFilter: (tagIds: string[]) => void;
   initializeApp: () => Promise<void>;
   enterReadOnlyMode: (reason: string) => void;
   exitReadOnlyMode: () => void;
   attemptAcquireTabLock: () => Promise<boolean>;
+  dismissRecoveryReport: () => void;
+  setStorageDriver: (name: StorageDriverName) => Promise<void>;
 }
 
 export const useAppStore = create<AppStore>()((set, get) => ({
   // Initial state
   selectedDate: getTodayISO(),
+  tagFilter: [],
   isReadOnlyMode: false,
   readOnlyReason: null,
+  isStorageCorrupted: false,
   hasTabLock: false,
   lockId: null,
   isInitialized: false,
+  recoveryReport: null,
+  migrationReport: null,
+  storageDriver: getStorageDriver().name,
 
   // Set selected date (for navigation)
   setSelectedDate: (date: string) => {
     set({ selectedDate: date });
   },
 
+  // Set the tags the task list is filtered by
+  setTagFilter: (tagIds: string[]) => {
+    set({ tagFilter: tagIds });
+  },
+
   // Initialize app (check storage, tab lock, etc.)
   initializeApp: async () => {
     try {
+      // Activate the storage driver the user opted into
+      const driver = await initStorageDriver();
+      set({ storageDriver: driver.name });
+
+      // Upgrade data written by an older version
+      const migrationReport = await migrateStorage();
+      if (migrationReport) {
+        set({ migrationReport });
+      }
+
       // Check storage integrity
-      const storageValid = validateStorage();
+      const storageValid = await validateStorage();
       if (!storageValid) {
-        set({
-          isReadOnlyMode: true,
-          readOnlyReason: 'Storage corrupted. Please reset or export your data.',
-        });
-        return;
+        // Salvage what we can, unless another tab may be writing
+        const recoveryReport = isLockActive()
+          ? null
+          : await recoverCorruptedStorage();
+        if (recoveryReport) {
+          set({ recoveryReport });
+        } else {
+          set({
+            isReadOnlyMode: true,
+            readOnlyReason:
+              'Storage corrupted. Please reset, export or import your data.',
+            isStorageCorrupted: true,
+          });
+          return;
+        }
       }
 
       // Check if another tab already has the lock
@@ -52,7 +103,8 @@ export const useAppStore = create<AppStore>()((set, get) => ({
       if (lockActive) {
         set({
           isReadOnlyMode: true,
-          readOnlyReason: 'Another tab is already open. Please close other tabs to edit tasks.',
+          readOnlyReason:
+            'Another tab is already open. Please close other tabs to edit tasks.',
         });
         return;
       }
@@ -74,6 +126,7 @@ export const useAppStore = create<AppStore>()((set, get) => ({
         lockId,
         isReadOnlyMode: false,
         readOnlyReason: null,
+        isStorageCorrupted: false,
         isInitialized: true,
       });
     } catch (error) {
@@ -117,4 +170,24 @@ export const useAppStore = create<AppStore>()((set, get) => ({
 
     return false;
   },
+
+  // Dismiss the report shown after recovering corrupted storage
+  dismissRecoveryReport: () => {
+    set({ recoveryReport: null });
+  },
+
+  // Copy the data to another storage backend and use it from now on
+  setStorageDriver: async (name: StorageDriverName) => {
+    try {
+      await switchStorageDriver(name);
+      set({ storageDriver: name });
+      const label = name === 'indexedDB' ? 'IndexedDB' : 'local storage';
+      toast.success(`Now storing data in ${label}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to switch storage';
+      toast.error(errorMessage);
+      console.error('Failed to switch storage driver:', error);
+    }
+  },
 }));
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import type { Task } from '../types';
+import {
+  listSnapshots,
+  readSnapshot,
+  restoreSnapshot,
+  updateBackupSettings,
+} from '../utils/storage';
+import {
+  DEFAULT_BACKUP_SETTINGS,
+  diffTasks,
+  type BackupSettings,
+  type SnapshotInfo,
+  type TaskDiff,
+} from '../utils/backups';
+
+interface BackupStore {
+  // State
+  snapshots: SnapshotInfo[];
+  settings: BackupSettings;
+  isLoading: boolean;
+  previewId: string | null;
+  previewDiff: TaskDiff | null;
+
+  // Actions
+  loadSnapshots: () => Promise<void>;
+  previewSnapshot: (id: string, currentTasks: Task[]) => Promise<void>;
+  clearPreview: () => void;
+  restoreSnapshot: (id: string) => Promise<boolean>;
+  updateSettings: (settings: BackupSettings) => Promise<void>;
+}
+
+export const useBackupStore = create<BackupStore>()((set) => ({
+  // Initial state
+  snapshots: [],
+  settings: DEFAULT_BACKUP_SETTINGS,
+  isLoading: false,
+  previewId: null,
+  previewDiff: null,
+
+  // Load the snapshot list and settings
+  loadSnapshots: async () => {
+    set({ isLoading: true });
+    const { snapshots, settings } = await listSnapshots();
+    set({ snapshots, settings, isLoading: false });
+  },
+
+  // Compare a snapshot with the current tasks
+  previewSnapshot: async (id: string, currentTasks: Task[]) => {
+    set({ previewId: id, previewDiff: null });
+
+    const snapshot = await readSnapshot(id);
+    if (!snapshot) {
+      toast.error('Backup not found or invalid');
+      set({ previewId: null });
+      return;
+    }
+
+    set({ previewDiff: diffTasks(currentTasks, snapshot.tasks) });
+  },
+
+  clearPreview: () => {
+    set({ previewId: null, previewDiff: null });
+  },
+
+  // Restore a snapshot (the current data is snapshotted first)
+  restoreSnapshot: async (id: string) => {
+    try {
+      await restoreSnapshot(id);
+      const { snapshots, settings } = await listSnapshots();
+      set({ snapshots, settings, previewId: null, previewDiff: null });
+      toast.success('Backup restored');
+      return true;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to restore backup';
+      toast.error(errorMessage);
+      console.error('Failed to restore backup:', error);
+      return false;
+    }
+  },
+
+  // Change snapshot count and interval
+  updateSettings: async (settings: BackupSettings) => {
+    try {
+      const index = await updateBackupSettings(settings);
+      set({ snapshots: index.snapshots, settings: index.settings });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : 'Failed to save backup settings';
+      toast.error(errorMessage);
+      console.error('Failed to save backup settings:', error);
+    }
+  },
+}));
@@ -1,18 +1,91 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { SortOrder } from '../types';
+import toast from 'react-hot-toast';
+import type { SavedQuery, SortOrder } from '../types';
+import type { Command } from '../utils/commands';
 import { getTodayISO } from '../utils/dateUtils';
 import { readStorage, atomicWrite } from '../utils/storage';
 import { createInitialAppData } from '../utils/validation';
+import type { RolloverMode } from '../utils/rollover';
+import { addSavedQuery, updateSavedQuery } from '../utils/query';
+import { setCommandKeys, type Keymap } from '../utils/keymap';
+
+/**
+ * Rewrite the saved queries in storage
+ * @throws {Error} If there is no data or the update is invalid
+ */
+async function writeSavedQueries(
+  update: (savedQueries: SavedQuery[]) => SavedQuery[]
+): Promise<SavedQuery[]> {
+  const currentData = await readStorage();
+  if (!currentData) {
+    throw new Error('No data found');
+  }
+
+  const savedQueries = update(currentData.preferences.savedQueries ?? []);
+  await atomicWrite({
+    ...currentData,
+    preferences: {
+      ...currentData.preferences,
+      savedQueries,
+    },
+    metadata: {
+      ...currentData.metadata,
+      lastModified: new Date().toISOString(),
+    },
+  });
+  return savedQueries;
+}
+
+/**
+ * Rewrite the keymap in storage
+ * @throws {Error} If there is no data or the update is invalid
+ */
+async function writeKeymap(
+  update: (keymap: Keymap) => Keymap
+): Promise<Keymap> {
+  const currentData = await readStorage();
+  if (!currentData) {
+    throw new Error('No data found');
+  }
+
+  const keymap = update(currentData.preferences.keymap ?? {});
+  await atomicWrite({
+    ...currentData,
+    preferences: {
+      ...currentData.preferences,
+      keymap,
+    },
+    metadata: {
+      ...currentData.metadata,
+      lastModified: new Date().toISOString(),
+    },
+  });
+  return keymap;
+}
 
 interface PreferencesStore {
   // State
   lastViewedDate: string; // YYYY-MM-DD
   sortOrder: SortOrder;
+  rolloverMode: RolloverMode;
+  autoCompleteChecklist: boolean;
+  savedQueries: SavedQuery[];
+  keymap: Keymap;
 
   // Actions
   setLastViewedDate: (date: string) => Promise<void>;
   setSortOrder: (sortOrder: SortOrder) => Promise<void>;
+  setRolloverMode: (rolloverMode: RolloverMode) => Promise<void>;
+  setAutoCompleteChecklist: (autoCompleteChecklist: boolean) => Promise<void>;
+  saveQuery: (name: string, query: string) => Promise<SavedQuery | null>;
+  updateSavedQuery: (
+    id: string,
+    changes: Partial<Pick<SavedQuery, 'name' | 'query' | 'pinned'>>
+  ) => Promise<void>;
+  deleteSavedQuery: (id: string) => Promise<void>;
+  setCommandKeys: (command: Command, keys: string[] | null) => Promise<void>;
+  resetKeymap: () => Promise<void>;
   loadPreferences: () => Promise<void>;
 }
 
@@ -22,11 +95,15 @@ export const usePreferencesStore = create<PreferencesStore>()(
       // Initial state
       lastViewedDate: getTodayISO(),
       sortOrder: 'newest-first',
+      rolloverMode: 'off',
+      autoCompleteChecklist: false,
+      savedQueries: [],
+      keymap: {},
 
       // Load preferences from storage
       loadPreferences: async () => {
         try {
-          const data = readStorage();
+          const data = await readStorage();
 
           if (!data) {
             const initialData = createInitialAppData();
@@ -34,6 +111,10 @@ export const usePreferencesStore = create<PreferencesStore>()(
             set({
               lastViewedDate: initialData.preferences.lastViewedDate,
               sortOrder: initialData.preferences.sortOrder,
+              rolloverMode: 'off',
+              autoCompleteChecklist: false,
+              savedQueries: [],
+              keymap: {},
             });
             return;
           }
@@ -41,6 +122,11 @@ export const usePreferencesStore = create<PreferencesStore>()(
           set({
             lastViewedDate: data.preferences.lastViewedDate,
             sortOrder: data.preferences.sortOrder,
+            rolloverMode: data.preferences.rolloverMode ?? 'off',
+            autoCompleteChecklist:
+              data.preferences.autoCompleteChecklist ?? false,
+            savedQueries: data.preferences.savedQueries ?? [],
+            keymap: data.preferences.keymap ?? {},
           });
         } catch (error) {
           console.error('Failed to load preferences:', error);
@@ -50,7 +136,7 @@ export const usePreferencesStore = create<PreferencesStore>()(
       // Set last viewed date
       setLastViewedDate: async (date: string) => {
         try {
-          const currentData = readStorage();
+          const currentData = await readStorage();
           if (!currentData) {
             throw new Error('No data found');
           }
@@ -77,7 +163,7 @@ export const usePreferencesStore = create<PreferencesStore>()(
       // Set sort order
       setSortOrder: async (sortOrder: SortOrder) => {
         try {
-          const currentData = readStorage();
+          const currentData = await readStorage();
           if (!currentData) {
             throw new Error('No data found');
           }
@@ -100,6 +186,135 @@ export const usePreferencesStore = create<PreferencesStore>()(
           console.error('Failed to save sort order:', error);
         }
       },
+
+      // Set how unfinished tasks are carried over to today
+      setRolloverMode: async (rolloverMode: RolloverMode) => {
+        try {
+          const currentData = await readStorage();
+          if (!currentData) {
+            throw new Error('No data found');
+          }
+
+          const updatedData = {
+            ...currentData,
+            preferences: {
+              ...currentData.preferences,
+              rolloverMode,
+            },
+            metadata: {
+              ...currentData.metadata,
+              lastModified: new Date().toISOString(),
+            },
+          };
+
+          await atomicWrite(updatedData);
+          set({ rolloverMode });
+        } catch (error) {
+          console.error('Failed to save rollover mode:', error);
+        }
+      },
+
+      // Set whether finishing a checklist completes its task
+      setAutoCompleteChecklist: async (autoCompleteChecklist: boolean) => {
+        try {
+          const currentData = await readStorage();
+          if (!currentData) {
+            throw new Error('No data found');
+          }
+
+          const updatedData = {
+            ...currentData,
+            preferences: {
+              ...currentData.preferences,
+              autoCompleteChecklist,
+            },
+            metadata: {
+              ...currentData.metadata,
+              lastModified: new Date().toISOString(),
+            },
+          };
+
+          await atomicWrite(updatedData);
+          set({ autoCompleteChecklist });
+        } catch (error) {
+          console.error('Failed to save checklist auto-completion:', error);
+        }
+      },
+
+      // Save a filter query under a name
+      saveQuery: async (name: string, query: string) => {
+        try {
+          let created: SavedQuery | null = null;
+          const savedQueries = await writeSavedQueries((current) => {
+            const result = addSavedQuery(current, name, query);
+            created = result.savedQuery;
+            return result.queries;
+          });
+          set({ savedQueries });
+          return created;
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Failed to save query';
+          toast.error(errorMessage);
+          console.error('Failed to save query:', error);
+          return null;
+        }
+      },
+
+      // Rename, edit, pin or unpin a saved query
+      updateSavedQuery: async (
+        id: string,
+        changes: Partial<Pick<SavedQuery, 'name' | 'query' | 'pinned'>>
+      ) => {
+        try {
+          const savedQueries = await writeSavedQueries((current) =>
+            updateSavedQuery(current, id, changes)
+          );
+          set({ savedQueries });
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Failed to update query';
+          toast.error(errorMessage);
+          console.error('Failed to update saved query:', error);
+        }
+      },
+
+      // Delete a saved query
+      deleteSavedQuery: async (id: string) => {
+        try {
+          const savedQueries = await writeSavedQueries((current) =>
+            current.filter((saved) => saved.id !== id)
+          );
+          set({ savedQueries });
+        } catch (error) {
+          console.error('Failed to delete saved query:', error);
+        }
+      },
+
+      // Rebind a command, or restore its default keys with null
+      setCommandKeys: async (command: Command, keys: string[] | null) => {
+        try {
+          const keymap = await writeKeymap((current) =>
+            setCommandKeys(current, command, keys)
+          );
+          set({ keymap });
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Failed to save shortcut';
+          toast.error(errorMessage);
+          console.error('Failed to save shortcut:', error);
+        }
+      },
+
+      // Restore the default keys of every command
+      resetKeymap: async () => {
+        try {
+          const keymap = await writeKeymap(() => ({}));
+          set({ keymap });
+        } catch (error) {
+          console.error('Failed to reset shortcuts:', error);
+        }
+      },
     }),
     {
       name: 'todo-app-preferences',
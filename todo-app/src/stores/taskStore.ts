@@ -1,279 +1,1436 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import type { Task, AppData } from '../types';
-import { atomicWrite, readStorage, clearStorage } from '../utils/storage';
-import { createInitialAppData } from '../utils/validation';
-import { getTodayISO } from '../utils/dateUtils';
+import type {
+  Task,
+  TaskEdits,
+  AppData,
+  TaskPriority,
+  Tag,
+  TagColor,
+} from '../types';
+import {
+  atomicWrite,
+  readStorage,
+  readHistory,
+  readTrash,
+  readSeries,
+  purgeTrash,
+  updateTrashRetention,
+  importAppData,
+} from '../utils/storage';
+import {
+  createInitialAppData,
+  validateTaskDescription,
+} from '../utils/validation';
+import { applyImportPlan, type ImportPlan } from '../utils/importData';
+import {
+  applyChanges,
+  createEmptyHistory,
+  getTaskChanges,
+  invertChanges,
+  recordHistoryEntry,
+  type Change,
+  type HistoryEntry,
+  type TaskHistory,
+} from '../utils/history';
+import {
+  createEmptyTrash,
+  moveToTrash,
+  purgeExpiredTasks,
+  toTask,
+  type Trash,
+} from '../utils/trash';
+import {
+  getOccurrences,
+  materializeOccurrences,
+  splitSeries,
+  type RecurrenceRule,
+  type RecurringSeries,
+} from '../utils/recurrence';
+import { describeRollover, rolloverTasks } from '../utils/rollover';
+import { getUrgentDates } from '../utils/priority';
+import {
+  addTag,
+  filterTasksByTags,
+  replaceTagId,
+  updateTag,
+} from '../utils/tags';
+import { resetChecklist, toggleChecklistItem } from '../utils/checklist';
+import {
+  canNotify,
+  describeReminder,
+  getDueReminders,
+} from '../utils/reminders';
+import { getPositionAfter, reorderPositions } from '../utils/ordering';
+import {
+  copyTaskToDate,
+  moveTaskToDate,
+  type RescheduleMode,
+} from '../utils/reschedule';
+import {
+  applyBulkAction,
+  countTasks,
+  describeBulkAction,
+  type BulkAction,
+} from '../utils/bulk';
+import { formatDate, getTodayISO } from '../utils/dateUtils';
+import { showUndoToast } from '../components/UndoToast';
 import toast from 'react-hot-toast';
 
 interface TaskStore {
   // State
   tasks: Task[];
+  history: TaskHistory;
+  trash: Trash;
+  series: RecurringSeries[];
+  tags: Tag[];
   isLoading: boolean;
   error: string | null;
 
   // Actions
   loadTasks: () => Promise<void>;
-  addTask: (description: string, date?: string) => Promise<void>;
+  addTask: (
+    description: string,
+    date?: string,
+    priority?: TaskPriority,
+    tags?: string[]
+  ) => Promise<void>;
+  addRecurringTask: (
+    description: string,
+    rule: RecurrenceRule,
+    startDate: string,
+    priority?: TaskPriority,
+    tags?: string[]
+  ) => Promise<void>;
+  materializeDate: (date: string) => Promise<void>;
+  carryOverTasks: () => Promise<void>;
   updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
+  updateFutureOccurrences: (
+    id: string,
+    changes: TaskEdits,
+    rule: RecurrenceRule
+  ) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
   toggleTaskCompletion: (id: string) => Promise<void>;
+  toggleChecklistItem: (taskId: string, itemId: string) => Promise<void>;
+  reorderTask: (
+    orderedIds: string[],
+    fromIndex: number,
+    toIndex: number
+  ) => Promise<void>;
+  rescheduleTask: (
+    id: string,
+    date: string,
+    mode: RescheduleMode
+  ) => Promise<void>;
+  deliverReminders: () => Promise<void>;
   getTasksByDate: (date: string) => Task[];
-  getTaskCounts: () => Record<string, number>;
+  getTaskCounts: (tagIds?: string[]) => Record<string, number>;
+  getUrgentDates: () => Set<string>;
+  bulkUpdateTasks: (ids: string[], action: BulkAction) => Promise<void>;
+  bulkDeleteTasks: (ids: string[]) => Promise<void>;
   bulkDeleteCompleted: () => Promise<void>;
   clearAllTasks: () => Promise<void>;
+  importData: (plan: ImportPlan) => Promise<boolean>;
+  undo: (entryId?: string) => Promise<void>;
+  redo: () => Promise<void>;
+  restoreFromTrash: (id: string) => Promise<void>;
+  deleteFromTrash: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  setTrashRetention: (retentionDays: number) => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
+  createTag: (name: string, color?: TagColor) => Promise<Tag | null>;
+  updateTag: (
+    id: string,
+    changes: Partial<Pick<Tag, 'name' | 'color'>>
+  ) => Promise<void>;
+  mergeTags: (sourceId: string, targetId: string) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
 }
 
-export const useTaskStore = create<TaskStore>()(
-  persist(
-    (set, get) => ({
-      // Initial state
-      tasks: [],
-      isLoading: false,
-      error: null,
-
-      // Load tasks from storage
-      loadTasks: async () => {
-        set({ isLoading: true, error: null });
-
-        try {
-          const data = readStorage();
-
-          if (!data) {
-            // Initialize with empty data
-            const initialData = createInitialAppData();
-            await atomicWrite(initialData);
-            set({ tasks: [], isLoading: false });
-            return;
-          }
-
-          set({ tasks: data.tasks, isLoading: false });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to load tasks';
-          set({ error: errorMessage, isLoading: false });
-          console.error('Failed to load tasks:', error);
-        }
-      },
+interface Revision<T> {
+  current: T;
+  updated: T;
+}
 
-      // Add new task
-      addTask: async (description: string, date?: string) => {
-        const trimmedDescription = description.trim();
+/**
+ * Set updatedAt on the tasks that were added or changed
+ */
+function touchTasks(currentTasks: Task[], updatedTasks: Task[]): Task[] {
+  const now = new Date().toISOString();
+  const currentById = new Map(currentTasks.map((task) => [task.id, task]));
 
-        if (trimmedDescription.length === 0) {
-          toast.error('Task description cannot be empty');
-          return;
-        }
+  return updatedTasks.map((task) => {
+    const current = currentById.get(task.id);
+    return current && JSON.stringify(current) === JSON.stringify(task)
+      ? task
+      : { ...task, updatedAt: now };
+  });
+}
 
-        if (trimmedDescription.length > 500) {
-          toast.error('Task description must be 500 characters or less');
-          return;
-        }
+/**
+ * Write updated data (and trash, series) and record their changes for undo
+ * Tag registry changes are part of the data, and changed tasks get a new updatedAt
+ * @returns The updated history and tasks, and the id of the recorded entry
+ * (null if nothing changed)
+ */
+async function commitWithHistory(
+  currentData: AppData,
+  updatedData: AppData,
+  history: TaskHistory,
+  label: string,
+  {
+    trash,
+    series,
+  }: { trash?: Revision<Trash>; series?: Revision<RecurringSeries[]> } = {}
+): Promise<{ history: TaskHistory; tasks: Task[]; entryId: string | null }> {
+  const tasks = touchTasks(currentData.tasks, updatedData.tasks);
+  const changes = getTaskChanges(currentData.tasks, tasks);
+  const updatedHistory = recordHistoryEntry(history, label, changes, {
+    trashChanges: trash
+      ? getTaskChanges(trash.current.tasks, trash.updated.tasks)
+      : [],
+    seriesChanges: series ? getTaskChanges(series.current, series.updated) : [],
+    tagChanges: getTaskChanges(currentData.tags, updatedData.tags),
+  });
+  await atomicWrite(
+    { ...updatedData, tasks },
+    { history: updatedHistory, trash: trash?.updated, series: series?.updated }
+  );
+  const entryId =
+    updatedHistory === history
+      ? null
+      : (updatedHistory.undo[updatedHistory.undo.length - 1]?.id ?? null);
+  return { history: updatedHistory, tasks, entryId };
+}
 
-        try {
-          const newTask: Task = {
-            id: crypto.randomUUID(),
-            description: trimmedDescription,
-            completed: false,
-            createdAt: new Date().toISOString(),
-            completedAt: null,
-            date: date || getTodayISO(),
-          };
+/**
+ * Show a reminder as a system notification, or as a toast without permission
+ */
+function showReminder(task: Task, now: Date) {
+  const body = describeReminder(task, now);
 
-          const currentData = readStorage() || createInitialAppData();
-          const updatedTasks = [...currentData.tasks, newTask];
-
-          const updatedData: AppData = {
-            ...currentData,
-            tasks: updatedTasks,
-            metadata: {
-              ...currentData.metadata,
-              lastModified: new Date().toISOString(),
-              totalTaskCount: updatedTasks.length,
-              newestTaskDate: newTask.date,
-              oldestTaskDate: currentData.metadata.oldestTaskDate || newTask.date,
-            },
-          };
+  if (canNotify()) {
+    try {
+      new Notification(task.description, { body, tag: task.id });
+      return;
+    } catch (error) {
+      // Some browsers only allow notifications from a service worker
+      console.error('Failed to show notification:', error);
+    }
+  }
 
-          await atomicWrite(updatedData);
-          set({ tasks: updatedTasks });
-          toast.success('Task added');
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to add task';
-          toast.error(errorMessage);
-          console.error('Failed to add task:', error);
-        }
-      },
-
-      // Update existing task
-      updateTask: async (id: string, updates: Partial<Task>) => {
-        try {
-          const currentData = readStorage();
-          if (!currentData) {
-            throw new Error('No data found');
-          }
-
-          const updatedTasks = currentData.tasks.map((task) =>
-            task.id === id ? { ...task, ...updates } : task
-          );
-
-          const updatedData: AppData = {
-            ...currentData,
-            tasks: updatedTasks,
-            metadata: {
-              ...currentData.metadata,
-              lastModified: new Date().toISOString(),
-            },
-          };
+  toast(`${task.description} · ${body}`, { icon: '⏰', duration: 10000 });
+}
 
-          await atomicWrite(updatedData);
-          set({ tasks: updatedTasks });
-          toast.success('Task updated');
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to update task';
-          toast.error(errorMessage);
-          console.error('Failed to update task:', error);
-        }
-      },
-
-      // Delete task
-      deleteTask: async (id: string) => {
-        try {
-          const currentData = readStorage();
-          if (!currentData) {
-            throw new Error('No data found');
-          }
-
-          const updatedTasks = currentData.tasks.filter((task) => task.id !== id);
-
-          const updatedData: AppData = {
-            ...currentData,
-            tasks: updatedTasks,
-            metadata: {
-              ...currentData.metadata,
-              lastModified: new Date().toISOString(),
-              totalTaskCount: updatedTasks.length,
-            },
-          };
+/**
+ * Move the tasks matching a predicate to the trash
+ * Deleted occurrences of recurring tasks are recorded as exceptions so
+ * they are not materialized again
+ * @returns The number of tasks moved and the id of the recorded entry
+ */
+async function trashTasks(
+  predicate: (task: Task) => boolean,
+  label: string,
+  set: (state: Partial<TaskStore>) => void,
+  get: () => TaskStore
+): Promise<{ count: number; entryId: string | null }> {
+  const currentData = await readStorage();
+  if (!currentData) {
+    throw new Error('No data found');
+  }
 
-          await atomicWrite(updatedData);
-          set({ tasks: updatedTasks });
-          toast.success('Task deleted');
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to delete task';
-          toast.error(errorMessage);
-          console.error('Failed to delete task:', error);
-        }
-      },
-
-      // Toggle task completion
-      toggleTaskCompletion: async (id: string) => {
-        try {
-          const currentData = readStorage();
-          if (!currentData) {
-            throw new Error('No data found');
-          }
-
-          const updatedTasks = currentData.tasks.map((task) => {
-            if (task.id === id) {
-              return {
-                ...task,
-                completed: !task.completed,
-                completedAt: !task.completed ? new Date().toISOString() : null,
-              };
-            }
-            return task;
-          });
-
-          const updatedData: AppData = {
-            ...currentData,
-            tasks: updatedTasks,
-            metadata: {
-              ...currentData.metadata,
-              lastModified: new Date().toISOString(),
-            },
-          };
+  const currentTrash = await readTrash();
+  const deleted = currentData.tasks.filter(predicate);
+  const updatedTasks = currentData.tasks.filter((task) => !predicate(task));
+  const updatedTrash = moveToTrash(currentTrash, deleted);
 
-          await atomicWrite(updatedData);
-          set({ tasks: updatedTasks });
-
-          const task = updatedTasks.find((t) => t.id === id);
-          if (task?.completed) {
-            toast.success('Task completed');
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to toggle task';
-          toast.error(errorMessage);
-          console.error('Failed to toggle task:', error);
-        }
-      },
-
-      // Get tasks for a specific date
-      getTasksByDate: (date: string) => {
-        const { tasks } = get();
-        return tasks.filter((task) => task.date === date);
-      },
-
-      // Get task counts per date
-      getTaskCounts: () => {
-        const { tasks } = get();
-        const counts: Record<string, number> = {};
-
-        tasks.forEach((task) => {
-          counts[task.date] = (counts[task.date] || 0) + 1;
-        });
-
-        return counts;
-      },
-
-      // Bulk delete completed tasks
-      bulkDeleteCompleted: async () => {
-        try {
-          const currentData = readStorage();
-          if (!currentData) {
-            throw new Error('No data found');
-          }
-
-          const completedCount = currentData.tasks.filter((t) => t.completed).length;
-          const updatedTasks = currentData.tasks.filter((task) => !task.completed);
-
-          const updatedData: AppData = {
-            ...currentData,
-            tasks: updatedTasks,
-            metadata: {
-              ...currentData.metadata,
-              lastModified: new Date().toISOString(),
-              totalTaskCount: updatedTasks.length,
-            },
-          };
+  const currentSeries = await readSeries();
+  const updatedSeries = currentSeries.map((series) => {
+    const dates = deleted
+      .filter(
+        (task) =>
+          task.seriesId === series.id && !series.exceptions.includes(task.date)
+      )
+      .map((task) => task.date);
+    return dates.length > 0
+      ? { ...series, exceptions: [...series.exceptions, ...dates] }
+      : series;
+  });
+
+  const { history, tasks, entryId } = await commitWithHistory(
+    currentData,
+    withTasks(currentData, updatedTasks),
+    get().history,
+    label,
+    {
+      trash: { current: currentTrash, updated: updatedTrash },
+      series: { current: currentSeries, updated: updatedSeries },
+    }
+  );
+  set({ tasks, trash: updatedTrash, series: updatedSeries, history });
+  return { count: deleted.length, entryId };
+}
+
+/**
+ * Change the tag registry, updating the tags of tasks, trashed tasks and series with it
+ * @returns The id of the recorded entry
+ * @throws {Error} If the registry update fails, e.g. a tag name is taken
+ */
+async function rewriteTags(
+  label: string,
+  updateRegistry: (tags: Tag[]) => Tag[],
+  updateItems: <T extends { tags: string[] }>(items: T[]) => T[],
+  set: (state: Partial<TaskStore>) => void,
+  get: () => TaskStore
+): Promise<string | null> {
+  const currentData = await readStorage();
+  if (!currentData) {
+    throw new Error('No data found');
+  }
+
+  const currentTrash = await readTrash();
+  const currentSeries = await readSeries();
+  const updatedTags = updateRegistry(currentData.tags);
+  const updatedTasks = updateItems(currentData.tasks);
+  const updatedTrash = {
+    ...currentTrash,
+    tasks: updateItems(currentTrash.tasks),
+  };
+  const updatedSeries = updateItems(currentSeries);
+
+  const { history, tasks, entryId } = await commitWithHistory(
+    currentData,
+    { ...withTasks(currentData, updatedTasks), tags: updatedTags },
+    get().history,
+    label,
+    {
+      trash: { current: currentTrash, updated: updatedTrash },
+      series: { current: currentSeries, updated: updatedSeries },
+    }
+  );
+  set({
+    tasks,
+    trash: updatedTrash,
+    series: updatedSeries,
+    tags: updatedTags,
+    history,
+  });
+  return entryId;
+}
+
+/**
+ * Undo callback for a recorded command, shown in its toast
+ * Missing when the command changed nothing, so there is nothing to undo
+ */
+function undoEntry(
+  get: () => TaskStore,
+  entryId: string | null
+): (() => void) | undefined {
+  return entryId ? () => void get().undo(entryId) : undefined;
+}
+
+/**
+ * Apply a history entry (or its inverse, to undo it) to the stored tasks, trash, series and tags
+ */
+async function applyHistoryEntry(
+  currentData: AppData,
+  entry: HistoryEntry,
+  inverse: boolean
+): Promise<{
+  tasks: Task[];
+  trash: Trash;
+  series: RecurringSeries[];
+  tags: Tag[];
+}> {
+  const forward = <T>(changes: Change<T>[]) =>
+    inverse ? invertChanges(changes) : changes;
+  const currentTrash = await readTrash();
+
+  return {
+    tasks: applyChanges(currentData.tasks, forward(entry.changes)),
+    trash: {
+      ...currentTrash,
+      tasks: applyChanges(currentTrash.tasks, forward(entry.trashChanges)),
+    },
+    series: applyChanges(await readSeries(), forward(entry.seriesChanges)),
+    tags: applyChanges(currentData.tags, forward(entry.tagChanges)),
+  };
+}
+
+/**
+ * Replace the tasks of AppData, keeping its metadata consistent
+ */
+function withTasks(data: AppData, tasks: Task[]): AppData {
+  const dates = tasks.map((task) => task.date).sort();
+
+  return {
+    ...data,
+    tasks,
+    metadata: {
+      ...data.metadata,
+      lastModified: new Date().toISOString(),
+      totalTaskCount: tasks.length,
+      oldestTaskDate: dates[0] ?? null,
+      newestTaskDate: dates[dates.length - 1] ?? null,
+    },
+  };
+}
+
+export const useTaskStore = create<TaskStore>()((set, get) => ({
+  // Initial state
+  tasks: [],
+  history: createEmptyHistory(),
+  trash: createEmptyTrash(),
+  series: [],
+  tags: [],
+  isLoading: false,
+  error: null,
+
+  // Load tasks from storage
+  loadTasks: async () => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const data = await readStorage();
+
+      if (!data) {
+        // Initialize with empty data
+        const initialData = createInitialAppData();
+        await atomicWrite(initialData);
+        set({ tasks: [], isLoading: false });
+        return;
+      }
+
+      // Expired tasks stay stored until the tab holding the lock purges them
+      const { trash } = purgeExpiredTasks(await readTrash());
+
+      set({
+        tasks: data.tasks,
+        history: await readHistory(),
+        trash,
+        series: await readSeries(),
+        tags: data.tags,
+        isLoading: false,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to load tasks';
+      set({ error: errorMessage, isLoading: false });
+      console.error('Failed to load tasks:', error);
+    }
+  },
+
+  // Add new task
+  addTask: async (
+    description: string,
+    date?: string,
+    priority: TaskPriority = 'none',
+    tags: string[] = []
+  ) => {
+    const trimmedDescription = description.trim();
+
+    if (trimmedDescription.length === 0) {
+      toast.error('Task description cannot be empty');
+      return;
+    }
+
+    if (trimmedDescription.length > 500) {
+      toast.error('Task description must be 500 characters or less');
+      return;
+    }
+
+    try {
+      const currentData = (await readStorage()) || createInitialAppData();
+      const taskDate = date || getTodayISO();
+      const newTask: Task = {
+        id: crypto.randomUUID(),
+        description: trimmedDescription,
+        notes: '',
+        completed: false,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+        date: taskDate,
+        priority,
+        tags,
+        checklist: [],
+        position: getPositionAfter(
+          currentData.tasks.filter((t) => t.date === taskDate)
+        ),
+      };
+
+      const updatedTasks = [...currentData.tasks, newTask];
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Add task'
+      );
+      set({ tasks, history });
+      showUndoToast('Task added', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to add task';
+      toast.error(errorMessage);
+      console.error('Failed to add task:', error);
+    }
+  },
+
+  // Add a recurring task, materializing its first occurrence if it falls on the start date
+  addRecurringTask: async (
+    description: string,
+    rule: RecurrenceRule,
+    startDate: string,
+    priority: TaskPriority = 'none',
+    tags: string[] = []
+  ) => {
+    const validationError = validateTaskDescription(description);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      const currentData = (await readStorage()) || createInitialAppData();
+      const currentSeries = await readSeries();
+      const newSeries: RecurringSeries = {
+        id: crypto.randomUUID(),
+        description: description.trim(),
+        notes: '',
+        priority,
+        tags,
+        checklist: [],
+        rule,
+        startDate,
+        createdAt: new Date().toISOString(),
+        exceptions: [],
+      };
+
+      const hasOccurrences =
+        rule.until === undefined ||
+        getOccurrences(newSeries, startDate, rule.until).length > 0;
+      if (!hasOccurrences) {
+        toast.error('This repeat rule has no occurrences');
+        return;
+      }
+
+      const updatedSeries = [...currentSeries, newSeries];
+      const updatedTasks = [
+        ...currentData.tasks,
+        ...materializeOccurrences(currentData.tasks, [newSeries], startDate),
+      ];
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Add recurring task',
+        { series: { current: currentSeries, updated: updatedSeries } }
+      );
+      set({ tasks, series: updatedSeries, history });
+      showUndoToast('Recurring task added', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to add task';
+      toast.error(errorMessage);
+      console.error('Failed to add recurring task:', error);
+    }
+  },
+
+  // Create the tasks for recurring occurrences on a date
+  // Not recorded in the history: occurrences are derived from their series
+  materializeDate: async (date: string) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        return;
+      }
+
+      const newTasks = materializeOccurrences(
+        currentData.tasks,
+        await readSeries(),
+        date
+      );
+      if (newTasks.length === 0) {
+        return;
+      }
+
+      const updatedTasks = [...currentData.tasks, ...newTasks];
+      await atomicWrite(withTasks(currentData, updatedTasks));
+      set({ tasks: updatedTasks });
+    } catch (error) {
+      console.error('Failed to materialize recurring tasks:', error);
+    }
+  },
+
+  // Carry unfinished tasks from past dates over to today, if enabled
+  carryOverTasks: async () => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        return;
+      }
 
-          await atomicWrite(updatedData);
-          set({ tasks: updatedTasks });
-          toast.success(`${completedCount} completed tasks deleted`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to delete tasks';
-          toast.error(errorMessage);
-          console.error('Failed to bulk delete:', error);
+      const { rolloverMode = 'off', lastRolloverDate } =
+        currentData.preferences;
+      const today = getTodayISO();
+      if (rolloverMode === 'off' || lastRolloverDate === today) {
+        return;
+      }
+
+      const { tasks: updatedTasks, carried } = rolloverTasks(
+        currentData.tasks,
+        today,
+        rolloverMode,
+        lastRolloverDate ?? null
+      );
+      const updatedData = withTasks(
+        {
+          ...currentData,
+          preferences: { ...currentData.preferences, lastRolloverDate: today },
+        },
+        updatedTasks
+      );
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        updatedData,
+        get().history,
+        'Carry over tasks'
+      );
+      set({ tasks, history });
+
+      if (carried.length > 0) {
+        showUndoToast(
+          describeRollover(carried, today),
+          undoEntry(get, entryId)
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to carry over tasks';
+      toast.error(errorMessage);
+      console.error('Failed to carry over tasks:', error);
+    }
+  },
+
+  // Update existing task
+  updateTask: async (id: string, updates: Partial<Task>) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const updatedTasks = currentData.tasks.map((task) =>
+        task.id === id ? { ...task, ...updates } : task
+      );
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Edit task'
+      );
+      set({ tasks, history });
+      showUndoToast('Task updated', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update task';
+      toast.error(errorMessage);
+      console.error('Failed to update task:', error);
+    }
+  },
+
+  // Edit an occurrence and every later one by splitting its series
+  updateFutureOccurrences: async (
+    id: string,
+    changes: TaskEdits,
+    rule: RecurrenceRule
+  ) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const task = currentData.tasks.find((t) => t.id === id);
+      const currentSeries = await readSeries();
+      const series = currentSeries.find((s) => s.id === task?.seriesId);
+      if (!task || !series) {
+        throw new Error('Recurring task not found');
+      }
+
+      const { ended, next } = splitSeries(series, task.date, {
+        ...changes,
+        rule,
+      });
+      const updatedSeries = currentSeries.flatMap((s) =>
+        s.id === series.id ? (ended ? [ended, next] : [next]) : [s]
+      );
+
+      // Pending later occurrences move to the new series, or are dropped
+      // if the new rule skips their date; they get the checklist unchecked
+      const updatedTasks = currentData.tasks.flatMap((t) => {
+        if (
+          t.seriesId !== series.id ||
+          t.date < task.date ||
+          (t.completed && t.id !== id)
+        ) {
+          return [t];
         }
-      },
-
-      // Clear all tasks
-      clearAllTasks: async () => {
-        try {
-          clearStorage();
-          const initialData = createInitialAppData();
-          await atomicWrite(initialData);
-          set({ tasks: [] });
-          toast.success('All tasks cleared');
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Failed to clear tasks';
-          toast.error(errorMessage);
-          console.error('Failed to clear tasks:', error);
+        if (t.id !== id && getOccurrences(next, t.date, t.date).length === 0) {
+          return [];
         }
-      },
-    }),
-    {
-      name: 'todo-app-tasks',
-      skipHydration: true, // We'll manually hydrate in the App component
+        const checklist =
+          t.id === id ? changes.checklist : resetChecklist(changes.checklist);
+        return [{ ...t, ...changes, checklist, seriesId: next.id }];
+      });
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Edit recurring task',
+        { series: { current: currentSeries, updated: updatedSeries } }
+      );
+      set({ tasks, series: updatedSeries, history });
+      showUndoToast('Recurring task updated', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update task';
+      toast.error(errorMessage);
+      console.error('Failed to update recurring task:', error);
+    }
+  },
+
+  // Move task to the trash
+  deleteTask: async (id: string) => {
+    try {
+      const { entryId } = await trashTasks(
+        (task) => task.id === id,
+        'Delete task',
+        set,
+        get
+      );
+      showUndoToast('Task moved to trash', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to delete task';
+      toast.error(errorMessage);
+      console.error('Failed to delete task:', error);
+    }
+  },
+
+  // Toggle task completion
+  toggleTaskCompletion: async (id: string) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const updatedTasks = currentData.tasks.map((task) => {
+        if (task.id === id) {
+          return {
+            ...task,
+            completed: !task.completed,
+            completedAt: !task.completed ? new Date().toISOString() : null,
+          };
+        }
+        return task;
+      });
+
+      const updatedData: AppData = {
+        ...currentData,
+        tasks: updatedTasks,
+        metadata: {
+          ...currentData.metadata,
+          lastModified: new Date().toISOString(),
+        },
+      };
+
+      const task = updatedTasks.find((t) => t.id === id);
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        updatedData,
+        get().history,
+        task?.completed ? 'Complete task' : 'Reopen task'
+      );
+      set({ tasks, history });
+
+      if (task?.completed) {
+        showUndoToast('Task completed', undoEntry(get, entryId));
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to toggle task';
+      toast.error(errorMessage);
+      console.error('Failed to toggle task:', error);
+    }
+  },
+
+  // Check or uncheck a checklist item, completing or reopening the task if enabled
+  toggleChecklistItem: async (taskId: string, itemId: string) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const task = currentData.tasks.find((t) => t.id === taskId);
+      const item = task?.checklist.find((i) => i.id === itemId);
+      if (!task || !item) {
+        throw new Error('Checklist item not found');
+      }
+
+      const updatedTask = toggleChecklistItem(
+        task,
+        itemId,
+        currentData.preferences.autoCompleteChecklist ?? false
+      );
+      const updatedTasks = currentData.tasks.map((t) =>
+        t.id === taskId ? updatedTask : t
+      );
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        item.completed ? 'Uncheck item' : 'Check item'
+      );
+      set({ tasks, history });
+
+      if (updatedTask.completed && !task.completed) {
+        showUndoToast(
+          'Checklist done, task completed',
+          undoEntry(get, entryId)
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update checklist';
+      toast.error(errorMessage);
+      console.error('Failed to toggle checklist item:', error);
+    }
+  },
+
+  // Move a task within a displayed list, in manual order
+  reorderTask: async (
+    orderedIds: string[],
+    fromIndex: number,
+    toIndex: number
+  ) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const tasksById = new Map(
+        currentData.tasks.map((task) => [task.id, task])
+      );
+      const orderedTasks = orderedIds.flatMap((id) => tasksById.get(id) ?? []);
+      if (orderedTasks.length !== orderedIds.length) {
+        throw new Error('Task not found');
+      }
+
+      const positions = reorderPositions(orderedTasks, fromIndex, toIndex);
+      if (positions.size === 0) {
+        return;
+      }
+
+      const updatedTasks = currentData.tasks.map((task) => {
+        const position = positions.get(task.id);
+        return position ? { ...task, position } : task;
+      });
+
+      const { history, tasks } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Reorder task'
+      );
+      set({ tasks, history });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to reorder task';
+      toast.error(errorMessage);
+      console.error('Failed to reorder task:', error);
+    }
+  },
+
+  // Move a task to another date, or copy it there
+  rescheduleTask: async (id: string, date: string, mode: RescheduleMode) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const task = currentData.tasks.find((t) => t.id === id);
+      if (!task) {
+        throw new Error('Task not found');
+      }
+      if (mode === 'move' && task.date === date) {
+        return;
+      }
+
+      const updatedTasks =
+        mode === 'move'
+          ? currentData.tasks.map((t) =>
+              t.id === id ? moveTaskToDate(t, date, currentData.tasks) : t
+            )
+          : [
+              ...currentData.tasks,
+              copyTaskToDate(task, date, currentData.tasks),
+            ];
+
+      // A moved occurrence leaves its series, which must not create it again
+      const currentSeries = await readSeries();
+      const updatedSeries = currentSeries.map((series) =>
+        mode === 'move' &&
+        series.id === task.seriesId &&
+        !series.exceptions.includes(task.date)
+          ? { ...series, exceptions: [...series.exceptions, task.date] }
+          : series
+      );
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        mode === 'move' ? 'Move task' : 'Duplicate task',
+        { series: { current: currentSeries, updated: updatedSeries } }
+      );
+      set({ tasks, series: updatedSeries, history });
+
+      const target = formatDate(date, 'MMM d');
+      showUndoToast(
+        mode === 'move'
+          ? `Task moved to ${target}`
+          : `Task duplicated to ${target}`,
+        undoEntry(get, entryId)
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to move task';
+      toast.error(errorMessage);
+      console.error('Failed to reschedule task:', error);
+    }
+  },
+
+  // Show the reminders that are due and mark them delivered
+  // Not recorded in the history: delivering a reminder is not an edit
+  deliverReminders: async () => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        return;
+      }
+
+      const now = new Date();
+      const dueTasks = getDueReminders(currentData.tasks, now);
+      if (dueTasks.length === 0) {
+        return;
+      }
+
+      dueTasks.forEach((task) => showReminder(task, now));
+
+      const remindedIds = new Set(dueTasks.map((task) => task.id));
+      const updatedTasks = currentData.tasks.map((task) =>
+        remindedIds.has(task.id)
+          ? { ...task, remindedAt: now.toISOString() }
+          : task
+      );
+      await atomicWrite(withTasks(currentData, updatedTasks));
+      set({ tasks: updatedTasks });
+    } catch (error) {
+      console.error('Failed to deliver reminders:', error);
+    }
+  },
+
+  // Get tasks for a specific date
+  getTasksByDate: (date: string) => {
+    const { tasks } = get();
+    return tasks.filter((task) => task.date === date);
+  },
+
+  // Get task counts per date, optionally only for tasks with any of the given tags
+  getTaskCounts: (tagIds: string[] = []) => {
+    const { tasks } = get();
+    const counts: Record<string, number> = {};
+
+    filterTasksByTags(tasks, tagIds).forEach((task) => {
+      counts[task.date] = (counts[task.date] || 0) + 1;
+    });
+
+    return counts;
+  },
+
+  // Get dates with pending urgent tasks
+  getUrgentDates: () => getUrgentDates(get().tasks),
+
+  // Apply an action to several tasks as one undoable step
+  bulkUpdateTasks: async (ids: string[], action: BulkAction) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const { tasks: updatedTasks, changed } = applyBulkAction(
+        currentData.tasks,
+        new Set(ids),
+        action
+      );
+      if (changed.length === 0) {
+        return;
+      }
+
+      // Moved occurrences leave their series, which must not create them again
+      const movedIds = new Set(
+        action.type === 'move' ? changed.map((task) => task.id) : []
+      );
+      const moved = currentData.tasks.filter(
+        (task) => task.seriesId && movedIds.has(task.id)
+      );
+      const currentSeries = await readSeries();
+      const updatedSeries = currentSeries.map((series) => {
+        const dates = moved
+          .filter(
+            (task) =>
+              task.seriesId === series.id &&
+              !series.exceptions.includes(task.date)
+          )
+          .map((task) => task.date);
+        return dates.length > 0
+          ? { ...series, exceptions: [...series.exceptions, ...dates] }
+          : series;
+      });
+
+      const tagName =
+        action.type === 'tag'
+          ? currentData.tags.find((tag) => tag.id === action.tagId)?.name
+          : undefined;
+      const { label, message } = describeBulkAction(
+        action,
+        changed.length,
+        tagName
+      );
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        label,
+        { series: { current: currentSeries, updated: updatedSeries } }
+      );
+      set({ tasks, series: updatedSeries, history });
+      showUndoToast(message, undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update tasks';
+      toast.error(errorMessage);
+      console.error('Failed to update tasks:', error);
+    }
+  },
+
+  // Move several tasks to the trash
+  bulkDeleteTasks: async (ids: string[]) => {
+    try {
+      const selected = new Set(ids);
+      const { count, entryId } = await trashTasks(
+        (task) => selected.has(task.id),
+        'Delete tasks',
+        set,
+        get
+      );
+      showUndoToast(
+        `${countTasks(count)} moved to trash`,
+        undoEntry(get, entryId)
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to delete tasks';
+      toast.error(errorMessage);
+      console.error('Failed to delete tasks:', error);
+    }
+  },
+
+  // Move all completed tasks to the trash
+  bulkDeleteCompleted: async () => {
+    try {
+      const { count, entryId } = await trashTasks(
+        (task) => task.completed,
+        'Delete completed tasks',
+        set,
+        get
+      );
+      showUndoToast(
+        `${count} completed tasks moved to trash`,
+        undoEntry(get, entryId)
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to delete tasks';
+      toast.error(errorMessage);
+      console.error('Failed to bulk delete:', error);
+    }
+  },
+
+  // Move every task to the trash
+  clearAllTasks: async () => {
+    try {
+      const { entryId } = await trashTasks(
+        () => true,
+        'Clear all tasks',
+        set,
+        get
+      );
+      showUndoToast('All tasks moved to trash', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to clear tasks';
+      toast.error(errorMessage);
+      console.error('Failed to clear tasks:', error);
+    }
+  },
+
+  // Import a previewed backup file
+  importData: async (plan: ImportPlan) => {
+    try {
+      const currentData = (await readStorage()) ?? createInitialAppData();
+      const importedData = applyImportPlan(currentData, plan);
+
+      await importAppData(importedData);
+      set({
+        tasks: importedData.tasks,
+        tags: importedData.tags,
+        history: createEmptyHistory(),
+        error: null,
+      });
+      toast.success(
+        `Imported ${importedData.tasks.length} task${importedData.tasks.length !== 1 ? 's' : ''}`
+      );
+      return true;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to import data';
+      toast.error(errorMessage);
+      console.error('Failed to import data:', error);
+      return false;
+    }
+  },
+
+  // Revert the most recent command, or the given entry if it is still the most recent
+  undo: async (entryId?: string) => {
+    const { history } = get();
+    const entry = history.undo[history.undo.length - 1];
+    if (entryId !== undefined && entry?.id !== entryId) {
+      toast('Only the latest change can be undone');
+      return;
+    }
+    if (!entry) {
+      toast('Nothing to undo');
+      return;
+    }
+
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const {
+        tasks: updatedTasks,
+        trash: updatedTrash,
+        series: updatedSeries,
+        tags: updatedTags,
+      } = await applyHistoryEntry(currentData, entry, true);
+      const updatedHistory: TaskHistory = {
+        undo: history.undo.slice(0, -1),
+        redo: [...history.redo, entry],
+      };
+
+      await atomicWrite(
+        { ...withTasks(currentData, updatedTasks), tags: updatedTags },
+        { history: updatedHistory, trash: updatedTrash, series: updatedSeries }
+      );
+      set({
+        tasks: updatedTasks,
+        trash: updatedTrash,
+        series: updatedSeries,
+        tags: updatedTags,
+        history: updatedHistory,
+      });
+      toast.success(`Undone: ${entry.label}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to undo';
+      toast.error(errorMessage);
+      console.error('Failed to undo:', error);
+    }
+  },
+
+  // Re-apply the most recently undone command
+  redo: async () => {
+    const { history } = get();
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) {
+      toast('Nothing to redo');
+      return;
+    }
+
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const {
+        tasks: updatedTasks,
+        trash: updatedTrash,
+        series: updatedSeries,
+        tags: updatedTags,
+      } = await applyHistoryEntry(currentData, entry, false);
+      const updatedHistory: TaskHistory = {
+        undo: [...history.undo, entry],
+        redo: history.redo.slice(0, -1),
+      };
+
+      await atomicWrite(
+        { ...withTasks(currentData, updatedTasks), tags: updatedTags },
+        { history: updatedHistory, trash: updatedTrash, series: updatedSeries }
+      );
+      set({
+        tasks: updatedTasks,
+        trash: updatedTrash,
+        series: updatedSeries,
+        tags: updatedTags,
+        history: updatedHistory,
+      });
+      toast.success(`Redone: ${entry.label}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to redo';
+      toast.error(errorMessage);
+      console.error('Failed to redo:', error);
+    }
+  },
+
+  // Move a trashed task back to its original date
+  restoreFromTrash: async (id: string) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const currentTrash = await readTrash();
+      const trashed = currentTrash.tasks.find((task) => task.id === id);
+      if (!trashed) {
+        throw new Error('Task not found in trash');
+      }
+
+      const updatedTasks = [...currentData.tasks, toTask(trashed)];
+      const updatedTrash: Trash = {
+        ...currentTrash,
+        tasks: currentTrash.tasks.filter((task) => task.id !== id),
+      };
+
+      const { history, tasks, entryId } = await commitWithHistory(
+        currentData,
+        withTasks(currentData, updatedTasks),
+        get().history,
+        'Restore task',
+        { trash: { current: currentTrash, updated: updatedTrash } }
+      );
+      set({ tasks, trash: updatedTrash, history });
+      showUndoToast('Task restored', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to restore task';
+      toast.error(errorMessage);
+      console.error('Failed to restore task:', error);
+    }
+  },
+
+  // Permanently delete a trashed task
+  deleteFromTrash: async (id: string) => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const currentTrash = await readTrash();
+      const updatedTrash: Trash = {
+        ...currentTrash,
+        tasks: currentTrash.tasks.filter((task) => task.id !== id),
+      };
+
+      const { history, entryId } = await commitWithHistory(
+        currentData,
+        currentData,
+        get().history,
+        'Delete task permanently',
+        { trash: { current: currentTrash, updated: updatedTrash } }
+      );
+      set({ trash: updatedTrash, history });
+      showUndoToast('Task deleted permanently', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to delete task';
+      toast.error(errorMessage);
+      console.error('Failed to delete task from trash:', error);
+    }
+  },
+
+  // Permanently delete every trashed task
+  emptyTrash: async () => {
+    try {
+      const currentData = await readStorage();
+      if (!currentData) {
+        throw new Error('No data found');
+      }
+
+      const currentTrash = await readTrash();
+      const updatedTrash: Trash = { ...currentTrash, tasks: [] };
+
+      const { history, entryId } = await commitWithHistory(
+        currentData,
+        currentData,
+        get().history,
+        'Empty trash',
+        { trash: { current: currentTrash, updated: updatedTrash } }
+      );
+      set({ trash: updatedTrash, history });
+      showUndoToast('Trash emptied', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to empty trash';
+      toast.error(errorMessage);
+      console.error('Failed to empty trash:', error);
+    }
+  },
+
+  // Change how long trashed tasks are kept
+  setTrashRetention: async (retentionDays: number) => {
+    try {
+      const trash = await updateTrashRetention(retentionDays);
+      set({ trash });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : 'Failed to update trash settings';
+      toast.error(errorMessage);
+      console.error('Failed to update trash retention:', error);
+    }
+  },
+
+  // Delete expired tasks from the trash
+  purgeExpiredTrash: async () => {
+    try {
+      const { trash } = await purgeTrash();
+      set({ trash });
+    } catch (error) {
+      console.error('Failed to purge the trash:', error);
+    }
+  },
+
+  // Add a tag to the registry
+  createTag: async (name: string, color?: TagColor) => {
+    try {
+      let created: Tag | null = null;
+      await rewriteTags(
+        'Create tag',
+        (tags) => {
+          const result = addTag(tags, name, color);
+          created = result.tag;
+          return result.tags;
+        },
+        (items) => items,
+        set,
+        get
+      );
+      return created;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to create tag';
+      toast.error(errorMessage);
+      console.error('Failed to create tag:', error);
+      return null;
+    }
+  },
+
+  // Rename or recolor a tag; tasks refer to it by id, so they need no changes
+  updateTag: async (
+    id: string,
+    changes: Partial<Pick<Tag, 'name' | 'color'>>
+  ) => {
+    try {
+      await rewriteTags(
+        changes.name !== undefined ? 'Rename tag' : 'Change tag color',
+        (tags) => updateTag(tags, id, changes),
+        (items) => items,
+        set,
+        get
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update tag';
+      toast.error(errorMessage);
+      console.error('Failed to update tag:', error);
+    }
+  },
+
+  // Replace a tag with another one everywhere, then remove it
+  mergeTags: async (sourceId: string, targetId: string) => {
+    try {
+      const { tags } = get();
+      const source = tags.find((tag) => tag.id === sourceId);
+      const target = tags.find((tag) => tag.id === targetId);
+      if (!source || !target || source.id === target.id) {
+        throw new Error('Tag not found');
+      }
+
+      const entryId = await rewriteTags(
+        'Merge tags',
+        (current) => current.filter((tag) => tag.id !== sourceId),
+        (items) => replaceTagId(items, sourceId, targetId),
+        set,
+        get
+      );
+      showUndoToast(
+        `Merged "${source.name}" into "${target.name}"`,
+        undoEntry(get, entryId)
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to merge tags';
+      toast.error(errorMessage);
+      console.error('Failed to merge tags:', error);
+    }
+  },
+
+  // Remove a tag from the registry and from every task
+  deleteTag: async (id: string) => {
+    try {
+      const entryId = await rewriteTags(
+        'Delete tag',
+        (tags) => tags.filter((tag) => tag.id !== id),
+        (items) => replaceTagId(items, id),
+        set,
+        get
+      );
+      showUndoToast('Tag deleted', undoEntry(get, entryId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to delete tag';
+      toast.error(errorMessage);
+      console.error('Failed to delete tag:', error);
     }
-  )
-);
+  },
+}));
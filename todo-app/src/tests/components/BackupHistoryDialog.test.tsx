@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BackupHistoryDialog from '../../components/BackupHistoryDialog';
+import { useBackupStore } from '../../stores/backupStore';
+import {
+  atomicWrite,
+  readStorage,
+  updateBackupSettings,
+} from '../../utils/storage';
+import { createInitialAppData } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('BackupHistoryDialog', () => {
+  const original = createTask('Original');
+  const edited = createTask('Bad edit');
+
+  beforeEach(async () => {
+    useBackupStore.setState({
+      snapshots: [],
+      previewId: null,
+      previewDiff: null,
+    });
+    await updateBackupSettings({ maxSnapshots: 10, interval: 'every-write' });
+    await atomicWrite({ ...createInitialAppData(), tasks: [original] });
+    await atomicWrite({ ...createInitialAppData(), tasks: [edited] });
+  });
+
+  it('should list backups and compare one with the current tasks', async () => {
+    const user = userEvent.setup();
+    render(
+      <BackupHistoryDialog
+        isOpen
+        onClose={vi.fn()}
+        onRestored={vi.fn()}
+        currentTasks={[edited]}
+      />
+    );
+
+    expect(await screen.findByText(/1 task ·/)).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: 'Compare' }));
+
+    expect(await screen.findByText('Will be restored (1)')).toBeTruthy();
+    expect(screen.getByText('Oct 13 · Original')).toBeTruthy();
+    expect(screen.getByText('Will be removed (1)')).toBeTruthy();
+    expect(screen.getByText('Oct 13 · Bad edit')).toBeTruthy();
+    const hide = screen.getByRole('button', { name: 'Hide' });
+    expect(hide.getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('should restore a backup and close', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const onRestored = vi.fn();
+    render(
+      <BackupHistoryDialog
+        isOpen
+        onClose={onClose}
+        onRestored={onRestored}
+        currentTasks={[edited]}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: /Restore backup from/ })
+    );
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onRestored).toHaveBeenCalled();
+    expect((await readStorage())?.tasks).toEqual([original]);
+  });
+
+  it('should not restore or change settings when read-only', async () => {
+    render(
+      <BackupHistoryDialog
+        isOpen
+        onClose={vi.fn()}
+        onRestored={vi.fn()}
+        currentTasks={[edited]}
+        readOnly
+      />
+    );
+
+    const restore = await screen.findByRole('button', {
+      name: /Restore backup from/,
+    });
+    const count = screen.getByRole('combobox', {
+      name: 'Number of backups to keep',
+    });
+    const interval = screen.getByRole('combobox', { name: 'Backup interval' });
+
+    expect((restore as HTMLButtonElement).disabled).toBe(true);
+    expect((count as HTMLSelectElement).disabled).toBe(true);
+    expect((interval as HTMLSelectElement).disabled).toBe(true);
+  });
+});
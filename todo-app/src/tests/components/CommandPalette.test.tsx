@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CommandPalette from '../../components/CommandPalette';
+import { getKeySequenceText } from '../../hooks/useKeyboardShortcuts';
+import type { Command } from '../../utils/commands';
+
+function createCommands(): Command[] {
+  return [
+    {
+      id: 'task.add',
+      title: 'Add task',
+      group: 'Tasks',
+      shortcuts: ['n'],
+      run: vi.fn(),
+    },
+    {
+      id: 'date.today',
+      title: 'Go to today',
+      group: 'Navigation',
+      shortcuts: ['g t'],
+      run: vi.fn(),
+    },
+    {
+      id: 'date.goTo',
+      title: 'Go to date',
+      group: 'Navigation',
+      prompt: {
+        placeholder: 'YYYY-MM-DD',
+        validate: (value) =>
+          /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : 'Enter a date',
+      },
+      run: vi.fn(),
+    },
+  ];
+}
+
+describe('CommandPalette', () => {
+  it('should list commands by group with their shortcuts', () => {
+    render(
+      <CommandPalette
+        isOpen
+        onClose={vi.fn()}
+        commands={createCommands()}
+        keymap={{ 'date.today': ['t'] }}
+      />
+    );
+
+    const options = screen.getAllByRole('option');
+    expect(options.map((option) => option.firstChild?.textContent)).toEqual([
+      'Add task',
+      'Go to today',
+      'Go to date…',
+    ]);
+    expect(screen.getByText('Tasks')).toBeTruthy();
+    expect(screen.getByText('Navigation')).toBeTruthy();
+    // The keymap overrides the default shortcut
+    expect(options[1]?.querySelector('kbd')?.textContent).toBe(
+      getKeySequenceText('t')
+    );
+    expect(options[2]?.querySelector('kbd')).toBeNull();
+  });
+
+  // Commands run after the closing transition, which never ends in jsdom
+  it('should close on Enter instead of running the match right away', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const commands = createCommands();
+    render(
+      <CommandPalette
+        isOpen
+        onClose={onClose}
+        commands={commands}
+        keymap={{}}
+      />
+    );
+
+    await user.type(screen.getByRole('textbox', { name: 'Command' }), 'today');
+    expect(screen.getAllByRole('option')).toHaveLength(1);
+    await user.keyboard('{Enter}');
+
+    expect(onClose).toHaveBeenCalled();
+    expect(commands[1]?.run).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a value and validate it before closing', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(
+      <CommandPalette
+        isOpen
+        onClose={onClose}
+        commands={createCommands()}
+        keymap={{}}
+      />
+    );
+
+    await user.click(screen.getByRole('option', { name: 'Go to date…' }));
+    const input = screen.getByRole('textbox', { name: 'Go to date' });
+
+    await user.type(input, 'friday{Enter}');
+    expect(screen.getByRole('alert').textContent).toBe('Enter a date');
+    expect(onClose).not.toHaveBeenCalled();
+
+    await user.clear(input);
+    await user.type(input, '2025-10-13{Enter}');
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should go back to the commands on Escape while prompting', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(
+      <CommandPalette
+        isOpen
+        onClose={onClose}
+        commands={createCommands()}
+        keymap={{}}
+      />
+    );
+
+    await user.click(screen.getByRole('option', { name: 'Go to date…' }));
+    await user.keyboard('{Escape}');
+
+    expect(screen.getByRole('textbox', { name: 'Command' })).toBeTruthy();
+    expect(screen.getAllByRole('option')).toHaveLength(3);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
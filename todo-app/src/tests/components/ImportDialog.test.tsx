@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ImportDialog from '../../components/ImportDialog';
+import type { ImportPlan } from '../../utils/importData';
+import { createInitialAppData } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('ImportDialog', () => {
+  const kept = createTask('Kept locally');
+  const edited = createTask('Old title');
+  const fileTasks = [
+    {
+      ...edited,
+      description: 'New title',
+      updatedAt: '2025-10-14T09:00:00.000Z',
+    },
+    createTask('From the file'),
+  ];
+
+  // jsdom files have no text()
+  function createFile(text: string): File {
+    const file = new File([text], 'backup.json', { type: 'application/json' });
+    return Object.assign(file, { text: async () => text });
+  }
+
+  function createBackupFile(): File {
+    return createFile(
+      JSON.stringify({ ...createInitialAppData(), tasks: fileTasks })
+    );
+  }
+
+  it('should preview the file and switch strategies', async () => {
+    const user = userEvent.setup();
+    render(
+      <ImportDialog
+        isOpen
+        onClose={vi.fn()}
+        onImport={vi.fn()}
+        currentTasks={[kept, edited]}
+      />
+    );
+
+    await user.upload(screen.getByLabelText('Backup file'), createBackupFile());
+
+    expect(await screen.findByText(/2 tasks in file/)).toBeTruthy();
+    expect(screen.getByText('Will be added (1)')).toBeTruthy();
+    expect(screen.getByText('Will be updated (1)')).toBeTruthy();
+    expect(screen.queryByText(/Will be removed/)).toBeNull();
+
+    await user.click(screen.getByRole('radio', { name: /Replace/ }));
+
+    expect(screen.getByText('Will be removed (1)')).toBeTruthy();
+    expect(screen.getByText('Oct 13 · Kept locally')).toBeTruthy();
+  });
+
+  it('should import the planned tasks and close', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const onImport = vi.fn(async (_plan: ImportPlan) => true);
+    render(
+      <ImportDialog
+        isOpen
+        onClose={onClose}
+        onImport={onImport}
+        currentTasks={[kept, edited]}
+      />
+    );
+
+    await user.upload(screen.getByLabelText('Backup file'), createBackupFile());
+    await user.click(
+      await screen.findByRole('radio', { name: /Merge \(file wins\)/ })
+    );
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    const plan = onImport.mock.calls[0]?.[0];
+    expect(plan?.strategy).toBe('merge-by-id');
+    expect(plan?.tasks.map((task) => task.description)).toEqual([
+      'Kept locally',
+      'New title',
+      'From the file',
+    ]);
+  });
+
+  it('should show read errors and only allow replacing unreadable data', async () => {
+    const user = userEvent.setup();
+    render(
+      <ImportDialog
+        isOpen
+        onClose={vi.fn()}
+        onImport={vi.fn()}
+        currentTasks={[]}
+        allowMerge={false}
+      />
+    );
+
+    await user.upload(
+      screen.getByLabelText('Backup file'),
+      createFile('not json')
+    );
+
+    expect(await screen.findByRole('alert')).toBeTruthy();
+    const merge = screen.getByRole('radio', { name: /Merge \(keep newer\)/ });
+    expect((merge as HTMLInputElement).disabled).toBe(true);
+    const replace = screen.getByRole('radio', { name: /Replace/ });
+    expect((replace as HTMLInputElement).checked).toBe(true);
+    const importButton = screen.getByRole('button', { name: 'Import' });
+    expect((importButton as HTMLButtonElement).disabled).toBe(true);
+  });
+});
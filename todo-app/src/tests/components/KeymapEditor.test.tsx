@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import KeymapEditor from '../../components/KeymapEditor';
+import { getKeySequenceText } from '../../hooks/useKeyboardShortcuts';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import type { Command } from '../../utils/commands';
+import { atomicWrite } from '../../utils/storage';
+import { createInitialAppData } from '../../utils/validation';
+
+function createCommands(): Command[] {
+  return [
+    {
+      id: 'task.add',
+      title: 'Add task',
+      group: 'Tasks',
+      shortcuts: ['n'],
+      run: vi.fn(),
+    },
+    {
+      id: 'date.today',
+      title: 'Go to today',
+      group: 'Navigation',
+      shortcuts: ['g t'],
+      run: vi.fn(),
+    },
+    {
+      id: 'date.goTo',
+      title: 'Go to date',
+      group: 'Navigation',
+      prompt: { placeholder: 'YYYY-MM-DD', validate: () => null },
+      run: vi.fn(),
+    },
+  ];
+}
+
+describe('KeymapEditor', () => {
+  beforeEach(async () => {
+    await atomicWrite(createInitialAppData());
+    usePreferencesStore.setState({ keymap: {} });
+  });
+
+  it('should list bindable commands with their shortcuts', () => {
+    render(<KeymapEditor commands={createCommands()} />);
+
+    expect(screen.getByText('Add task')).toBeTruthy();
+    expect(screen.getByText(getKeySequenceText('g t'))).toBeTruthy();
+    // Commands asking for a value only run from the palette
+    expect(screen.queryByText('Go to date')).toBeNull();
+    const resetAll = screen.getByRole('button', {
+      name: 'Reset all to defaults',
+    });
+    expect((resetAll as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should record a new shortcut and remove an old one', async () => {
+    const user = userEvent.setup();
+    render(<KeymapEditor commands={createCommands()} />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Add shortcut to Go to today' })
+    );
+    await user.keyboard('gd{Enter}');
+
+    await waitFor(() =>
+      expect(usePreferencesStore.getState().keymap['date.today']).toEqual([
+        'g t',
+        'g d',
+      ])
+    );
+    expect(screen.getByText(getKeySequenceText('g d'))).toBeTruthy();
+
+    const removeName = `Remove ${getKeySequenceText('g t')} from Go to today`;
+    await user.click(screen.getByRole('button', { name: removeName }));
+
+    await waitFor(() =>
+      expect(usePreferencesStore.getState().keymap['date.today']).toEqual([
+        'g d',
+      ])
+    );
+  });
+
+  it('should ask before taking a shortcut from another command', async () => {
+    const user = userEvent.setup();
+    render(<KeymapEditor commands={createCommands()} />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Add shortcut to Go to today' })
+    );
+    await user.keyboard('n{Enter}');
+
+    const alert = screen.getByRole('alert');
+    expect(alert.textContent).toContain('Add task');
+    expect(usePreferencesStore.getState().keymap).toEqual({});
+
+    await user.click(screen.getByRole('button', { name: 'Replace' }));
+
+    await waitFor(() =>
+      expect(usePreferencesStore.getState().keymap).toEqual({
+        'task.add': [],
+        'date.today': ['g t', 'n'],
+      })
+    );
+  });
+
+  it('should disable every change when read-only', () => {
+    usePreferencesStore.setState({ keymap: { 'task.add': ['a'] } });
+    render(<KeymapEditor commands={createCommands()} readOnly />);
+
+    const buttons = [
+      screen.getByRole('button', { name: 'Add shortcut to Add task' }),
+      screen.getByRole('button', {
+        name: `Remove ${getKeySequenceText('a')} from Add task`,
+      }),
+      screen.getByRole('button', {
+        name: 'Reset Add task to its default shortcuts',
+      }),
+      screen.getByRole('button', { name: 'Reset all to defaults' }),
+    ];
+    buttons.forEach((button) =>
+      expect((button as HTMLButtonElement).disabled).toBe(true)
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SearchDialog from '../../components/SearchDialog';
+import { usePreferencesStore } from '../../stores/preferencesStore';
+import { useTaskStore } from '../../stores/taskStore';
+import { atomicWrite, readStorage } from '../../utils/storage';
+import { createInitialAppData } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('SearchDialog', () => {
+  const tasks = [
+    createTask('Write quarterly report', { date: '2025-10-10' }),
+    createTask('Review report draft', { date: '2025-10-12', completed: true }),
+    createTask('Buy groceries', { date: '2025-10-12' }),
+  ];
+
+  beforeEach(async () => {
+    await atomicWrite({ ...createInitialAppData(), tasks });
+    usePreferencesStore.setState({ savedQueries: [] });
+    await useTaskStore.getState().loadTasks();
+  });
+
+  it('should list matching tasks by date and open the chosen one', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const onSelectDate = vi.fn();
+    render(
+      <SearchDialog
+        isOpen
+        onClose={onClose}
+        onSelectDate={onSelectDate}
+        tags={[]}
+      />
+    );
+
+    await user.type(
+      screen.getByRole('searchbox', { name: 'Search tasks' }),
+      'report'
+    );
+
+    const results = screen.getByRole('listbox', { name: 'Search results' });
+    const options = within(results).getAllByRole('option');
+    expect(options.map((option) => option.textContent)).toEqual([
+      'Review report draft',
+      'Write quarterly report',
+    ]);
+    expect(screen.getByText('Sun, Oct 12, 2025')).toBeTruthy();
+    expect(options[0]?.getAttribute('aria-selected')).toBe('true');
+
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(onSelectDate).toHaveBeenCalledWith('2025-10-10');
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should narrow results with filters and save the query', async () => {
+    const user = userEvent.setup();
+    render(
+      <SearchDialog isOpen onClose={vi.fn()} onSelectDate={vi.fn()} tags={[]} />
+    );
+
+    await user.type(
+      screen.getByRole('searchbox', { name: 'Search tasks' }),
+      'report is:pending'
+    );
+    expect(
+      screen.getAllByRole('option').map((option) => option.textContent)
+    ).toEqual(['Write quarterly report']);
+
+    await user.click(screen.getByRole('button', { name: 'Save query' }));
+    await user.type(
+      screen.getByRole('textbox', { name: 'Query name' }),
+      'Open reports'
+    );
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() =>
+      expect(screen.queryByRole('textbox', { name: 'Query name' })).toBeNull()
+    );
+    expect((await readStorage())?.preferences.savedQueries).toEqual([
+      expect.objectContaining({
+        name: 'Open reports',
+        query: 'report is:pending',
+      }),
+    ]);
+  });
+
+  it('should not offer saving or editing saved queries when read-only', async () => {
+    const user = userEvent.setup();
+    usePreferencesStore.setState({
+      savedQueries: [
+        { id: 'saved-1', name: 'Open reports', query: 'report', pinned: false },
+      ],
+    });
+    render(
+      <SearchDialog
+        isOpen
+        onClose={vi.fn()}
+        onSelectDate={vi.fn()}
+        tags={[]}
+        readOnly
+      />
+    );
+
+    expect(
+      screen.queryByRole('button', { name: 'Pin Open reports' })
+    ).toBeNull();
+    expect(
+      screen.queryByRole('button', { name: 'Delete Open reports' })
+    ).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: /Open reports/ }));
+
+    const search = screen.getByRole('searchbox', { name: 'Search tasks' });
+    expect((search as HTMLInputElement).value).toBe('report');
+    expect(screen.queryByRole('button', { name: 'Save query' })).toBeNull();
+  });
+});
@@ -55,7 +55,7 @@ describe('TaskForm Component', () => {
     await user.click(addButton);
 
     // Should call onAdd with valid description
-    expect(mockOnAdd).toHaveBeenCalledWith('Valid task description');
+    expect(mockOnAdd).toHaveBeenCalledWith('Valid task description', 'none');
 
     // Should clear input after successful add
     expect(input).toHaveValue('');
@@ -75,7 +75,7 @@ describe('TaskForm Component', () => {
     const addButton = screen.getByRole('button', { name: /add task/i });
     await user.click(addButton);
 
-    expect(mockOnAdd).toHaveBeenCalledWith('Task with spaces');
+    expect(mockOnAdd).toHaveBeenCalledWith('Task with spaces', 'none');
   });
 
   it('should disable add button while read-only', async () => {
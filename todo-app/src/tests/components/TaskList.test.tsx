@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TaskList from '../../components/TaskList';
+import type { Task } from '../../types';
+import { createTask } from '../fixtures';
+
+const first = createTask('First', { createdAt: '2025-01-10T10:00:00.000Z' });
+const second = createTask('Second', {
+  createdAt: '2025-01-10T09:00:00.000Z',
+  notes: 'Details',
+});
+const done = createTask('Done', {
+  completed: true,
+  completedAt: '2025-01-10T11:00:00.000Z',
+});
+
+function getRow(task: Task): HTMLElement {
+  const row = document.querySelector<HTMLElement>(
+    `[data-task-row="${task.id}"]`
+  );
+  if (!row) {
+    throw new Error(`No row for ${task.description}`);
+  }
+  return row;
+}
+
+function renderList(
+  props: Partial<React.ComponentProps<typeof TaskList>> = {}
+) {
+  const handlers = { onToggle: vi.fn(), onEdit: vi.fn(), onDelete: vi.fn() };
+  const result = render(
+    <TaskList tasks={[first, second, done]} {...handlers} {...props} />
+  );
+  return { ...result, ...handlers };
+}
+
+describe('TaskList keyboard navigation', () => {
+  it('should be a single tab stop moving across both sections', async () => {
+    const user = userEvent.setup();
+    renderList();
+
+    expect([first, second, done].map((task) => getRow(task).tabIndex)).toEqual([
+      0, -1, -1,
+    ]);
+
+    await user.tab();
+    expect(document.activeElement).toBe(getRow(first));
+
+    await user.keyboard('j');
+    await waitFor(() => expect(document.activeElement).toBe(getRow(second)));
+    await user.keyboard('{ArrowDown}');
+    await waitFor(() => expect(document.activeElement).toBe(getRow(done)));
+    expect(getRow(done).tabIndex).toBe(0);
+
+    await user.keyboard('k');
+    await waitFor(() => expect(document.activeElement).toBe(getRow(second)));
+  });
+
+  it('should toggle, edit and delete the focused task', async () => {
+    const user = userEvent.setup();
+    const { onToggle, onEdit, onDelete } = renderList();
+
+    getRow(first).focus();
+    await user.keyboard('x ed{Delete}');
+
+    expect(onToggle).toHaveBeenCalledWith(first.id);
+    expect(onToggle).toHaveBeenCalledTimes(2);
+    expect(onEdit).toHaveBeenCalledWith(first.id);
+    expect(onDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only move and expand in read-only mode', async () => {
+    const user = userEvent.setup();
+    const { onToggle, onDelete } = renderList({ readOnly: true });
+
+    getRow(second).focus();
+    await user.keyboard('xd{Enter}');
+
+    expect(onToggle).not.toHaveBeenCalled();
+    expect(onDelete).not.toHaveBeenCalled();
+    await waitFor(() =>
+      expect(getRow(second).textContent).toContain('Hide notes')
+    );
+  });
+
+  it('should focus the next task when the focused one is removed', async () => {
+    const { rerender, onToggle, onEdit, onDelete } = renderList();
+
+    getRow(first).focus();
+    rerender(
+      <TaskList
+        tasks={[second, done]}
+        onToggle={onToggle}
+        onEdit={onEdit}
+        onDelete={onDelete}
+      />
+    );
+
+    await waitFor(() => expect(document.activeElement).toBe(getRow(second)));
+  });
+
+  it('should keep focus on a task moved to the other section', async () => {
+    const { rerender, onToggle, onEdit, onDelete } = renderList();
+    const completed = {
+      ...first,
+      completed: true,
+      completedAt: '2025-01-10T12:00:00.000Z',
+    };
+
+    getRow(first).focus();
+    rerender(
+      <TaskList
+        tasks={[completed, second, done]}
+        onToggle={onToggle}
+        onEdit={onEdit}
+        onDelete={onDelete}
+      />
+    );
+
+    await waitFor(() => expect(document.activeElement).toBe(getRow(completed)));
+  });
+});
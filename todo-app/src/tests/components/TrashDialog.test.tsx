@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TrashDialog from '../../components/TrashDialog';
+import { useTaskStore } from '../../stores/taskStore';
+import { atomicWrite, readTrash } from '../../utils/storage';
+import { createEmptyTrash, moveToTrash } from '../../utils/trash';
+import { createEmptyHistory } from '../../utils/history';
+import { createInitialAppData } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('TrashDialog', () => {
+  const report = createTask('Write report', { date: '2025-10-10' });
+  const groceries = createTask('Buy groceries', { date: '2025-10-12' });
+
+  beforeEach(async () => {
+    const trash = moveToTrash(createEmptyTrash(), [report, groceries]);
+    await atomicWrite(createInitialAppData(), { trash });
+    useTaskStore.setState({ history: createEmptyHistory() });
+    await useTaskStore.getState().loadTasks();
+  });
+
+  it('should list trashed tasks by date', () => {
+    render(<TrashDialog isOpen onClose={() => {}} />);
+
+    const friday = screen.getByRole('region', { name: 'Friday, Oct 10, 2025' });
+    expect(within(friday).getByText('Write report')).toBeTruthy();
+    const sunday = screen.getByRole('region', { name: 'Sunday, Oct 12, 2025' });
+    expect(within(sunday).getByText('Buy groceries')).toBeTruthy();
+  });
+
+  it('should restore a task and change the retention period', async () => {
+    const user = userEvent.setup();
+    render(<TrashDialog isOpen onClose={() => {}} />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Restore "Write report"' })
+    );
+    await waitFor(() => expect(screen.queryByText('Write report')).toBeNull());
+    expect(
+      useTaskStore.getState().tasks.map((task) => task.description)
+    ).toEqual(['Write report']);
+
+    await user.selectOptions(
+      screen.getByRole('combobox', { name: 'How long to keep deleted tasks' }),
+      '7'
+    );
+    await waitFor(async () =>
+      expect((await readTrash()).retentionDays).toBe(7)
+    );
+  });
+
+  it('should disable every change when read-only', () => {
+    render(<TrashDialog isOpen onClose={() => {}} readOnly />);
+
+    const buttons = [
+      screen.getByRole('button', { name: 'Restore "Write report"' }),
+      screen.getByRole('button', { name: 'Delete "Write report" forever' }),
+      screen.getByRole('button', { name: 'Empty trash' }),
+    ];
+    buttons.forEach((button) =>
+      expect((button as HTMLButtonElement).disabled).toBe(true)
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import toast, { Toaster } from 'react-hot-toast';
+import { useTaskStore } from '../../stores/taskStore';
+import { createEmptyHistory } from '../../utils/history';
+
+function getDescriptions(): string[] {
+  return useTaskStore.getState().tasks.map((task) => task.description);
+}
+
+describe('UndoToast', () => {
+  beforeEach(async () => {
+    // Read by the toaster, missing from jsdom
+    vi.stubGlobal('matchMedia', () => ({ matches: false }));
+    useTaskStore.setState({ tasks: [], history: createEmptyHistory() });
+    await useTaskStore.getState().loadTasks();
+  });
+
+  afterEach(() => {
+    toast.remove();
+    vi.unstubAllGlobals();
+  });
+
+  it('should only undo the entry of its own toast', async () => {
+    const user = userEvent.setup();
+    render(<Toaster />);
+
+    await act(() => useTaskStore.getState().addTask('First', '2025-01-15'));
+    await act(() => useTaskStore.getState().addTask('Second', '2025-01-15'));
+
+    // Newest toasts come first
+    const [secondUndo, firstUndo] = await screen.findAllByRole('button', {
+      name: 'Undo',
+    });
+    if (!firstUndo || !secondUndo) {
+      throw new Error('Expected two undo toasts');
+    }
+
+    // The first toast's entry is no longer the latest one
+    await user.click(firstUndo);
+    expect(
+      await screen.findByText('Only the latest change can be undone')
+    ).toBeTruthy();
+    expect(getDescriptions()).toEqual(['First', 'Second']);
+
+    await user.click(secondUndo);
+    await waitFor(() => expect(getDescriptions()).toEqual(['First']));
+  });
+
+  it('should not offer undo for an edit that changes nothing', async () => {
+    render(<Toaster />);
+
+    await act(() => useTaskStore.getState().addTask('First', '2025-01-15'));
+    const [task] = useTaskStore.getState().tasks;
+    if (!task) {
+      throw new Error('Expected the added task');
+    }
+    await act(() =>
+      useTaskStore
+        .getState()
+        .updateTask(task.id, { description: task.description })
+    );
+
+    expect(await screen.findByText('Task updated')).toBeTruthy();
+    // Only the add toast can undo
+    expect(screen.getAllByRole('button', { name: 'Undo' })).toHaveLength(1);
+    expect(useTaskStore.getState().history.undo).toHaveLength(1);
+  });
+
+  it('should undo its entry again once the later one is undone', async () => {
+    const user = userEvent.setup();
+    render(<Toaster />);
+
+    await act(() => useTaskStore.getState().addTask('First', '2025-01-15'));
+    const firstUndo = await screen.findByRole('button', { name: 'Undo' });
+    await act(() => useTaskStore.getState().addTask('Second', '2025-01-15'));
+    await act(() => useTaskStore.getState().undo());
+
+    await user.click(firstUndo);
+    await waitFor(() => expect(getDescriptions()).toEqual([]));
+  });
+});
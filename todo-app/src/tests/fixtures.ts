@@ -0,0 +1,23 @@
+import type { Task } from '../types';
+
+/**
+ * Build a pending task on 2025-10-13 without priority, tags, checklist or notes
+ */
+export function createTask(
+  description: string,
+  overrides: Partial<Task> = {}
+): Task {
+  return {
+    id: crypto.randomUUID(),
+    description,
+    completed: false,
+    createdAt: '2025-10-13T09:00:00.000Z',
+    completedAt: null,
+    date: '2025-10-13',
+    priority: 'none',
+    tags: [],
+    checklist: [],
+    notes: '',
+    ...overrides,
+  };
+}
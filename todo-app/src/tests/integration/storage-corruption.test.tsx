@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { CURRENT_SCHEMA_VERSION } from '../../utils/validation';
 
 // This test will fail until App component is implemented (TDD Red phase)
 describe('Integration: Storage Corruption Handling', () => {
@@ -145,7 +146,7 @@ describe('Integration: Storage Corruption Handling', () => {
     const storedData = localStorage.getItem('todo-app-data');
     expect(storedData).not.toBe('invalid-json');
     const parsed = JSON.parse(storedData!);
-    expect(parsed.metadata.version).toBe('1.0.0');
+    expect(parsed.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
   });
 
   it('should show corrupted data details in console', async () => {
@@ -243,6 +244,10 @@ describe('Integration: Storage Corruption Handling', () => {
             createdAt: new Date().toISOString(),
             completedAt: null,
             date: '2025-10-10',
+            priority: 'none',
+            tags: [],
+            checklist: [],
+            notes: '',
           },
           {
             id: 'invalid-uuid', // Invalid
@@ -251,6 +256,10 @@ describe('Integration: Storage Corruption Handling', () => {
             createdAt: 'invalid-date',
             completedAt: null,
             date: '2025-10-10',
+            priority: 'none',
+            tags: [],
+            checklist: [],
+            notes: '',
           },
         ],
         preferences: {
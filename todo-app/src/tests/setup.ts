@@ -66,6 +66,23 @@ class BroadcastChannelMock {
 
 (global as unknown as { BroadcastChannel: typeof BroadcastChannelMock }).BroadcastChannel = BroadcastChannelMock;
 
+// Mock ResizeObserver, used by Headless UI dialogs and missing from jsdom
+class ResizeObserverMock {
+  observe() {
+    // No-op
+  }
+
+  unobserve() {
+    // No-op
+  }
+
+  disconnect() {
+    // No-op
+  }
+}
+
+globalThis.ResizeObserver = ResizeObserverMock;
+
 // Mock crypto.randomUUID
 if (!global.crypto) {
   (global as unknown as { crypto: Partial<Crypto> }).crypto = {};
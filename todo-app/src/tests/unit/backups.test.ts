@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_BACKUP_SETTINGS,
+  diffTasks,
+  isSnapshotDue,
+  pruneSnapshots,
+  type SnapshotInfo,
+} from '../../utils/backups';
+import {
+  atomicWrite,
+  listSnapshots,
+  readStorage,
+  restoreSnapshot,
+  updateBackupSettings,
+} from '../../utils/storage';
+import { createLocalStorageDriver } from '../../utils/localStorageDriver';
+import {
+  createInitialAppData,
+  type AppData,
+  type Task,
+} from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+function withTasks(tasks: Task[]): AppData {
+  const data = createInitialAppData();
+  return {
+    ...data,
+    tasks,
+    metadata: {
+      ...data.metadata,
+      totalTaskCount: tasks.length,
+      oldestTaskDate: tasks.length > 0 ? '2025-10-10' : null,
+      newestTaskDate: tasks.length > 0 ? '2025-10-10' : null,
+    },
+  };
+}
+
+function createSnapshotInfo(createdAt: string): SnapshotInfo {
+  return {
+    id: crypto.randomUUID(),
+    createdAt,
+    reason: 'scheduled',
+    version: '1.0.0',
+    taskCount: 0,
+    oldestTaskDate: null,
+    newestTaskDate: null,
+  };
+}
+
+function countSnapshotKeys(): number {
+  let count = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    if (localStorage.key(i)?.startsWith('todo-app-data-snapshot-')) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Simulate storage that is full once it holds the given number of snapshots
+function limitSnapshots(limit: number) {
+  const setItem = localStorage.setItem.bind(localStorage);
+  vi.spyOn(localStorage, 'setItem').mockImplementation(
+    (key: string, value: string) => {
+      if (
+        key.startsWith('todo-app-data-snapshot-') &&
+        countSnapshotKeys() >= limit
+      ) {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+      setItem(key, value);
+    }
+  );
+}
+
+describe('Backup History', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isSnapshotDue', () => {
+    it('should be due when there are no snapshots', () => {
+      expect(
+        isSnapshotDue({ settings: DEFAULT_BACKUP_SETTINGS, snapshots: [] })
+      ).toBe(true);
+    });
+
+    it('should respect the configured interval', () => {
+      const index = {
+        settings: { maxSnapshots: 10, interval: 'hourly' as const },
+        snapshots: [createSnapshotInfo('2025-10-10T09:00:00.000Z')],
+      };
+
+      expect(isSnapshotDue(index, new Date('2025-10-10T09:30:00.000Z'))).toBe(
+        false
+      );
+      expect(isSnapshotDue(index, new Date('2025-10-10T10:00:00.000Z'))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('pruneSnapshots', () => {
+    it('should keep only the newest snapshots', () => {
+      const snapshots = [
+        createSnapshotInfo('2025-10-10T12:00:00.000Z'),
+        createSnapshotInfo('2025-10-10T11:00:00.000Z'),
+        createSnapshotInfo('2025-10-10T10:00:00.000Z'),
+      ];
+
+      const { index, removedIds } = pruneSnapshots({
+        settings: { maxSnapshots: 2, interval: 'hourly' },
+        snapshots,
+      });
+
+      expect(index.snapshots).toEqual(snapshots.slice(0, 2));
+      expect(removedIds).toEqual([snapshots[2]?.id]);
+    });
+  });
+
+  describe('diffTasks', () => {
+    it('should report added, removed and changed tasks', () => {
+      const kept = createTask('Kept');
+      const edited = createTask('Before edit');
+      const deleted = createTask('Deleted since');
+      const created = createTask('Created since');
+
+      const diff = diffTasks(
+        [kept, { ...edited, description: 'After edit' }, created],
+        [kept, edited, deleted]
+      );
+
+      expect(diff.added).toEqual([deleted]);
+      expect(diff.removed).toEqual([created]);
+      expect(diff.changed).toEqual([
+        { before: { ...edited, description: 'After edit' }, after: edited },
+      ]);
+    });
+  });
+
+  describe('snapshot ring', () => {
+    it('should snapshot the previous data before writing', async () => {
+      await updateBackupSettings({ maxSnapshots: 3, interval: 'every-write' });
+      await atomicWrite(withTasks([createTask('First')]));
+      await atomicWrite(withTasks([createTask('Second')]));
+
+      const { snapshots } = await listSnapshots();
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0]?.taskCount).toBe(1);
+    });
+
+    it('should keep at most the configured number of snapshots', async () => {
+      await updateBackupSettings({ maxSnapshots: 2, interval: 'every-write' });
+      for (let i = 0; i < 5; i++) {
+        await atomicWrite(withTasks([createTask(`Write ${i}`)]));
+      }
+
+      const { snapshots } = await listSnapshots();
+      expect(snapshots).toHaveLength(2);
+
+      const snapshotKeys = (await createLocalStorageDriver().keys()).filter(
+        (key) => key.startsWith('todo-app-data-snapshot-')
+      );
+      expect(snapshotKeys).toHaveLength(2);
+    });
+
+    it('should not snapshot again before the interval elapses', async () => {
+      await updateBackupSettings({ maxSnapshots: 10, interval: 'daily' });
+      for (let i = 0; i < 3; i++) {
+        await atomicWrite(withTasks([createTask(`Write ${i}`)]));
+      }
+
+      expect((await listSnapshots()).snapshots).toHaveLength(1);
+    });
+
+    it('should keep the write when the snapshot does not fit', async () => {
+      await updateBackupSettings({ maxSnapshots: 10, interval: 'every-write' });
+      await atomicWrite(withTasks([createTask('First')]));
+      limitSnapshots(0);
+
+      const second = createTask('Second');
+      await atomicWrite(withTasks([second]));
+
+      expect((await readStorage())?.tasks).toEqual([second]);
+      expect((await listSnapshots()).snapshots).toHaveLength(0);
+    });
+
+    it('should delete the oldest snapshots to make room for a new one', async () => {
+      await updateBackupSettings({ maxSnapshots: 10, interval: 'every-write' });
+      for (let i = 0; i < 4; i++) {
+        await atomicWrite(withTasks([createTask(`Write ${i}`)]));
+      }
+      const before = (await listSnapshots()).snapshots;
+      expect(before).toHaveLength(3);
+      limitSnapshots(2);
+
+      await atomicWrite(withTasks([createTask('Write 4')]));
+
+      const { snapshots } = await listSnapshots();
+      expect(snapshots).toHaveLength(2);
+      expect(snapshots[1]).toEqual(before[0]);
+      expect(countSnapshotKeys()).toBe(2);
+      expect((await readStorage())?.tasks[0]?.description).toBe('Write 4');
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    it('should restore a snapshot and snapshot the current data first', async () => {
+      await updateBackupSettings({ maxSnapshots: 10, interval: 'every-write' });
+      const original = createTask('Original');
+      await atomicWrite(withTasks([original]));
+      await atomicWrite(withTasks([createTask('Bad edit')]));
+
+      const [snapshot] = (await listSnapshots()).snapshots;
+      await restoreSnapshot(snapshot!.id);
+
+      expect((await readStorage())?.tasks).toEqual([original]);
+
+      const { snapshots } = await listSnapshots();
+      expect(snapshots[0]?.reason).toBe('before-restore');
+      expect(snapshots).toHaveLength(2);
+    });
+
+    it('should reject unknown snapshots', async () => {
+      await expect(restoreSnapshot('missing')).rejects.toThrow(/not found/);
+    });
+  });
+});
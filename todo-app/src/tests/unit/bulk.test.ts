@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBulkAction,
+  countTasks,
+  describeBulkAction,
+  getSelectionRange,
+} from '../../utils/bulk';
+import { createTask } from '../fixtures';
+
+describe('Bulk actions', () => {
+  const now = new Date('2025-10-13T12:00:00.000Z');
+
+  describe('applyBulkAction', () => {
+    it('should only change selected tasks that need it', () => {
+      const done = createTask('Done', {
+        completed: true,
+        completedAt: '2025-10-13T10:00:00.000Z',
+      });
+      const pending = createTask('Pending');
+      const other = createTask('Other');
+
+      const result = applyBulkAction(
+        [done, pending, other],
+        new Set([done.id, pending.id]),
+        { type: 'complete' },
+        now
+      );
+
+      expect(result.changed.map((task) => task.description)).toEqual([
+        'Pending',
+      ]);
+      expect(result.tasks[0]).toBe(done);
+      expect(result.tasks[1]?.completedAt).toBe(now.toISOString());
+      expect(result.tasks[2]).toBe(other);
+    });
+
+    it('should reopen completed tasks', () => {
+      const done = createTask('Done', {
+        completed: true,
+        completedAt: '2025-10-13T10:00:00.000Z',
+      });
+
+      const result = applyBulkAction(
+        [done],
+        new Set([done.id]),
+        { type: 'uncomplete' },
+        now
+      );
+
+      expect(result.tasks[0]?.completed).toBe(false);
+      expect(result.tasks[0]?.completedAt).toBeNull();
+    });
+
+    it('should move tasks after the target date in their current order', () => {
+      const existing = createTask('Existing', {
+        date: '2025-10-14',
+        position: 'k',
+      });
+      const first = createTask('First', { position: 'i' });
+      const second = createTask('Second', { position: 'j' });
+
+      const result = applyBulkAction(
+        [existing, first, second],
+        new Set([first.id, second.id]),
+        { type: 'move', date: '2025-10-14' },
+        now
+      );
+
+      const [, movedFirst, movedSecond] = result.tasks;
+      expect(movedFirst?.date).toBe('2025-10-14');
+      expect((movedFirst?.position ?? '') > 'k').toBe(true);
+      expect((movedSecond?.position ?? '') > (movedFirst?.position ?? '')).toBe(
+        true
+      );
+    });
+
+    it('should add or remove a tag', () => {
+      const tagged = createTask('Tagged', { tags: ['work'] });
+      const untagged = createTask('Untagged');
+      const ids = new Set([tagged.id, untagged.id]);
+
+      const added = applyBulkAction([tagged, untagged], ids, {
+        type: 'tag',
+        tagId: 'work',
+        remove: false,
+      });
+      expect(added.changed).toHaveLength(1);
+      expect(added.tasks.every((task) => task.tags.includes('work'))).toBe(
+        true
+      );
+
+      const removed = applyBulkAction(added.tasks, ids, {
+        type: 'tag',
+        tagId: 'work',
+        remove: true,
+      });
+      expect(removed.tasks.every((task) => task.tags.length === 0)).toBe(true);
+    });
+
+    it('should set the priority', () => {
+      const task = createTask('Task', { priority: 'low' });
+
+      const result = applyBulkAction([task], new Set([task.id]), {
+        type: 'priority',
+        priority: 'high',
+      });
+
+      expect(result.tasks[0]?.priority).toBe('high');
+    });
+  });
+
+  describe('describeBulkAction', () => {
+    it('should summarize the action', () => {
+      expect(describeBulkAction({ type: 'complete' }, 3)).toEqual({
+        label: 'Complete tasks',
+        message: '3 tasks completed',
+      });
+      expect(
+        describeBulkAction(
+          { type: 'tag', tagId: 'work', remove: true },
+          1,
+          'Work'
+        ).message
+      ).toBe('Work removed from 1 task');
+      expect(
+        describeBulkAction({ type: 'priority', priority: 'none' }, 2).message
+      ).toBe('Priority cleared on 2 tasks');
+    });
+
+    it('should pluralize task counts', () => {
+      expect(countTasks(1)).toBe('1 task');
+      expect(countTasks(0)).toBe('0 tasks');
+    });
+  });
+
+  describe('getSelectionRange', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+
+    it('should select from the anchor in either direction', () => {
+      expect(getSelectionRange(ids, 'b', 'd')).toEqual(['b', 'c', 'd']);
+      expect(getSelectionRange(ids, 'c', 'a')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should select just the task without an anchor', () => {
+      expect(getSelectionRange(ids, null, 'c')).toEqual(['c']);
+      expect(getSelectionRange(ids, 'gone', 'c')).toEqual(['c']);
+    });
+  });
+});
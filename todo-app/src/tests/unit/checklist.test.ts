@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createChecklistItem,
+  getChecklistProgress,
+  moveChecklistItem,
+  resetChecklist,
+  toggleChecklistItem,
+  validateChecklistItemText,
+} from '../../utils/checklist';
+import {
+  materializeOccurrences,
+  type RecurringSeries,
+} from '../../utils/recurrence';
+import type { ChecklistItem } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+function createItem(text: string, completed = false): ChecklistItem {
+  return { ...createChecklistItem(text), completed };
+}
+
+describe('Checklists', () => {
+  const now = new Date('2025-10-13T12:00:00.000Z');
+
+  describe('validateChecklistItemText', () => {
+    it('should reject empty and overlong text', () => {
+      expect(validateChecklistItemText('  ')).toBe(
+        'Checklist item cannot be empty'
+      );
+      expect(validateChecklistItemText('x'.repeat(201))).toMatch(
+        /200 characters/
+      );
+      expect(validateChecklistItemText('Passport')).toBeNull();
+    });
+  });
+
+  describe('moveChecklistItem', () => {
+    const items = [
+      createItem('Passport'),
+      createItem('Tickets'),
+      createItem('Charger'),
+    ];
+
+    it('should move an item up or down', () => {
+      expect(moveChecklistItem(items, 2, -1).map((item) => item.text)).toEqual([
+        'Passport',
+        'Charger',
+        'Tickets',
+      ]);
+      expect(moveChecklistItem(items, 0, 1).map((item) => item.text)).toEqual([
+        'Tickets',
+        'Passport',
+        'Charger',
+      ]);
+    });
+
+    it('should ignore moves past either end', () => {
+      expect(moveChecklistItem(items, 0, -1)).toBe(items);
+      expect(moveChecklistItem(items, 2, 1)).toBe(items);
+    });
+  });
+
+  describe('getChecklistProgress', () => {
+    it('should count checked items', () => {
+      expect(
+        getChecklistProgress([createItem('a', true), createItem('b')])
+      ).toEqual({
+        done: 1,
+        total: 2,
+      });
+    });
+  });
+
+  describe('toggleChecklistItem', () => {
+    it('should only toggle the item without auto-completion', () => {
+      const item = createItem('Passport');
+      const task = createTask('Pack for the trip', { checklist: [item] });
+      const updated = toggleChecklistItem(task, item.id, false, now);
+
+      expect(updated.checklist[0]?.completed).toBe(true);
+      expect(updated.completed).toBe(false);
+    });
+
+    it('should complete the task when the last item is checked', () => {
+      const item = createItem('Tickets');
+      const task = createTask('Pack for the trip', {
+        checklist: [createItem('Passport', true), item],
+      });
+
+      expect(toggleChecklistItem(task, item.id, true, now)).toMatchObject({
+        completed: true,
+        completedAt: now.toISOString(),
+      });
+    });
+
+    it('should reopen a completed task when an item is unchecked', () => {
+      const item = createItem('Passport', true);
+      const task = createTask('Pack for the trip', {
+        checklist: [item],
+        completed: true,
+        completedAt: now.toISOString(),
+      });
+
+      expect(toggleChecklistItem(task, item.id, true, now)).toMatchObject({
+        completed: false,
+        completedAt: null,
+      });
+    });
+  });
+
+  describe('recurring series', () => {
+    it('should give each occurrence an unchecked copy of the checklist', () => {
+      const series: RecurringSeries = {
+        id: crypto.randomUUID(),
+        description: 'Weekly review',
+        notes: '',
+        priority: 'none',
+        tags: [],
+        checklist: [createItem('Inbox zero', true)],
+        rule: { frequency: 'daily', interval: 1 },
+        startDate: '2025-10-13',
+        createdAt: '2025-10-13T08:00:00.000Z',
+        exceptions: [],
+      };
+
+      const [occurrence] = materializeOccurrences(
+        [],
+        [series],
+        '2025-10-14',
+        now
+      );
+
+      expect(occurrence?.checklist).toEqual(resetChecklist(series.checklist));
+      expect(occurrence?.checklist[0]?.completed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fuzzyMatch,
+  getAvailableCommands,
+  searchCommands,
+  type Command,
+} from '../../utils/commands';
+import {
+  getCommandShortcuts,
+  getKeySequenceText,
+  getShortcutText,
+} from '../../hooks/useKeyboardShortcuts';
+
+function createCommand(
+  title: string,
+  overrides: Partial<Command> = {}
+): Command {
+  return {
+    id: title.toLowerCase().replace(/\s+/g, '.'),
+    title,
+    group: 'Tasks',
+    run: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('Command registry', () => {
+  describe('fuzzyMatch', () => {
+    it('should match characters in order, preferring word starts', () => {
+      expect(fuzzyMatch('Go to today', 'gtt')?.indices).toEqual([0, 3, 6]);
+      expect(fuzzyMatch('Go to today', 'today')?.indices).toEqual([
+        6, 7, 8, 9, 10,
+      ]);
+      expect(fuzzyMatch('Go to today', 'tg')).toBeNull();
+    });
+
+    it('should score word starts and adjacent characters higher', () => {
+      expect(fuzzyMatch('Export backup', 'eb')?.score).toBeGreaterThan(
+        fuzzyMatch('Web export', 'eb')?.score ?? 0
+      );
+      expect(fuzzyMatch('Settings', 'set')?.score).toBeGreaterThan(
+        fuzzyMatch('Select tasks', 'set')?.score ?? 0
+      );
+    });
+  });
+
+  describe('searchCommands', () => {
+    const commands = [
+      createCommand('Export backup', { group: 'Data', keywords: ['json'] }),
+      createCommand('Go to today', { group: 'Navigation' }),
+      createCommand('Undo', { disabled: true }),
+      createCommand('Close dialogs', { hidden: true }),
+      createCommand('Add task'),
+    ];
+
+    it('should list the available commands by group without a query', () => {
+      expect(
+        getAvailableCommands(commands).map((command) => command.title)
+      ).toEqual(['Add task', 'Go to today', 'Export backup']);
+      expect(searchCommands(commands, ' ')).toHaveLength(3);
+    });
+
+    it('should rank title matches before keyword and group matches', () => {
+      expect(
+        searchCommands(commands, 'today').map((match) => match.command.title)
+      ).toEqual(['Go to today']);
+      expect(searchCommands(commands, 'json')[0]).toMatchObject({
+        command: { title: 'Export backup' },
+        indices: [],
+      });
+      expect(
+        searchCommands(commands, 'navigation').map(
+          (match) => match.command.title
+        )
+      ).toEqual(['Go to today']);
+      expect(searchCommands(commands, 'undo')).toEqual([]);
+    });
+  });
+
+  describe('shortcuts', () => {
+    it('should bind every shortcut of enabled commands without a prompt', () => {
+      const redo = createCommand('Redo', {
+        shortcuts: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      });
+      const commands = [
+        redo,
+        createCommand('Undo', { shortcuts: ['Ctrl+Z'], disabled: true }),
+        createCommand('Go to date', {
+          shortcuts: ['g'],
+          prompt: { placeholder: 'Date', validate: () => null },
+        }),
+      ];
+
+      const shortcuts = getCommandShortcuts(commands);
+      expect(shortcuts.map((shortcut) => shortcut.keys)).toEqual([
+        [{ key: 'z', ctrlKey: true, shiftKey: true }],
+        [{ key: 'y', ctrlKey: true }],
+      ]);
+      shortcuts[1]?.handler();
+      expect(redo.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bind the keymap instead of the default shortcuts', () => {
+      const today = createCommand('Go to today', {
+        id: 'date.today',
+        shortcuts: ['t'],
+      });
+
+      const shortcuts = getCommandShortcuts([today], {
+        'date.today': ['g t', 'not a+key'],
+      });
+      expect(shortcuts.map((shortcut) => shortcut.keys)).toEqual([
+        [{ key: 'g' }, { key: 't' }],
+      ]);
+    });
+
+    it('should show keys by name or symbol', () => {
+      expect(getShortcutText({ key: 'ArrowLeft' })).toBe('←');
+      expect(getShortcutText({ key: 'Escape' })).toBe('Esc');
+      expect(getShortcutText({ key: '/' })).toBe('/');
+      expect(getKeySequenceText('g t')).toBe('G T');
+    });
+  });
+});
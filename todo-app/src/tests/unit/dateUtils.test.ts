@@ -1,7 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Mock the local time zone by its offset from UTC in minutes, e.g. 240 for UTC-4
+function mockTimezoneOffset(offset: number | ((date: Date) => number)) {
+  vi.spyOn(Date.prototype, 'getTimezoneOffset').mockImplementation(function (
+    this: Date
+  ) {
+    return typeof offset === 'number' ? offset : offset(this);
+  });
+}
 
 // These tests will fail until dateUtils.ts is implemented (TDD Red phase)
 describe('Date Utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
   describe('normalizeToUTC', () => {
     it('should convert date to UTC ISO string', async () => {
       const { normalizeToUTC } = await import('../../utils/dateUtils');
@@ -79,10 +96,52 @@ describe('Date Utilities', () => {
 
       expect(result).toMatch(/^\d{4}-\d{2}-\d{2}$/);
 
-      // Should match current date
+      // Should match the current local date
       const now = new Date();
-      const expected = now.toISOString().split('T')[0];
-      expect(result).toBe(expected);
+      const month = String(now.getMonth() + 1).padStart(2, '0');
+      const day = String(now.getDate()).padStart(2, '0');
+      expect(result).toBe(`${now.getFullYear()}-${month}-${day}`);
+    });
+
+    it('should follow the local time zone', async () => {
+      const { getTodayISO } = await import('../../utils/dateUtils');
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-10-10T20:00:00.000Z'));
+
+      mockTimezoneOffset(-540); // Tokyo
+      expect(getTodayISO()).toBe('2025-10-11');
+      mockTimezoneOffset(240); // New York
+      expect(getTodayISO()).toBe('2025-10-10');
+    });
+  });
+
+  describe('getMsUntilTomorrow', () => {
+    it('should count down to local midnight', async () => {
+      const { getMsUntilTomorrow } = await import('../../utils/dateUtils');
+
+      mockTimezoneOffset(240); // New York, 23:59 and 19:59
+      expect(getMsUntilTomorrow(new Date('2025-10-11T03:59:00.000Z'))).toBe(
+        MINUTE
+      );
+      expect(getMsUntilTomorrow(new Date('2025-10-10T23:59:00.000Z'))).toBe(
+        4 * HOUR + MINUTE
+      );
+
+      mockTimezoneOffset(-540); // Tokyo, 23:59
+      expect(getMsUntilTomorrow(new Date('2025-10-10T14:59:00.000Z'))).toBe(
+        MINUTE
+      );
+    });
+
+    it('should count the length of days with a daylight saving change', async () => {
+      const { getMsUntilTomorrow } = await import('../../utils/dateUtils');
+      // Berlin, where clocks go back from UTC+2 to UTC+1 at 01:00 UTC on October 26
+      const change = Date.parse('2025-10-26T01:00:00.000Z');
+      mockTimezoneOffset((date) => (date.getTime() < change ? -120 : -60));
+
+      expect(getMsUntilTomorrow(new Date('2025-10-25T22:00:00.000Z'))).toBe(
+        25 * HOUR
+      );
     });
   });
 
@@ -152,6 +211,31 @@ describe('Date Utilities', () => {
     });
   });
 
+  describe('week and range helpers', () => {
+    it('should find the Monday and Sunday of a week', async () => {
+      const { getStartOfWeek, getEndOfWeek } = await import(
+        '../../utils/dateUtils'
+      );
+
+      expect(getStartOfWeek('2025-10-15')).toBe('2025-10-13'); // Wednesday
+      expect(getStartOfWeek('2025-10-13')).toBe('2025-10-13'); // Monday
+      expect(getEndOfWeek('2025-10-19')).toBe('2025-10-19'); // Sunday
+      expect(getEndOfWeek('2025-12-29')).toBe('2026-01-04');
+    });
+
+    it('should list every date in a range', async () => {
+      const { getDatesInRange } = await import('../../utils/dateUtils');
+
+      expect(getDatesInRange('2025-10-30', '2025-11-02')).toEqual([
+        '2025-10-30',
+        '2025-10-31',
+        '2025-11-01',
+        '2025-11-02',
+      ]);
+      expect(getDatesInRange('2025-10-10', '2025-10-09')).toEqual([]);
+    });
+  });
+
   describe('parseISO', () => {
     it('should parse ISO date string to Date object', async () => {
       const { parseISO } = await import('../../utils/dateUtils');
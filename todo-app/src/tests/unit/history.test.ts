@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MAX_HISTORY_ENTRIES,
+  applyChanges,
+  createEmptyHistory,
+  getTaskChanges,
+  invertChanges,
+  recordHistoryEntry,
+} from '../../utils/history';
+import { atomicWrite, clearStorage, readHistory } from '../../utils/storage';
+import { createInitialAppData } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('Undo History', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const first = createTask('First');
+  const second = createTask('Second');
+  const third = createTask('Third');
+
+  describe('getTaskChanges', () => {
+    it('should describe insertions, removals and updates', () => {
+      const edited = { ...second, description: 'Second (edited)' };
+      const added = createTask('Added');
+
+      expect(
+        getTaskChanges([first, second, third], [edited, third, added])
+      ).toEqual([
+        { type: 'remove', task: first, index: 0 },
+        { type: 'update', before: second, after: edited },
+        { type: 'insert', task: added, index: 2 },
+      ]);
+    });
+  });
+
+  describe('applyChanges', () => {
+    it('should redo and undo a change set exactly', () => {
+      const before = [first, second, third];
+      const after = [{ ...first, completed: true }, third, createTask('New')];
+      const changes = getTaskChanges(before, after);
+
+      expect(applyChanges(before, changes)).toEqual(after);
+      expect(applyChanges(after, invertChanges(changes))).toEqual(before);
+    });
+
+    it('should restore removed tasks at their original positions', () => {
+      const before = [first, second, third];
+      const after = [second];
+      const changes = getTaskChanges(before, after);
+
+      expect(applyChanges(after, invertChanges(changes))).toEqual(before);
+    });
+
+    it('should skip changes that no longer apply', () => {
+      const changes = getTaskChanges([first], [first, second]);
+
+      // Undoing the insertion of a task that is already gone is a no-op
+      expect(applyChanges([first], invertChanges(changes))).toEqual([first]);
+      // Redoing it twice does not duplicate the task
+      expect(applyChanges([first, second], changes)).toEqual([first, second]);
+    });
+  });
+
+  describe('recordHistoryEntry', () => {
+    it('should clear the redo stack', () => {
+      const undone = recordHistoryEntry(createEmptyHistory(), 'Add task', [
+        { type: 'insert', task: first, index: 0 },
+      ]);
+      const history = recordHistoryEntry(
+        { undo: [], redo: undone.undo },
+        'Add task',
+        [{ type: 'insert', task: second, index: 0 }]
+      );
+
+      expect(history.undo).toHaveLength(1);
+      expect(history.redo).toEqual([]);
+    });
+
+    it('should ignore commands without changes', () => {
+      const history = createEmptyHistory();
+      expect(recordHistoryEntry(history, 'Edit task', [])).toBe(history);
+    });
+
+    it('should keep a bounded number of entries', () => {
+      let history = createEmptyHistory();
+      for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+        history = recordHistoryEntry(history, `Command ${i}`, [
+          { type: 'insert', task: first, index: 0 },
+        ]);
+      }
+
+      expect(history.undo).toHaveLength(MAX_HISTORY_ENTRIES);
+      expect(history.undo[0]?.label).toBe('Command 5');
+    });
+  });
+
+  describe('persistence', () => {
+    it('should store the history with the data', async () => {
+      const history = recordHistoryEntry(createEmptyHistory(), 'Add task', [
+        { type: 'insert', task: first, index: 0 },
+      ]);
+      await atomicWrite(
+        { ...createInitialAppData(), tasks: [first] },
+        { history }
+      );
+
+      expect(await readHistory()).toEqual(history);
+    });
+
+    it('should drop the history when storage is cleared', async () => {
+      const history = recordHistoryEntry(createEmptyHistory(), 'Add task', [
+        { type: 'insert', task: first, index: 0 },
+      ]);
+      await atomicWrite(createInitialAppData(), { history });
+      await clearStorage();
+
+      expect(await readHistory()).toEqual(createEmptyHistory());
+    });
+  });
+});
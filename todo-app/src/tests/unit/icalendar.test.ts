@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeText,
+  foldLine,
+  parseICalendar,
+  tasksToICalendar,
+  unescapeText,
+} from '../../utils/icalendar';
+import type { Tag } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+describe('iCalendar', () => {
+  describe('text escaping', () => {
+    it('should escape and unescape special characters', () => {
+      const text = 'Buy milk, eggs; bread\\butter\nand jam';
+      expect(escapeText(text)).toBe(
+        'Buy milk\\, eggs\\; bread\\\\butter\\nand jam'
+      );
+      expect(unescapeText(escapeText(text))).toBe(text);
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should fold lines longer than 75 octets', () => {
+      const folded = foldLine(`SUMMARY:${'a'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldLine(`SUMMARY:${'日本語'.repeat(40)}`);
+      const encoder = new TextEncoder();
+
+      folded.split('\r\n').forEach((line) => {
+        expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+        expect(line).not.toContain('�');
+      });
+    });
+  });
+
+  describe('tasksToICalendar', () => {
+    it('should map tasks to VTODOs', () => {
+      const task = createTask('Write report', {
+        completed: true,
+        completedAt: '2025-10-13T17:30:00.000Z',
+      });
+      const ics = tasksToICalendar(
+        [task],
+        [],
+        new Date('2025-10-14T08:00:00.000Z')
+      );
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics).toContain(`UID:${task.id}\r\n`);
+      expect(ics).toContain('DTSTAMP:20251014T080000Z\r\n');
+      expect(ics).toContain('CREATED:20251013T090000Z\r\n');
+      expect(ics).toContain('DUE;VALUE=DATE:20251013\r\n');
+      expect(ics).toContain('STATUS:COMPLETED\r\n');
+      expect(ics).toContain('COMPLETED:20251013T173000Z\r\n');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should write a due time as a floating DATE-TIME', () => {
+      const ics = tasksToICalendar([
+        createTask('Dentist', { dueTime: '09:30' }),
+      ]);
+
+      expect(ics).toContain('DUE:20251013T093000\r\n');
+    });
+
+    it('should write tags as categories and the reminder as an alarm', () => {
+      const tags: Tag[] = [
+        { id: crypto.randomUUID(), name: 'Work, urgent', color: 'red' },
+      ];
+      const task = createTask('Dentist', {
+        dueTime: '09:30',
+        reminderMinutes: 90,
+        tags: [tags[0]?.id ?? '', crypto.randomUUID()],
+      });
+      const ics = tasksToICalendar([task], tags);
+
+      expect(ics).toContain('CATEGORIES:Work\\, urgent\r\n');
+      expect(ics).toContain(
+        'BEGIN:VALARM\r\nACTION:DISPLAY\r\nDESCRIPTION:Dentist\r\n' +
+          'TRIGGER;RELATED=END:-PT90M\r\nEND:VALARM\r\n'
+      );
+    });
+  });
+
+  describe('round trip', () => {
+    it('should preserve every task field', () => {
+      const tasks = [
+        createTask('Plain task'),
+        createTask('Done, with; special\\chars', {
+          completed: true,
+          completedAt: '2025-10-10T17:30:45.678Z',
+          date: '2025-10-09',
+          priority: 'high',
+          tags: [],
+          checklist: [],
+          notes: '',
+        }),
+        createTask('Ünïcödé 日本語 '.repeat(30).trim().slice(0, 500)),
+        createTask('x'.repeat(500)),
+        createTask('Dentist', { dueTime: '09:30' }),
+      ];
+
+      expect(parseICalendar(tasksToICalendar(tasks)).tasks).toEqual(tasks);
+    });
+
+    it('should preserve tags, checklists, series links and reminders', () => {
+      const tags: Tag[] = [
+        { id: crypto.randomUUID(), name: 'Work', color: 'blue' },
+        { id: crypto.randomUUID(), name: 'Home, garden', color: 'green' },
+        { id: crypto.randomUUID(), name: 'Unused', color: 'red' },
+      ];
+      const tasks = [
+        createTask('Standup', {
+          tags: [tags[1]?.id ?? '', tags[0]?.id ?? ''],
+          checklist: [
+            {
+              id: crypto.randomUUID(),
+              text: 'Yesterday, today; blockers',
+              completed: true,
+            },
+            { id: crypto.randomUUID(), text: 'Questions', completed: false },
+          ],
+          seriesId: crypto.randomUUID(),
+          originalDate: '2025-10-12',
+          rolloverCount: 1,
+          dueTime: '09:30',
+          reminderMinutes: 15,
+          remindedAt: '2025-10-13T07:15:00.000Z',
+          position: 'i',
+          updatedAt: '2025-10-13T07:20:30.123Z',
+        }),
+        createTask('At due time', { dueTime: '18:00', reminderMinutes: 0 }),
+        createTask('Day before', { dueTime: '08:00', reminderMinutes: 1440 }),
+      ];
+
+      const result = parseICalendar(tasksToICalendar(tasks, tags));
+
+      expect(result.tasks).toEqual(tasks);
+      expect(result.tags).toEqual([tags[1], tags[0]]);
+    });
+  });
+
+  describe('parseICalendar', () => {
+    it('should import VTODOs from other apps', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Other App//EN',
+        'BEGIN:VEVENT',
+        'UID:event-1',
+        'SUMMARY:Not a task',
+        'DTSTART:20251010T090000Z',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'UID:not-a-uuid@example.com',
+        'SUMMARY:Call the plumber',
+        'DTSTART;TZID=Europe/Berlin:20251012T100000',
+        'CREATED:20251001T120000Z',
+        'COMPLETED:20251012T150000Z',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const { tasks, skipped } = parseICalendar(ics);
+
+      expect(skipped).toEqual([]);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toMatchObject({
+        description: 'Call the plumber',
+        date: '2025-10-12',
+        dueTime: '10:00',
+        completed: true,
+        createdAt: '2025-10-01T12:00:00.000Z',
+        completedAt: '2025-10-12T15:00:00.000Z',
+      });
+      expect(tasks[0]?.id).not.toBe('not-a-uuid@example.com');
+    });
+
+    it('should create tags for categories and read alarms before the due time', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'SUMMARY:Pay rent',
+        'DUE:20251013T120000',
+        'CATEGORIES:Home,Money,home',
+        'BEGIN:VALARM',
+        'TRIGGER:-P1DT2H',
+        'END:VALARM',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT5M',
+        'END:VALARM',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:After the due time',
+        'DUE:20251013T120000',
+        'BEGIN:VALARM',
+        'TRIGGER:PT10M',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const { tasks, tags } = parseICalendar(ics);
+
+      expect(tags.map((tag) => tag.name)).toEqual(['Home', 'Money']);
+      expect(tasks[0]?.tags).toEqual(tags.map((tag) => tag.id));
+      expect(tasks[0]?.reminderMinutes).toBe(26 * 60);
+      expect(tasks[1]?.reminderMinutes).toBeUndefined();
+    });
+
+    it('should skip VTODOs without a summary or date', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'UID:1',
+        'DUE;VALUE=DATE:20251010',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:2',
+        'SUMMARY:No date',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      const { tasks, skipped } = parseICalendar(ics);
+
+      expect(tasks).toEqual([]);
+      expect(skipped).toEqual([
+        { uid: '1', reason: 'Missing summary' },
+        { uid: '2', reason: 'Missing due date' },
+      ]);
+    });
+
+    it('should reject files that are not iCalendar', () => {
+      expect(() => parseICalendar('{"tasks": []}')).toThrow(
+        'File is not an iCalendar file'
+      );
+    });
+  });
+});
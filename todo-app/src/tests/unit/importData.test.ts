@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  applyImportPlan,
+  parseImportFile,
+  planImport,
+  readImportFile,
+} from '../../utils/importData';
+import { tasksToICalendar } from '../../utils/icalendar';
+import {
+  importAppData,
+  listSnapshots,
+  readStorage,
+  atomicWrite,
+} from '../../utils/storage';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createInitialAppData,
+  type AppData,
+  type Tag,
+  type Task,
+} from '../../utils/validation';
+import { useTaskStore } from '../../stores/taskStore';
+import { createTask } from '../fixtures';
+
+function withTasks(tasks: Task[]): AppData {
+  const data = createInitialAppData();
+  return {
+    ...data,
+    tasks,
+    metadata: {
+      ...data.metadata,
+      totalTaskCount: tasks.length,
+      oldestTaskDate: tasks.length > 0 ? '2025-10-10' : null,
+      newestTaskDate: tasks.length > 0 ? '2025-10-10' : null,
+    },
+  };
+}
+
+describe('JSON Import', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('parseImportFile', () => {
+    it('should accept an exported file', () => {
+      const data = withTasks([createTask('Exported')]);
+      expect(parseImportFile(JSON.stringify(data))).toEqual(data);
+    });
+
+    it('should migrate files from older versions', () => {
+      const legacy = {
+        version: 1,
+        tasks: [createTask('Legacy')],
+        metadata: {
+          createdAt: '2025-10-10T09:00:00.000Z',
+          lastModified: '2025-10-10T09:00:00.000Z',
+          totalTasks: 1,
+        },
+      };
+
+      const parsed = parseImportFile(JSON.stringify(legacy));
+      expect(parsed.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(parsed.tasks).toHaveLength(1);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseImportFile('{not json')).toThrow(
+        'File is not valid JSON'
+      );
+    });
+
+    it('should reject files that fail validation', () => {
+      const data = withTasks([createTask('')]);
+      expect(() => parseImportFile(JSON.stringify(data))).toThrow(
+        /tasks\.0\.description/
+      );
+    });
+
+    it('should reject duplicate task ids', () => {
+      const task = createTask('Twice');
+      expect(() =>
+        parseImportFile(JSON.stringify(withTasks([task, task])))
+      ).toThrow(/duplicate task id/);
+    });
+  });
+
+  describe('readImportFile', () => {
+    it('should read calendar files without preferences', () => {
+      const task = createTask('From calendar');
+      const source = readImportFile('tasks.ICS', tasksToICalendar([task]));
+
+      expect(source).toEqual({ tasks: [task], tags: [], skippedCount: 0 });
+    });
+
+    it('should add the tags of a calendar file when replacing', () => {
+      const work: Tag = {
+        id: crypto.randomUUID(),
+        name: 'Work',
+        color: 'blue',
+      };
+      const current = { ...createInitialAppData(), tags: [work] };
+      const home: Tag = {
+        id: crypto.randomUUID(),
+        name: 'Home',
+        color: 'green',
+      };
+      const task = createTask('From calendar', { tags: [home.id] });
+      const source = readImportFile(
+        'tasks.ics',
+        tasksToICalendar([task], [home])
+      );
+
+      const data = applyImportPlan(current, planImport([], source, 'replace'));
+
+      expect(data.tags).toEqual([work, home]);
+      expect(data.tasks).toEqual([task]);
+    });
+
+    it('should keep current preferences when replacing from a calendar file', () => {
+      const current = createInitialAppData();
+      const plan = planImport(
+        [],
+        { tasks: [createTask('From calendar')] },
+        'replace'
+      );
+
+      expect(applyImportPlan(current, plan).preferences).toEqual(
+        current.preferences
+      );
+    });
+  });
+
+  describe('planImport', () => {
+    const kept = createTask('Only here');
+    const shared = createTask('Shared');
+    const incomingOnly = createTask('Only in file');
+
+    it('should replace everything with the file', () => {
+      const edited = { ...shared, description: 'Edited in file' };
+      const plan = planImport(
+        [kept, shared],
+        withTasks([edited, incomingOnly]),
+        'replace'
+      );
+
+      expect(plan.tasks).toEqual([edited, incomingOnly]);
+      expect(plan.added).toEqual([incomingOnly]);
+      expect(plan.updated).toEqual([edited]);
+      expect(plan.removed).toEqual([kept]);
+    });
+
+    it('should let the file win when merging by id', () => {
+      const edited = { ...shared, description: 'Edited in file' };
+      const plan = planImport(
+        [kept, shared],
+        withTasks([edited, incomingOnly]),
+        'merge-by-id'
+      );
+
+      expect(plan.tasks).toEqual([kept, edited, incomingOnly]);
+      expect(plan.updated).toEqual([edited]);
+      expect(plan.removed).toEqual([]);
+      expect(plan.conflicts).toEqual([]);
+    });
+
+    it('should keep the newer version when merging', () => {
+      const completedInFile = {
+        ...shared,
+        completed: true,
+        completedAt: '2025-10-14T09:00:00.000Z',
+      };
+      const renamedInFile = { ...kept, description: 'Renamed in file' };
+      const plan = planImport(
+        [kept, shared],
+        withTasks([completedInFile, renamedInFile]),
+        'merge-keep-newer'
+      );
+
+      expect(plan.updated).toEqual([completedInFile]);
+      expect(plan.conflicts).toEqual([
+        { current: kept, incoming: renamedInFile },
+      ]);
+      expect(plan.tasks).toEqual([kept, completedInFile]);
+    });
+
+    it('should compare edit timestamps when merging', () => {
+      const current = { ...kept, updatedAt: '2025-10-14T09:00:00.000Z' };
+      const edited = { ...kept, description: 'Edited' };
+      const editedEarlier = {
+        ...edited,
+        updatedAt: '2025-10-13T12:00:00.000Z',
+      };
+      const editedLater = { ...edited, updatedAt: '2025-10-15T12:00:00.000Z' };
+
+      expect(
+        planImport([current], withTasks([editedEarlier]), 'merge-keep-newer')
+          .conflicts
+      ).toEqual([{ current, incoming: editedEarlier }]);
+      expect(
+        planImport([current], withTasks([editedLater]), 'merge-keep-newer')
+          .updated
+      ).toEqual([editedLater]);
+    });
+
+    it('should count identical tasks as unchanged', () => {
+      const plan = planImport([shared], withTasks([shared]), 'merge-by-id');
+      expect(plan.unchangedCount).toBe(1);
+      expect(plan.updated).toEqual([]);
+    });
+
+    it('should stamp the tasks edited in the app', async () => {
+      await atomicWrite(withTasks([kept, shared]));
+      await useTaskStore.getState().loadTasks();
+
+      await useTaskStore
+        .getState()
+        .updateTask(kept.id, { description: 'Edited' });
+
+      const [edited, untouched] = (await readStorage())?.tasks ?? [];
+      expect(edited?.updatedAt).toBeDefined();
+      expect(useTaskStore.getState().tasks[0]).toEqual(edited);
+      expect(untouched).toEqual(shared);
+    });
+  });
+
+  describe('applyImportPlan', () => {
+    it('should keep current preferences unless replacing', () => {
+      const current = createInitialAppData();
+      const incoming = {
+        ...withTasks([createTask('Imported', { date: '2025-10-12' })]),
+        preferences: {
+          lastViewedDate: '2025-10-12',
+          sortOrder: 'oldest-first' as const,
+        },
+      };
+
+      const merged = applyImportPlan(
+        current,
+        planImport([], incoming, 'merge-by-id')
+      );
+      expect(merged.preferences).toEqual(current.preferences);
+      expect(merged.metadata.totalTaskCount).toBe(1);
+      expect(merged.metadata.newestTaskDate).toBe('2025-10-12');
+
+      const replaced = applyImportPlan(
+        current,
+        planImport([], incoming, 'replace')
+      );
+      expect(replaced.preferences).toEqual(incoming.preferences);
+    });
+  });
+
+  describe('importAppData', () => {
+    it('should snapshot the current data before importing', async () => {
+      const original = createTask('Before import');
+      await atomicWrite(withTasks([original]));
+
+      await importAppData(withTasks([createTask('Imported')]));
+
+      expect((await readStorage())?.tasks[0]?.description).toBe('Imported');
+      const { snapshots } = await listSnapshots();
+      expect(snapshots[0]?.reason).toBe('before-import');
+    });
+
+    it('should preserve corrupted data before replacing it', async () => {
+      localStorage.setItem('todo-app-data', '{corrupted');
+
+      await importAppData(withTasks([createTask('Imported')]));
+
+      expect(localStorage.getItem('todo-app-data-corrupted')).toBe(
+        '{corrupted'
+      );
+      expect((await readStorage())?.tasks).toHaveLength(1);
+    });
+  });
+});
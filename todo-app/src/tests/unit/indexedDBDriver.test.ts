@@ -0,0 +1,142 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createIndexedDBDriver } from '../../utils/indexedDBDriver';
+import { createLocalStorageDriver } from '../../utils/localStorageDriver';
+import {
+  getPreferredDriverName,
+  getStorageDriver,
+  setStorageDriver,
+  switchStorageDriver,
+} from '../../utils/storageDriver';
+
+function createDocument(descriptions: string[]) {
+  return {
+    version: 2,
+    tasks: descriptions.map((description, index) => ({
+      id: `task-${index}`,
+      date: '2024-01-15',
+      description,
+    })),
+  };
+}
+
+// Tasks put into the tasks store while running work
+async function countTaskPuts(work: () => Promise<void>): Promise<number> {
+  const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+  try {
+    await work();
+    // Instances are the stores put was called on
+    const stores = put.mock.instances as unknown as IDBObjectStore[];
+    return stores.filter((store) => store.name === 'tasks').length;
+  } finally {
+    put.mockRestore();
+  }
+}
+
+describe('IndexedDB driver', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    const driver = createIndexedDBDriver();
+    for (const key of await driver.keys()) {
+      await driver.remove(key);
+    }
+  });
+
+  afterEach(() => {
+    setStorageDriver(createLocalStorageDriver());
+  });
+
+  it('should round-trip the main document and other keys', async () => {
+    const driver = createIndexedDBDriver();
+    const document = createDocument(['First', 'Second', 'Third']);
+
+    await driver.write('todo-app-data', document);
+    await driver.write('todo-app-data-backup', { note: 'kept whole' });
+
+    expect(await driver.read('todo-app-data')).toEqual(document);
+    expect(await driver.read('todo-app-data-backup')).toEqual({
+      note: 'kept whole',
+    });
+    expect(await driver.read('todo-app-data-missing')).toBeNull();
+    expect(
+      JSON.parse((await driver.readRaw('todo-app-data')) ?? 'null')
+    ).toEqual(document);
+    expect((await driver.keys()).sort()).toEqual([
+      'todo-app-data',
+      'todo-app-data-backup',
+    ]);
+  });
+
+  it('should only write the task records that changed', async () => {
+    const driver = createIndexedDBDriver();
+    await driver.write(
+      'todo-app-data',
+      createDocument(['First', 'Second', 'Third'])
+    );
+
+    const unchanged = await countTaskPuts(() =>
+      driver.write(
+        'todo-app-data',
+        createDocument(['First', 'Second', 'Third'])
+      )
+    );
+    const edited = await countTaskPuts(() =>
+      driver.write(
+        'todo-app-data',
+        createDocument(['First', 'Edited', 'Third'])
+      )
+    );
+
+    expect(unchanged).toBe(0);
+    expect(edited).toBe(1);
+  });
+
+  it('should delete the records of removed tasks and keep the order', async () => {
+    const driver = createIndexedDBDriver();
+    const document = createDocument(['First', 'Second', 'Third']);
+    await driver.write('todo-app-data', document);
+
+    const [first, , third] = document.tasks;
+    await driver.write('todo-app-data', { ...document, tasks: [third, first] });
+
+    expect(await driver.read('todo-app-data')).toEqual({
+      ...document,
+      tasks: [third, first],
+    });
+  });
+
+  it('should roll back every write when a transaction fails', async () => {
+    const driver = createIndexedDBDriver();
+    await driver.write('todo-app-data', createDocument(['Original']));
+
+    await expect(
+      driver.transaction(async (tx) => {
+        await tx.write('todo-app-data', createDocument(['Changed', 'Added']));
+        await tx.write('todo-app-data-backup', 'created');
+        throw new Error('Boom');
+      })
+    ).rejects.toThrow('Boom');
+
+    expect(await driver.read('todo-app-data')).toEqual(
+      createDocument(['Original'])
+    );
+    expect(await driver.read('todo-app-data-backup')).toBeNull();
+  });
+
+  it('should copy the data when switching from localStorage', async () => {
+    const document = createDocument(['First', 'Second']);
+    localStorage.setItem('todo-app-data', JSON.stringify(document));
+    localStorage.setItem('todo-app-data-trash', '[]');
+
+    await switchStorageDriver('indexedDB');
+
+    expect(getStorageDriver().name).toBe('indexedDB');
+    expect(getPreferredDriverName()).toBe('indexedDB');
+    expect(await getStorageDriver().read('todo-app-data')).toEqual(document);
+    expect(await getStorageDriver().read('todo-app-data-trash')).toEqual([]);
+    // The old copy is left untouched
+    expect(localStorage.getItem('todo-app-data')).toBe(
+      JSON.stringify(document)
+    );
+  });
+});
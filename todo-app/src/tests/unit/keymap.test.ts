@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Command } from '../../utils/commands';
+import {
+  findKeyConflicts,
+  getCommandKeys,
+  getKeyStroke,
+  matchKeySequence,
+  normalizeKeySequence,
+  parseKeySequence,
+  setCommandKeys,
+  type KeyPress,
+} from '../../utils/keymap';
+
+function press(key: string, modifiers: Partial<KeyPress> = {}): KeyPress {
+  return {
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    ...modifiers,
+  };
+}
+
+function createCommand(id: string, shortcuts: string[]): Command {
+  return { id, title: id, group: 'General', shortcuts, run: vi.fn() };
+}
+
+describe('Keymap', () => {
+  describe('notation', () => {
+    it('should parse strokes, modifiers and named keys', () => {
+      expect(parseKeySequence('Ctrl+Shift+Z')).toEqual([
+        { key: 'z', ctrlKey: true, shiftKey: true },
+      ]);
+      expect(parseKeySequence('g t')).toEqual([{ key: 'g' }, { key: 't' }]);
+      expect(parseKeySequence('Alt+Space')).toEqual([
+        { key: ' ', altKey: true },
+      ]);
+      expect(parseKeySequence('Ctrl+Plus')).toEqual([
+        { key: '+', ctrlKey: true },
+      ]);
+    });
+
+    it('should reject invalid sequences', () => {
+      expect(parseKeySequence('')).toBeNull();
+      expect(parseKeySequence('Cmd+K')).toBeNull();
+      expect(parseKeySequence('Ctrl+')).toBeNull();
+      expect(parseKeySequence('Shift')).toBeNull();
+      expect(parseKeySequence('a b c d')).toBeNull();
+    });
+
+    it('should normalize modifier order, case and Shift on symbols', () => {
+      expect(normalizeKeySequence('shift+ctrl+Z')).toBe('Ctrl+Shift+z');
+      expect(normalizeKeySequence(' G   T ')).toBe('g t');
+      expect(normalizeKeySequence('Shift+?')).toBe('?');
+    });
+  });
+
+  describe('matching', () => {
+    it('should read Ctrl as ⌘ on macOS', () => {
+      expect(getKeyStroke(press('k', { metaKey: true }), true)).toEqual({
+        key: 'k',
+        ctrlKey: true,
+      });
+      expect(getKeyStroke(press('k', { ctrlKey: true }), true)).toBeNull();
+      expect(getKeyStroke(press('k', { ctrlKey: true }), false)).toEqual({
+        key: 'k',
+        ctrlKey: true,
+      });
+      expect(getKeyStroke(press('k', { metaKey: true }), false)).toBeNull();
+      expect(
+        getKeyStroke(press('Shift', { shiftKey: true }), false)
+      ).toBeNull();
+    });
+
+    it('should require the exact modifiers, ignoring Shift on symbols', () => {
+      const sequences = [
+        parseKeySequence('Ctrl+Z') ?? [],
+        parseKeySequence('?') ?? [],
+      ];
+
+      const ctrlShiftZ = press('Z', { ctrlKey: true, shiftKey: true });
+      expect(matchKeySequence([ctrlShiftZ], sequences, false)).toEqual({
+        status: 'none',
+      });
+      expect(
+        matchKeySequence([press('z', { ctrlKey: true })], sequences, false)
+      ).toEqual({
+        status: 'complete',
+        index: 0,
+      });
+      expect(
+        matchKeySequence([press('?', { shiftKey: true })], sequences, false)
+      ).toEqual({
+        status: 'complete',
+        index: 1,
+      });
+    });
+
+    it('should wait for the rest of a sequence', () => {
+      const sequences = [
+        parseKeySequence('t') ?? [],
+        parseKeySequence('g t') ?? [],
+      ];
+
+      expect(matchKeySequence([press('g')], sequences, false)).toEqual({
+        status: 'partial',
+      });
+      expect(
+        matchKeySequence([press('g'), press('t')], sequences, false)
+      ).toEqual({
+        status: 'complete',
+        index: 1,
+      });
+      expect(
+        matchKeySequence([press('g'), press('x')], sequences, false)
+      ).toEqual({
+        status: 'none',
+      });
+    });
+  });
+
+  describe('keymap', () => {
+    const today = createCommand('date.today', ['t', 'g t']);
+    const tags = createCommand('app.tags', []);
+    const commands = [today, tags];
+
+    it('should replace default keys and skip invalid ones', () => {
+      expect(getCommandKeys(today, {})).toEqual(['t', 'g t']);
+      expect(
+        getCommandKeys(today, { 'date.today': ['Ctrl+T', 'Hyper+T'] })
+      ).toEqual(['Ctrl+t']);
+    });
+
+    it('should find equal sequences and sequences starting one another', () => {
+      expect(findKeyConflicts(commands, {}, 'T')).toEqual([
+        { sequence: 't', commandId: 'date.today' },
+      ]);
+      expect(findKeyConflicts(commands, {}, 'g')).toEqual([
+        { sequence: 'g t', commandId: 'date.today' },
+      ]);
+      expect(findKeyConflicts(commands, {}, 'g t x')).toHaveLength(1);
+      expect(findKeyConflicts(commands, {}, 'g x')).toEqual([]);
+      expect(findKeyConflicts(commands, {}, 't', 'date.today')).toEqual([]);
+    });
+
+    it('should only keep keys that differ from the defaults', () => {
+      const keymap = setCommandKeys({}, tags, ['g  T']);
+      expect(keymap).toEqual({ 'app.tags': ['g t'] });
+      expect(setCommandKeys(keymap, tags, [])).toEqual({});
+      expect(setCommandKeys(keymap, tags, null)).toEqual({});
+
+      expect(setCommandKeys({}, today, [])).toEqual({ 'date.today': [] });
+      expect(setCommandKeys({}, today, ['T', 'g t'])).toEqual({});
+    });
+
+    it('should reject invalid keys', () => {
+      expect(() => setCommandKeys({}, tags, ['Cmd+K'])).toThrow(
+        'Invalid key sequence "Cmd+K"'
+      );
+      expect(() => setCommandKeys({}, tags, ['a', 'b', 'c', 'd', 'e'])).toThrow(
+        'at most 4 key sequences'
+      );
+    });
+  });
+});
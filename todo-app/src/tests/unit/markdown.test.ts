@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown, sanitizeUrl } from '../../utils/markdown';
+
+describe('Markdown', () => {
+  describe('sanitizeUrl', () => {
+    it('should allow http, https and mailto URLs only', () => {
+      expect(sanitizeUrl('https://example.com/a?b=c')).toBe(
+        'https://example.com/a?b=c'
+      );
+      expect(sanitizeUrl('mailto:me@example.com')).toBe(
+        'mailto:me@example.com'
+      );
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,<b>x</b>')).toBeNull();
+      expect(sanitizeUrl('/relative/path')).toBeNull();
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse code, emphasis, strong and strikethrough', () => {
+      expect(parseInline('Run `npm test` **now**, *maybe* ~~later~~')).toEqual([
+        { type: 'text', text: 'Run ' },
+        { type: 'code', text: 'npm test' },
+        { type: 'text', text: ' ' },
+        { type: 'strong', children: [{ type: 'text', text: 'now' }] },
+        { type: 'text', text: ', ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'maybe' }] },
+        { type: 'text', text: ' ' },
+        { type: 'strike', children: [{ type: 'text', text: 'later' }] },
+      ]);
+    });
+
+    it('should not treat underscores inside words as emphasis', () => {
+      expect(parseInline('rename snake_case_name')).toEqual([
+        { type: 'text', text: 'rename snake_case_name' },
+      ]);
+    });
+
+    it('should parse links and bare URLs without trailing punctuation', () => {
+      expect(
+        parseInline('[Docs](https://example.com), see https://example.org/x.')
+      ).toEqual([
+        {
+          type: 'link',
+          href: 'https://example.com',
+          children: [{ type: 'text', text: 'Docs' }],
+        },
+        { type: 'text', text: ', see ' },
+        {
+          type: 'link',
+          href: 'https://example.org/x',
+          children: [{ type: 'text', text: 'https://example.org/x' }],
+        },
+        { type: 'text', text: '.' },
+      ]);
+    });
+
+    it('should keep only the label of unsafe links', () => {
+      expect(parseInline('[click](javascript:alert(1))')).toEqual([
+        { type: 'text', text: 'click' },
+        { type: 'text', text: ')' },
+      ]);
+    });
+
+    it('should keep HTML as text', () => {
+      expect(parseInline('<script>alert(1)</script>')).toEqual([
+        { type: 'text', text: '<script>alert(1)</script>' },
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse headings, lists, quotes, code and rules', () => {
+      const blocks = parseMarkdown(
+        [
+          '# Plan',
+          '- one',
+          '- two',
+          '1. first',
+          '> quoted',
+          '```',
+          '**not bold**',
+          '```',
+          '---',
+          'Line one',
+          'line two',
+        ].join('\n')
+      );
+
+      expect(blocks.map((block) => block.type)).toEqual([
+        'heading',
+        'list',
+        'list',
+        'blockquote',
+        'code',
+        'rule',
+        'paragraph',
+      ]);
+      expect(blocks[1]).toMatchObject({
+        ordered: false,
+        items: [[{ text: 'one' }], [{ text: 'two' }]],
+      });
+      expect(blocks[2]).toMatchObject({ ordered: true });
+      expect(blocks[4]).toEqual({ type: 'code', text: '**not bold**' });
+      expect(blocks[6]).toEqual({
+        type: 'paragraph',
+        children: [{ type: 'text', text: 'Line one\nline two' }],
+      });
+    });
+
+    it('should split paragraphs on blank lines', () => {
+      expect(parseMarkdown('a\r\n\r\nb')).toHaveLength(2);
+      expect(parseMarkdown('')).toEqual([]);
+    });
+  });
+});
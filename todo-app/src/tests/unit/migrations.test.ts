@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  detectSchemaVersion,
+  needsMigration,
+  runMigrations,
+  type Migration,
+} from '../../utils/migrations';
+import {
+  migrateStorage,
+  readStorage,
+  validateStorage,
+} from '../../utils/storage';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createInitialAppData,
+} from '../../utils/validation';
+
+const legacyData = {
+  version: 1,
+  tasks: [
+    {
+      id: 'a3f2e1c4-5678-40ab-8def-1234567890ab',
+      description: 'Review pull request #42',
+      completed: false,
+      date: '2025-01-16',
+      createdAt: '2025-01-16T10:30:00.000Z',
+      completedAt: null,
+    },
+    {
+      id: 'b4f3e2d5-6789-41bc-9ef0-234567890abc',
+      description: 'Write documentation',
+      completed: true,
+      date: '2025-01-15',
+      createdAt: '2025-01-15T09:00:00.000Z',
+      completedAt: '2025-01-15T11:45:00.000Z',
+    },
+  ],
+  metadata: {
+    createdAt: '2025-01-15T08:00:00.000Z',
+    lastModified: '2025-01-16T11:45:00.000Z',
+    totalTasks: 2,
+  },
+};
+
+describe('Schema Migrations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('detectSchemaVersion', () => {
+    it('should read the version from metadata', () => {
+      expect(detectSchemaVersion(createInitialAppData())).toBe(
+        CURRENT_SCHEMA_VERSION
+      );
+    });
+
+    it('should read the legacy numeric version', () => {
+      expect(detectSchemaVersion(legacyData)).toBe('1');
+      expect(needsMigration(legacyData)).toBe(true);
+    });
+
+    it('should return null for unrecognised shapes', () => {
+      expect(detectSchemaVersion('invalid')).toBeNull();
+      expect(detectSchemaVersion({ tasks: [] })).toBeNull();
+      expect(needsMigration({ tasks: [] })).toBe(false);
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('should migrate the legacy format to the current version', () => {
+      const { data, steps, fromVersion } = runMigrations(legacyData);
+
+      expect(fromVersion).toBe('1');
+      expect(steps.map((step) => step.to)).toEqual([
+        '1.0.0',
+        '1.1.0',
+        '1.2.0',
+        '1.3.0',
+        '1.4.0',
+        CURRENT_SCHEMA_VERSION,
+      ]);
+      expect(data).toMatchObject({
+        metadata: {
+          version: CURRENT_SCHEMA_VERSION,
+          totalTaskCount: 2,
+          oldestTaskDate: '2025-01-15',
+          newestTaskDate: '2025-01-16',
+        },
+        tasks: legacyData.tasks.map((task) => ({
+          ...task,
+          priority: 'none',
+          tags: [],
+          checklist: [],
+          notes: '',
+          updatedAt: task.completedAt ?? task.createdAt,
+        })),
+        tags: [],
+      });
+    });
+
+    it('should default existing tasks to no priority', () => {
+      const initial = createInitialAppData();
+      const { data, steps } = runMigrations({
+        ...initial,
+        tasks: legacyData.tasks,
+        metadata: { ...initial.metadata, version: '1.0.0' },
+      });
+
+      expect(steps.map((step) => step.description)).toEqual([
+        'Add task priorities',
+        'Add tags',
+        'Add task checklists',
+        'Add task notes',
+        'Add task edit timestamps',
+      ]);
+      expect(data).toMatchObject({
+        tasks: [{ priority: 'none' }, { priority: 'none' }],
+      });
+    });
+
+    it('should start with an empty tag registry and untagged tasks', () => {
+      const initial = createInitialAppData();
+      const { tags: _tags, ...withoutTags } = initial;
+      const { data, steps } = runMigrations({
+        ...withoutTags,
+        tasks: legacyData.tasks.map((task) => ({ ...task, priority: 'high' })),
+        metadata: { ...initial.metadata, version: '1.1.0' },
+      });
+
+      expect(steps.map((step) => step.description)).toEqual([
+        'Add tags',
+        'Add task checklists',
+        'Add task notes',
+        'Add task edit timestamps',
+      ]);
+      expect(data).toMatchObject({
+        tasks: [
+          { priority: 'high', tags: [] },
+          { priority: 'high', tags: [] },
+        ],
+        tags: [],
+      });
+    });
+
+    it('should give existing tasks an empty checklist', () => {
+      const initial = createInitialAppData();
+      const { data, steps } = runMigrations({
+        ...initial,
+        tasks: legacyData.tasks.map((task) => ({
+          ...task,
+          priority: 'none',
+          tags: [],
+        })),
+        metadata: { ...initial.metadata, version: '1.2.0' },
+      });
+
+      expect(steps.map((step) => step.description)).toEqual([
+        'Add task checklists',
+        'Add task notes',
+        'Add task edit timestamps',
+      ]);
+      expect(data).toMatchObject({
+        tasks: [{ checklist: [] }, { checklist: [] }],
+      });
+    });
+
+    it('should move extra description lines into the notes', () => {
+      const initial = createInitialAppData();
+      const [first, second] = legacyData.tasks.map((task) => ({
+        ...task,
+        priority: 'none',
+        tags: [],
+        checklist: [],
+      }));
+      const { data } = runMigrations({
+        ...initial,
+        tasks: [
+          {
+            ...first,
+            description: 'Call the bank\nAsk about the fee\n\n- bring ID',
+          },
+          second,
+        ],
+        metadata: { ...initial.metadata, version: '1.3.0' },
+      });
+
+      expect(data).toMatchObject({
+        tasks: [
+          {
+            description: 'Call the bank',
+            notes: 'Ask about the fee\n\n- bring ID',
+          },
+          { description: second?.description, notes: '' },
+        ],
+      });
+    });
+
+    it('should start edit timestamps at the last known change', () => {
+      const initial = createInitialAppData();
+      const tasks = legacyData.tasks.map((task) => ({
+        ...task,
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
+      }));
+      const { data, steps } = runMigrations({
+        ...initial,
+        tasks,
+        metadata: { ...initial.metadata, version: '1.4.0' },
+      });
+
+      expect(steps.map((step) => step.description)).toEqual([
+        'Add task edit timestamps',
+      ]);
+      expect(data).toMatchObject({
+        tasks: [
+          { updatedAt: '2025-01-16T10:30:00.000Z' },
+          { updatedAt: '2025-01-15T11:45:00.000Z' },
+        ],
+      });
+    });
+
+    it('should reject data that does not match its version schema', () => {
+      expect(() =>
+        runMigrations({ ...legacyData, tasks: 'not-an-array' })
+      ).toThrow(/schema version 1/);
+    });
+
+    it('should reject versions without a migration path', () => {
+      expect(() => runMigrations({ metadata: { version: '999.0.0' } })).toThrow(
+        /No migration path from version 999.0.0/
+      );
+    });
+
+    it('should reject a step that produces invalid data', () => {
+      const broken: Migration[] = [
+        {
+          from: '1',
+          to: '1.0.0',
+          description: 'Broken',
+          migrate: () => ({ tasks: [] }),
+        },
+      ];
+
+      expect(() => runMigrations(legacyData, broken)).toThrow(
+        /schema version 1.0.0/
+      );
+    });
+  });
+
+  describe('readStorage integration', () => {
+    it('should migrate on read and keep a pre-migration backup', async () => {
+      localStorage.setItem('todo-app-data', JSON.stringify(legacyData));
+
+      const data = await readStorage();
+
+      expect(data?.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(data?.tasks).toHaveLength(2);
+
+      const stored = JSON.parse(localStorage.getItem('todo-app-data')!);
+      expect(stored.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
+
+      const backup = localStorage.getItem('todo-app-data-pre-migration-1');
+      expect(JSON.parse(backup!)).toEqual(legacyData);
+    });
+
+    it('should report the migration to the caller', async () => {
+      localStorage.setItem('todo-app-data', JSON.stringify(legacyData));
+
+      expect(await migrateStorage()).toMatchObject({
+        fromVersion: '1',
+        toVersion: CURRENT_SCHEMA_VERSION,
+        backupKey: 'todo-app-data-pre-migration-1',
+      });
+      expect(await migrateStorage()).toBeNull();
+    });
+
+    it('should treat migratable data as valid storage', async () => {
+      localStorage.setItem('todo-app-data', JSON.stringify(legacyData));
+
+      expect(await validateStorage()).toBe(true);
+    });
+
+    it('should leave data untouched when migration fails', async () => {
+      const raw = JSON.stringify({
+        metadata: { version: '999.0.0' },
+        tasks: [],
+      });
+      localStorage.setItem('todo-app-data', raw);
+
+      expect(await readStorage()).toBeNull();
+      expect(localStorage.getItem('todo-app-data')).toBe(raw);
+      expect(await migrateStorage()).toBeNull();
+    });
+  });
+});
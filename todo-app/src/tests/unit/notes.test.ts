@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_NOTES_LENGTH,
+  getNotesSize,
+  validateNotes,
+} from '../../utils/notes';
+
+describe('Task notes', () => {
+  const plenty = { used: 0, quota: 5 * 1024 * 1024 };
+
+  it('should measure notes in bytes', () => {
+    expect(getNotesSize('abc')).toBe(3);
+    expect(getNotesSize('é')).toBe(2);
+  });
+
+  it('should reject notes over the length limit', () => {
+    expect(validateNotes('x'.repeat(MAX_NOTES_LENGTH), '', plenty)).toBeNull();
+    expect(validateNotes('x'.repeat(MAX_NOTES_LENGTH + 1), '', plenty)).toBe(
+      'Notes must be 10,000 characters or less'
+    );
+  });
+
+  it('should reject notes that do not fit in the remaining storage', () => {
+    const nearlyFull = { used: 990, quota: 1000 };
+
+    expect(validateNotes('x'.repeat(10), '', nearlyFull)).toBe(
+      'Not enough storage space left for these notes'
+    );
+    // Shrinking notes is always allowed
+    expect(validateNotes('x', 'x'.repeat(10), nearlyFull)).toBeNull();
+    // Unknown quota is not checked
+    expect(validateNotes('x'.repeat(10), '', { used: 0, quota: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPositionAfter,
+  getPositionBetween,
+  reorderPositions,
+  sortTasks,
+} from '../../utils/ordering';
+import { createTask } from '../fixtures';
+
+describe('Task ordering', () => {
+  describe('getPositionBetween', () => {
+    it('should return a key strictly between its neighbours', () => {
+      const pairs: [string | null, string | null][] = [
+        [null, null],
+        [null, 'i'],
+        ['i', null],
+        ['i', 'j'],
+        ['a', 'a5'],
+        ['zz', null],
+        ['01', '1'],
+      ];
+
+      for (const [before, after] of pairs) {
+        const position = getPositionBetween(before, after);
+        expect(before === null || position > before).toBe(true);
+        expect(after === null || position < after).toBe(true);
+        expect(position.endsWith('0')).toBe(false);
+      }
+    });
+
+    it('should keep finding room when inserting at the same place repeatedly', () => {
+      let before = 'i';
+      const after = 'j';
+      for (let i = 0; i < 100; i++) {
+        const position = getPositionBetween(before, after);
+        expect(position > before && position < after).toBe(true);
+        before = position;
+      }
+    });
+
+    it('should keep appended keys short', () => {
+      let position: string | null = null;
+      for (let i = 0; i < 100; i++) {
+        position = getPositionBetween(position, null);
+      }
+      expect(position?.length).toBeLessThanOrEqual(7);
+    });
+
+    it('should reject positions out of order', () => {
+      expect(() => getPositionBetween('j', 'i')).toThrow(
+        'Positions must be in order'
+      );
+    });
+  });
+
+  describe('getPositionAfter', () => {
+    it('should place a task after the last positioned one', () => {
+      const tasks = [
+        createTask('a', { position: 'k' }),
+        createTask('b'),
+        createTask('c', { position: 'i' }),
+      ];
+      expect(getPositionAfter(tasks) > 'k').toBe(true);
+    });
+  });
+
+  describe('sortTasks', () => {
+    const older = createTask('Older', {
+      createdAt: '2025-10-13T08:00:00.000Z',
+      position: 'k',
+    });
+    const newer = createTask('Newer', {
+      createdAt: '2025-10-13T10:00:00.000Z',
+      position: 'i',
+    });
+    const urgent = createTask('Urgent', { priority: 'urgent', position: 'm' });
+    const unpositioned = createTask('Imported', {
+      createdAt: '2025-10-13T07:00:00.000Z',
+    });
+    const tasks = [older, newer, urgent, unpositioned];
+
+    it('should sort by priority, then creation time', () => {
+      expect(
+        sortTasks(tasks, 'newest-first').map((t) => t.description)
+      ).toEqual(['Urgent', 'Newer', 'Older', 'Imported']);
+      expect(
+        sortTasks(tasks, 'oldest-first', false).map((t) => t.description)
+      ).toEqual(['Imported', 'Older', 'Urgent', 'Newer']);
+    });
+
+    it('should sort by position in manual order, unpositioned tasks last', () => {
+      expect(sortTasks(tasks, 'manual').map((t) => t.description)).toEqual([
+        'Newer',
+        'Older',
+        'Urgent',
+        'Imported',
+      ]);
+    });
+  });
+
+  describe('reorderPositions', () => {
+    it('should only reposition the moved task', () => {
+      const tasks = [
+        createTask('a', { position: 'i' }),
+        createTask('b', { position: 'j' }),
+        createTask('c', { position: 'k' }),
+      ];
+
+      const positions = reorderPositions(tasks, 2, 0);
+
+      expect([...positions.keys()]).toEqual([tasks[2]?.id]);
+      expect((positions.get(tasks[2]?.id ?? '') ?? '') < 'i').toBe(true);
+    });
+
+    it('should position the whole list when a task has no position', () => {
+      const tasks = [
+        createTask('a', { position: 'i' }),
+        createTask('b'),
+        createTask('c'),
+      ];
+
+      const positions = reorderPositions(tasks, 0, 2);
+      const order = [...tasks].sort((x, y) =>
+        (positions.get(x.id) ?? '') < (positions.get(y.id) ?? '') ? -1 : 1
+      );
+
+      expect(positions.size).toBe(3);
+      expect(order.map((t) => t.description)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should ignore moves that change nothing', () => {
+      const tasks = [createTask('a', { position: 'i' })];
+      expect(reorderPositions(tasks, 0, 0).size).toBe(0);
+      expect(reorderPositions(tasks, 0, 1).size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { getUrgentDates, sortByPriority } from '../../utils/priority';
+import { parseTodoTxtLine, taskToTodoTxt } from '../../utils/todoTxt';
+import { createTask } from '../fixtures';
+
+describe('Priority', () => {
+  describe('sortByPriority', () => {
+    it('should order by priority, then by creation time', () => {
+      const older = createTask('Older', {
+        priority: 'high',
+        createdAt: '2025-10-13T08:00:00.000Z',
+      });
+      const newer = createTask('Newer', { priority: 'high' });
+      const urgent = createTask('Urgent', { priority: 'urgent' });
+      const none = createTask('None', {
+        createdAt: '2025-10-13T07:00:00.000Z',
+      });
+
+      expect(sortByPriority([none, newer, urgent, older])).toEqual([
+        urgent,
+        older,
+        newer,
+        none,
+      ]);
+    });
+  });
+
+  describe('getUrgentDates', () => {
+    it('should only include dates with pending urgent tasks', () => {
+      const tasks = [
+        createTask('Urgent', { priority: 'urgent' }),
+        createTask('Done', {
+          priority: 'urgent',
+          tags: [],
+          checklist: [],
+          notes: '',
+          date: '2025-10-14',
+          completed: true,
+          completedAt: '2025-10-14T10:00:00.000Z',
+        }),
+        createTask('High', { priority: 'high', date: '2025-10-15' }),
+      ];
+
+      expect(getUrgentDates(tasks)).toEqual(new Set(['2025-10-13']));
+    });
+  });
+
+  describe('todo.txt', () => {
+    it('should map priorities to letters and back', () => {
+      const task = createTask('Call the bank', { priority: 'urgent' });
+      const line = taskToTodoTxt(task);
+
+      expect(line).toBe('(A) 2025-10-13 Call the bank due:2025-10-13');
+      expect(parseTodoTxtLine(line)).toMatchObject({ priority: 'urgent' });
+    });
+
+    it('should keep the priority of completed tasks in a pri tag', () => {
+      const line = taskToTodoTxt(
+        createTask('Pay rent', {
+          priority: 'medium',
+          tags: [],
+          checklist: [],
+          notes: '',
+          completed: true,
+          completedAt: '2025-10-14T10:00:00.000Z',
+        })
+      );
+
+      expect(line).toBe(
+        'x 2025-10-14 2025-10-13 Pay rent due:2025-10-13 pri:C'
+      );
+      expect(parseTodoTxtLine(line)).toMatchObject({
+        description: 'Pay rent',
+        priority: 'medium',
+        tags: [],
+        checklist: [],
+        notes: '',
+      });
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addSavedQuery,
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  getQueryWords,
+  matchesQuery,
+  parseDateValue,
+  parseQuery,
+  updateSavedQuery,
+  type QueryContext,
+} from '../../utils/query';
+import { createSearchIndex } from '../../utils/search';
+import type { Tag, Task } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+const sideProject: Tag = {
+  id: crypto.randomUUID(),
+  name: 'Side project',
+  color: 'green',
+};
+const work: Tag = { id: crypto.randomUUID(), name: 'Work', color: 'blue' };
+const context: QueryContext = {
+  tags: [sideProject, work],
+  today: '2025-01-20',
+  now: new Date('2025-01-20T12:00:00'),
+};
+
+function matches(task: Task, query: string): boolean {
+  const parsed = parseQuery(query);
+  expect(parsed.errors).toEqual([]);
+  return matchesQuery(task, parsed, context);
+}
+
+describe('Filter queries', () => {
+  describe('parseQuery', () => {
+    it('should parse words, phrases, filters and negations', () => {
+      const { terms, errors } = parseQuery(
+        'report "exact phrase" is:pending -tag:"Side project"'
+      );
+
+      expect(errors).toEqual([]);
+      expect(terms.map((term) => term.filter)).toEqual([
+        { kind: 'text', value: 'report' },
+        { kind: 'phrase', value: 'exact phrase' },
+        { kind: 'is', value: 'pending' },
+        { kind: 'tag', value: 'Side project' },
+      ]);
+      expect(terms.map((term) => term.negated)).toEqual([
+        false,
+        false,
+        false,
+        true,
+      ]);
+      expect(terms[3]).toMatchObject({ start: 33, end: 52 });
+    });
+
+    it('should parse date ranges, comparisons and ages', () => {
+      const [range, before, age] = parseQuery(
+        'date:2025-01-01..2025-01-31 completed:<today created:<7d'
+      ).terms.map((term) => term.filter);
+
+      expect(range).toEqual({
+        kind: 'date',
+        field: 'date',
+        from: { base: '2025-01-01', days: 0 },
+        to: { base: '2025-01-31', days: 0 },
+      });
+      expect(before).toEqual({
+        kind: 'date',
+        field: 'completed',
+        to: { base: 'today', days: -1 },
+      });
+      // Less than 7 days old is after 7 days ago
+      expect(age).toEqual({
+        kind: 'date',
+        field: 'created',
+        from: { base: 'today', days: -6 },
+      });
+    });
+
+    it('should report invalid terms with their position and skip them', () => {
+      const { terms, errors } = parseQuery('milk is:done foo:bar priority:');
+
+      expect(terms).toHaveLength(1);
+      expect(errors.map((error) => error.message)).toEqual([
+        'Unknown state "done" for is: use pending, completed, overdue, recurring, carried',
+        expect.stringContaining('Unknown filter "foo:"'),
+        'Missing value after priority:',
+      ]);
+      expect(errors[0]).toMatchObject({ start: 5, end: 12 });
+    });
+
+    it('should report invalid dates, reversed ranges and unclosed quotes', () => {
+      expect(parseQuery('date:2025-02-30').errors[0]?.message).toContain(
+        'Invalid date'
+      );
+      expect(parseQuery('date:2025-01-31..2025-01-01').errors[0]?.message).toBe(
+        'Range 2025-01-31..2025-01-01 starts after it ends'
+      );
+      expect(parseQuery('"open phrase').errors[0]?.message).toBe(
+        'Missing closing quote'
+      );
+    });
+
+    it('should resolve single date values', () => {
+      expect(parseDateValue('Yesterday', '2025-01-20')).toBe('2025-01-19');
+      expect(parseDateValue(' 2w ', '2025-01-20')).toBe('2025-01-06');
+      expect(parseDateValue('2025-01-05', '2025-01-20')).toBe('2025-01-05');
+      expect(parseDateValue('<7d', '2025-01-20')).toBeNull();
+    });
+
+    it('should only pass plain words to the index', () => {
+      expect(
+        getQueryWords(parseQuery('call "the bank" -dentist is:pending'))
+      ).toBe('call the bank');
+    });
+  });
+
+  describe('matchesQuery', () => {
+    it('should match states and details', () => {
+      const overdue = createTask('Pay rent', {
+        date: '2025-01-19',
+        notes: 'Online',
+      });
+      const done = createTask('Buy milk', {
+        completed: true,
+        completedAt: '2025-01-20T08:00:00.000Z',
+      });
+      const due = createTask('Call', { date: '2025-01-20', dueTime: '09:00' });
+
+      expect(matches(overdue, 'is:pending is:overdue has:notes')).toBe(true);
+      expect(matches(done, 'is:overdue')).toBe(false);
+      expect(matches(done, 'is:completed completed:today -has:notes')).toBe(
+        true
+      );
+      expect(matches(due, 'is:overdue')).toBe(true);
+    });
+
+    it('should match dates, ranges and ages', () => {
+      const task = createTask('Plan', {
+        createdAt: '2025-01-14T09:00:00.000Z',
+        date: '2025-01-15',
+      });
+
+      expect(matches(task, 'date:2025-01-01..2025-01-31')).toBe(true);
+      expect(matches(task, 'date:2025-01-16..')).toBe(false);
+      expect(matches(task, 'date:<=2025-01-15')).toBe(true);
+      expect(matches(task, 'created:<7d')).toBe(true);
+      expect(matches(task, 'created:>7d')).toBe(false);
+      expect(matches(task, 'completed:today')).toBe(false);
+    });
+
+    it('should match priorities, tags, phrases and negated words', () => {
+      const task = createTask('Write the quarterly report', {
+        priority: 'high',
+        tags: [sideProject.id],
+        notes: 'Include revenue',
+      });
+
+      expect(matches(task, 'priority:>=medium priority:<urgent')).toBe(true);
+      expect(matches(task, 'priority:high tag:"side project" -tag:work')).toBe(
+        true
+      );
+      expect(matches(task, '"the quarterly" revenue')).toBe(true);
+      expect(matches(task, '"quarterly the"')).toBe(false);
+      expect(matches(task, 'report -revenue')).toBe(false);
+    });
+  });
+
+  describe('search with filters', () => {
+    it('should filter the tasks found by words, or every task without words', () => {
+      const index = createSearchIndex();
+      const pending = createTask('Write report');
+      const done = createTask('Send report', { completed: true });
+      index.sync([pending, done], context.tags);
+
+      const filter = (query: string) => (task: Task) =>
+        matchesQuery(task, parseQuery(query), context);
+      expect(
+        index.search('report', undefined, filter('is:completed')).tasks
+      ).toEqual([done]);
+      expect(index.search('', undefined, filter('is:pending')).tasks).toEqual([
+        pending,
+      ]);
+    });
+  });
+
+  describe('suggestions', () => {
+    it('should suggest filter keys and values for the last term', () => {
+      expect(
+        getQuerySuggestions('milk pr', []).suggestions.map((s) => s.value)
+      ).toEqual(['priority:']);
+
+      const { start, suggestions } = getQuerySuggestions(
+        'milk -tag:s',
+        context.tags
+      );
+      expect(start).toBe(6);
+      expect(suggestions.map((s) => s.value)).toEqual(['tag:"Side project"']);
+      expect(
+        applyQuerySuggestion('milk -tag:s', start, 'tag:"Side project"')
+      ).toBe('milk -tag:"Side project" ');
+      expect(applyQuerySuggestion('milk i', 5, 'is:')).toBe('milk is:');
+    });
+  });
+
+  describe('saved queries', () => {
+    it('should add, rename and pin saved queries', () => {
+      const { queries, savedQuery } = addSavedQuery(
+        [],
+        '  Overdue ',
+        'is:overdue'
+      );
+      expect(savedQuery).toMatchObject({
+        name: 'Overdue',
+        query: 'is:overdue',
+        pinned: false,
+      });
+
+      const updated = updateSavedQuery(queries, savedQuery.id, {
+        pinned: true,
+        name: 'Late',
+      });
+      expect(updated[0]).toMatchObject({ name: 'Late', pinned: true });
+    });
+
+    it('should reject duplicate names and invalid queries', () => {
+      const { queries } = addSavedQuery([], 'Overdue', 'is:overdue');
+
+      expect(() => addSavedQuery(queries, 'overdue', 'is:pending')).toThrow(
+        'A query named "Overdue" already exists'
+      );
+      expect(() => addSavedQuery(queries, 'Done', 'is:done')).toThrow(
+        'Unknown state "done"'
+      );
+      expect(() =>
+        updateSavedQuery(queries, 'missing', { pinned: true })
+      ).toThrow('Saved query not found');
+    });
+  });
+});
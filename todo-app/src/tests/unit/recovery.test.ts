@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  isSalvageable,
+  repairTask,
+  salvageAppData,
+} from '../../utils/recovery';
+import { recoverCorruptedStorage } from '../../utils/storage';
+import { AppDataSchema, CURRENT_SCHEMA_VERSION } from '../../utils/validation';
+
+const validTask = {
+  id: 'a3f2e1c4-5678-40ab-8def-1234567890ab',
+  description: 'Valid task',
+  completed: false,
+  createdAt: '2025-10-10T09:00:00.000Z',
+  completedAt: null,
+  date: '2025-10-10',
+  priority: 'none',
+  tags: [],
+  checklist: [],
+  notes: '',
+};
+
+describe('Storage Recovery', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isSalvageable', () => {
+    it('should require a tasks array', () => {
+      expect(isSalvageable({ tasks: [] })).toBe(true);
+      expect(isSalvageable({ tasks: 'not-an-array' })).toBe(false);
+      expect(isSalvageable(null)).toBe(false);
+    });
+  });
+
+  describe('repairTask', () => {
+    it('should leave valid tasks untouched', () => {
+      const { task, fields } = repairTask(validTask, new Set());
+      expect(task).toEqual(validTask);
+      expect(fields).toEqual([]);
+    });
+
+    it('should fill in a missing completedAt for completed tasks', () => {
+      const { task, fields } = repairTask(
+        { ...validTask, completed: true },
+        new Set()
+      );
+      expect(task).toMatchObject({ completedAt: validTask.createdAt });
+      expect(fields).toEqual(['completedAt']);
+    });
+
+    it('should derive a bad createdAt from the task date', () => {
+      const { task, fields } = repairTask(
+        { ...validTask, createdAt: 'yesterday' },
+        new Set()
+      );
+      expect(task).toMatchObject({ createdAt: '2025-10-10T00:00:00.000Z' });
+      expect(fields).toEqual(['createdAt']);
+    });
+
+    it('should replace duplicate ids', () => {
+      const { task, fields } = repairTask(validTask, new Set([validTask.id]));
+      expect((task as { id: string }).id).not.toBe(validTask.id);
+      expect(fields).toEqual(['id']);
+    });
+
+    it('should keep the valid checklist items', () => {
+      const item = {
+        id: 'b4f3e2d5-6789-41bc-9ef0-234567890abc',
+        text: 'Step',
+        completed: true,
+      };
+      const { task, fields } = repairTask(
+        { ...validTask, checklist: [item, { text: '' }, item] },
+        new Set()
+      );
+      expect(task).toMatchObject({ checklist: [item] });
+      expect(fields).toEqual(['checklist']);
+    });
+
+    it('should drop an invalid due time or reminder', () => {
+      const { task, fields } = repairTask(
+        { ...validTask, dueTime: '25:00', reminderMinutes: 15 },
+        new Set()
+      );
+      expect(task).not.toHaveProperty('dueTime');
+      expect(task).toMatchObject({ reminderMinutes: 15 });
+      expect(fields).toEqual(['dueTime']);
+    });
+  });
+
+  describe('salvageAppData', () => {
+    it('should keep valid tasks, repair recoverable ones and quarantine the rest', () => {
+      const result = salvageAppData({
+        tasks: [
+          validTask,
+          {
+            ...validTask,
+            id: 'b4f3e2d5-6789-41bc-9ef0-234567890abc',
+            completedAt: 'bad',
+          },
+          { ...validTask, id: 'invalid-uuid', description: '' },
+          'injected by an extension',
+        ],
+        preferences: {
+          lastViewedDate: '2025-10-10',
+          sortOrder: 'oldest-first',
+        },
+      });
+
+      expect(result.data.tasks).toHaveLength(2);
+      expect(result.repaired).toHaveLength(1);
+      expect(result.quarantined.map((entry) => entry.index)).toEqual([2, 3]);
+      expect(result.quarantined[0]?.issues.map((issue) => issue.path)).toEqual([
+        'id',
+        'description',
+      ]);
+      expect(result.data.preferences.sortOrder).toBe('oldest-first');
+      expect(result.preferencesReset).toBe(false);
+      expect(AppDataSchema.safeParse(result.data).success).toBe(true);
+    });
+
+    it('should rebuild metadata from the salvaged tasks', () => {
+      const result = salvageAppData({
+        tasks: [
+          validTask,
+          { ...validTask, id: crypto.randomUUID(), date: '2025-09-01' },
+        ],
+      });
+
+      expect(result.data.metadata).toMatchObject({
+        version: CURRENT_SCHEMA_VERSION,
+        totalTaskCount: 2,
+        oldestTaskDate: '2025-09-01',
+        newestTaskDate: '2025-10-10',
+      });
+      expect(result.preferencesReset).toBe(true);
+    });
+
+    it('should remove the ids of tags that could not be salvaged from tasks', () => {
+      const work = { id: crypto.randomUUID(), name: 'Work', color: 'blue' };
+      const lostId = crypto.randomUUID();
+      const result = salvageAppData({
+        tasks: [
+          validTask,
+          { ...validTask, id: crypto.randomUUID(), tags: [work.id, lostId] },
+        ],
+        tags: [work, { id: lostId, name: '', color: 'blue' }],
+      });
+
+      expect(result.data.tags).toEqual([work]);
+      expect(result.data.tasks.map((task) => task.tags)).toEqual([
+        [],
+        [work.id],
+      ]);
+      expect(result.repaired).toEqual([
+        {
+          id: result.data.tasks[1]?.id,
+          description: 'Valid task',
+          fields: ['tags'],
+        },
+      ]);
+    });
+  });
+
+  describe('recoverCorruptedStorage', () => {
+    it('should write salvaged data and keep the original and quarantine', async () => {
+      const corrupted = JSON.stringify({
+        metadata: { version: CURRENT_SCHEMA_VERSION },
+        tasks: [validTask, { description: '' }],
+      });
+      localStorage.setItem('todo-app-data', corrupted);
+
+      const report = await recoverCorruptedStorage();
+
+      expect(report).toMatchObject({ source: 'data', recoveredCount: 1 });
+      expect(report?.quarantined).toHaveLength(1);
+
+      const stored = JSON.parse(localStorage.getItem('todo-app-data')!);
+      expect(AppDataSchema.safeParse(stored).success).toBe(true);
+      expect(localStorage.getItem('todo-app-data-corrupted')).toBe(corrupted);
+      expect(
+        JSON.parse(localStorage.getItem('todo-app-data-quarantine')!)
+      ).toHaveLength(1);
+    });
+
+    it('should fall back to the backup when the data is not valid JSON', async () => {
+      localStorage.setItem('todo-app-data', 'invalid-json{{{');
+      localStorage.setItem(
+        'todo-app-data-backup',
+        JSON.stringify({ tasks: [validTask] })
+      );
+
+      const report = await recoverCorruptedStorage();
+
+      expect(report).toMatchObject({ source: 'backup', recoveredCount: 1 });
+    });
+
+    it('should return null when nothing can be salvaged', async () => {
+      localStorage.setItem('todo-app-data', 'invalid-json{{{');
+
+      expect(await recoverCorruptedStorage()).toBeNull();
+      expect(localStorage.getItem('todo-app-data')).toBe('invalid-json{{{');
+    });
+
+    it('should not overwrite data when no task can be recovered', async () => {
+      const raw = JSON.stringify({ tasks: [{ description: '' }] });
+      localStorage.setItem('todo-app-data', raw);
+
+      expect(await recoverCorruptedStorage()).toBeNull();
+      expect(localStorage.getItem('todo-app-data')).toBe(raw);
+      expect(localStorage.getItem('todo-app-data-quarantine')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRule,
+  getOccurrences,
+  materializeOccurrences,
+  parseSeries,
+  splitSeries,
+  type RecurrenceRule,
+  type RecurringSeries,
+} from '../../utils/recurrence';
+
+function createSeries(
+  rule: RecurrenceRule,
+  overrides: Partial<RecurringSeries> = {}
+): RecurringSeries {
+  return {
+    id: crypto.randomUUID(),
+    description: 'Standup prep',
+    rule,
+    startDate: '2025-10-01', // Wednesday
+    createdAt: '2025-10-01T08:00:00.000Z',
+    exceptions: [],
+    priority: 'none',
+    tags: [],
+    checklist: [],
+    notes: '',
+    ...overrides,
+  };
+}
+
+describe('Recurrence', () => {
+  describe('getOccurrences', () => {
+    it('should repeat every N days', () => {
+      const series = createSeries({ frequency: 'daily', interval: 3 });
+      expect(getOccurrences(series, '2025-10-01', '2025-10-10')).toEqual([
+        '2025-10-01',
+        '2025-10-04',
+        '2025-10-07',
+        '2025-10-10',
+      ]);
+    });
+
+    it('should repeat on weekdays', () => {
+      const series = createSeries({
+        frequency: 'weekly',
+        interval: 1,
+        weekdays: [1, 2, 3, 4, 5],
+      });
+      expect(getOccurrences(series, '2025-10-03', '2025-10-07')).toEqual([
+        '2025-10-03',
+        '2025-10-06',
+        '2025-10-07',
+      ]);
+    });
+
+    it('should repeat every other week on the given days', () => {
+      const series = createSeries({
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: [1, 5],
+      });
+      expect(getOccurrences(series, '2025-10-01', '2025-10-20')).toEqual([
+        '2025-10-03',
+        '2025-10-13',
+        '2025-10-17',
+      ]);
+    });
+
+    it('should repeat monthly by day of month, skipping short months', () => {
+      const series = createSeries({
+        frequency: 'monthly',
+        interval: 1,
+        monthDay: 31,
+      });
+      expect(getOccurrences(series, '2025-10-01', '2026-01-31')).toEqual([
+        '2025-10-31',
+        '2025-12-31',
+        '2026-01-31',
+      ]);
+    });
+
+    it('should repeat monthly on the nth and last weekday', () => {
+      const second = createSeries({
+        frequency: 'monthly',
+        interval: 1,
+        nthWeekday: { n: 2, weekday: 2 },
+      });
+      const last = createSeries({
+        frequency: 'monthly',
+        interval: 1,
+        nthWeekday: { n: -1, weekday: 5 },
+      });
+
+      expect(getOccurrences(second, '2025-10-01', '2025-11-30')).toEqual([
+        '2025-10-14',
+        '2025-11-11',
+      ]);
+      expect(getOccurrences(last, '2025-10-01', '2025-11-30')).toEqual([
+        '2025-10-31',
+        '2025-11-28',
+      ]);
+    });
+
+    it('should end after a count, including deleted occurrences', () => {
+      const series = createSeries(
+        { frequency: 'daily', interval: 1, count: 3 },
+        { exceptions: ['2025-10-02'] }
+      );
+      expect(getOccurrences(series, '2025-10-01', '2025-10-10')).toEqual([
+        '2025-10-01',
+        '2025-10-03',
+      ]);
+    });
+
+    it('should end on the until date', () => {
+      const series = createSeries({
+        frequency: 'daily',
+        interval: 1,
+        until: '2025-10-02',
+      });
+      expect(getOccurrences(series, '2025-10-01', '2025-10-10')).toEqual([
+        '2025-10-01',
+        '2025-10-02',
+      ]);
+    });
+  });
+
+  describe('materializeOccurrences', () => {
+    const series = createSeries({ frequency: 'daily', interval: 1 });
+
+    it('should create a task for each occurrence on the date', () => {
+      const [task] = materializeOccurrences([], [series], '2025-10-05');
+
+      expect(task).toMatchObject({
+        description: 'Standup prep',
+        completed: false,
+        date: '2025-10-05',
+        seriesId: series.id,
+      });
+    });
+
+    it('should not duplicate an occurrence that already exists', () => {
+      const tasks = materializeOccurrences([], [series], '2025-10-05');
+      const completed = tasks.map((task) => ({ ...task, completed: true }));
+
+      expect(materializeOccurrences(completed, [series], '2025-10-05')).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('splitSeries', () => {
+    it('should end the series the day before and continue it with the changes', () => {
+      const series = createSeries(
+        { frequency: 'daily', interval: 1 },
+        { exceptions: ['2025-10-02'] }
+      );
+      const { ended, next } = splitSeries(series, '2025-10-05', {
+        description: 'Standup notes',
+        priority: 'high',
+        tags: [],
+        checklist: [],
+        notes: '',
+        rule: { frequency: 'weekly', interval: 1, weekdays: [1] },
+      });
+
+      expect(ended?.rule.until).toBe('2025-10-04');
+      expect(ended?.exceptions).toEqual(['2025-10-02']);
+      expect(next).toMatchObject({
+        description: 'Standup notes',
+        priority: 'high',
+        startDate: '2025-10-05',
+      });
+      expect(getOccurrences(next, '2025-10-05', '2025-10-13')).toEqual([
+        '2025-10-06',
+        '2025-10-13',
+      ]);
+    });
+
+    it('should keep the total number of occurrences', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'daily',
+        interval: 1,
+        count: 5,
+      };
+      const { next } = splitSeries(createSeries(rule), '2025-10-03', {
+        description: 'Standup prep',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
+        rule,
+      });
+
+      expect(next.rule.count).toBe(3);
+    });
+
+    it('should replace the series when editing from its first occurrence', () => {
+      const series = createSeries({ frequency: 'daily', interval: 1 });
+      expect(
+        splitSeries(series, '2025-10-01', {
+          description: 'New',
+          priority: 'none',
+          tags: [],
+          checklist: [],
+          notes: '',
+          rule: series.rule,
+        }).ended
+      ).toBeNull();
+    });
+  });
+
+  describe('describeRule', () => {
+    it('should describe common rules', () => {
+      expect(
+        describeRule(
+          { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] },
+          '2025-10-01'
+        )
+      ).toBe('Every weekday');
+      expect(
+        describeRule(
+          { frequency: 'daily', interval: 2, count: 5 },
+          '2025-10-01'
+        )
+      ).toBe('Every 2 days, 5 times');
+      expect(
+        describeRule(
+          {
+            frequency: 'monthly',
+            interval: 1,
+            nthWeekday: { n: 2, weekday: 2 },
+          },
+          '2025-10-01'
+        )
+      ).toBe('Monthly on the second Tue');
+    });
+  });
+
+  describe('parseSeries', () => {
+    it('should drop invalid series', () => {
+      const series = createSeries({ frequency: 'daily', interval: 1 });
+      expect(parseSeries([series, { id: 'bad' }])).toEqual([series]);
+      expect(parseSeries(null)).toEqual([]);
+    });
+  });
+});
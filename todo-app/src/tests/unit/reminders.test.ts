@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REMINDER_CHECK_INTERVAL_MS,
+  describeReminder,
+  getDueDate,
+  getDueReminders,
+  getNextReminderTime,
+  getReminderDelay,
+  getReminderTime,
+} from '../../utils/reminders';
+import { TaskSchema, type Task } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+function createDueTask(overrides: Partial<Task> = {}): Task {
+  return createTask('Dentist appointment', {
+    createdAt: '2025-10-13T08:00:00.000Z',
+    dueTime: '09:30',
+    reminderMinutes: 15,
+    ...overrides,
+  });
+}
+
+// Due times are local, so expectations are built in local time too
+const at = (hours: number, minutes: number, day = 13) =>
+  new Date(2025, 9, day, hours, minutes);
+
+describe('Reminders', () => {
+  describe('validation', () => {
+    it('should accept HH:mm due times only', () => {
+      expect(TaskSchema.safeParse(createDueTask()).success).toBe(true);
+      expect(
+        TaskSchema.safeParse(createDueTask({ dueTime: '24:00' })).success
+      ).toBe(false);
+      expect(
+        TaskSchema.safeParse(createDueTask({ dueTime: '9:30' })).success
+      ).toBe(false);
+      expect(
+        TaskSchema.safeParse(createDueTask({ reminderMinutes: -5 })).success
+      ).toBe(false);
+    });
+  });
+
+  describe('getReminderTime', () => {
+    it('should subtract the offset from the local due time', () => {
+      expect(getDueDate(createDueTask())).toEqual(at(9, 30));
+      expect(getReminderTime(createDueTask())).toEqual(at(9, 15));
+      expect(getReminderTime(createDueTask({ reminderMinutes: 1440 }))).toEqual(
+        at(9, 30, 12)
+      );
+    });
+
+    it('should have no reminder without a due time, an offset, or when completed', () => {
+      expect(getReminderTime(createDueTask({ dueTime: undefined }))).toBeNull();
+      expect(
+        getReminderTime(createDueTask({ reminderMinutes: undefined }))
+      ).toBeNull();
+      expect(
+        getReminderTime(
+          createDueTask({
+            completed: true,
+            completedAt: '2025-10-13T07:00:00.000Z',
+          })
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('getDueReminders', () => {
+    it('should return reminders that are due and not yet delivered', () => {
+      const due = createDueTask();
+      const later = createDueTask({ dueTime: '18:00' });
+      const delivered = createDueTask({ remindedAt: at(9, 15).toISOString() });
+
+      expect(getDueReminders([due, later, delivered], at(9, 20))).toEqual([
+        due,
+      ]);
+    });
+
+    it('should fire again when a delivered reminder is moved later', () => {
+      const moved = createDueTask({
+        dueTime: '11:00',
+        remindedAt: at(9, 15).toISOString(),
+      });
+
+      expect(getDueReminders([moved], at(10, 50))).toEqual([moved]);
+    });
+
+    it('should skip reminders missed for too long', () => {
+      const task = createDueTask({ date: '2025-10-12', dueTime: '23:00' });
+
+      expect(getDueReminders([task], at(8, 0))).toEqual([task]);
+      expect(getDueReminders([task], at(23, 0))).toEqual([]);
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should find the next pending reminder', () => {
+      const tasks = [
+        createDueTask({ dueTime: '18:00' }),
+        createDueTask({ dueTime: '10:00' }),
+        createDueTask({ dueTime: '08:00' }),
+      ];
+
+      expect(getNextReminderTime(tasks, at(9, 0))).toEqual(at(9, 45));
+      expect(getNextReminderTime([], at(9, 0))).toBeNull();
+    });
+
+    it('should wait until the next reminder, checking at least hourly', () => {
+      expect(getReminderDelay([createDueTask()], at(9, 0))).toBe(
+        15 * 60 * 1000
+      );
+      expect(
+        getReminderDelay([createDueTask({ dueTime: '23:00' })], at(9, 0))
+      ).toBe(REMINDER_CHECK_INTERVAL_MS);
+      expect(getReminderDelay([], at(9, 0))).toBe(REMINDER_CHECK_INTERVAL_MS);
+    });
+  });
+
+  describe('describeReminder', () => {
+    it('should describe when the task is due', () => {
+      expect(describeReminder(createDueTask(), at(9, 15))).toBe('Due at 09:30');
+      expect(describeReminder(createDueTask(), at(9, 45))).toBe(
+        'Overdue since 09:30'
+      );
+      expect(describeReminder(createDueTask(), at(9, 30, 12))).toBe(
+        'Due tomorrow at 09:30'
+      );
+      expect(describeReminder(createDueTask(), at(9, 30, 10))).toBe(
+        'Due 2025-10-13 at 09:30'
+      );
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReport,
+  escapeCSVField,
+  filterTasksForReport,
+  tasksToCSV,
+  tasksToMarkdown,
+  type ReportFilter,
+} from '../../utils/reportExport';
+import { createTask } from '../fixtures';
+
+const week: ReportFilter = {
+  startDate: '2025-10-13',
+  endDate: '2025-10-19',
+  status: 'all',
+};
+
+describe('Report Export', () => {
+  describe('filterTasksForReport', () => {
+    const monday = createTask('Monday');
+    const done = createTask('Done on Tuesday', {
+      date: '2025-10-14',
+      completed: true,
+      completedAt: '2025-10-14T12:00:00.000Z',
+    });
+    const earlier = createTask('Last week', { date: '2025-10-12' });
+
+    it('should keep tasks inside the date range, ordered by date', () => {
+      expect(filterTasksForReport([done, earlier, monday], week)).toEqual([
+        monday,
+        done,
+      ]);
+    });
+
+    it('should filter by status', () => {
+      const tasks = [monday, done];
+      expect(
+        filterTasksForReport(tasks, { ...week, status: 'pending' })
+      ).toEqual([monday]);
+      expect(
+        filterTasksForReport(tasks, { ...week, status: 'completed' })
+      ).toEqual([done]);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should quote fields following RFC 4180', () => {
+      expect(escapeCSVField('plain')).toBe('plain');
+      expect(escapeCSVField('a, b')).toBe('"a, b"');
+      expect(escapeCSVField('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCSVField('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('should write a header and one row per task', () => {
+      const task = createTask('Call Bob, then "Alice"');
+      const csv = tasksToCSV([task]);
+
+      expect(csv).toBe(
+        'id,description,completed,createdAt,completedAt,date,dueTime,priority,tags,notes\r\n' +
+          `${task.id},"Call Bob, then ""Alice""",false,2025-10-13T09:00:00.000Z,,2025-10-13,` +
+          ',none,,\r\n'
+      );
+    });
+
+    it('should write the priority, tag names, notes and due time', () => {
+      const tags = [
+        { id: 'tag-work', name: 'work', color: 'blue' as const },
+        { id: 'tag-home', name: 'home, garden', color: 'green' as const },
+      ];
+      const task = createTask('Water plants', {
+        priority: 'high',
+        tags: ['tag-home', 'tag-work', 'tag-deleted'],
+        notes: 'Use the\nblue can',
+        dueTime: '18:30',
+      });
+
+      const [, row] = tasksToCSV([task], tags).split('\r\n');
+
+      expect(row).toBe(
+        `${task.id},Water plants,false,2025-10-13T09:00:00.000Z,,2025-10-13,18:30,high,` +
+          '"home, garden; work","Use the\nblue can"'
+      );
+    });
+  });
+
+  describe('Markdown', () => {
+    it('should group a checklist by day', () => {
+      const tasks = [
+        createTask('Plan sprint', {
+          completed: true,
+          completedAt: '2025-10-13T10:00:00.000Z',
+        }),
+        createTask('Review PRs'),
+        createTask('Write\nrelease notes', { date: '2025-10-15' }),
+      ];
+
+      expect(tasksToMarkdown(tasks, week)).toBe(
+        [
+          '# Tasks: Oct 13, 2025 – Oct 19, 2025',
+          '',
+          '## Monday, Oct 13',
+          '',
+          '- [x] Plan sprint',
+          '- [ ] Review PRs',
+          '',
+          '## Wednesday, Oct 15',
+          '',
+          '- [ ] Write release notes',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should note an empty report', () => {
+      expect(createReport([], week, 'markdown')).toContain('_No tasks_');
+    });
+  });
+});
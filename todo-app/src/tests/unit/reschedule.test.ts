@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  copyTaskToDate,
+  getQuickDates,
+  moveTaskToDate,
+} from '../../utils/reschedule';
+import { createTask } from '../fixtures';
+
+describe('Rescheduling tasks', () => {
+  describe('getQuickDates', () => {
+    it('should offer tomorrow, next Monday and next week', () => {
+      // 2025-10-15 is a Wednesday
+      expect(getQuickDates('2025-10-15')).toEqual([
+        { label: 'Tomorrow', date: '2025-10-16' },
+        { label: 'Next Monday', date: '2025-10-20' },
+        { label: 'Next week', date: '2025-10-22' },
+      ]);
+    });
+
+    it('should skip to the following Monday on a Monday', () => {
+      expect(getQuickDates('2025-10-13')[1]?.date).toBe('2025-10-20');
+      expect(getQuickDates('2025-10-19')[1]?.date).toBe('2025-10-20');
+    });
+
+    it('should cross month boundaries', () => {
+      expect(getQuickDates('2025-10-31')[0]?.date).toBe('2025-11-01');
+    });
+  });
+
+  describe('moveTaskToDate', () => {
+    it('should move a task after the tasks already on that date', () => {
+      const existing = createTask('Existing', {
+        date: '2025-10-14',
+        position: 'k',
+      });
+      const task = createTask('Moved', {
+        position: 'z',
+        seriesId: crypto.randomUUID(),
+        originalDate: '2025-10-12',
+        rolloverCount: 1,
+        completed: true,
+        completedAt: '2025-10-13T10:00:00.000Z',
+      });
+
+      const moved = moveTaskToDate(task, '2025-10-14', [existing, task]);
+
+      expect(moved.id).toBe(task.id);
+      expect(moved.date).toBe('2025-10-14');
+      expect((moved.position ?? '') > 'k').toBe(true);
+      expect(moved.seriesId).toBeUndefined();
+      expect(moved.originalDate).toBeUndefined();
+      expect(moved.rolloverCount).toBeUndefined();
+      expect(moved.completed).toBe(true);
+    });
+  });
+
+  describe('copyTaskToDate', () => {
+    it('should create a new pending task', () => {
+      const task = createTask('Original', {
+        completed: true,
+        completedAt: '2025-10-13T10:00:00.000Z',
+        checklist: [{ id: crypto.randomUUID(), text: 'Step', completed: true }],
+        remindedAt: '2025-10-13T08:00:00.000Z',
+      });
+      const now = new Date('2025-10-13T12:00:00.000Z');
+
+      const copy = copyTaskToDate(task, '2025-10-20', [task], now);
+
+      expect(copy.id).not.toBe(task.id);
+      expect(copy.date).toBe('2025-10-20');
+      expect(copy.createdAt).toBe(now.toISOString());
+      expect(copy.completed).toBe(false);
+      expect(copy.completedAt).toBeNull();
+      expect(copy.checklist[0]?.completed).toBe(false);
+      expect(copy.remindedAt).toBeUndefined();
+      expect(copy.description).toBe('Original');
+    });
+  });
+});
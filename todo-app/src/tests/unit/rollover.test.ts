@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { describeRollover, rolloverTasks } from '../../utils/rollover';
+import { createTask } from '../fixtures';
+
+describe('Rollover', () => {
+  const today = '2025-10-14';
+  const pending = createTask('Pending');
+  const done = createTask('Done', {
+    completed: true,
+    completedAt: '2025-10-13T10:00:00.000Z',
+  });
+  const future = createTask('Future', { date: '2025-10-20' });
+  const recurring = createTask('Standup', { seriesId: crypto.randomUUID() });
+
+  describe('rolloverTasks', () => {
+    it('should move pending past tasks to today', () => {
+      const { tasks, carried } = rolloverTasks(
+        [pending, done, future, recurring],
+        today,
+        'move'
+      );
+
+      expect(carried).toEqual([pending]);
+      expect(tasks).toEqual([
+        {
+          ...pending,
+          date: today,
+          originalDate: '2025-10-13',
+          rolloverCount: 1,
+        },
+        done,
+        future,
+        recurring,
+      ]);
+    });
+
+    it('should copy pending past tasks, keeping the originals', () => {
+      const { tasks } = rolloverTasks([pending], today, 'copy');
+
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0]).toEqual(pending);
+      expect(tasks[1]).toMatchObject({
+        description: 'Pending',
+        date: today,
+        originalDate: '2025-10-13',
+        rolloverCount: 1,
+      });
+      expect(tasks[1]?.id).not.toBe(pending.id);
+    });
+
+    it('should keep the first original date and count each carry-over', () => {
+      const carriedBefore = createTask('Old', {
+        originalDate: '2025-10-10',
+        rolloverCount: 3,
+      });
+
+      expect(
+        rolloverTasks([carriedBefore], today, 'move').tasks[0]
+      ).toMatchObject({
+        date: today,
+        originalDate: '2025-10-10',
+        rolloverCount: 4,
+      });
+    });
+
+    it('should skip dates processed by an earlier run', () => {
+      const older = createTask('Older', { date: '2025-10-10' });
+      const { carried } = rolloverTasks(
+        [older, pending],
+        today,
+        'copy',
+        '2025-10-13'
+      );
+
+      expect(carried).toEqual([pending]);
+    });
+
+    it('should be idempotent within a day', () => {
+      const first = rolloverTasks([pending], today, 'copy');
+      const second = rolloverTasks(first.tasks, today, 'copy', today);
+
+      expect(second.carried).toEqual([]);
+      expect(second.tasks).toBe(first.tasks);
+    });
+
+    it('should do nothing when turned off', () => {
+      expect(rolloverTasks([pending], today, 'off').carried).toEqual([]);
+    });
+  });
+
+  describe('describeRollover', () => {
+    it('should mention yesterday when every task is from yesterday', () => {
+      expect(describeRollover([pending, pending, pending], today)).toBe(
+        '3 tasks carried over from yesterday'
+      );
+    });
+
+    it('should mention earlier days otherwise', () => {
+      expect(
+        describeRollover([createTask('Old', { date: '2025-10-01' })], today)
+      ).toBe('1 task carried over from earlier days');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSearchIndex,
+  getMatchedFields,
+  getSnippet,
+  highlightText,
+  normalizeText,
+  tokenize,
+} from '../../utils/search';
+import type { Tag } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+const work: Tag = { id: crypto.randomUUID(), name: 'Work', color: 'blue' };
+
+describe('Task search', () => {
+  describe('tokenize', () => {
+    it('should ignore case and diacritics', () => {
+      expect(normalizeText('Crème Brûlée')).toBe('creme brulee');
+      expect(tokenize('Call Zoë — re: "Café", 2x!')).toEqual([
+        'call',
+        'zoe',
+        're',
+        'cafe',
+        '2x',
+      ]);
+    });
+  });
+
+  describe('search', () => {
+    it('should find tasks by word prefixes in descriptions, notes and tag names', () => {
+      const index = createSearchIndex();
+      const meeting = createTask('Team meeting', { date: '2025-10-10' });
+      const cafe = createTask('Coffee', { notes: 'At the **Café** downtown' });
+      const tagged = createTask('Quarterly report', { tags: [work.id] });
+      index.sync([meeting, cafe, tagged], [work]);
+
+      expect(index.search('meet').tasks).toEqual([meeting]);
+      expect(index.search('CAFE').tasks).toEqual([cafe]);
+      expect(index.search('work').tasks).toEqual([tagged]);
+      expect(index.search('team report').tasks).toEqual([]);
+      expect(index.search('  ').total).toBe(0);
+    });
+
+    it('should list the newest dates first, up to the limit', () => {
+      const index = createSearchIndex();
+      const tasks = ['2025-10-11', '2025-10-13', '2025-10-12'].map((date) =>
+        createTask('Water plants', { date })
+      );
+      index.sync(tasks, []);
+
+      const result = index.search('water', 2);
+
+      expect(result.tasks.map((task) => task.date)).toEqual([
+        '2025-10-13',
+        '2025-10-12',
+      ]);
+      expect(result.total).toBe(3);
+    });
+
+    it('should only follow the tasks and tags that changed', () => {
+      const index = createSearchIndex();
+      const task = createTask('Buy milk', { tags: [work.id] });
+      index.sync([task], [work]);
+      expect(index.search('milk').total).toBe(1);
+
+      const edited = { ...task, description: 'Buy bread' };
+      index.sync([edited], [{ ...work, name: 'Errands' }]);
+      expect(index.search('milk').total).toBe(0);
+      expect(index.search('bread errands').tasks).toEqual([edited]);
+      expect(index.search('work').total).toBe(0);
+
+      index.sync([], []);
+      expect(index.size).toBe(0);
+      expect(index.search('bread').total).toBe(0);
+    });
+
+    it('should search 50,000 tasks within 50 ms', () => {
+      const words = [
+        'call',
+        'email',
+        'review',
+        'plan',
+        'buy',
+        'fix',
+        'write',
+        'read',
+      ];
+      const tasks = Array.from({ length: 50000 }, (_, i) =>
+        createTask(
+          `${words[i % words.length]} item ${i} ${words[(i * 7) % words.length]}`,
+          {
+            date: `2025-${String((i % 12) + 1).padStart(2, '0')}-${String((i % 28) + 1).padStart(2, '0')}`,
+            notes: i % 10 === 0 ? `Notes for task ${i}` : '',
+          }
+        )
+      );
+      const index = createSearchIndex();
+      index.sync(tasks, []);
+
+      // Best of three runs, leaving out garbage collection pauses
+      const time = (query: string) => {
+        const start = performance.now();
+        index.search(query);
+        return performance.now() - start;
+      };
+      for (const query of [
+        'i',
+        'r',
+        'review',
+        'plan item',
+        'notes 4',
+        '12345',
+      ]) {
+        expect(Math.min(time(query), time(query), time(query))).toBeLessThan(
+          50
+        );
+      }
+    });
+  });
+
+  describe('highlightText', () => {
+    it('should mark matching word prefixes in the original text', () => {
+      expect(highlightText('Meet Zoë at the café', 'zoe caf')).toEqual([
+        { text: 'Meet ', match: false },
+        { text: 'Zoë', match: true },
+        { text: ' at the ', match: false },
+        { text: 'caf', match: true },
+        { text: 'é', match: false },
+      ]);
+    });
+
+    it('should keep combining marks with their letter', () => {
+      const text = 'Café run';
+      expect(highlightText(text, 'cafe')[0]).toEqual({
+        text: 'Café',
+        match: true,
+      });
+    });
+  });
+
+  describe('getSnippet', () => {
+    it('should return the notes around the first match', () => {
+      const notes = `${'Intro line. '.repeat(10)}\nThe key detail is here.\n${'More text. '.repeat(10)}`;
+
+      const snippet = getSnippet(notes, 'detail');
+
+      expect(snippet?.[0]).toEqual({ text: '…', match: false });
+      expect(
+        snippet?.some((segment) => segment.match && segment.text === 'detail')
+      ).toBe(true);
+      expect(snippet?.[snippet.length - 1]).toEqual({
+        text: '…',
+        match: false,
+      });
+      expect(getSnippet(notes, 'missing')).toBeNull();
+    });
+  });
+
+  describe('getMatchedFields', () => {
+    it('should tell which fields match', () => {
+      const task = createTask('Report', {
+        notes: 'Send report to Ana',
+        tags: [work.id],
+      });
+      expect(getMatchedFields(task, [work], 'report')).toEqual([
+        'description',
+        'notes',
+      ]);
+      expect(getMatchedFields(task, [work], 'wor')).toEqual(['tags']);
+    });
+  });
+});
@@ -28,12 +28,17 @@ describe('Storage Utility - Atomic Writes', () => {
             createdAt: new Date().toISOString(),
             completedAt: null,
             date: '2025-10-10',
+            priority: 'none',
+            tags: [],
+            checklist: [],
+            notes: '',
           },
         ],
         preferences: {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       const result = await atomicWrite('todo-app-data', testData);
@@ -66,6 +71,7 @@ describe('Storage Utility - Atomic Writes', () => {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       const result = await atomicWrite('todo-app-data', testData);
@@ -91,6 +97,7 @@ describe('Storage Utility - Atomic Writes', () => {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       await atomicWrite('todo-app-data', testData);
@@ -120,6 +127,7 @@ describe('Storage Utility - Atomic Writes', () => {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       localStorage.setItem('todo-app-data', JSON.stringify(validData));
@@ -159,6 +167,7 @@ describe('Storage Utility - Atomic Writes', () => {
         },
         tasks: 'not an array', // should be array
         preferences: {},
+        tags: [],
       };
 
       localStorage.setItem('todo-app-data', JSON.stringify(invalidData));
@@ -209,6 +218,7 @@ describe('Storage Utility - Atomic Writes', () => {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       const result = await atomicWrite('todo-app-data', testData);
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createLocalStorageDriver } from '../../utils/localStorageDriver';
+import {
+  getPreferredDriverName,
+  getStorageDriver,
+  initStorageDriver,
+  switchStorageDriver,
+} from '../../utils/storageDriver';
+
+describe('Storage Drivers', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('localStorage driver', () => {
+    it('should round-trip JSON values', async () => {
+      const driver = createLocalStorageDriver();
+
+      await driver.write('todo-app-data', { tasks: [], answer: 42 });
+
+      expect(await driver.read('todo-app-data')).toEqual({
+        tasks: [],
+        answer: 42,
+      });
+      expect(await driver.readRaw('todo-app-data')).toBe(
+        '{"tasks":[],"answer":42}'
+      );
+      expect(await driver.read('todo-app-data-missing')).toBeNull();
+    });
+
+    it('should only list keys owned by the app', async () => {
+      const driver = createLocalStorageDriver();
+      localStorage.setItem('todo-app-data', '{}');
+      localStorage.setItem('todo-app-data-backup', '{}');
+      localStorage.setItem('todo-app-lock', '{}');
+
+      expect((await driver.keys()).sort()).toEqual([
+        'todo-app-data',
+        'todo-app-data-backup',
+      ]);
+    });
+
+    it('should roll back every write when a transaction fails', async () => {
+      const driver = createLocalStorageDriver();
+      localStorage.setItem('todo-app-data', '"original"');
+
+      await expect(
+        driver.transaction(async (tx) => {
+          await tx.write('todo-app-data', 'changed');
+          await tx.write('todo-app-data-backup', 'created');
+          throw new Error('Boom');
+        })
+      ).rejects.toThrow('Boom');
+
+      expect(localStorage.getItem('todo-app-data')).toBe('"original"');
+      expect(localStorage.getItem('todo-app-data-backup')).toBeNull();
+    });
+
+    it('should throw on unparseable data but still export it raw', async () => {
+      const driver = createLocalStorageDriver();
+      localStorage.setItem('todo-app-data', 'invalid-json{{{');
+
+      await expect(driver.read('todo-app-data')).rejects.toThrow();
+      expect(await driver.readRaw('todo-app-data')).toBe('invalid-json{{{');
+    });
+
+    it('should estimate usage from owned keys', async () => {
+      const driver = createLocalStorageDriver();
+      await driver.write('todo-app-data', { test: 'x'.repeat(1000) });
+
+      const { used, quota } = await driver.estimate();
+      expect(used).toBeGreaterThan(1000);
+      expect(quota).toBeGreaterThan(used);
+    });
+  });
+
+  describe('driver selection', () => {
+    it('should default to localStorage', () => {
+      expect(getStorageDriver().name).toBe('localStorage');
+      expect(getPreferredDriverName()).toBe('localStorage');
+    });
+
+    it('should remove the task store copy older versions kept in localStorage', async () => {
+      localStorage.setItem(
+        'todo-app-tasks',
+        '{"state":{"tasks":[]},"version":0}'
+      );
+
+      await initStorageDriver();
+
+      expect(localStorage.getItem('todo-app-tasks')).toBeNull();
+    });
+
+    it('should ignore an IndexedDB preference when IndexedDB is unavailable', () => {
+      localStorage.setItem('todo-app-driver', 'indexedDB');
+
+      expect(getPreferredDriverName()).toBe('localStorage');
+    });
+
+    it('should refuse to switch to IndexedDB when unavailable', async () => {
+      await expect(switchStorageDriver('indexedDB')).rejects.toThrow(
+        /not available/
+      );
+      expect(getStorageDriver().name).toBe('localStorage');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTag,
+  filterTasksByTags,
+  getNextTagColor,
+  mergeTagRegistries,
+  replaceTagId,
+  updateTag,
+  validateTagName,
+} from '../../utils/tags';
+import { applyImportPlan, planImport } from '../../utils/importData';
+import { createInitialAppData, type Tag } from '../../utils/validation';
+import { createTask } from '../fixtures';
+
+function createTag(name: string, overrides: Partial<Tag> = {}): Tag {
+  return { id: crypto.randomUUID(), name, color: 'blue', ...overrides };
+}
+
+describe('Tags', () => {
+  const work = createTag('Work');
+  const home = createTag('Home', { color: 'green' });
+
+  describe('validateTagName', () => {
+    it('should reject empty, overlong and duplicate names', () => {
+      expect(validateTagName([work], '   ')).toBe('Tag name cannot be empty');
+      expect(validateTagName([work], 'x'.repeat(31))).toMatch(/30 characters/);
+      expect(validateTagName([work], ' work ')).toBe(
+        'A tag named "Work" already exists'
+      );
+      expect(validateTagName([work], 'WORK', work.id)).toBeNull();
+    });
+  });
+
+  describe('addTag', () => {
+    it('should add a tag with a normalized name and an unused color', () => {
+      const { tags, tag } = addTag([work], '  side   project ');
+
+      expect(tag).toMatchObject({ name: 'side project', color: 'gray' });
+      expect(tags).toEqual([work, tag]);
+    });
+
+    it('should throw when the name is taken', () => {
+      expect(() => addTag([work], 'work')).toThrow('already exists');
+    });
+  });
+
+  describe('getNextTagColor', () => {
+    it('should cycle once every color is used', () => {
+      const colors = [
+        'gray',
+        'red',
+        'orange',
+        'amber',
+        'green',
+        'teal',
+        'blue',
+        'purple',
+        'pink',
+      ];
+      const tags = colors.map((color) =>
+        createTag(color, { color: color as Tag['color'] })
+      );
+
+      expect(getNextTagColor(tags)).toBe('gray');
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should rename and recolor a tag', () => {
+      expect(
+        updateTag([work, home], work.id, { name: 'Office', color: 'red' })
+      ).toEqual([{ ...work, name: 'Office', color: 'red' }, home]);
+    });
+
+    it('should not rename a tag to an existing name', () => {
+      expect(() => updateTag([work, home], work.id, { name: 'home' })).toThrow(
+        'already exists'
+      );
+    });
+  });
+
+  describe('replaceTagId', () => {
+    it('should remove a tag from items, leaving other items untouched', () => {
+      const tagged = createTask('Report', { tags: [work.id, home.id] });
+      const untagged = createTask('Groceries');
+      const [updated, unchanged] = replaceTagId([tagged, untagged], work.id);
+
+      expect(updated?.tags).toEqual([home.id]);
+      expect(unchanged).toBe(untagged);
+    });
+
+    it('should replace a tag without duplicating the replacement', () => {
+      const both = createTask('Report', { tags: [work.id, home.id] });
+      const one = createTask('Email', { tags: [work.id] });
+
+      expect(
+        replaceTagId([both, one], work.id, home.id).map((task) => task.tags)
+      ).toEqual([[home.id], [home.id]]);
+    });
+  });
+
+  describe('filterTasksByTags', () => {
+    it('should keep tasks with any of the tags', () => {
+      const report = createTask('Report', { tags: [work.id] });
+      const laundry = createTask('Laundry', { tags: [home.id] });
+      const untagged = createTask('Untagged');
+
+      expect(filterTasksByTags([report, laundry, untagged], [work.id])).toEqual(
+        [report]
+      );
+      expect(filterTasksByTags([report, laundry, untagged], [])).toHaveLength(
+        3
+      );
+    });
+  });
+
+  describe('mergeTagRegistries', () => {
+    it('should add new tags and map same-named ones to the current tag', () => {
+      const importedWork = createTag('work', { color: 'red' });
+      const errands = createTag('Errands');
+      const { tags, idMap } = mergeTagRegistries(
+        [work, home],
+        [importedWork, errands, home]
+      );
+
+      expect(tags).toEqual([work, home, errands]);
+      expect(idMap).toEqual(new Map([[importedWork.id, work.id]]));
+    });
+
+    it('should remap imported tasks to the current tags when merging a backup', () => {
+      const importedWork = createTag('work');
+      const current = { ...createInitialAppData(), tags: [work] };
+      const incoming = {
+        tasks: [createTask('Imported', { tags: [importedWork.id] })],
+        tags: [importedWork],
+      };
+
+      const data = applyImportPlan(
+        current,
+        planImport([], incoming, 'merge-by-id')
+      );
+
+      expect(data.tags).toEqual([work]);
+      expect(data.tasks[0]?.tags).toEqual([work.id]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTodoTxt,
+  parseTodoTxtLine,
+  taskToTodoTxt,
+  tasksToTodoTxt,
+} from '../../utils/todoTxt';
+import { createTask } from '../fixtures';
+
+describe('todo.txt', () => {
+  describe('taskToTodoTxt', () => {
+    it('should write pending tasks with creation and due dates', () => {
+      expect(taskToTodoTxt(createTask('Call Mom +family @phone'))).toBe(
+        '2025-10-13 Call Mom +family @phone due:2025-10-13'
+      );
+    });
+
+    it('should write completed tasks with the completion date first', () => {
+      const task = createTask('File taxes', {
+        completed: true,
+        completedAt: '2025-10-15T18:30:00.000Z',
+      });
+      expect(taskToTodoTxt(task)).toBe(
+        'x 2025-10-15 2025-10-13 File taxes due:2025-10-13'
+      );
+    });
+
+    it('should keep each task on a single line', () => {
+      expect(tasksToTodoTxt([createTask('Two\nlines')])).toBe(
+        '2025-10-13 Two lines due:2025-10-13\n'
+      );
+    });
+  });
+
+  describe('parseTodoTxtLine', () => {
+    it('should read completion, creation and due dates', () => {
+      const task = parseTodoTxtLine(
+        'x 2025-10-15 2025-10-13 File taxes +home due:2025-10-14'
+      );
+
+      expect(task).toMatchObject({
+        description: 'File taxes +home',
+        completed: true,
+        completedAt: '2025-10-15T00:00:00.000Z',
+        createdAt: '2025-10-13T00:00:00.000Z',
+        date: '2025-10-14',
+      });
+    });
+
+    it('should preserve projects, contexts and unknown tags in the description', () => {
+      const task = parseTodoTxtLine(
+        '(A) 2025-10-13 Plan +launch @office due:2025-10-20 t:2025-10-18'
+      );
+
+      expect(task).toMatchObject({
+        description: 'Plan +launch @office t:2025-10-18',
+        completed: false,
+        date: '2025-10-20',
+      });
+    });
+
+    it('should fall back to the creation date without a due date', () => {
+      expect(parseTodoTxtLine('2025-10-13 Water plants')).toMatchObject({
+        date: '2025-10-13',
+      });
+    });
+
+    it('should use the current time without a creation date', () => {
+      const now = new Date('2025-10-16T08:00:00.000Z');
+      expect(parseTodoTxtLine('Water plants', now)).toMatchObject({
+        createdAt: '2025-10-16T08:00:00.000Z',
+        date: '2025-10-16',
+      });
+    });
+  });
+
+  describe('parseTodoTxt', () => {
+    it('should round trip the todo.txt fields', () => {
+      // todo.txt only keeps the dates
+      const createdAt = '2025-10-13T00:00:00.000Z';
+      const tasks = [
+        createTask('Review +docs @work', { createdAt }),
+        createTask('Ship release', {
+          createdAt,
+          completed: true,
+          completedAt: '2025-10-14T00:00:00.000Z',
+        }),
+      ];
+
+      const parsed = parseTodoTxt(tasksToTodoTxt(tasks)).tasks;
+      expect(parsed.map(({ id: _id, ...task }) => task)).toEqual(
+        tasks.map(({ id: _id, ...task }) => task)
+      );
+    });
+
+    it('should skip blank lines and report unusable ones', () => {
+      const { tasks, skipped } = parseTodoTxt('Buy milk\n\nx 2025-10-13\r\n');
+
+      expect(tasks).toHaveLength(1);
+      expect(skipped).toEqual([{ line: 3, reason: 'Missing description' }]);
+    });
+  });
+});
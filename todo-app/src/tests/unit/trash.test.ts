@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createEmptyTrash,
+  groupTrashByDate,
+  moveToTrash,
+  purgeExpiredTasks,
+  toTask,
+} from '../../utils/trash';
+import {
+  atomicWrite,
+  purgeTrash,
+  readTrash,
+  updateTrashRetention,
+} from '../../utils/storage';
+import { createInitialAppData } from '../../utils/validation';
+import { useTaskStore } from '../../stores/taskStore';
+import { createTask } from '../fixtures';
+
+describe('Trash', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const first = createTask('First', { date: '2025-10-10' });
+  const second = createTask('Second', { date: '2025-10-12' });
+
+  describe('moveToTrash', () => {
+    it('should stamp tasks with the deletion time, newest first', () => {
+      const trash = moveToTrash(
+        moveToTrash(
+          createEmptyTrash(),
+          [first],
+          new Date('2025-10-11T00:00:00.000Z')
+        ),
+        [second],
+        new Date('2025-10-13T00:00:00.000Z')
+      );
+
+      expect(trash.tasks).toEqual([
+        { ...second, deletedAt: '2025-10-13T00:00:00.000Z' },
+        { ...first, deletedAt: '2025-10-11T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should restore the original task', () => {
+      const [trashed] = moveToTrash(createEmptyTrash(), [first]).tasks;
+      expect(toTask(trashed!)).toEqual(first);
+    });
+  });
+
+  describe('purgeExpiredTasks', () => {
+    const trash = moveToTrash(
+      createEmptyTrash(),
+      [first],
+      new Date('2025-10-01T00:00:00.000Z')
+    );
+
+    it('should drop tasks older than the retention period', () => {
+      const { trash: purged, purgedCount } = purgeExpiredTasks(
+        trash,
+        new Date('2025-11-01T00:00:00.000Z')
+      );
+
+      expect(purgedCount).toBe(1);
+      expect(purged.tasks).toEqual([]);
+    });
+
+    it('should keep recent tasks', () => {
+      const { purgedCount } = purgeExpiredTasks(
+        trash,
+        new Date('2025-10-20T00:00:00.000Z')
+      );
+      expect(purgedCount).toBe(0);
+    });
+
+    it('should keep tasks forever with a retention of 0 days', () => {
+      const { purgedCount } = purgeExpiredTasks(
+        { ...trash, retentionDays: 0 },
+        new Date('2030-01-01T00:00:00.000Z')
+      );
+      expect(purgedCount).toBe(0);
+    });
+  });
+
+  describe('groupTrashByDate', () => {
+    it('should group by original date, newest date first', () => {
+      const third = createTask('Third', { date: '2025-10-10' });
+      const trash = moveToTrash(createEmptyTrash(), [first, second, third]);
+
+      expect(
+        groupTrashByDate(trash.tasks).map(([date, tasks]) => [
+          date,
+          tasks.length,
+        ])
+      ).toEqual([
+        ['2025-10-12', 1],
+        ['2025-10-10', 2],
+      ]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should store the trash with the data', async () => {
+      const trash = moveToTrash(createEmptyTrash(), [first]);
+      await atomicWrite(createInitialAppData(), { trash });
+
+      expect(await readTrash()).toEqual(trash);
+    });
+
+    it('should purge expired tasks from storage', async () => {
+      const trash = moveToTrash(
+        createEmptyTrash(),
+        [first],
+        new Date('2025-10-01T00:00:00.000Z')
+      );
+      await atomicWrite(createInitialAppData(), { trash });
+
+      const { purgedCount } = await purgeTrash(
+        new Date('2025-12-01T00:00:00.000Z')
+      );
+
+      expect(purgedCount).toBe(1);
+      expect((await readTrash()).tasks).toEqual([]);
+    });
+
+    it('should only hide expired tasks when loading', async () => {
+      const trash = moveToTrash(
+        createEmptyTrash(),
+        [first],
+        new Date('2020-01-01T00:00:00.000Z')
+      );
+      await atomicWrite(createInitialAppData(), { trash });
+
+      await useTaskStore.getState().loadTasks();
+
+      expect(useTaskStore.getState().trash.tasks).toEqual([]);
+      expect(await readTrash()).toEqual(trash);
+    });
+
+    it('should store the retention period', async () => {
+      await updateTrashRetention(7);
+      expect((await readTrash()).retentionDays).toBe(7);
+    });
+  });
+});
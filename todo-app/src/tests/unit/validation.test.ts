@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import {
+  CURRENT_SCHEMA_VERSION,
   TaskSchema,
   UserPreferencesSchema,
   StorageMetadataSchema,
@@ -46,6 +47,10 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: null,
         date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
       };
 
       const result = TaskSchema.safeParse(validTask);
@@ -60,6 +65,10 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: null,
         date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
       };
 
       const result = TaskSchema.safeParse(invalidTask);
@@ -74,6 +83,10 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: null,
         date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
       };
 
       const result = TaskSchema.safeParse(invalidTask);
@@ -88,6 +101,10 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: null,
         date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
       };
 
       const result = TaskSchema.safeParse(invalidTask);
@@ -102,6 +119,46 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: null,
         date: '10/10/2025', // Wrong format
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
+      };
+
+      const result = TaskSchema.safeParse(invalidTask);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject task with unknown priority', () => {
+      const invalidTask = {
+        id: crypto.randomUUID(),
+        description: 'Test task',
+        completed: false,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+        date: '2025-10-10',
+        priority: 'critical',
+        tags: [],
+        checklist: [],
+        notes: '',
+      };
+
+      const result = TaskSchema.safeParse(invalidTask);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject checklist items with duplicate ids', () => {
+      const item = { id: crypto.randomUUID(), text: 'Step', completed: false };
+      const invalidTask = {
+        id: crypto.randomUUID(),
+        description: 'Test task',
+        completed: false,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+        date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [item, { ...item, text: 'Other step' }],
       };
 
       const result = TaskSchema.safeParse(invalidTask);
@@ -116,6 +173,10 @@ describe('Validation Utility', () => {
         createdAt: new Date().toISOString(),
         completedAt: new Date().toISOString(),
         date: '2025-10-10',
+        priority: 'none',
+        tags: [],
+        checklist: [],
+        notes: '',
       };
 
       const result = TaskSchema.safeParse(validTask);
@@ -214,12 +275,17 @@ describe('Validation Utility', () => {
             createdAt: new Date().toISOString(),
             completedAt: null,
             date: '2025-10-10',
+            priority: 'none',
+            tags: [],
+            checklist: [],
+            notes: '',
           },
         ],
         preferences: {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       const result = AppDataSchema.safeParse(validAppData);
@@ -234,6 +300,7 @@ describe('Validation Utility', () => {
         },
         tasks: 'not an array',
         preferences: {},
+        tags: [],
       };
 
       const result = AppDataSchema.safeParse(corruptedData);
@@ -257,12 +324,17 @@ describe('Validation Utility', () => {
             createdAt: new Date().toISOString(),
             completedAt: null,
             date: '2025-10-10',
+            priority: 'none',
+            tags: [],
+            checklist: [],
+            notes: '',
           },
         ],
         preferences: {
           lastViewedDate: '2025-10-10',
           sortOrder: 'newest-first' as const,
         },
+        tags: [],
       };
 
       const result = AppDataSchema.safeParse(invalidAppData);
@@ -274,7 +346,7 @@ describe('Validation Utility', () => {
     it('should create valid initial app data', () => {
       const initialData = createInitialAppData();
 
-      expect(initialData.metadata.version).toBe('1.0.0');
+      expect(initialData.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
       expect(initialData.metadata.totalTaskCount).toBe(0);
       expect(initialData.tasks).toEqual([]);
       expect(initialData.preferences.sortOrder).toBe('newest-first');
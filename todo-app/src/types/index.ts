@@ -2,18 +2,81 @@
  * Type definitions for the Todo application
  */
 
+export type TaskPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+export type TagColor =
+  | 'gray'
+  | 'red'
+  | 'orange'
+  | 'amber'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'purple'
+  | 'pink';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  completed: boolean;
+}
+
 export interface Task {
   id: string;
-  description: string;
+  description: string; // One-line title
+  notes: string; // Markdown
   completed: boolean;
   createdAt: string; // ISO timestamp
   completedAt: string | null; // ISO timestamp
+  updatedAt?: string; // ISO timestamp of the last recorded edit
   date: string; // YYYY-MM-DD
+  priority: TaskPriority;
+  tags: string[]; // Tag ids
+  checklist: ChecklistItem[]; // Ordered sub-items
+  seriesId?: string; // Recurring series this task is an occurrence of
+  originalDate?: string; // YYYY-MM-DD before the task was carried over
+  rolloverCount?: number; // Times the task was carried over
+  dueTime?: string; // HH:mm local time on `date`
+  reminderMinutes?: number; // Remind this many minutes before dueTime
+  remindedAt?: string; // ISO timestamp of the last reminder delivered
+  position?: string; // Fractional index for manual order on `date`
 }
 
+/**
+ * Task fields changed from the edit dialog
+ */
+export type TaskEdits = Pick<
+  Task,
+  | 'description'
+  | 'notes'
+  | 'priority'
+  | 'tags'
+  | 'checklist'
+  | 'dueTime'
+  | 'reminderMinutes'
+>;
+
 export interface UserPreferences {
   lastViewedDate: string; // YYYY-MM-DD
-  sortOrder: 'newest-first' | 'oldest-first';
+  sortOrder: SortOrder;
+  rolloverMode?: 'off' | 'move' | 'copy'; // Carry-over of unfinished tasks
+  lastRolloverDate?: string; // YYYY-MM-DD of the last carry-over run
+  autoCompleteChecklist?: boolean; // Complete a task when its checklist is done
+  savedQueries?: SavedQuery[]; // Saved search filters
+  keymap?: Record<string, string[]>; // Key sequences by command id, see utils/keymap
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string; // Filter query, see utils/query
+  pinned: boolean; // Listed as a view next to the task list
 }
 
 export interface StorageMetadata {
@@ -28,9 +91,10 @@ export interface AppData {
   metadata: StorageMetadata;
   tasks: Task[];
   preferences: UserPreferences;
+  tags: Tag[]; // Tag registry
 }
 
-export type SortOrder = 'newest-first' | 'oldest-first';
+export type SortOrder = 'newest-first' | 'oldest-first' | 'manual';
 
 export interface TaskCounts {
   [date: string]: number; // YYYY-MM-DD -> count
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { AppDataSchema, type Task } from './validation';
+import type { StorageTransaction } from './storageDriver';
+import { SNAPSHOT_INDEX_KEY, SNAPSHOT_KEY_PREFIX } from './storageKeys';
+
+/**
+ * Rolling backup history
+ * Keeps a ring of timestamped snapshots of AppData, taken before writes
+ * whenever the configured interval has elapsed since the latest snapshot
+ */
+
+export const SnapshotIntervalSchema = z.enum([
+  'every-write',
+  'hourly',
+  'daily',
+]);
+
+export type SnapshotInterval = z.infer<typeof SnapshotIntervalSchema>;
+
+export const BackupSettingsSchema = z.object({
+  maxSnapshots: z.number().int().min(1).max(100),
+  interval: SnapshotIntervalSchema,
+});
+
+export type BackupSettings = z.infer<typeof BackupSettingsSchema>;
+
+export const SnapshotInfoSchema = z.object({
+  id: z.string(),
+  createdAt: z.string().datetime(),
+  reason: z.enum(['scheduled', 'before-restore', 'before-import']),
+  version: z.string(),
+  taskCount: z.number().int().nonnegative(),
+  oldestTaskDate: z.string().nullable(),
+  newestTaskDate: z.string().nullable(),
+});
+
+export type SnapshotInfo = z.infer<typeof SnapshotInfoSchema>;
+
+export type SnapshotReason = SnapshotInfo['reason'];
+
+const SnapshotIndexSchema = z.object({
+  settings: BackupSettingsSchema,
+  snapshots: z.array(SnapshotInfoSchema), // Newest first
+});
+
+export type SnapshotIndex = z.infer<typeof SnapshotIndexSchema>;
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  maxSnapshots: 10,
+  interval: 'hourly',
+};
+
+const INTERVAL_MS: Record<SnapshotInterval, number> = {
+  'every-write': 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Get the storage key holding a snapshot
+ */
+export function getSnapshotKey(id: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}-${id}`;
+}
+
+/**
+ * Parse the snapshot index, falling back to an empty index
+ */
+export function parseSnapshotIndex(raw: unknown): SnapshotIndex {
+  const result = SnapshotIndexSchema.safeParse(raw);
+  if (result.success) {
+    return result.data;
+  }
+
+  return { settings: DEFAULT_BACKUP_SETTINGS, snapshots: [] };
+}
+
+/**
+ * Read the snapshot index inside a transaction
+ */
+export async function readSnapshotIndex(
+  tx: StorageTransaction
+): Promise<SnapshotIndex> {
+  const raw = await tx.read(SNAPSHOT_INDEX_KEY).catch(() => null);
+  return parseSnapshotIndex(raw);
+}
+
+/**
+ * Check if a scheduled snapshot is due
+ */
+export function isSnapshotDue(
+  index: SnapshotIndex,
+  now: Date = new Date()
+): boolean {
+  const latest = index.snapshots[0];
+  if (!latest) {
+    return true;
+  }
+
+  const elapsed = now.getTime() - new Date(latest.createdAt).getTime();
+  return elapsed >= INTERVAL_MS[index.settings.interval];
+}
+
+/**
+ * Drop snapshots beyond the configured count
+ * @returns Index with the kept snapshots and the ids that were dropped
+ */
+export function pruneSnapshots(index: SnapshotIndex): {
+  index: SnapshotIndex;
+  removedIds: string[];
+} {
+  const kept = index.snapshots.slice(0, index.settings.maxSnapshots);
+  const removedIds = index.snapshots
+    .slice(kept.length)
+    .map((snapshot) => snapshot.id);
+
+  return { index: { ...index, snapshots: kept }, removedIds };
+}
+
+/**
+ * Write a new index, removing snapshots that fell out of the ring
+ */
+export async function writeSnapshotIndex(
+  tx: StorageTransaction,
+  index: SnapshotIndex
+): Promise<void> {
+  const { index: pruned, removedIds } = pruneSnapshots(index);
+
+  for (const id of removedIds) {
+    await tx.remove(getSnapshotKey(id));
+  }
+
+  await tx.write(SNAPSHOT_INDEX_KEY, pruned);
+}
+
+/**
+ * Remove the oldest snapshot to free space
+ * @returns Whether there was a snapshot to remove
+ */
+export async function removeOldestSnapshot(
+  tx: StorageTransaction
+): Promise<boolean> {
+  const index = await readSnapshotIndex(tx);
+  const oldest = index.snapshots[index.snapshots.length - 1];
+  if (!oldest) {
+    return false;
+  }
+
+  await tx.remove(getSnapshotKey(oldest.id));
+  await tx.write(SNAPSHOT_INDEX_KEY, {
+    ...index,
+    snapshots: index.snapshots.slice(0, -1),
+  });
+  return true;
+}
+
+/**
+ * Snapshot data inside a transaction
+ * Scheduled snapshots are skipped until the interval has elapsed;
+ * invalid data is never snapshotted
+ * @returns Info of the new snapshot, or null if none was taken
+ */
+export async function takeSnapshot(
+  tx: StorageTransaction,
+  data: unknown,
+  reason: SnapshotReason,
+  now: Date = new Date()
+): Promise<SnapshotInfo | null> {
+  const result = AppDataSchema.safeParse(data);
+  if (!result.success) {
+    return null;
+  }
+
+  const index = await readSnapshotIndex(tx);
+  if (reason === 'scheduled' && !isSnapshotDue(index, now)) {
+    return null;
+  }
+
+  const snapshot = result.data;
+  const info: SnapshotInfo = {
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    reason,
+    version: snapshot.metadata.version,
+    taskCount: snapshot.tasks.length,
+    oldestTaskDate: snapshot.metadata.oldestTaskDate,
+    newestTaskDate: snapshot.metadata.newestTaskDate,
+  };
+
+  await tx.write(getSnapshotKey(info.id), snapshot);
+  await writeSnapshotIndex(tx, {
+    ...index,
+    snapshots: [info, ...index.snapshots],
+  });
+
+  return info;
+}
+
+export interface TaskDiff {
+  added: Task[]; // In the target only
+  removed: Task[]; // In the current data only
+  changed: { before: Task; after: Task }[];
+}
+
+/**
+ * Compare the current tasks with a target set (e.g. a snapshot)
+ * Describes what applying the target would change
+ */
+export function diffTasks(current: Task[], target: Task[]): TaskDiff {
+  const currentById = new Map(current.map((task) => [task.id, task]));
+  const targetIds = new Set(target.map((task) => task.id));
+  const diff: TaskDiff = { added: [], removed: [], changed: [] };
+
+  for (const task of target) {
+    const before = currentById.get(task.id);
+    if (!before) {
+      diff.added.push(task);
+    } else if (JSON.stringify(before) !== JSON.stringify(task)) {
+      diff.changed.push({ before, after: task });
+    }
+  }
+
+  diff.removed = current.filter((task) => !targetIds.has(task.id));
+
+  return diff;
+}
@@ -0,0 +1,141 @@
+import { formatDate } from './dateUtils';
+import { PRIORITY_LABELS } from './priority';
+import { moveTaskToDate } from './reschedule';
+import type { Task, TaskPriority } from './validation';
+
+/**
+ * Bulk actions on the selected tasks
+ * Each action is one write and one undoable step; tasks it would not change
+ * are left untouched and not counted.
+ */
+
+export type BulkAction =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'move'; date: string }
+  | { type: 'tag'; tagId: string; remove: boolean }
+  | { type: 'priority'; priority: TaskPriority };
+
+/**
+ * "1 task", "3 tasks"
+ */
+export function countTasks(count: number): string {
+  return `${count} task${count === 1 ? '' : 's'}`;
+}
+
+function applyToTask(
+  task: Task,
+  action: BulkAction,
+  tasks: Task[],
+  now: Date
+): Task {
+  switch (action.type) {
+    case 'complete':
+      return task.completed
+        ? task
+        : { ...task, completed: true, completedAt: now.toISOString() };
+    case 'uncomplete':
+      return task.completed
+        ? { ...task, completed: false, completedAt: null }
+        : task;
+    case 'move':
+      return task.date === action.date
+        ? task
+        : moveTaskToDate(task, action.date, tasks);
+    case 'tag': {
+      const hasTag = task.tags.includes(action.tagId);
+      if (action.remove) {
+        return hasTag
+          ? { ...task, tags: task.tags.filter((id) => id !== action.tagId) }
+          : task;
+      }
+      return hasTag ? task : { ...task, tags: [...task.tags, action.tagId] };
+    }
+    case 'priority':
+      return task.priority === action.priority
+        ? task
+        : { ...task, priority: action.priority };
+  }
+}
+
+/**
+ * Apply an action to the tasks with the given ids
+ * Moved tasks are placed after the target date's tasks, in their current order
+ * @returns The updated tasks and the tasks that changed, as updated
+ */
+export function applyBulkAction(
+  tasks: Task[],
+  ids: Set<string>,
+  action: BulkAction,
+  now: Date = new Date()
+): { tasks: Task[]; changed: Task[] } {
+  const changed: Task[] = [];
+  let updatedTasks = tasks;
+
+  for (const task of tasks) {
+    if (!ids.has(task.id)) {
+      continue;
+    }
+    const updated = applyToTask(task, action, updatedTasks, now);
+    if (updated !== task) {
+      updatedTasks = updatedTasks.map((t) => (t.id === task.id ? updated : t));
+      changed.push(updated);
+    }
+  }
+
+  return { tasks: updatedTasks, changed };
+}
+
+/**
+ * History label and toast message of a bulk action
+ * @param tagName Name of the tag, for tag actions
+ */
+export function describeBulkAction(
+  action: BulkAction,
+  count: number,
+  tagName = 'Tag'
+): { label: string; message: string } {
+  const tasks = countTasks(count);
+
+  switch (action.type) {
+    case 'complete':
+      return { label: 'Complete tasks', message: `${tasks} completed` };
+    case 'uncomplete':
+      return { label: 'Reopen tasks', message: `${tasks} reopened` };
+    case 'move':
+      return {
+        label: 'Move tasks',
+        message: `${tasks} moved to ${formatDate(action.date, 'MMM d')}`,
+      };
+    case 'tag':
+      return action.remove
+        ? { label: 'Untag tasks', message: `${tagName} removed from ${tasks}` }
+        : { label: 'Tag tasks', message: `${tagName} added to ${tasks}` };
+    case 'priority':
+      return {
+        label: 'Set priority',
+        message:
+          action.priority === 'none'
+            ? `Priority cleared on ${tasks}`
+            : `Priority set to ${PRIORITY_LABELS[action.priority]} on ${tasks}`,
+      };
+  }
+}
+
+/**
+ * Ids from one task to another in display order, both included
+ * @returns Just the target id when the anchor is not listed
+ */
+export function getSelectionRange(
+  orderedIds: string[],
+  anchorId: string | null,
+  id: string
+): string[] {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  if (from < 0 || to < 0) {
+    return [id];
+  }
+
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
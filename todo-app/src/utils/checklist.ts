@@ -0,0 +1,98 @@
+import type { ChecklistItem, Task } from './validation';
+
+/**
+ * Task checklists
+ * Each task holds an ordered list of sub-items with their own completed state
+ */
+
+export const MAX_CHECKLIST_ITEMS = 50;
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 200;
+
+/**
+ * Validate checklist item text
+ * @returns Error message if invalid, null if valid
+ */
+export function validateChecklistItemText(text: string): string | null {
+  const trimmed = text.trim();
+
+  if (trimmed.length === 0) {
+    return 'Checklist item cannot be empty';
+  }
+
+  if (trimmed.length > MAX_CHECKLIST_ITEM_LENGTH) {
+    return `Checklist item must be ${MAX_CHECKLIST_ITEM_LENGTH} characters or less`;
+  }
+
+  return null;
+}
+
+export function createChecklistItem(text: string): ChecklistItem {
+  return { id: crypto.randomUUID(), text: text.trim(), completed: false };
+}
+
+/**
+ * Move an item up (-1) or down (+1); moves past either end are ignored
+ */
+export function moveChecklistItem(
+  items: ChecklistItem[],
+  index: number,
+  offset: number
+): ChecklistItem[] {
+  const target = index + offset;
+  const item = items[index];
+  if (!item || target < 0 || target >= items.length) {
+    return items;
+  }
+
+  const moved = items.filter((_, i) => i !== index);
+  moved.splice(target, 0, item);
+  return moved;
+}
+
+export function getChecklistProgress(items: ChecklistItem[]): {
+  done: number;
+  total: number;
+} {
+  return {
+    done: items.filter((item) => item.completed).length,
+    total: items.length,
+  };
+}
+
+/**
+ * Copy a checklist with every item unchecked, e.g. for a new recurring occurrence
+ */
+export function resetChecklist(items: ChecklistItem[]): ChecklistItem[] {
+  return items.map((item) => ({ ...item, completed: false }));
+}
+
+/**
+ * Toggle a checklist item
+ * With autoComplete, checking the last open item completes the task and
+ * unchecking an item of a completed task reopens it
+ */
+export function toggleChecklistItem(
+  task: Task,
+  itemId: string,
+  autoComplete: boolean,
+  now: Date = new Date()
+): Task {
+  const checklist = task.checklist.map((item) =>
+    item.id === itemId ? { ...item, completed: !item.completed } : item
+  );
+  const updated = { ...task, checklist };
+
+  if (!autoComplete) {
+    return updated;
+  }
+
+  const allDone = checklist.every((item) => item.completed);
+  if (allDone && !task.completed) {
+    return { ...updated, completed: true, completedAt: now.toISOString() };
+  }
+  if (!allDone && task.completed) {
+    return { ...updated, completed: false, completedAt: null };
+  }
+  return updated;
+}
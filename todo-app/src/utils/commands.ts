@@ -0,0 +1,154 @@
+/**
+ * Command registry
+ * Every user action is a command with a stable id, so keyboard shortcuts,
+ * the command palette and the header buttons share one definition. Commands
+ * are plain objects built by the app from its current state; disabled ones
+ * are neither bound nor listed. The keymap can rebind them by id.
+ */
+
+export type CommandGroup =
+  | 'Tasks'
+  | 'Navigation'
+  | 'View'
+  | 'Saved queries'
+  | 'Data'
+  | 'General';
+
+export const COMMAND_GROUPS: readonly CommandGroup[] = [
+  'Tasks',
+  'Navigation',
+  'View',
+  'Saved queries',
+  'Data',
+  'General',
+];
+
+/**
+ * Value asked for before running a command, e.g. a date to go to
+ */
+export interface CommandPrompt {
+  placeholder: string;
+  validate: (value: string) => string | null; // Error message, null if valid
+}
+
+export interface Command {
+  id: string; // e.g. 'date.today'
+  title: string;
+  group: CommandGroup;
+  shortcuts?: string[]; // Default key sequences, e.g. 'Ctrl+K' or 'g t', see utils/keymap
+  keywords?: string[]; // Other words the palette matches
+  allowInInput?: boolean; // Shortcut also works while typing
+  disabled?: boolean;
+  hidden?: boolean; // Bound, but not listed in the palette
+  prompt?: CommandPrompt;
+  run: (value?: string) => void; // Gets the prompt's value
+}
+
+export interface CommandMatch {
+  command: Command;
+  score: number;
+  indices: number[]; // Matched characters of the title
+}
+
+/**
+ * Commands that can run, in the palette's order
+ */
+export function getAvailableCommands(commands: Command[]): Command[] {
+  const available = commands.filter(
+    (command) => !command.disabled && !command.hidden
+  );
+  return COMMAND_GROUPS.flatMap((group) =>
+    available.filter((command) => command.group === group)
+  );
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text.charAt(index - 1));
+}
+
+/**
+ * Match a query against a text, its characters in order but not necessarily adjacent
+ * Matches at word starts and runs of adjacent characters score higher
+ * @returns The score and matched indices, or null if the text does not match
+ */
+export function fuzzyMatch(
+  text: string,
+  query: string
+): { score: number; indices: number[] } | null {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  // Start from the query as a whole, at a word start if possible
+  let substring = haystack.indexOf(needle);
+  while (substring >= 0 && !isWordStart(haystack, substring)) {
+    const next = haystack.indexOf(needle, substring + 1);
+    if (next < 0) {
+      break;
+    }
+    substring = next;
+  }
+  if (substring > 0) {
+    from = substring;
+  }
+
+  for (const char of needle) {
+    // Prefer continuing the match, then the next word starting with the
+    // character, then any occurrence
+    const next = haystack.indexOf(char, from);
+    if (next < 0) {
+      return null;
+    }
+    let index = next;
+    if (next !== from) {
+      for (let i = next; i < haystack.length; i++) {
+        if (haystack[i] === char && isWordStart(haystack, i)) {
+          index = i;
+          break;
+        }
+      }
+    }
+
+    const isAdjacent = indices.length > 0 && index === from;
+    score += 1 + (isWordStart(haystack, index) ? 3 : 0) + (isAdjacent ? 4 : 0);
+    indices.push(index);
+    from = index + 1;
+  }
+
+  return { score, indices };
+}
+
+/**
+ * Find the commands matching a query, best first
+ * Titles are matched first; group names and keywords match with a lower score
+ */
+export function searchCommands(
+  commands: Command[],
+  query: string
+): CommandMatch[] {
+  const available = getAvailableCommands(commands);
+  if (!query.trim()) {
+    return available.map((command) => ({ command, score: 0, indices: [] }));
+  }
+
+  const matches: CommandMatch[] = [];
+  for (const command of available) {
+    const title = fuzzyMatch(command.title, query);
+    if (title) {
+      matches.push({ command, ...title });
+      continue;
+    }
+
+    const scores = [command.group, ...(command.keywords ?? [])].flatMap(
+      (text) => fuzzyMatch(text, query)?.score ?? []
+    );
+    if (scores.length > 0) {
+      matches.push({ command, score: Math.max(...scores) / 2, indices: [] });
+    }
+  }
+
+  // Sorting is stable, so ties keep the palette's order
+  return matches.sort((a, b) => b.score - a.score);
+}
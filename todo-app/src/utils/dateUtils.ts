@@ -1,4 +1,8 @@
-import { format, parseISO as dateFnsParseISO, addDays as dateFnsAddDays } from 'date-fns';
+import {
+  format,
+  parseISO as dateFnsParseISO,
+  addDays as dateFnsAddDays,
+} from 'date-fns';
 
 /**
  * Date utilities for consistent date handling across the application
@@ -21,20 +25,44 @@ export function normalizeToUTC(date: Date): string {
  * @param date Date object or ISO string
  * @param formatString date-fns format string
  */
-export function formatDate(
-  date: Date | string,
-  formatString: string
-): string {
+export function formatDate(date: Date | string, formatString: string): string {
   const dateObj = typeof date === 'string' ? parseISO(date) : date;
   return format(dateObj, formatString);
 }
 
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Shift a moment so that its UTC fields read as the local date and time
+ */
+function toLocalClock(date: Date): Date {
+  return new Date(date.getTime() - date.getTimezoneOffset() * MINUTE_MS);
+}
+
 /**
- * Get today's date in YYYY-MM-DD format
+ * Get today's local date in YYYY-MM-DD format
  */
 export function getTodayISO(): string {
-  const now = new Date();
-  return now.toISOString().split('T')[0];
+  return normalizeToUTC(toLocalClock(new Date()));
+}
+
+/**
+ * Get milliseconds until local midnight, when getTodayISO() returns the next day
+ * Days around daylight saving changes are 23 or 25 hours long
+ */
+export function getMsUntilTomorrow(now: Date = new Date()): number {
+  const local = toLocalClock(now);
+  const midnight = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() + 1
+  );
+  // The offset at midnight differs from the current one across a daylight saving change
+  const offset = new Date(
+    midnight + now.getTimezoneOffset() * MINUTE_MS
+  ).getTimezoneOffset();
+
+  return midnight + offset * MINUTE_MS - now.getTime();
 }
 
 /**
@@ -192,6 +220,41 @@ export function getDatesInMonth(dateString: string): string[] {
   return dates;
 }
 
+/**
+ * Get start of the week (Monday) for a given date
+ */
+export function getStartOfWeek(dateString: string): string {
+  const date = new Date(`${dateString}T00:00:00.000Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return normalizeToUTC(date);
+}
+
+/**
+ * Get end of the week (Sunday) for a given date
+ */
+export function getEndOfWeek(dateString: string): string {
+  const date = new Date(`${getStartOfWeek(dateString)}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + 6);
+  return normalizeToUTC(date);
+}
+
+/**
+ * Get array of dates between two dates (inclusive)
+ */
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const current = new Date(`${startDate}T00:00:00.000Z`);
+  const end = new Date(`${endDate}T00:00:00.000Z`);
+
+  const dates: string[] = [];
+  while (current <= end) {
+    dates.push(normalizeToUTC(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
 /**
  * Get day name for a date
  */
@@ -203,7 +266,10 @@ export function getDayName(dateString: string, short: boolean = false): string {
 /**
  * Get month name for a date
  */
-export function getMonthName(dateString: string, short: boolean = false): string {
+export function getMonthName(
+  dateString: string,
+  short: boolean = false
+): string {
   const date = parseISO(dateString);
   return formatDate(date, short ? 'MMM' : 'MMMM');
 }
@@ -0,0 +1,18 @@
+/**
+ * Save text content as a file through a temporary download link
+ */
+export function downloadFile(
+  content: string,
+  fileName: string,
+  type: string
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { StoredTaskSchema, TagSchema, type Task } from './validation';
+import { TrashedTaskSchema } from './trash';
+import { RecurringSeriesSchema } from './recurrence';
+
+/**
+ * Undo/redo history
+ * Each entry stores the task (trash, series, tag) changes a command made; undoing
+ * applies their inverse. The history is persisted next to AppData so it
+ * survives reloads.
+ */
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+function createChangeSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('insert'),
+      task: item,
+      index: z.number().int().nonnegative(),
+    }),
+    z.object({
+      type: z.literal('remove'),
+      task: item,
+      index: z.number().int().nonnegative(),
+    }),
+    z.object({ type: z.literal('update'), before: item, after: item }),
+  ]);
+}
+
+/**
+ * A reversible change to a list of items with ids
+ */
+export type Change<T> =
+  | { type: 'insert'; task: T; index: number }
+  | { type: 'remove'; task: T; index: number }
+  | { type: 'update'; before: T; after: T };
+
+export type TaskChange = Change<Task>;
+
+const HistoryEntrySchema = z.object({
+  id: z.string(),
+  label: z.string(), // e.g. "Delete task"
+  changes: z.array(createChangeSchema(StoredTaskSchema)),
+  trashChanges: z.array(createChangeSchema(TrashedTaskSchema)).default([]),
+  seriesChanges: z.array(createChangeSchema(RecurringSeriesSchema)).default([]),
+  tagChanges: z.array(createChangeSchema(TagSchema)).default([]),
+  createdAt: z.string().datetime(),
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+const TaskHistorySchema = z.object({
+  undo: z.array(HistoryEntrySchema), // Oldest first
+  redo: z.array(HistoryEntrySchema), // Most recently undone last
+});
+
+export type TaskHistory = z.infer<typeof TaskHistorySchema>;
+
+export function createEmptyHistory(): TaskHistory {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Parse a stored history, falling back to an empty one
+ */
+export function parseHistory(raw: unknown): TaskHistory {
+  const result = TaskHistorySchema.safeParse(raw);
+  return result.success ? result.data : createEmptyHistory();
+}
+
+/**
+ * Describe the difference between two task lists as reversible changes
+ * Indexes refer to the list the task appears in (before for removals,
+ * after for insertions)
+ */
+export function getTaskChanges<T extends { id: string }>(
+  before: T[],
+  after: T[]
+): Change<T>[] {
+  const beforeById = new Map(before.map((task) => [task.id, task]));
+  const afterIds = new Set(after.map((task) => task.id));
+  const changes: Change<T>[] = [];
+
+  before.forEach((task, index) => {
+    if (!afterIds.has(task.id)) {
+      changes.push({ type: 'remove', task, index });
+    }
+  });
+
+  after.forEach((task, index) => {
+    const previous = beforeById.get(task.id);
+    if (!previous) {
+      changes.push({ type: 'insert', task, index });
+    } else if (JSON.stringify(previous) !== JSON.stringify(task)) {
+      changes.push({ type: 'update', before: previous, after: task });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Get the changes that revert the given changes
+ */
+export function invertChanges<T>(changes: Change<T>[]): Change<T>[] {
+  return changes.map((change): Change<T> => {
+    switch (change.type) {
+      case 'insert':
+        return { type: 'remove', task: change.task, index: change.index };
+      case 'remove':
+        return { type: 'insert', task: change.task, index: change.index };
+      case 'update':
+        return { type: 'update', before: change.after, after: change.before };
+    }
+  });
+}
+
+/**
+ * Apply changes to a task list
+ * Removals run first, then insertions in index order, then updates.
+ * Changes that no longer apply (e.g. the task is already gone) are skipped.
+ */
+export function applyChanges<T extends { id: string }>(
+  tasks: T[],
+  changes: Change<T>[]
+): T[] {
+  const removedIds = new Set(
+    changes.flatMap((change) =>
+      change.type === 'remove' ? [change.task.id] : []
+    )
+  );
+  const result = tasks.filter((task) => !removedIds.has(task.id));
+
+  const insertions = changes
+    .flatMap((change) => (change.type === 'insert' ? [change] : []))
+    .sort((a, b) => a.index - b.index);
+  for (const { task, index } of insertions) {
+    if (!result.some((existing) => existing.id === task.id)) {
+      result.splice(Math.min(index, result.length), 0, task);
+    }
+  }
+
+  const updates = new Map(
+    changes.flatMap((change): [string, T][] =>
+      change.type === 'update' ? [[change.after.id, change.after]] : []
+    )
+  );
+
+  return result.map((task) => updates.get(task.id) ?? task);
+}
+
+/**
+ * Record a new command; this clears the redo stack
+ */
+export function recordHistoryEntry(
+  history: TaskHistory,
+  label: string,
+  changes: TaskChange[],
+  {
+    trashChanges = [],
+    seriesChanges = [],
+    tagChanges = [],
+  }: Partial<
+    Pick<HistoryEntry, 'trashChanges' | 'seriesChanges' | 'tagChanges'>
+  > = {}
+): TaskHistory {
+  if (
+    changes.length === 0 &&
+    trashChanges.length === 0 &&
+    seriesChanges.length === 0 &&
+    tagChanges.length === 0
+  ) {
+    return history;
+  }
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    label,
+    changes,
+    trashChanges,
+    seriesChanges,
+    tagChanges,
+    createdAt: new Date().toISOString(),
+  };
+
+  return {
+    undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+    redo: [],
+  };
+}
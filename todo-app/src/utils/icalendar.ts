@@ -0,0 +1,609 @@
+import { z } from 'zod';
+import {
+  ChecklistSchema,
+  TagSchema,
+  TaskSchema,
+  type Tag,
+  type Task,
+  type TaskPriority,
+} from './validation';
+import { MAX_NOTES_LENGTH } from './notes';
+import { addTag, findTagByName, validateTagName } from './tags';
+
+/**
+ * iCalendar (RFC 5545) interoperability
+ * Each task maps to a VTODO:
+ * - id → UID, description → SUMMARY, notes → DESCRIPTION
+ * - date → DUE as a DATE value (DTSTART is accepted on import), or as a
+ *   floating DATE-TIME with dueTime
+ * - completed/completedAt → STATUS/COMPLETED
+ * - createdAt → CREATED, updatedAt → LAST-MODIFIED
+ * - priority → PRIORITY (urgent 1, high 3, medium 5, low 9)
+ * - tags → CATEGORIES by name
+ * - reminderMinutes → VALARM triggered before DUE
+ * DATE-TIME values have no milliseconds, so exact timestamps are also kept in
+ * X-DAILY-TODO-* properties, which other apps ignore. So are the checklist,
+ * the series link and the other fields iCalendar has no property for, and the
+ * calendar lists the exported tags with their ids and colors.
+ */
+
+const PRODID = '-//Daily Todo//Daily Todo//EN';
+const MAX_LINE_OCTETS = 75;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const X_CREATED = 'X-DAILY-TODO-CREATED';
+const X_COMPLETED = 'X-DAILY-TODO-COMPLETED';
+const X_UPDATED = 'X-DAILY-TODO-UPDATED';
+const X_CHECKLIST = 'X-DAILY-TODO-CHECKLIST';
+const X_ROLLOVER_COUNT = 'X-DAILY-TODO-ROLLOVER-COUNT';
+const X_TAGS = 'X-DAILY-TODO-TAGS';
+
+// Optional text fields kept as they are
+const X_TEXT_FIELDS = {
+  seriesId: 'X-DAILY-TODO-SERIES',
+  originalDate: 'X-DAILY-TODO-ORIGINAL-DATE',
+  remindedAt: 'X-DAILY-TODO-REMINDED',
+  position: 'X-DAILY-TODO-POSITION',
+} as const;
+
+const ICAL_PRIORITIES: Partial<Record<TaskPriority, number>> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Map an RFC 5545 PRIORITY (1 highest, 9 lowest, 0 undefined) to a level
+ */
+function toPriority(value: string | undefined): TaskPriority {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 9) {
+    return 'none';
+  }
+  if (priority === 1) {
+    return 'urgent';
+  }
+  if (priority <= 4) {
+    return 'high';
+  }
+  return priority === 5 ? 'medium' : 'low';
+}
+
+export interface ICalendarImportResult {
+  tasks: Task[];
+  tags: Tag[]; // Tags the tasks refer to
+  skipped: { uid: string | null; reason: string }[];
+}
+
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+interface VTodo {
+  properties: Map<string, ContentLine>;
+  trigger?: string; // TRIGGER of the first VALARM
+}
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Split a list of TEXT values on the commas that are not escaped
+ */
+function splitTextList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\') {
+      current += char + (value[i + 1] ?? '');
+      i++;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(unescapeText);
+}
+
+/**
+ * Fold a content line to at most 75 octets per line
+ * Never splits a multi-byte character
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Join folded lines back together
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Split a content line into name and value, dropping parameters
+ * The value starts after the first colon outside a quoted parameter
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name = ''] = line.slice(0, colon).split(';');
+
+  return { name: name.toUpperCase(), value: line.slice(colon + 1) };
+}
+
+/**
+ * Format YYYY-MM-DD as a DATE value
+ */
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Format an ISO timestamp as a UTC DATE-TIME value
+ */
+function toICalDateTime(iso: string): string {
+  return new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a DATE or DATE-TIME value to an ISO timestamp
+ * Floating and TZID times are read in local time
+ */
+function parseICalDateTime(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [
+    ,
+    year,
+    month,
+    day,
+    hours = '00',
+    minutes = '00',
+    seconds = '00',
+    utc = '',
+  ] = match;
+  // Without a trailing Z, ISO date-times are read in local time
+  const date = new Date(
+    `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${utc}`
+  );
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse a DATE or DATE-TIME value to YYYY-MM-DD
+ * The calendar date is taken as written, ignoring any time zone
+ */
+function parseICalDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Parse the time of a DATE-TIME value to HH:mm
+ * Taken as written like the date; DATE values have no time
+ */
+function parseICalTime(value: string): string | undefined {
+  const match = /^\d{8}T(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}:${match[2]}` : undefined;
+}
+
+/**
+ * Format minutes before the due time as a TRIGGER duration
+ */
+function toTrigger(minutes: number): string {
+  return minutes === 0 ? 'PT0M' : `-PT${minutes}M`;
+}
+
+/**
+ * Parse a TRIGGER duration to minutes before the due time
+ * Absolute triggers and triggers after the due time are not supported
+ */
+function parseTrigger(value: string): number | undefined {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (!match) {
+    return undefined;
+  }
+
+  const [
+    ,
+    sign = '+',
+    weeks = '0',
+    days = '0',
+    hours = '0',
+    minutes = '0',
+    seconds = '0',
+  ] = match;
+  const total =
+    ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 +
+    Number(minutes) +
+    Math.ceil(Number(seconds) / 60);
+  if (sign === '+' && total > 0) {
+    return undefined;
+  }
+
+  const result = TaskSchema.shape.reminderMinutes.safeParse(total);
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * Serialize tasks as an iCalendar file of VTODOs
+ * @param tags Tag registry, used to write tag names
+ */
+export function tasksToICalendar(
+  tasks: Task[],
+  tags: Tag[] = [],
+  now: Date = new Date()
+): string {
+  const stamp = toICalDateTime(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+
+  const usedTags = tags.filter((tag) =>
+    tasks.some((task) => task.tags.includes(tag.id))
+  );
+  if (usedTags.length > 0) {
+    lines.push(`${X_TAGS}:${escapeText(JSON.stringify(usedTags))}`);
+  }
+
+  for (const task of tasks) {
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${task.id}`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${toICalDateTime(task.createdAt)}`,
+      `${X_CREATED}:${task.createdAt}`,
+      `SUMMARY:${escapeText(task.description)}`,
+      task.dueTime
+        ? `DUE:${toICalDate(task.date)}T${task.dueTime.replace(':', '')}00`
+        : `DUE;VALUE=DATE:${toICalDate(task.date)}`,
+      `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+    );
+    if (task.notes) {
+      lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+    }
+    const priority = ICAL_PRIORITIES[task.priority];
+    if (priority) {
+      lines.push(`PRIORITY:${priority}`);
+    }
+    if (task.completedAt) {
+      lines.push(
+        `COMPLETED:${toICalDateTime(task.completedAt)}`,
+        `${X_COMPLETED}:${task.completedAt}`
+      );
+    }
+    if (task.updatedAt) {
+      lines.push(
+        `LAST-MODIFIED:${toICalDateTime(task.updatedAt)}`,
+        `${X_UPDATED}:${task.updatedAt}`
+      );
+    }
+    const categories = task.tags.flatMap((id) => {
+      const tag = tags.find((candidate) => candidate.id === id);
+      return tag ? [escapeText(tag.name)] : [];
+    });
+    if (categories.length > 0) {
+      lines.push(`CATEGORIES:${categories.join(',')}`);
+    }
+    if (task.checklist.length > 0) {
+      lines.push(
+        `${X_CHECKLIST}:${escapeText(JSON.stringify(task.checklist))}`
+      );
+    }
+    for (const [field, name] of Object.entries(X_TEXT_FIELDS)) {
+      const value = task[field as keyof typeof X_TEXT_FIELDS];
+      if (value) {
+        lines.push(`${name}:${value}`);
+      }
+    }
+    if (task.rolloverCount) {
+      lines.push(`${X_ROLLOVER_COUNT}:${task.rolloverCount}`);
+    }
+    if (task.reminderMinutes !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(task.description)}`,
+        `TRIGGER;RELATED=END:${toTrigger(task.reminderMinutes)}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VTODO');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a JSON property value, or undefined if it is not valid
+ */
+function parseJsonProperty<T>(
+  schema: z.ZodType<T>,
+  value: string | undefined
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    const result = schema.safeParse(JSON.parse(unescapeText(value)));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve CATEGORIES to tag ids, adding the tags to the imported ones
+ * Tags listed by the calendar keep their id and color; other names become new
+ * tags, and names that are not valid tag names are dropped
+ */
+function resolveCategories(
+  names: string[],
+  calendarTags: Tag[],
+  tags: Tag[]
+): string[] {
+  const ids: string[] = [];
+
+  for (const name of names) {
+    let tag = findTagByName(tags, name);
+    if (!tag) {
+      const listed = findTagByName(calendarTags, name);
+      if (listed && !tags.some((existing) => existing.id === listed.id)) {
+        tag = listed;
+        tags.push(tag);
+      } else if (validateTagName(tags, name) === null) {
+        tag = addTag(tags, name).tag;
+        tags.push(tag);
+      }
+    }
+    if (tag && !ids.includes(tag.id)) {
+      ids.push(tag.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Build a task from one VTODO
+ */
+function vtodoToTask(
+  { properties, trigger }: VTodo,
+  usedIds: Set<string>,
+  calendarTags: Tag[],
+  tags: Tag[]
+): Task | string {
+  const property = (name: string) => properties.get(name)?.value;
+
+  const description = unescapeText(property('SUMMARY') ?? '').trim();
+  if (description.length === 0) {
+    return 'Missing summary';
+  }
+
+  const dateValue = property('DUE') ?? property('DTSTART');
+  const date = dateValue ? parseICalDate(dateValue) : null;
+  if (!date) {
+    return 'Missing due date';
+  }
+
+  const uid = property('UID');
+  const id =
+    uid && TaskSchema.shape.id.safeParse(uid).success && !usedIds.has(uid)
+      ? uid
+      : crypto.randomUUID();
+
+  const createdValue = property('CREATED') ?? property('DTSTAMP');
+  const createdAt =
+    property(X_CREATED) ??
+    (createdValue ? parseICalDateTime(createdValue) : null) ??
+    new Date().toISOString();
+
+  const completedValue = property('COMPLETED');
+  const completedAt =
+    property(X_COMPLETED) ??
+    (completedValue ? parseICalDateTime(completedValue) : null);
+  const status = property('STATUS')?.toUpperCase();
+  const completed = status ? status === 'COMPLETED' : completedAt !== null;
+
+  const updatedValue = property('LAST-MODIFIED');
+  const updatedAt =
+    property(X_UPDATED) ??
+    (updatedValue ? parseICalDateTime(updatedValue) : null) ??
+    undefined;
+
+  // Fields other apps cannot have written are dropped when invalid
+  const extraFields: Partial<Task> = {};
+  for (const [field, name] of Object.entries(X_TEXT_FIELDS)) {
+    const key = field as keyof typeof X_TEXT_FIELDS;
+    const value = TaskSchema.shape[key].safeParse(property(name));
+    if (value.success && value.data !== undefined) {
+      extraFields[key] = value.data;
+    }
+  }
+  const rolloverCount = TaskSchema.shape.rolloverCount.safeParse(
+    Number(property(X_ROLLOVER_COUNT))
+  );
+  if (rolloverCount.success) {
+    extraFields.rolloverCount = rolloverCount.data;
+  }
+  const reminderMinutes =
+    trigger !== undefined ? parseTrigger(trigger) : undefined;
+  if (reminderMinutes !== undefined) {
+    extraFields.reminderMinutes = reminderMinutes;
+  }
+
+  const categories = property('CATEGORIES');
+  const result = TaskSchema.safeParse({
+    id,
+    description: description.slice(0, MAX_DESCRIPTION_LENGTH),
+    notes: unescapeText(property('DESCRIPTION') ?? '')
+      .trim()
+      .slice(0, MAX_NOTES_LENGTH),
+    completed,
+    createdAt,
+    completedAt,
+    updatedAt,
+    date,
+    dueTime: dateValue ? parseICalTime(dateValue) : undefined,
+    priority: toPriority(property('PRIORITY')),
+    tags: categories
+      ? resolveCategories(splitTextList(categories), calendarTags, tags)
+      : [],
+    checklist: parseJsonProperty(ChecklistSchema, property(X_CHECKLIST)) ?? [],
+    ...extraFields,
+  });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return `Invalid ${issue?.path.join('.') || 'task'}`;
+  }
+
+  usedIds.add(result.data.id);
+  return result.data;
+}
+
+/**
+ * Parse VTODOs from an iCalendar file
+ * Other components (VEVENT, ...) are ignored; VTODOs that cannot be turned
+ * into tasks are reported as skipped
+ * @throws {Error} If the text is not an iCalendar file
+ */
+export function parseICalendar(text: string): ICalendarImportResult {
+  const lines = unfoldLines(text);
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('File is not an iCalendar file');
+  }
+
+  const todos: VTodo[] = [];
+  const components: string[] = [];
+  let calendarTags: Tag[] = [];
+  let todo: VTodo | null = null;
+
+  for (const line of lines) {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) {
+      continue;
+    }
+
+    const { name, value } = contentLine;
+    const component = components[components.length - 1];
+    if (name === 'BEGIN') {
+      components.push(value.toUpperCase());
+      if (value.toUpperCase() === 'VTODO') {
+        todo = { properties: new Map() };
+      }
+    } else if (name === 'END') {
+      components.pop();
+      if (value.toUpperCase() === 'VTODO' && todo) {
+        todos.push(todo);
+        todo = null;
+      }
+    } else if (todo && component === 'VTODO') {
+      // The first occurrence wins
+      if (!todo.properties.has(name)) {
+        todo.properties.set(name, contentLine);
+      }
+    } else if (todo && component === 'VALARM') {
+      // Only the first alarm becomes the reminder; other nested properties are ignored
+      if (name === 'TRIGGER' && todo.trigger === undefined) {
+        todo.trigger = value;
+      }
+    } else if (component === 'VCALENDAR' && name === X_TAGS) {
+      calendarTags = parseJsonProperty(z.array(TagSchema), value) ?? [];
+    }
+  }
+
+  // Calendar properties may follow the VTODOs, so tags are resolved last
+  const result: ICalendarImportResult = { tasks: [], tags: [], skipped: [] };
+  const usedIds = new Set<string>();
+  for (const vtodo of todos) {
+    const task = vtodoToTask(vtodo, usedIds, calendarTags, result.tags);
+    if (typeof task === 'string') {
+      result.skipped.push({
+        uid: vtodo.properties.get('UID')?.value ?? null,
+        reason: task,
+      });
+    } else {
+      result.tasks.push(task);
+    }
+  }
+
+  return result;
+}
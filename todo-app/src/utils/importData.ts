@@ -0,0 +1,232 @@
+import {
+  AppDataSchema,
+  CURRENT_SCHEMA_VERSION,
+  type AppData,
+  type Tag,
+  type Task,
+} from './validation';
+import { needsMigration, runMigrations } from './migrations';
+import { parseICalendar } from './icalendar';
+import { parseTodoTxt } from './todoTxt';
+import { mergeTagRegistries } from './tags';
+
+/**
+ * JSON import
+ * Parses exported files and plans how they combine with the current data,
+ * so the result can be previewed before anything is written
+ */
+
+export type ImportStrategy = 'replace' | 'merge-by-id' | 'merge-keep-newer';
+
+/**
+ * Tasks read from a file; only JSON carries preferences, and todo.txt carries no tags
+ */
+export interface ImportSource {
+  tasks: Task[];
+  preferences?: AppData['preferences'];
+  tags?: Tag[];
+  skippedCount?: number; // Entries that could not be turned into tasks
+}
+
+export interface ImportConflict {
+  current: Task;
+  incoming: Task;
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  incoming: ImportSource;
+  tasks: Task[]; // Resulting task list
+  added: Task[];
+  updated: Task[]; // Existing tasks overwritten by the file
+  conflicts: ImportConflict[]; // Differing tasks where the current version is kept
+  removed: Task[]; // Only with the replace strategy
+  unchangedCount: number;
+}
+
+/**
+ * Parse and validate an exported file, migrating older versions
+ * Unknown top-level fields (e.g. `exportedAt`) are ignored
+ * @throws {Error} With a user-facing message if the file is unusable
+ */
+export function parseImportFile(text: string): AppData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (needsMigration(parsed)) {
+    try {
+      parsed = runMigrations(parsed).data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'unknown error';
+      throw new Error(`File could not be upgraded: ${message}`);
+    }
+  }
+
+  const result = AppDataSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.join('.') || 'file';
+    throw new Error(
+      `Invalid backup file (${path}: ${issue?.message ?? 'invalid'})`
+    );
+  }
+
+  const ids = new Set<string>();
+  for (const task of result.data.tasks) {
+    if (ids.has(task.id)) {
+      throw new Error(`Invalid backup file (duplicate task id ${task.id})`);
+    }
+    ids.add(task.id);
+  }
+
+  return result.data;
+}
+
+/**
+ * Read a file in any supported format, picked by extension
+ * @throws {Error} With a user-facing message if the file is unusable
+ */
+export function readImportFile(fileName: string, text: string): ImportSource {
+  if (/\.ics$/i.test(fileName)) {
+    const { tasks, tags, skipped } = parseICalendar(text);
+    if (tasks.length === 0) {
+      throw new Error('No tasks found in calendar file');
+    }
+    return { tasks, tags, skippedCount: skipped.length };
+  }
+
+  if (/\.txt$/i.test(fileName)) {
+    const { tasks, skipped } = parseTodoTxt(text);
+    if (tasks.length === 0) {
+      throw new Error('No tasks found in todo.txt file');
+    }
+    return { tasks, skippedCount: skipped.length };
+  }
+
+  return parseImportFile(text);
+}
+
+/**
+ * Latest moment a task is known to have changed
+ * Tasks from other formats carry no edit timestamp, so completion counts as the last change
+ */
+function lastChangedAt(task: Task): string {
+  if (task.updatedAt) {
+    return task.updatedAt;
+  }
+  return task.completedAt && task.completedAt > task.createdAt
+    ? task.completedAt
+    : task.createdAt;
+}
+
+function isSameTask(a: Task, b: Task): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Work out what importing a file with the given strategy would do
+ * - replace: the file becomes the whole dataset
+ * - merge-by-id: file tasks are added, and win over current tasks with the same id
+ * - merge-keep-newer: like merge-by-id, but the current task is kept unless
+ *   the file's version was edited more recently
+ */
+export function planImport(
+  currentTasks: Task[],
+  incoming: ImportSource,
+  strategy: ImportStrategy
+): ImportPlan {
+  const plan: ImportPlan = {
+    strategy,
+    incoming,
+    tasks: [],
+    added: [],
+    updated: [],
+    conflicts: [],
+    removed: [],
+    unchangedCount: 0,
+  };
+
+  const currentById = new Map(currentTasks.map((task) => [task.id, task]));
+  const resolved = new Map<string, Task>();
+
+  for (const task of incoming.tasks) {
+    const current = currentById.get(task.id);
+
+    if (!current) {
+      plan.added.push(task);
+      resolved.set(task.id, task);
+    } else if (isSameTask(current, task)) {
+      plan.unchangedCount++;
+      resolved.set(task.id, current);
+    } else if (
+      strategy === 'merge-keep-newer' &&
+      lastChangedAt(task) <= lastChangedAt(current)
+    ) {
+      plan.conflicts.push({ current, incoming: task });
+      resolved.set(task.id, current);
+    } else {
+      plan.updated.push(task);
+      resolved.set(task.id, task);
+    }
+  }
+
+  if (strategy === 'replace') {
+    plan.removed = currentTasks.filter((task) => !resolved.has(task.id));
+    plan.tasks = incoming.tasks.map((task) => resolved.get(task.id) ?? task);
+  } else {
+    // Keep current order, then append new tasks
+    plan.tasks = [
+      ...currentTasks.map((task) => resolved.get(task.id) ?? task),
+      ...plan.added,
+    ];
+  }
+
+  return plan;
+}
+
+/**
+ * Build the data to write for a plan
+ * Preferences come from the file only when replacing with a JSON backup.
+ * Tags are replaced the same way; otherwise the file's tags are added,
+ * reusing current tags with the same name.
+ */
+export function applyImportPlan(
+  currentData: AppData,
+  plan: ImportPlan
+): AppData {
+  const isReplace = plan.strategy === 'replace';
+  const isBackupReplace = isReplace && plan.incoming.preferences !== undefined;
+  const { tags, idMap } = isBackupReplace
+    ? {
+        tags: plan.incoming.tags ?? currentData.tags,
+        idMap: new Map<string, string>(),
+      }
+    : mergeTagRegistries(currentData.tags, plan.incoming.tags ?? []);
+  const tasks = plan.tasks.map((task) =>
+    task.tags.some((id) => idMap.has(id))
+      ? {
+          ...task,
+          tags: [...new Set(task.tags.map((id) => idMap.get(id) ?? id))],
+        }
+      : task
+  );
+  const dates = tasks.map((task) => task.date).sort();
+
+  return {
+    metadata: {
+      version: CURRENT_SCHEMA_VERSION,
+      lastModified: new Date().toISOString(),
+      totalTaskCount: tasks.length,
+      oldestTaskDate: dates[0] ?? null,
+      newestTaskDate: dates[dates.length - 1] ?? null,
+    },
+    tasks,
+    preferences:
+      (isReplace && plan.incoming.preferences) || currentData.preferences,
+    tags,
+  };
+}
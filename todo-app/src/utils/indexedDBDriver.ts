@@ -0,0 +1,233 @@
+import type { StorageDriver, StorageTransaction } from './storageDriver';
+import { STORAGE_KEY } from './storageKeys';
+
+/**
+ * IndexedDB driver
+ * Tasks of the main document are stored as individual records keyed by id
+ * (with a `date` index); every other key is stored as a single record
+ */
+
+const DB_NAME = 'todo-app';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const RECORDS_STORE = 'records';
+const DATE_INDEX = 'date';
+
+interface TaskRecord {
+  id: string;
+  date: string;
+  order: number; // Position in the tasks array
+  task: unknown;
+}
+
+interface TaskDocument {
+  tasks: { id: string; date: string }[];
+  [field: string]: unknown;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check if IndexedDB can be used in this environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+          tasks.createIndex(DATE_INDEX, 'date', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+          db.createObjectStore(RECORDS_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to retry
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+}
+
+function isTaskDocument(value: unknown): value is TaskDocument {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { tasks?: unknown }).tasks)
+  );
+}
+
+async function readFrom(tx: IDBTransaction, key: string): Promise<unknown> {
+  const record = await promisifyRequest(tx.objectStore(RECORDS_STORE).get(key));
+  if (record === undefined) {
+    return null;
+  }
+
+  if (key !== STORAGE_KEY) {
+    return record;
+  }
+
+  // Reassemble the main document from its task records
+  const taskRecords = await promisifyRequest<TaskRecord[]>(
+    tx.objectStore(TASKS_STORE).getAll()
+  );
+  taskRecords.sort((a, b) => a.order - b.order);
+
+  return {
+    ...(record as object),
+    tasks: taskRecords.map((taskRecord) => taskRecord.task),
+  };
+}
+
+async function writeTo(
+  tx: IDBTransaction,
+  key: string,
+  value: unknown
+): Promise<void> {
+  const records = tx.objectStore(RECORDS_STORE);
+
+  if (key !== STORAGE_KEY || !isTaskDocument(value)) {
+    await promisifyRequest(records.put(value, key));
+    return;
+  }
+
+  const { tasks, ...rest } = value;
+  const taskStore = tx.objectStore(TASKS_STORE);
+  await promisifyRequest(records.put(rest, key));
+
+  // Only touch the records of tasks added, changed, moved or removed
+  const existing = new Map<string, TaskRecord>();
+  for (const taskRecord of await promisifyRequest<TaskRecord[]>(
+    taskStore.getAll()
+  )) {
+    existing.set(taskRecord.id, taskRecord);
+  }
+
+  for (const [order, task] of tasks.entries()) {
+    const previous = existing.get(task.id);
+    existing.delete(task.id);
+    if (
+      previous?.order === order &&
+      JSON.stringify(previous.task) === JSON.stringify(task)
+    ) {
+      continue;
+    }
+    const taskRecord: TaskRecord = {
+      id: task.id,
+      date: task.date,
+      order,
+      task,
+    };
+    await promisifyRequest(taskStore.put(taskRecord));
+  }
+
+  for (const removedId of existing.keys()) {
+    await promisifyRequest(taskStore.delete(removedId));
+  }
+}
+
+async function removeFrom(tx: IDBTransaction, key: string): Promise<void> {
+  await promisifyRequest(tx.objectStore(RECORDS_STORE).delete(key));
+  if (key === STORAGE_KEY) {
+    await promisifyRequest(tx.objectStore(TASKS_STORE).clear());
+  }
+}
+
+export function createIndexedDBDriver(): StorageDriver {
+  // IndexedDB transactions auto-commit once no request is pending, so work
+  // passed in must only await operations on the provided transaction
+  const transaction = async <T>(
+    work: (tx: StorageTransaction) => Promise<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    const tx = db.transaction([TASKS_STORE, RECORDS_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    done.catch(() => undefined); // Surfaced through the await below
+
+    try {
+      const result = await work({
+        read: (key) => readFrom(tx, key),
+        write: (key, value) => writeTo(tx, key, value),
+        // Records hold structured values, so raw text must be JSON
+        writeRaw: (key, raw) => writeTo(tx, key, JSON.parse(raw)),
+        remove: (key) => removeFrom(tx, key),
+      });
+      await done;
+      return result;
+    } catch (error) {
+      try {
+        tx.abort();
+      } catch {
+        // Transaction already finished
+      }
+      throw error;
+    }
+  };
+
+  const read = (key: string) => transaction((tx) => tx.read(key));
+
+  return {
+    name: 'indexedDB',
+
+    read,
+
+    readRaw: async (key) => {
+      const value = await read(key);
+      return value === null ? null : JSON.stringify(value);
+    },
+
+    write: (key, value) => transaction((tx) => tx.write(key, value)),
+
+    writeRaw: (key, raw) => transaction((tx) => tx.writeRaw(key, raw)),
+
+    remove: (key) => transaction((tx) => tx.remove(key)),
+
+    keys: async () => {
+      const db = await openDatabase();
+      const tx = db.transaction(RECORDS_STORE, 'readonly');
+      const keys = await promisifyRequest(
+        tx.objectStore(RECORDS_STORE).getAllKeys()
+      );
+      return keys.filter((key): key is string => typeof key === 'string');
+    },
+
+    transaction,
+
+    estimate: async () => {
+      if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return { used: usage, quota };
+      }
+
+      return { used: 0, quota: 0 };
+    },
+  };
+}
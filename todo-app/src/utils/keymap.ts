@@ -0,0 +1,279 @@
+import type { Command } from './commands';
+
+/**
+ * Keymap
+ * Key sequences are written as strokes separated by spaces, each stroke being
+ * modifiers and a key joined by +: "Ctrl+K", "Ctrl+Shift+Z", "g t", "?".
+ * Ctrl stands for ⌘ on macOS. Keys are KeyboardEvent.key values, with Space
+ * and Plus for " " and "+". Commands have default sequences; the keymap stored
+ * in preferences replaces them per command id.
+ */
+
+export interface KeyStroke {
+  key: string; // KeyboardEvent.key, lowercase for single characters
+  ctrlKey?: boolean; // ⌘ on macOS
+  shiftKey?: boolean;
+  altKey?: boolean;
+}
+
+export type KeySequence = KeyStroke[];
+
+export type Keymap = Record<string, string[]>; // Command id → key sequences
+
+export interface KeyConflict {
+  sequence: string;
+  commandId: string; // Command using the sequence
+}
+
+/**
+ * Pressed keys, as read from a KeyboardEvent
+ */
+export interface KeyPress {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+export const MAX_SEQUENCE_LENGTH = 3;
+export const MAX_KEYS_PER_COMMAND = 4;
+// Time to press the next key of a sequence
+export const SEQUENCE_TIMEOUT_MS = 1000;
+
+const MODIFIER_KEYS = new Set([
+  'Control',
+  'Shift',
+  'Alt',
+  'Meta',
+  'AltGraph',
+  'CapsLock',
+]);
+const KEY_NAMES: Record<string, string> = { ' ': 'Space', '+': 'Plus' };
+const KEY_VALUES: Record<string, string> = { space: ' ', plus: '+' };
+
+export function isMacPlatform(): boolean {
+  return (
+    typeof navigator !== 'undefined' &&
+    /Mac|iPod|iPhone|iPad/.test(navigator.platform)
+  );
+}
+
+export function isModifierKey(key: string): boolean {
+  return MODIFIER_KEYS.has(key);
+}
+
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+// Shift only counts for letters and named keys; for symbols such as ? it is
+// part of the character typed, which depends on the keyboard layout
+function isShiftSignificant(key: string): boolean {
+  return key.length > 1 || key.toLowerCase() !== key.toUpperCase();
+}
+
+/**
+ * Parse a key sequence
+ * @returns null if the text is not a valid sequence
+ */
+export function parseKeySequence(text: string): KeySequence | null {
+  const strokes = text.trim().split(/\s+/);
+  if (!strokes[0] || strokes.length > MAX_SEQUENCE_LENGTH) {
+    return null;
+  }
+
+  const sequence: KeySequence = [];
+  for (const stroke of strokes) {
+    const parts = stroke.split('+');
+    const keyName = parts.pop() ?? '';
+    const key = KEY_VALUES[keyName.toLowerCase()] ?? keyName;
+    const modifiers = parts.map((part) => part.toLowerCase());
+    if (
+      !key ||
+      isModifierKey(key) ||
+      modifiers.some((modifier) => !['ctrl', 'shift', 'alt'].includes(modifier))
+    ) {
+      return null;
+    }
+
+    sequence.push({
+      key: normalizeKey(key),
+      ctrlKey: modifiers.includes('ctrl') || undefined,
+      shiftKey:
+        (modifiers.includes('shift') && isShiftSignificant(key)) || undefined,
+      altKey: modifiers.includes('alt') || undefined,
+    });
+  }
+  return sequence;
+}
+
+/**
+ * Write a key sequence in keymap notation
+ */
+export function formatKeySequence(sequence: KeySequence): string {
+  return sequence
+    .map((stroke) =>
+      [
+        stroke.ctrlKey && 'Ctrl',
+        stroke.shiftKey && 'Shift',
+        stroke.altKey && 'Alt',
+        KEY_NAMES[stroke.key] ?? stroke.key,
+      ]
+        .filter(Boolean)
+        .join('+')
+    )
+    .join(' ');
+}
+
+/**
+ * Normalize a key sequence, e.g. "shift+ctrl+Z" to "Ctrl+Shift+z"
+ * @returns null if the text is not a valid sequence
+ */
+export function normalizeKeySequence(text: string): string | null {
+  const sequence = parseKeySequence(text);
+  return sequence ? formatKeySequence(sequence) : null;
+}
+
+/**
+ * Read the stroke of a key press, for recording a sequence
+ * @returns null for a modifier pressed alone, or with the modifier that
+ * cannot be bound (Ctrl on macOS, the Windows key elsewhere)
+ */
+export function getKeyStroke(
+  press: KeyPress,
+  isMac: boolean = isMacPlatform()
+): KeyStroke | null {
+  if (isModifierKey(press.key) || (isMac ? press.ctrlKey : press.metaKey)) {
+    return null;
+  }
+  return {
+    key: normalizeKey(press.key),
+    ctrlKey: (isMac ? press.metaKey : press.ctrlKey) || undefined,
+    shiftKey: (press.shiftKey && isShiftSignificant(press.key)) || undefined,
+    altKey: press.altKey || undefined,
+  };
+}
+
+/**
+ * Check whether a key press is a stroke, ignoring the case of letters
+ */
+export function matchesKeyStroke(
+  press: KeyPress,
+  stroke: KeyStroke,
+  isMac: boolean = isMacPlatform()
+): boolean {
+  const pressed = getKeyStroke(press, isMac);
+  return (
+    pressed !== null &&
+    pressed.key === stroke.key &&
+    !!pressed.ctrlKey === !!stroke.ctrlKey &&
+    !!pressed.shiftKey === !!stroke.shiftKey &&
+    !!pressed.altKey === !!stroke.altKey
+  );
+}
+
+/**
+ * Match the keys pressed so far against sequences
+ * @returns 'complete' with the index of the sequence pressed, 'partial' if
+ * more keys may complete one, or 'none'
+ */
+export function matchKeySequence(
+  presses: KeyPress[],
+  sequences: KeySequence[],
+  isMac: boolean = isMacPlatform()
+): { status: 'complete'; index: number } | { status: 'partial' | 'none' } {
+  let isPartial = false;
+  for (const [index, sequence] of sequences.entries()) {
+    if (
+      sequence.length < presses.length ||
+      !presses.every((press, i) => {
+        const stroke = sequence[i];
+        return stroke !== undefined && matchesKeyStroke(press, stroke, isMac);
+      })
+    ) {
+      continue;
+    }
+    if (sequence.length === presses.length) {
+      return { status: 'complete', index };
+    }
+    isPartial = true;
+  }
+  return { status: isPartial ? 'partial' : 'none' };
+}
+
+/**
+ * Key sequences of a command: the keymap's, or its defaults
+ * Invalid sequences are left out
+ */
+export function getCommandKeys(command: Command, keymap: Keymap): string[] {
+  const sequences = keymap[command.id] ?? command.shortcuts ?? [];
+  return sequences.flatMap((sequence) => normalizeKeySequence(sequence) ?? []);
+}
+
+/**
+ * Find the commands a sequence would conflict with
+ * Two sequences conflict when they are the same, or when one starts the other,
+ * since the longer one could then never be pressed
+ */
+export function findKeyConflicts(
+  commands: Command[],
+  keymap: Keymap,
+  sequence: string,
+  exceptCommandId?: string
+): KeyConflict[] {
+  const normalized = normalizeKeySequence(sequence);
+  if (!normalized) {
+    return [];
+  }
+  const startsWith = (long: string, short: string) =>
+    long === short || long.startsWith(`${short} `);
+
+  return commands.flatMap((command) =>
+    command.id === exceptCommandId
+      ? []
+      : getCommandKeys(command, keymap)
+          .filter(
+            (keys) =>
+              startsWith(keys, normalized) || startsWith(normalized, keys)
+          )
+          .map((keys) => ({ sequence: keys, commandId: command.id }))
+  );
+}
+
+/**
+ * Set the key sequences of a command
+ * The keymap only keeps sequences that differ from the command's defaults
+ * @param keys null to restore the defaults
+ * @throws {Error} If a sequence is invalid or there are too many
+ */
+export function setCommandKeys(
+  keymap: Keymap,
+  command: Command,
+  keys: string[] | null
+): Keymap {
+  const updated = { ...keymap };
+  delete updated[command.id];
+  if (keys === null) {
+    return updated;
+  }
+
+  const normalized = keys.map((sequence) => {
+    const result = normalizeKeySequence(sequence);
+    if (!result) {
+      throw new Error(`Invalid key sequence "${sequence}"`);
+    }
+    return result;
+  });
+  const unique = [...new Set(normalized)];
+  if (unique.length > MAX_KEYS_PER_COMMAND) {
+    throw new Error(
+      `A command can have at most ${MAX_KEYS_PER_COMMAND} key sequences`
+    );
+  }
+
+  if (unique.join('\n') !== getCommandKeys(command, {}).join('\n')) {
+    updated[command.id] = unique;
+  }
+  return updated;
+}
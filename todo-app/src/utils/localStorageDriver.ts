@@ -0,0 +1,130 @@
+import type { StorageDriver, StorageTransaction } from './storageDriver';
+import { STORAGE_KEY } from './storageKeys';
+
+/**
+ * localStorage driver
+ * Stores each key as a JSON string, synchronous under an async interface
+ */
+
+// Most browsers allow 5-10 MB per origin
+const DEFAULT_QUOTA = 10 * 1024 * 1024;
+
+function readKey(key: string): unknown {
+  const raw = localStorage.getItem(key);
+  if (raw === null) {
+    return null;
+  }
+
+  return JSON.parse(raw);
+}
+
+/**
+ * Write and verify a key
+ * @throws {DOMException} If quota exceeded
+ */
+function writeKey(key: string, value: unknown): void {
+  writeRawKey(key, JSON.stringify(value));
+}
+
+/**
+ * Write and verify a serialized value
+ * @throws {DOMException} If quota exceeded
+ */
+function writeRawKey(key: string, raw: string): void {
+  localStorage.setItem(key, raw);
+
+  if (localStorage.getItem(key) !== raw) {
+    throw new Error('Write verification failed');
+  }
+}
+
+function listKeys(): string[] {
+  const keys: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null && key.startsWith(STORAGE_KEY)) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+}
+
+export function createLocalStorageDriver(): StorageDriver {
+  return {
+    name: 'localStorage',
+
+    read: async (key) => readKey(key),
+
+    readRaw: async (key) => localStorage.getItem(key),
+
+    write: async (key, value) => {
+      writeKey(key, value);
+    },
+
+    writeRaw: async (key, raw) => {
+      writeRawKey(key, raw);
+    },
+
+    remove: async (key) => {
+      localStorage.removeItem(key);
+    },
+
+    keys: async () => listKeys(),
+
+    transaction: async (work) => {
+      // Remember the original value of every key before its first change
+      const originals = new Map<string, string | null>();
+      const remember = (key: string) => {
+        if (!originals.has(key)) {
+          originals.set(key, localStorage.getItem(key));
+        }
+      };
+
+      const tx: StorageTransaction = {
+        read: async (key) => readKey(key),
+        write: async (key, value) => {
+          remember(key);
+          writeKey(key, value);
+        },
+        writeRaw: async (key, raw) => {
+          remember(key);
+          writeRawKey(key, raw);
+        },
+        remove: async (key) => {
+          remember(key);
+          localStorage.removeItem(key);
+        },
+      };
+
+      try {
+        return await work(tx);
+      } catch (error) {
+        // Rollback in reverse order of modification
+        for (const [key, original] of [...originals].reverse()) {
+          try {
+            if (original === null) {
+              localStorage.removeItem(key);
+            } else {
+              localStorage.setItem(key, original);
+            }
+          } catch (rollbackError) {
+            console.error(`Rollback failed for ${key}:`, rollbackError);
+          }
+        }
+
+        throw error;
+      }
+    },
+
+    estimate: async () => {
+      const used = listKeys().reduce((total, key) => {
+        const raw = localStorage.getItem(key);
+        return total + (raw ? new Blob([raw]).size : 0);
+      }, 0);
+
+      return { used, quota: DEFAULT_QUOTA };
+    },
+  };
+}
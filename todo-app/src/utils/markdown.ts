@@ -0,0 +1,238 @@
+/**
+ * Markdown subset for task notes
+ * Parses into a small syntax tree that components render as React elements,
+ * so raw HTML in notes is shown as text and never injected.
+ *
+ * Blocks: headings, paragraphs, bullet and numbered lists, block quotes,
+ * fenced code and horizontal rules.
+ * Inline: `code`, **bold**, *italic*, ~~strikethrough~~, [links](https://…)
+ * and bare http(s) URLs.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'blockquote'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Check that a link target is an absolute http(s) or mailto URL
+ * @returns The URL, or null for anything else (javascript:, data:, relative paths)
+ */
+export function sanitizeUrl(url: string): string | null {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(url).protocol) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a link, or keep only its label if the URL is unsafe
+ * @param children Parsed label; bare URLs pass their text as is
+ */
+function link(href: string, label: string, children: InlineNode[]): InlineNode {
+  const safeHref = sanitizeUrl(href);
+  return safeHref
+    ? { type: 'link', href: safeHref, children }
+    : { type: 'text', text: label };
+}
+
+interface InlineRule {
+  pattern: RegExp;
+  wordStart?: boolean; // Only match at the start of a word, e.g. not inside snake_case
+  build: (match: RegExpExecArray) => InlineNode;
+}
+
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /^`([^`]+)`/, build: (m) => ({ type: 'code', text: m[1] ?? '' }) },
+  {
+    pattern: /^\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: (m) => link(m[2] ?? '', m[1] ?? '', parseInline(m[1] ?? '')),
+  },
+  {
+    pattern: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/,
+    wordStart: true,
+    build: (m) => ({ type: 'strong', children: parseInline(m[2] ?? '') }),
+  },
+  {
+    pattern: /^~~(?=\S)([\s\S]*?\S)~~/,
+    build: (m) => ({ type: 'strike', children: parseInline(m[1] ?? '') }),
+  },
+  {
+    pattern: /^(\*|_)(?=\S)([\s\S]*?\S)\1(?!\1)/,
+    wordStart: true,
+    build: (m) => ({ type: 'emphasis', children: parseInline(m[2] ?? '') }),
+  },
+  {
+    pattern: /^https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/,
+    wordStart: true,
+    build: (m) => link(m[0], m[0], [{ type: 'text', text: m[0] }]),
+  },
+];
+
+/**
+ * Parse inline formatting
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const isWordStart = i === 0 || !/\w/.test(text.charAt(i - 1));
+    let matched = false;
+
+    for (const rule of INLINE_RULES) {
+      if (rule.wordStart && !isWordStart) {
+        continue;
+      }
+
+      const match = rule.pattern.exec(rest);
+      if (match) {
+        if (plain) {
+          nodes.push({ type: 'text', text: plain });
+          plain = '';
+        }
+        nodes.push(rule.build(match));
+        i += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      plain += text.charAt(i);
+      i += 1;
+    }
+  }
+
+  if (plain) {
+    nodes.push({ type: 'text', text: plain });
+  }
+
+  return nodes;
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*```/;
+
+/**
+ * Parse notes into blocks
+ * Lines of a paragraph or quote keep their line breaks
+ */
+export function parseMarkdown(source: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join('\n')),
+      });
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      blocks.push({
+        type: 'blockquote',
+        children: parseInline(quote.join('\n')),
+      });
+      quote = [];
+    }
+    if (list) {
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        items: list.items.map(parseInline),
+      });
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE.test(lines[i] ?? '')) {
+        code.push(lines[i] ?? '');
+        i += 1;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: heading[1]?.length ?? 1,
+        children: parseInline(heading[2] ?? ''),
+      });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const bullet = BULLET_ITEM.exec(line);
+    const numbered = bullet ? null : NUMBERED_ITEM.exec(line);
+    const item = bullet ?? numbered;
+    if (item) {
+      const ordered = numbered !== null;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[1] ?? '');
+      continue;
+    }
+
+    const quoteLine = QUOTE.exec(line);
+    if (quoteLine) {
+      if (quote.length === 0) {
+        flush();
+      }
+      quote.push(quoteLine[1] ?? '');
+      continue;
+    }
+
+    if (paragraph.length === 0) {
+      flush();
+    }
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,352 @@
+import { z } from 'zod';
+import { AppDataSchema, CURRENT_SCHEMA_VERSION } from './validation';
+import { getTodayISO } from './dateUtils';
+
+/**
+ * Schema migration pipeline
+ * Upgrades stored data one version at a time until it reaches
+ * CURRENT_SCHEMA_VERSION, validating the result of every step
+ */
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+export interface MigrationStep {
+  from: string;
+  to: string;
+  description: string;
+}
+
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: MigrationStep[];
+  backupKey: string;
+  migratedAt: string; // ISO timestamp
+}
+
+/**
+ * Task as stored up to schema version 1.0.0 (no priority)
+ */
+const TaskV1Schema = z.object({
+  id: z.string().uuid(),
+  description: z.string().min(1).max(500),
+  completed: z.boolean(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+/**
+ * Legacy format with a numeric top-level version (see docs/STORAGE_API.md)
+ */
+const LegacyAppDataV1Schema = z.object({
+  version: z.literal(1),
+  tasks: z.array(TaskV1Schema),
+  metadata: z.object({
+    createdAt: z.string().datetime(),
+    lastModified: z.string().datetime(),
+    totalTasks: z.number().int().nonnegative(),
+  }),
+});
+
+/**
+ * Schema each version must satisfy
+ * Older entries are frozen copies; only the current version uses AppDataSchema
+ */
+const AppDataV1_0_0Schema = z.object({
+  metadata: z.object({
+    version: z.literal('1.0.0'),
+    lastModified: z.string().datetime(),
+    totalTaskCount: z.number().int().nonnegative(),
+    oldestTaskDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .nullable(),
+    newestTaskDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .nullable(),
+  }),
+  tasks: z.array(TaskV1Schema),
+  preferences: z.object({
+    lastViewedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    sortOrder: z.enum(['newest-first', 'oldest-first']),
+  }),
+});
+
+const AppDataV1_1_0Schema = AppDataV1_0_0Schema.extend({
+  metadata: AppDataV1_0_0Schema.shape.metadata.extend({
+    version: z.literal('1.1.0'),
+  }),
+  tasks: z.array(
+    TaskV1Schema.extend({
+      priority: z.enum(['none', 'low', 'medium', 'high', 'urgent']),
+    })
+  ),
+});
+
+const AppDataV1_2_0Schema = AppDataV1_1_0Schema.extend({
+  metadata: AppDataV1_0_0Schema.shape.metadata.extend({
+    version: z.literal('1.2.0'),
+  }),
+  tasks: z.array(
+    AppDataV1_1_0Schema.shape.tasks.element.extend({
+      tags: z.array(z.string().uuid()),
+    })
+  ),
+  tags: z.array(
+    z.object({
+      id: z.string().uuid(),
+      name: z.string().min(1).max(30),
+      color: z.string(),
+    })
+  ),
+});
+
+const AppDataV1_3_0Schema = AppDataV1_2_0Schema.extend({
+  metadata: AppDataV1_0_0Schema.shape.metadata.extend({
+    version: z.literal('1.3.0'),
+  }),
+  tasks: z.array(
+    AppDataV1_2_0Schema.shape.tasks.element.extend({
+      checklist: z
+        .array(
+          z.object({
+            id: z.string().uuid(),
+            text: z.string().min(1).max(200),
+            completed: z.boolean(),
+          })
+        )
+        .max(50),
+    })
+  ),
+});
+
+const AppDataV1_4_0Schema = AppDataV1_3_0Schema.extend({
+  metadata: AppDataV1_0_0Schema.shape.metadata.extend({
+    version: z.literal('1.4.0'),
+  }),
+  tasks: z.array(
+    AppDataV1_3_0Schema.shape.tasks.element.extend({
+      notes: z.string().max(10000),
+    })
+  ),
+});
+
+const VERSION_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  '1': LegacyAppDataV1Schema,
+  '1.0.0': AppDataV1_0_0Schema,
+  '1.1.0': AppDataV1_1_0Schema,
+  '1.2.0': AppDataV1_2_0Schema,
+  '1.3.0': AppDataV1_3_0Schema,
+  '1.4.0': AppDataV1_4_0Schema,
+  '1.5.0': AppDataSchema,
+};
+
+/**
+ * Ordered list of migrations
+ * Append new entries when bumping CURRENT_SCHEMA_VERSION
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: '1',
+    to: '1.0.0',
+    description: 'Move version into metadata and add preferences',
+    migrate: (data) => {
+      const legacy = data as z.infer<typeof LegacyAppDataV1Schema>;
+      const dates = legacy.tasks.map((task) => task.date).sort();
+
+      return {
+        metadata: {
+          version: '1.0.0',
+          lastModified: legacy.metadata.lastModified,
+          totalTaskCount: legacy.tasks.length,
+          oldestTaskDate: dates[0] ?? null,
+          newestTaskDate: dates[dates.length - 1] ?? null,
+        },
+        tasks: legacy.tasks,
+        preferences: {
+          lastViewedDate: getTodayISO(),
+          sortOrder: 'newest-first',
+        },
+      };
+    },
+  },
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add task priorities',
+    migrate: (data) => {
+      const previous = data as z.infer<typeof AppDataV1_0_0Schema>;
+
+      return {
+        ...previous,
+        metadata: { ...previous.metadata, version: '1.1.0' },
+        tasks: previous.tasks.map((task) => ({ ...task, priority: 'none' })),
+      };
+    },
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Add tags',
+    migrate: (data) => {
+      const previous = data as z.infer<typeof AppDataV1_1_0Schema>;
+
+      return {
+        ...previous,
+        metadata: { ...previous.metadata, version: '1.2.0' },
+        tasks: previous.tasks.map((task) => ({ ...task, tags: [] })),
+        tags: [],
+      };
+    },
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Add task checklists',
+    migrate: (data) => {
+      const previous = data as z.infer<typeof AppDataV1_2_0Schema>;
+
+      return {
+        ...previous,
+        metadata: { ...previous.metadata, version: '1.3.0' },
+        tasks: previous.tasks.map((task) => ({ ...task, checklist: [] })),
+      };
+    },
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Add task notes',
+    migrate: (data) => {
+      const previous = data as z.infer<typeof AppDataV1_3_0Schema>;
+
+      return {
+        ...previous,
+        metadata: { ...previous.metadata, version: '1.4.0' },
+        // Descriptions become one-line titles; any further lines move to the notes
+        tasks: previous.tasks.map((task) => {
+          const [title = '', ...rest] = task.description.trim().split(/\r?\n/);
+          return {
+            ...task,
+            description: title.trim() || task.description,
+            notes: rest.join('\n').trim(),
+          };
+        }),
+      };
+    },
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Add task edit timestamps',
+    migrate: (data) => {
+      const previous = data as z.infer<typeof AppDataV1_4_0Schema>;
+
+      return {
+        ...previous,
+        metadata: { ...previous.metadata, version: '1.5.0' },
+        // Completion is the last change known for existing tasks
+        tasks: previous.tasks.map((task) => ({
+          ...task,
+          updatedAt:
+            task.completedAt && task.completedAt > task.createdAt
+              ? task.completedAt
+              : task.createdAt,
+        })),
+      };
+    },
+  },
+];
+
+/**
+ * Detect the schema version of stored data
+ * @returns Version string, or null if the shape is unrecognised
+ */
+export function detectSchemaVersion(data: unknown): string | null {
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const record = data as {
+    version?: unknown;
+    metadata?: { version?: unknown };
+  };
+
+  if (typeof record.metadata?.version === 'string') {
+    return record.metadata.version;
+  }
+
+  if (typeof record.version === 'number') {
+    return String(record.version);
+  }
+
+  return null;
+}
+
+/**
+ * Check if data is in a known older version
+ */
+export function needsMigration(data: unknown): boolean {
+  const version = detectSchemaVersion(data);
+  return version !== null && version !== CURRENT_SCHEMA_VERSION;
+}
+
+function validateVersion(data: unknown, version: string): void {
+  const schema = VERSION_SCHEMAS[version];
+  if (!schema) {
+    return;
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `Data does not match schema version ${version}: ${result.error.issues[0]?.message ?? 'invalid'}`
+    );
+  }
+}
+
+/**
+ * Run every migration needed to reach the current version
+ * @throws {Error} If there is no migration path or a step produces invalid data
+ */
+export function runMigrations(
+  data: unknown,
+  migrations: Migration[] = MIGRATIONS
+): { data: unknown; steps: MigrationStep[]; fromVersion: string } {
+  const fromVersion = detectSchemaVersion(data);
+  if (fromVersion === null) {
+    throw new Error('Unknown data format');
+  }
+
+  let version = fromVersion;
+  let current = data;
+  const steps: MigrationStep[] = [];
+
+  validateVersion(current, version);
+
+  while (version !== CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.find((m) => m.from === version);
+    if (!migration || steps.length >= migrations.length) {
+      throw new Error(`No migration path from version ${version}`);
+    }
+
+    current = migration.migrate(current);
+    validateVersion(current, migration.to);
+
+    steps.push({
+      from: migration.from,
+      to: migration.to,
+      description: migration.description,
+    });
+    version = migration.to;
+  }
+
+  return { data: current, steps, fromVersion };
+}
@@ -0,0 +1,39 @@
+/**
+ * Task notes
+ * Free-form Markdown kept apart from the one-line description
+ */
+
+export const MAX_NOTES_LENGTH = 10000;
+
+// Notes are written to the data, its backup and the undo history entry
+const STORED_COPIES = 3;
+
+/**
+ * Size of notes in bytes, measured the same way as storage usage
+ */
+export function getNotesSize(notes: string): number {
+  return new Blob([notes]).size;
+}
+
+/**
+ * Validate notes against the length limit and the free storage space
+ * @param usage Current storage usage from getStorageUsage()
+ * @returns Error message if invalid, null if valid
+ */
+export function validateNotes(
+  notes: string,
+  previousNotes: string,
+  usage: { used: number; quota: number }
+): string | null {
+  if (notes.length > MAX_NOTES_LENGTH) {
+    return `Notes must be ${MAX_NOTES_LENGTH.toLocaleString('en-US')} characters or less`;
+  }
+
+  const growth =
+    (getNotesSize(notes) - getNotesSize(previousNotes)) * STORED_COPIES;
+  if (usage.quota > 0 && growth > 0 && usage.used + growth > usage.quota) {
+    return 'Not enough storage space left for these notes';
+  }
+
+  return null;
+}
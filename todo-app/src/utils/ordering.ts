@@ -0,0 +1,158 @@
+import { getPriorityRank } from './priority';
+import type { SortOrder, Task } from '../types';
+
+/**
+ * Task ordering
+ * In manual order, tasks on a day are sorted by `position`, a fractional
+ * index: a base-36 string that compares like a decimal fraction, so there is
+ * always a key between two others and moving a task rewrites only that task.
+ * Tasks without a position (created before manual ordering, imported or
+ * carried over) come after positioned ones, oldest first.
+ */
+
+export const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'newest-first', label: 'Newest first' },
+  { value: 'oldest-first', label: 'Oldest first' },
+  { value: 'manual', label: 'Manual (drag to reorder)' },
+];
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Get a key between two keys, where '' is the start and null the end
+ * Keys never end in '0', so there is always room before them
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the common prefix, padding a with zeros
+    let n = 0;
+    while ((a.charAt(n) || '0') === b.charAt(n)) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    // Appending steps by one digit, which keeps keys short
+    const digit =
+      b === null && a ? digitA + 1 : Math.round((digitA + digitB) / 2);
+    return DIGITS.charAt(digit);
+  }
+
+  if (b !== null && b.length > 1) {
+    return b.charAt(0);
+  }
+
+  return DIGITS.charAt(digitA) + midpoint(a.slice(1), null);
+}
+
+/**
+ * Get a position between two others
+ * @param before Position of the task before, or null at the start
+ * @param after Position of the task after, or null at the end
+ */
+export function getPositionBetween(
+  before: string | null,
+  after: string | null
+): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error('Positions must be in order');
+  }
+
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Get a position after every positioned task in a list
+ */
+export function getPositionAfter(tasks: Pick<Task, 'position'>[]): string {
+  const last = tasks.reduce<string | null>(
+    (max, task) =>
+      task.position && (max === null || task.position > max)
+        ? task.position
+        : max,
+    null
+  );
+  return getPositionBetween(last, null);
+}
+
+/**
+ * Compare tasks in manual order
+ */
+export function comparePositions(a: Task, b: Task): number {
+  if (a.position && b.position) {
+    return a.position < b.position ? -1 : a.position > b.position ? 1 : 0;
+  }
+  if (a.position || b.position) {
+    return a.position ? -1 : 1;
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Sort tasks for display
+ * Pending tasks are grouped by priority (highest first) unless ordered manually;
+ * completed tasks are sorted by creation time only
+ */
+export function sortTasks<T extends Task>(
+  tasks: T[],
+  sortOrder: SortOrder,
+  byPriority = true
+): T[] {
+  if (sortOrder === 'manual') {
+    return [...tasks].sort(comparePositions);
+  }
+
+  const direction = sortOrder === 'newest-first' ? -1 : 1;
+  return [...tasks].sort(
+    (a, b) =>
+      (byPriority
+        ? getPriorityRank(b.priority) - getPriorityRank(a.priority)
+        : 0) || direction * a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Move a task within an ordered list
+ * @returns New positions by task id: only the moved task's when every task
+ * has a position, otherwise fresh positions for the whole list (also used
+ * to repair duplicate positions)
+ */
+export function reorderPositions(
+  tasks: Pick<Task, 'id' | 'position'>[],
+  fromIndex: number,
+  toIndex: number
+): Map<string, string> {
+  const moved = tasks[fromIndex];
+  if (
+    !moved ||
+    toIndex < 0 ||
+    toIndex >= tasks.length ||
+    fromIndex === toIndex
+  ) {
+    return new Map();
+  }
+
+  const reordered = tasks.filter((_, index) => index !== fromIndex);
+  reordered.splice(toIndex, 0, moved);
+
+  const before = reordered[toIndex - 1]?.position ?? null;
+  const after = reordered[toIndex + 1]?.position ?? null;
+  const isOrdered = before === null || after === null || before < after;
+  if (reordered.every((task) => task.position) && isOrdered) {
+    return new Map([[moved.id, getPositionBetween(before, after)]]);
+  }
+
+  const positions = new Map<string, string>();
+  let previous: string | null = null;
+  for (const task of reordered) {
+    previous = getPositionBetween(previous, null);
+    positions.set(task.id, previous);
+  }
+  return positions;
+}
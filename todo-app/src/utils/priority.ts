@@ -0,0 +1,43 @@
+import { TaskPrioritySchema, type Task, type TaskPriority } from './validation';
+
+/**
+ * Task priorities
+ * Levels are ordered lowest first, so a level's index is its rank
+ */
+
+export const PRIORITY_LEVELS: readonly TaskPriority[] =
+  TaskPrioritySchema.options;
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  none: 'No priority',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export function getPriorityRank(priority: TaskPriority): number {
+  return PRIORITY_LEVELS.indexOf(priority);
+}
+
+/**
+ * Order tasks by priority (highest first), then by creation time (oldest first)
+ */
+export function sortByPriority<T extends Task>(tasks: T[]): T[] {
+  return [...tasks].sort(
+    (a, b) =>
+      getPriorityRank(b.priority) - getPriorityRank(a.priority) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Dates that contain pending urgent tasks
+ */
+export function getUrgentDates(tasks: Task[]): Set<string> {
+  return new Set(
+    tasks
+      .filter((task) => !task.completed && task.priority === 'urgent')
+      .map((task) => task.date)
+  );
+}
@@ -0,0 +1,699 @@
+import { addDays, getTodayISO, isValidDateString } from './dateUtils';
+import { getPriorityRank, PRIORITY_LEVELS } from './priority';
+import { getDueDate } from './reminders';
+import { normalizeText, tokenize } from './search';
+import type { SavedQuery, Tag, Task, TaskPriority } from './validation';
+
+/**
+ * Filter queries
+ * A query is a list of terms that a task must all match:
+ *   word            a word of the description, notes or tag names starting with it
+ *   "exact phrase"  text contained in the description or notes
+ *   key:value       a filter, see QUERY_FILTERS
+ *   -term           any term negated
+ * Parsing never fails: problems are reported as errors, and invalid filters
+ * are left out of the query.
+ */
+
+export type QueryFilterKey =
+  | 'is'
+  | 'has'
+  | 'date'
+  | 'created'
+  | 'completed'
+  | 'priority'
+  | 'tag';
+export type TaskState =
+  | 'pending'
+  | 'completed'
+  | 'overdue'
+  | 'recurring'
+  | 'carried';
+export type TaskDetail = 'notes' | 'checklist' | 'tags' | 'due' | 'reminder';
+export type Comparison = '=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Day relative to today or to a date
+ */
+export interface DateBound {
+  base: 'today' | string; // YYYY-MM-DD
+  days: number;
+}
+
+export type QueryFilter =
+  | { kind: 'text'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'is'; value: TaskState }
+  | { kind: 'has'; value: TaskDetail }
+  | {
+      kind: 'date';
+      field: 'date' | 'created' | 'completed';
+      from?: DateBound;
+      to?: DateBound;
+    }
+  | { kind: 'priority'; comparison: Comparison; value: TaskPriority }
+  | { kind: 'tag'; value: string };
+
+export interface QueryTerm {
+  filter: QueryFilter;
+  negated: boolean;
+  start: number; // Position in the query
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+export interface QuerySuggestion {
+  value: string; // Replaces the term being typed
+  description: string;
+}
+
+export const QUERY_FILTERS: Record<QueryFilterKey, string> = {
+  is: 'State: pending, completed, overdue, recurring, carried',
+  has: 'Details: notes, checklist, tags, due, reminder',
+  date: 'Task date, e.g. today, 2025-01-31, <7d, 2025-01-01..2025-01-31',
+  created: 'Creation date, e.g. <7d for the last week',
+  completed: 'Completion date, e.g. today',
+  priority: 'Priority, e.g. high or >=medium',
+  tag: 'Tag name',
+};
+
+const TASK_STATES: readonly TaskState[] = [
+  'pending',
+  'completed',
+  'overdue',
+  'recurring',
+  'carried',
+];
+const TASK_DETAILS: readonly TaskDetail[] = [
+  'notes',
+  'checklist',
+  'tags',
+  'due',
+  'reminder',
+];
+const DATE_KEYWORDS: Record<string, number> = {
+  today: 0,
+  yesterday: -1,
+  tomorrow: 1,
+};
+const DATE_SUGGESTIONS = ['today', 'yesterday', 'tomorrow', '<7d', '>30d'];
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+const DURATION_PATTERN = /^(\d{1,4})([dw])$/;
+
+function isFilterKey(key: string): key is QueryFilterKey {
+  return Object.prototype.hasOwnProperty.call(QUERY_FILTERS, key);
+}
+
+function listValues(values: readonly string[]): string {
+  return values.join(', ');
+}
+
+// A date, a keyword or a duration ago, as a bound
+function parseDatePoint(
+  value: string
+): { bound: DateBound; isDuration: boolean } | null {
+  const keyword = DATE_KEYWORDS[value];
+  if (keyword !== undefined) {
+    return { bound: { base: 'today', days: keyword }, isDuration: false };
+  }
+  const duration = DURATION_PATTERN.exec(value);
+  if (duration) {
+    const days = Number(duration[1]) * (duration[2] === 'w' ? 7 : 1);
+    return { bound: { base: 'today', days: -days }, isDuration: true };
+  }
+  if (isValidDateString(value)) {
+    return { bound: { base: value, days: 0 }, isDuration: false };
+  }
+  return null;
+}
+
+function shiftBound(bound: DateBound, days: number): DateBound {
+  return { ...bound, days: bound.days + days };
+}
+
+/**
+ * Resolve a date bound to YYYY-MM-DD
+ */
+export function resolveDateBound(
+  bound: DateBound,
+  today: string = getTodayISO()
+): string {
+  const base = bound.base === 'today' ? today : bound.base;
+  return bound.days === 0 ? base : addDays(base, bound.days);
+}
+
+/**
+ * Resolve a single date value of a filter, such as yesterday or 7d, to YYYY-MM-DD
+ * @returns null if the value is not a date
+ */
+export function parseDateValue(
+  value: string,
+  today: string = getTodayISO()
+): string | null {
+  const point = parseDatePoint(value.trim().toLowerCase());
+  return point ? resolveDateBound(point.bound, today) : null;
+}
+
+/**
+ * Parse the value of a date filter into an inclusive range
+ * Durations are ages: <7d is less than 7 days ago, and a bare 7d means the same
+ * @returns The range, or an error message
+ */
+function parseDateRange(
+  value: string
+): { from?: DateBound; to?: DateBound } | string {
+  const invalid =
+    `Invalid date "${value}": use YYYY-MM-DD, today, yesterday, tomorrow, 7d or 2w, ` +
+    'optionally after <, <=, > or >=, or a range like 2025-01-01..2025-01-31';
+
+  if (value.includes('..')) {
+    const [startValue = '', endValue = '', ...extra] = value.split('..');
+    const start = startValue ? parseDatePoint(startValue) : undefined;
+    const end = endValue ? parseDatePoint(endValue) : undefined;
+    if (
+      extra.length > 0 ||
+      start === null ||
+      end === null ||
+      (!start && !end)
+    ) {
+      return invalid;
+    }
+    if (
+      start &&
+      end &&
+      resolveDateBound(start.bound) > resolveDateBound(end.bound)
+    ) {
+      return `Range ${value} starts after it ends`;
+    }
+    return { from: start?.bound, to: end?.bound };
+  }
+
+  const [, operator = '', rest = ''] = COMPARISON_PATTERN.exec(value) ?? [];
+  const point = parseDatePoint(rest);
+  if (!point) {
+    return invalid;
+  }
+
+  // An age below a duration is a date after it
+  const flipped: Record<string, string> = {
+    '': '>',
+    '<': '>',
+    '<=': '>=',
+    '>': '<',
+    '>=': '<=',
+  };
+  const comparison = point.isDuration
+    ? (flipped[operator] ?? operator)
+    : operator;
+  const { bound } = point;
+
+  switch (comparison) {
+    case '<':
+      return { to: shiftBound(bound, -1) };
+    case '<=':
+      return { to: bound };
+    case '>':
+      return { from: shiftBound(bound, 1) };
+    case '>=':
+      return { from: bound };
+    default:
+      return { from: bound, to: bound };
+  }
+}
+
+// Parse a key:value term
+function parseFilter(key: QueryFilterKey, value: string): QueryFilter | string {
+  if (!value) {
+    return `Missing value after ${key}:`;
+  }
+
+  switch (key) {
+    case 'is':
+      return TASK_STATES.includes(value as TaskState)
+        ? { kind: 'is', value: value as TaskState }
+        : `Unknown state "${value}" for is: use ${listValues(TASK_STATES)}`;
+    case 'has':
+      return TASK_DETAILS.includes(value as TaskDetail)
+        ? { kind: 'has', value: value as TaskDetail }
+        : `Unknown detail "${value}" for has: use ${listValues(TASK_DETAILS)}`;
+    case 'date':
+    case 'created':
+    case 'completed': {
+      const range = parseDateRange(value);
+      return typeof range === 'string'
+        ? range
+        : { kind: 'date', field: key, ...range };
+    }
+    case 'priority': {
+      const [, comparison = '=', level = ''] =
+        COMPARISON_PATTERN.exec(value) ?? [];
+      return PRIORITY_LEVELS.includes(level as TaskPriority)
+        ? {
+            kind: 'priority',
+            comparison: comparison as Comparison,
+            value: level as TaskPriority,
+          }
+        : `Unknown priority "${level}": use ${listValues(PRIORITY_LEVELS)}`;
+    }
+    case 'tag':
+      return { kind: 'tag', value };
+  }
+}
+
+// Split a query into raw terms: words (which may contain quoted parts) and phrases
+function scanTerms(
+  input: string,
+  errors: QueryError[]
+): { raw: string; negated: boolean; start: number; end: number }[] {
+  const terms: { raw: string; negated: boolean; start: number; end: number }[] =
+    [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input.charAt(i))) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input.charAt(i) === '-' && /\S/.test(input.charAt(i + 1));
+    if (negated) {
+      i++;
+    }
+
+    const termStart = i;
+    while (i < input.length && /\S/.test(input.charAt(i))) {
+      if (input.charAt(i) !== '"') {
+        i++;
+        continue;
+      }
+      const close = input.indexOf('"', i + 1);
+      if (close < 0) {
+        errors.push({
+          message: 'Missing closing quote',
+          start: i,
+          end: input.length,
+        });
+        i = input.length;
+      } else {
+        i = close + 1;
+      }
+    }
+
+    terms.push({ raw: input.slice(termStart, i), negated, start, end: i });
+  }
+
+  return terms;
+}
+
+/**
+ * Parse a query into terms, reporting invalid ones as errors
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const errors: QueryError[] = [];
+  const terms: QueryTerm[] = [];
+
+  for (const { raw, negated, start, end } of scanTerms(input, errors)) {
+    const phrase = /^"(.*)"?$/s.exec(raw);
+    if (phrase) {
+      const value = (phrase[1] ?? '').replace(/"$/, '').trim();
+      if (value) {
+        terms.push({ filter: { kind: 'phrase', value }, negated, start, end });
+      }
+      continue;
+    }
+
+    const filter = /^([a-z]+):(.*)$/is.exec(raw);
+    if (!filter) {
+      const value = raw.replace(/"/g, '');
+      if (tokenize(value).length > 0) {
+        terms.push({ filter: { kind: 'text', value }, negated, start, end });
+      }
+      continue;
+    }
+
+    const key = (filter[1] ?? '').toLowerCase();
+    if (!isFilterKey(key)) {
+      errors.push({
+        message: `Unknown filter "${key}:": use ${listValues(Object.keys(QUERY_FILTERS))}`,
+        start,
+        end,
+      });
+      continue;
+    }
+
+    // Values may be quoted, e.g. tag:"Side project"
+    const value = (filter[2] ?? '').replace(/^"(.*?)"?$/s, '$1');
+    const parsed = parseFilter(
+      key,
+      key === 'tag' ? value : value.toLowerCase()
+    );
+    if (typeof parsed === 'string') {
+      errors.push({ message: parsed, start, end });
+    } else {
+      terms.push({ filter: parsed, negated, start, end });
+    }
+  }
+
+  return { terms, errors };
+}
+
+/**
+ * Words of the text and phrase terms a task must contain
+ * Used to narrow the search before filtering, and to highlight matches
+ */
+export function getQueryWords(query: ParsedQuery): string {
+  return query.terms
+    .flatMap(({ filter, negated }) =>
+      !negated && (filter.kind === 'text' || filter.kind === 'phrase')
+        ? [filter.value]
+        : []
+    )
+    .join(' ');
+}
+
+/**
+ * Whether a query has terms beyond plain words
+ */
+export function hasQueryFilters(query: ParsedQuery): boolean {
+  return query.terms.some(
+    (term) => term.negated || term.filter.kind !== 'text'
+  );
+}
+
+export interface QueryContext {
+  tags: Tag[];
+  today?: string; // YYYY-MM-DD
+  now?: Date;
+}
+
+function matchesState(
+  task: Task,
+  state: TaskState,
+  context: Required<QueryContext>
+): boolean {
+  switch (state) {
+    case 'pending':
+      return !task.completed;
+    case 'completed':
+      return task.completed;
+    case 'overdue': {
+      const due = getDueDate(task);
+      return (
+        !task.completed &&
+        (task.date < context.today || (due !== null && due < context.now))
+      );
+    }
+    case 'recurring':
+      return task.seriesId !== undefined;
+    case 'carried':
+      return (task.rolloverCount ?? 0) > 0;
+  }
+}
+
+function hasDetail(task: Task, detail: TaskDetail): boolean {
+  switch (detail) {
+    case 'notes':
+      return task.notes.trim() !== '';
+    case 'checklist':
+      return task.checklist.length > 0;
+    case 'tags':
+      return task.tags.length > 0;
+    case 'due':
+      return task.dueTime !== undefined;
+    case 'reminder':
+      return task.reminderMinutes !== undefined;
+  }
+}
+
+function matchesFilter(
+  task: Task,
+  filter: QueryFilter,
+  context: Required<QueryContext>
+): boolean {
+  const tagNames = () =>
+    context.tags
+      .filter((tag) => task.tags.includes(tag.id))
+      .map((tag) => tag.name);
+
+  switch (filter.kind) {
+    case 'text': {
+      const taskWords = tokenize(
+        [task.description, task.notes, ...tagNames()].join(' ')
+      );
+      return tokenize(filter.value).every((word) =>
+        taskWords.some((taskWord) => taskWord.startsWith(word))
+      );
+    }
+    case 'phrase': {
+      const phrase = normalizeText(filter.value).replace(/\s+/g, ' ');
+      return [task.description, task.notes].some((text) =>
+        normalizeText(text).replace(/\s+/g, ' ').includes(phrase)
+      );
+    }
+    case 'is':
+      return matchesState(task, filter.value, context);
+    case 'has':
+      return hasDetail(task, filter.value);
+    case 'date': {
+      const value =
+        filter.field === 'date'
+          ? task.date
+          : filter.field === 'created'
+            ? task.createdAt
+            : task.completedAt;
+      if (!value) {
+        return false;
+      }
+      // Timestamps are UTC, like task dates
+      const day = value.slice(0, 10);
+      return (
+        (!filter.from || day >= resolveDateBound(filter.from, context.today)) &&
+        (!filter.to || day <= resolveDateBound(filter.to, context.today))
+      );
+    }
+    case 'priority': {
+      const difference =
+        getPriorityRank(task.priority) - getPriorityRank(filter.value);
+      switch (filter.comparison) {
+        case '<':
+          return difference < 0;
+        case '<=':
+          return difference <= 0;
+        case '>':
+          return difference > 0;
+        case '>=':
+          return difference >= 0;
+        default:
+          return difference === 0;
+      }
+    }
+    case 'tag': {
+      const name = normalizeText(filter.value);
+      return tagNames().some((tagName) => normalizeText(tagName) === name);
+    }
+  }
+}
+
+/**
+ * Check whether a task matches every term of a query
+ */
+export function matchesQuery(
+  task: Task,
+  query: ParsedQuery,
+  context: QueryContext
+): boolean {
+  const resolved = {
+    tags: context.tags,
+    today: context.today ?? getTodayISO(),
+    now: context.now ?? new Date(),
+  };
+  return query.terms.every(
+    (term) => matchesFilter(task, term.filter, resolved) !== term.negated
+  );
+}
+
+/**
+ * Suggest completions for the term at the end of a query
+ * @returns Where the term starts, and values that can replace it
+ */
+export function getQuerySuggestions(
+  input: string,
+  tags: Tag[]
+): { start: number; suggestions: QuerySuggestion[] } {
+  const termStart = input.search(/\S*$/);
+  const negated = input.charAt(termStart) === '-';
+  const start = negated ? termStart + 1 : termStart;
+  const term = input.slice(start);
+  const colon = term.indexOf(':');
+
+  if (colon < 0) {
+    const prefix = term.toLowerCase();
+    const suggestions = Object.entries(QUERY_FILTERS)
+      .filter(([key]) => key.startsWith(prefix) && key !== prefix)
+      .map(([key, description]) => ({ value: `${key}:`, description }));
+    return { start, suggestions };
+  }
+
+  const key = term.slice(0, colon).toLowerCase();
+  const prefix = term
+    .slice(colon + 1)
+    .replace(/^"/, '')
+    .toLowerCase();
+  let values: QuerySuggestion[] = [];
+
+  switch (key) {
+    case 'is':
+      values = TASK_STATES.map((value) => ({ value, description: 'State' }));
+      break;
+    case 'has':
+      values = TASK_DETAILS.map((value) => ({ value, description: 'Detail' }));
+      break;
+    case 'priority':
+      values = PRIORITY_LEVELS.map((value) => ({
+        value,
+        description: 'Priority',
+      }));
+      break;
+    case 'date':
+    case 'created':
+    case 'completed':
+      values = DATE_SUGGESTIONS.map((value) => ({
+        value,
+        description: 'Date',
+      }));
+      break;
+    case 'tag':
+      values = tags.map((tag) => ({
+        value: /\s/.test(tag.name) ? `"${tag.name}"` : tag.name,
+        description: 'Tag',
+      }));
+      break;
+  }
+
+  const suggestions = values
+    .filter(({ value }) => {
+      const candidate = value.replace(/^"/, '').toLowerCase();
+      return candidate.startsWith(prefix) && candidate !== prefix;
+    })
+    .map(({ value, description }) => ({
+      value: `${key}:${value}`,
+      description,
+    }));
+  return { start, suggestions };
+}
+
+/**
+ * Replace the term at the end of a query with a suggestion
+ * A completed value is followed by a space, ready for the next term
+ */
+export function applyQuerySuggestion(
+  input: string,
+  start: number,
+  value: string
+): string {
+  return `${input.slice(0, start)}${value}${value.endsWith(':') ? '' : ' '}`;
+}
+
+export const MAX_SAVED_QUERIES = 50;
+export const MAX_QUERY_NAME_LENGTH = 50;
+export const MAX_QUERY_LENGTH = 500;
+
+/**
+ * Validate the name and query of a saved query
+ * @param exceptId Saved query being edited, which may keep its own name
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSavedQuery(
+  queries: SavedQuery[],
+  name: string,
+  query: string,
+  exceptId?: string
+): string | null {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    return 'Name cannot be empty';
+  }
+  if (trimmedName.length > MAX_QUERY_NAME_LENGTH) {
+    return `Name must be ${MAX_QUERY_NAME_LENGTH} characters or less`;
+  }
+
+  const key = trimmedName.toLowerCase();
+  const existing = queries.find((saved) => saved.name.toLowerCase() === key);
+  if (existing && existing.id !== exceptId) {
+    return `A query named "${existing.name}" already exists`;
+  }
+
+  if (!query.trim()) {
+    return 'Query cannot be empty';
+  }
+  if (query.trim().length > MAX_QUERY_LENGTH) {
+    return `Query must be ${MAX_QUERY_LENGTH} characters or less`;
+  }
+  const [error] = parseQuery(query).errors;
+  return error ? error.message : null;
+}
+
+/**
+ * Add a saved query, unpinned
+ * @throws {Error} If the list is full, or the name or query is invalid
+ */
+export function addSavedQuery(
+  queries: SavedQuery[],
+  name: string,
+  query: string
+): { queries: SavedQuery[]; savedQuery: SavedQuery } {
+  if (queries.length >= MAX_SAVED_QUERIES) {
+    throw new Error(`You can save up to ${MAX_SAVED_QUERIES} queries`);
+  }
+  const error = validateSavedQuery(queries, name, query);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const savedQuery: SavedQuery = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    query: query.trim(),
+    pinned: false,
+  };
+  return { queries: [...queries, savedQuery], savedQuery };
+}
+
+/**
+ * Rename, edit or pin a saved query
+ * @throws {Error} If the saved query does not exist or the changes are invalid
+ */
+export function updateSavedQuery(
+  queries: SavedQuery[],
+  id: string,
+  changes: Partial<Pick<SavedQuery, 'name' | 'query' | 'pinned'>>
+): SavedQuery[] {
+  const current = queries.find((saved) => saved.id === id);
+  if (!current) {
+    throw new Error('Saved query not found');
+  }
+
+  const name = (changes.name ?? current.name).trim();
+  const query = (changes.query ?? current.query).trim();
+  if (changes.name !== undefined || changes.query !== undefined) {
+    const error = validateSavedQuery(queries, name, query, id);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  return queries.map((saved) =>
+    saved.id === id ? { ...saved, ...changes, name, query } : saved
+  );
+}
@@ -0,0 +1,292 @@
+import {
+  TaskSchema,
+  TaskPrioritySchema,
+  ChecklistItemSchema,
+  TagSchema,
+  UserPreferencesSchema,
+  CURRENT_SCHEMA_VERSION,
+  createInitialAppData,
+  type AppData,
+  type Task,
+} from './validation';
+import { MAX_CHECKLIST_ITEMS } from './checklist';
+import { MAX_NOTES_LENGTH } from './notes';
+
+/**
+ * Partial salvage of corrupted storage
+ * Validates each task on its own, repairs what can be repaired and
+ * quarantines the rest instead of discarding the whole dataset
+ */
+
+export interface QuarantinedRecord {
+  index: number; // Position in the original tasks array
+  record: unknown;
+  issues: { path: string; message: string }[];
+  quarantinedAt: string; // ISO timestamp
+}
+
+export interface RepairedTask {
+  id: string;
+  description: string;
+  fields: string[]; // Names of repaired fields
+}
+
+export interface RecoveryReport {
+  source: 'data' | 'backup';
+  recoveredCount: number;
+  repaired: RepairedTask[];
+  quarantined: QuarantinedRecord[];
+  preferencesReset: boolean;
+  recoveredAt: string; // ISO timestamp
+}
+
+export interface SalvageResult {
+  data: AppData;
+  repaired: RepairedTask[];
+  quarantined: QuarantinedRecord[];
+  preferencesReset: boolean;
+}
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function isIsoTimestamp(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    TaskSchema.shape.createdAt.safeParse(value).success
+  );
+}
+
+/**
+ * Check if stored data has enough structure to salvage tasks from
+ */
+export function isSalvageable(raw: unknown): raw is { tasks: unknown[] } {
+  return (
+    typeof raw === 'object' &&
+    raw !== null &&
+    Array.isArray((raw as { tasks?: unknown }).tasks)
+  );
+}
+
+/**
+ * Repair recoverable fields of a task record
+ * @returns Repaired record and the names of the fields that changed
+ */
+export function repairTask(
+  record: unknown,
+  usedIds: Set<string>
+): { task: unknown; fields: string[] } {
+  if (typeof record !== 'object' || record === null) {
+    return { task: record, fields: [] };
+  }
+
+  const task = { ...(record as Record<string, unknown>) };
+  const fields: string[] = [];
+
+  // Missing, invalid or duplicate id: assign a new one
+  if (
+    typeof task.id !== 'string' ||
+    !UUID_REGEX.test(task.id) ||
+    usedIds.has(task.id)
+  ) {
+    task.id = crypto.randomUUID();
+    fields.push('id');
+  }
+
+  // Overlong description: truncate (empty descriptions cannot be repaired)
+  if (typeof task.description === 'string') {
+    const trimmed = task.description.trim();
+    const repaired = trimmed.length > 500 ? trimmed.slice(0, 500) : trimmed;
+    if (repaired !== task.description && repaired.length > 0) {
+      task.description = repaired;
+      fields.push('description');
+    }
+  }
+
+  // Bad date: derive from createdAt
+  if (typeof task.date !== 'string' || !DATE_REGEX.test(task.date)) {
+    if (isIsoTimestamp(task.createdAt)) {
+      task.date = task.createdAt.split('T')[0];
+      fields.push('date');
+    }
+  }
+
+  // Bad createdAt: derive from the task date
+  if (
+    !isIsoTimestamp(task.createdAt) &&
+    typeof task.date === 'string' &&
+    DATE_REGEX.test(task.date)
+  ) {
+    task.createdAt = `${task.date}T00:00:00.000Z`;
+    fields.push('createdAt');
+  }
+
+  // Missing completed flag: infer from completedAt
+  if (typeof task.completed !== 'boolean') {
+    task.completed = isIsoTimestamp(task.completedAt);
+    fields.push('completed');
+  }
+
+  // completedAt must be set exactly when the task is completed
+  if (task.completed && !isIsoTimestamp(task.completedAt)) {
+    task.completedAt = isIsoTimestamp(task.createdAt)
+      ? task.createdAt
+      : new Date().toISOString();
+    fields.push('completedAt');
+  } else if (!task.completed && task.completedAt !== null) {
+    task.completedAt = null;
+    fields.push('completedAt');
+  }
+
+  // Missing priority predates priorities; an unknown one is reset
+  if (task.priority === undefined) {
+    task.priority = 'none';
+  } else if (!TaskPrioritySchema.safeParse(task.priority).success) {
+    task.priority = 'none';
+    fields.push('priority');
+  }
+
+  // Tags work the same way; an invalid list is dropped
+  if (task.tags === undefined) {
+    task.tags = [];
+  } else if (!TaskSchema.shape.tags.safeParse(task.tags).success) {
+    task.tags = [];
+    fields.push('tags');
+  }
+
+  // Missing notes predate notes; unreadable ones are dropped, overlong ones truncated
+  if (task.notes === undefined) {
+    task.notes = '';
+  } else if (typeof task.notes !== 'string') {
+    task.notes = '';
+    fields.push('notes');
+  } else if (task.notes.length > MAX_NOTES_LENGTH) {
+    task.notes = task.notes.slice(0, MAX_NOTES_LENGTH);
+    fields.push('notes');
+  }
+
+  // Checklists keep their valid items with unique ids
+  if (task.checklist === undefined) {
+    task.checklist = [];
+  } else if (!TaskSchema.shape.checklist.safeParse(task.checklist).success) {
+    const itemIds = new Set<string>();
+    task.checklist = (Array.isArray(task.checklist) ? task.checklist : [])
+      .flatMap((item: unknown) => {
+        const result = ChecklistItemSchema.safeParse(item);
+        if (!result.success || itemIds.has(result.data.id)) {
+          return [];
+        }
+        itemIds.add(result.data.id);
+        return [result.data];
+      })
+      .slice(0, MAX_CHECKLIST_ITEMS);
+    fields.push('checklist');
+  }
+
+  // An invalid due time, reminder or position is dropped
+  for (const field of [
+    'dueTime',
+    'reminderMinutes',
+    'remindedAt',
+    'position',
+  ] as const) {
+    if (
+      task[field] !== undefined &&
+      !TaskSchema.shape[field].safeParse(task[field]).success
+    ) {
+      delete task[field];
+      fields.push(field);
+    }
+  }
+
+  return { task, fields };
+}
+
+/**
+ * Salvage every valid or repairable task from corrupted data
+ * Metadata is rebuilt from the salvaged tasks and tasks lose the ids
+ * of tags that could not be salvaged
+ */
+export function salvageAppData(raw: {
+  tasks: unknown[];
+  preferences?: unknown;
+  tags?: unknown;
+}): SalvageResult {
+  const now = new Date().toISOString();
+  const tasks: Task[] = [];
+  const repaired: RepairedTask[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const usedIds = new Set<string>();
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags.flatMap((tag) => {
+        const result = TagSchema.safeParse(tag);
+        return result.success ? [result.data] : [];
+      })
+    : [];
+  const tagIds = new Set(tags.map((tag) => tag.id));
+
+  raw.tasks.forEach((record, index) => {
+    const { task, fields } = repairTask(record, usedIds);
+    const result = TaskSchema.safeParse(task);
+
+    if (!result.success) {
+      // Report issues against the original record
+      const original = TaskSchema.safeParse(record);
+      const issues = (original.success ? result : original).error.issues;
+
+      quarantined.push({
+        index,
+        record,
+        issues: issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+        quarantinedAt: now,
+      });
+      return;
+    }
+
+    // Drop ids of tags that were lost or failed validation
+    const taskTags = result.data.tags.filter((id) => tagIds.has(id));
+    if (taskTags.length < result.data.tags.length) {
+      result.data.tags = taskTags;
+      fields.push('tags');
+    }
+
+    usedIds.add(result.data.id);
+    tasks.push(result.data);
+
+    if (fields.length > 0) {
+      repaired.push({
+        id: result.data.id,
+        description: result.data.description,
+        fields,
+      });
+    }
+  });
+
+  const initialData = createInitialAppData();
+  const preferences = UserPreferencesSchema.safeParse(raw.preferences);
+  const dates = tasks.map((task) => task.date).sort();
+
+  return {
+    data: {
+      metadata: {
+        version: CURRENT_SCHEMA_VERSION,
+        lastModified: now,
+        totalTaskCount: tasks.length,
+        oldestTaskDate: dates[0] ?? null,
+        newestTaskDate: dates[dates.length - 1] ?? null,
+      },
+      tasks,
+      preferences: preferences.success
+        ? preferences.data
+        : initialData.preferences,
+      tags,
+    },
+    repaired,
+    quarantined,
+    preferencesReset: !preferences.success,
+  };
+}
@@ -0,0 +1,344 @@
+import { z } from 'zod';
+import {
+  ChecklistSchema,
+  TaskPrioritySchema,
+  TimeOfDaySchema,
+  type Task,
+} from './validation';
+import { resetChecklist } from './checklist';
+import { getStartOfWeek, normalizeToUTC } from './dateUtils';
+
+/**
+ * Recurring tasks
+ * A series holds a recurrence rule modelled on iCalendar RRULE. Its
+ * occurrences are materialized as ordinary tasks (linked by seriesId) the
+ * first time their date is viewed.
+ */
+
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).max(999), // Every N days, weeks or months
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(), // Weekly; 0 = Sunday
+  monthDay: z.number().int().min(1).max(31).optional(), // Monthly by day of month
+  nthWeekday: z
+    .object({
+      n: z
+        .number()
+        .int()
+        .min(-1)
+        .max(5)
+        .refine((n) => n !== 0), // -1 = last
+      weekday: z.number().int().min(0).max(6),
+    })
+    .optional(), // Monthly by nth weekday, e.g. second Tuesday
+  count: z.number().int().min(1).optional(), // End after N occurrences
+  until: DateStringSchema.optional(), // End on this date (inclusive)
+});
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
+export const RecurringSeriesSchema = z.object({
+  id: z.string().uuid(),
+  description: z.string().min(1).max(500),
+  notes: z.string().max(10000).default(''), // Notes given to each occurrence
+  priority: TaskPrioritySchema.default('none'), // Series created before priorities have none
+  tags: z.array(z.string().uuid()).default([]), // Tag ids given to each occurrence
+  checklist: ChecklistSchema.default([]), // Unchecked copy given to each occurrence
+  dueTime: TimeOfDaySchema.optional(), // Due time and reminder given to each occurrence
+  reminderMinutes: z.number().int().min(0).max(10080).optional(),
+  rule: RecurrenceRuleSchema,
+  startDate: DateStringSchema,
+  createdAt: z.string().datetime(),
+  exceptions: z.array(DateStringSchema), // Occurrence dates that were deleted
+});
+
+export type RecurringSeries = z.infer<typeof RecurringSeriesSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINALS: Record<number, string> = {
+  [-1]: 'last',
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+};
+
+/**
+ * Parse the stored series, dropping any that are invalid
+ */
+export function parseSeries(raw: unknown): RecurringSeries[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((item) => {
+    const result = RecurringSeriesSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+function toUTCDate(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00.000Z`);
+}
+
+function shiftDays(dateString: string, days: number): string {
+  const date = toUTCDate(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return normalizeToUTC(date);
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (toUTCDate(end).getTime() - toUTCDate(start).getTime()) / DAY_MS
+  );
+}
+
+function getDaysInMonth(date: Date): number {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+}
+
+/**
+ * Get the nth weekday of the month a date falls on (e.g. 2 for the second Tuesday)
+ */
+export function getNthWeekday(dateString: string): {
+  n: number;
+  weekday: number;
+} {
+  const date = toUTCDate(dateString);
+  return { n: Math.ceil(date.getUTCDate() / 7), weekday: date.getUTCDay() };
+}
+
+/**
+ * Check whether a date matches a rule's pattern
+ * Ignores the rule's end (count/until); dates before the start never match
+ */
+export function matchesRule(
+  rule: RecurrenceRule,
+  startDate: string,
+  date: string
+): boolean {
+  if (date < startDate) {
+    return false;
+  }
+
+  const start = toUTCDate(startDate);
+  const current = toUTCDate(date);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return daysBetween(startDate, date) % rule.interval === 0;
+
+    case 'weekly': {
+      const weekdays = rule.weekdays ?? [start.getUTCDay()];
+      const weeks =
+        daysBetween(getStartOfWeek(startDate), getStartOfWeek(date)) / 7;
+      return (
+        weekdays.includes(current.getUTCDay()) && weeks % rule.interval === 0
+      );
+    }
+
+    case 'monthly': {
+      const months =
+        (current.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        current.getUTCMonth() -
+        start.getUTCMonth();
+      if (months % rule.interval !== 0) {
+        return false;
+      }
+
+      if (rule.nthWeekday) {
+        const { n, weekday } = rule.nthWeekday;
+        const day = current.getUTCDate();
+        const isNth =
+          n === -1
+            ? day + 7 > getDaysInMonth(current)
+            : Math.ceil(day / 7) === n;
+        return current.getUTCDay() === weekday && isNth;
+      }
+
+      // Months without the day (e.g. the 31st) are skipped, as in RRULE
+      return current.getUTCDate() === (rule.monthDay ?? start.getUTCDate());
+    }
+  }
+}
+
+/**
+ * List the occurrence dates of a series between two dates (inclusive)
+ * Deleted occurrences still count towards the rule's count
+ */
+export function getOccurrences(
+  series: RecurringSeries,
+  from: string,
+  to: string
+): string[] {
+  const { rule, startDate } = series;
+  const end = rule.until && rule.until < to ? rule.until : to;
+  const dates: string[] = [];
+  let count = 0;
+
+  // Without a count, occurrences before the range do not matter
+  let date = rule.count === undefined && from > startDate ? from : startDate;
+
+  while (date <= end) {
+    if (matchesRule(rule, startDate, date)) {
+      count++;
+      if (rule.count !== undefined && count > rule.count) {
+        break;
+      }
+      if (date >= from && !series.exceptions.includes(date)) {
+        dates.push(date);
+      }
+    }
+    date = shiftDays(date, 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Create the tasks for occurrences on a date that have not been materialized yet
+ */
+export function materializeOccurrences(
+  tasks: Task[],
+  seriesList: RecurringSeries[],
+  date: string,
+  now: Date = new Date()
+): Task[] {
+  return seriesList
+    .filter((series) => getOccurrences(series, date, date).length > 0)
+    .filter(
+      (series) =>
+        !tasks.some((task) => task.seriesId === series.id && task.date === date)
+    )
+    .map((series) => ({
+      id: crypto.randomUUID(),
+      description: series.description,
+      notes: series.notes,
+      completed: false,
+      createdAt: now.toISOString(),
+      completedAt: null,
+      date,
+      priority: series.priority,
+      tags: series.tags,
+      checklist: resetChecklist(series.checklist),
+      dueTime: series.dueTime,
+      reminderMinutes: series.reminderMinutes,
+      seriesId: series.id,
+    }));
+}
+
+/**
+ * End a series before a date and continue it from that date with changes
+ * Used for "this and future occurrences" edits
+ * @returns The ended series (null if it has no occurrences left) and its continuation
+ */
+export function splitSeries(
+  series: RecurringSeries,
+  date: string,
+  changes: Pick<
+    RecurringSeries,
+    | 'description'
+    | 'notes'
+    | 'priority'
+    | 'tags'
+    | 'checklist'
+    | 'dueTime'
+    | 'reminderMinutes'
+    | 'rule'
+  >,
+  now: Date = new Date()
+): { ended: RecurringSeries | null; next: RecurringSeries } {
+  const previousDay = shiftDays(date, -1);
+  const pastCount =
+    date > series.startDate
+      ? getOccurrences(
+          { ...series, exceptions: [] },
+          series.startDate,
+          previousDay
+        ).length
+      : 0;
+
+  const ended =
+    pastCount > 0
+      ? {
+          ...series,
+          rule: { ...series.rule, count: undefined, until: previousDay },
+          exceptions: series.exceptions.filter((exception) => exception < date),
+        }
+      : null;
+
+  // Keep the total number of occurrences if the count was not changed
+  const count =
+    changes.rule.count !== undefined && changes.rule.count === series.rule.count
+      ? Math.max(changes.rule.count - pastCount, 1)
+      : changes.rule.count;
+
+  const next: RecurringSeries = {
+    id: crypto.randomUUID(),
+    description: changes.description,
+    notes: changes.notes,
+    priority: changes.priority,
+    tags: changes.tags,
+    checklist: resetChecklist(changes.checklist),
+    dueTime: changes.dueTime,
+    reminderMinutes: changes.reminderMinutes,
+    rule: { ...changes.rule, count },
+    startDate: date,
+    createdAt: now.toISOString(),
+    exceptions: series.exceptions.filter((exception) => exception >= date),
+  };
+
+  return { ended, next };
+}
+
+/**
+ * Describe a rule in words, e.g. "Monthly on the second Tuesday, 5 times"
+ */
+export function describeRule(rule: RecurrenceRule, startDate: string): string {
+  const every = (unit: string) =>
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = rule.interval === 1 ? 'Daily' : every('day');
+      break;
+
+    case 'weekly': {
+      const weekdays = [
+        ...(rule.weekdays ?? [toUTCDate(startDate).getUTCDay()]),
+      ].sort();
+      if (rule.interval === 1 && weekdays.join() === '1,2,3,4,5') {
+        text = 'Every weekday';
+      } else {
+        const days = weekdays.map((day) => WEEKDAY_NAMES[day]).join(', ');
+        text = `${rule.interval === 1 ? 'Weekly' : every('week')} on ${days}`;
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const prefix = rule.interval === 1 ? 'Monthly' : every('month');
+      text = rule.nthWeekday
+        ? `${prefix} on the ${ORDINALS[rule.nthWeekday.n]} ${WEEKDAY_NAMES[rule.nthWeekday.weekday]}`
+        : `${prefix} on day ${rule.monthDay ?? toUTCDate(startDate).getUTCDate()}`;
+      break;
+    }
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  }
+  if (rule.until) {
+    text += `, until ${rule.until}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,195 @@
+import type { Task } from './validation';
+
+/**
+ * Due times and reminders
+ * A task's dueTime is a local time of day on its date. Its reminder is due
+ * reminderMinutes before that; remindedAt records the last delivery, so each
+ * reminder fires once and fires again only if it is moved later.
+ */
+
+/**
+ * Reminder offsets offered in the task editor, in minutes before the due time
+ */
+export const REMINDER_OFFSETS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 1440, label: '1 day before' },
+];
+
+/**
+ * Reminders missed while the app was closed are still delivered for this long
+ */
+export const MISSED_REMINDER_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Longest wait between reminder checks
+ */
+export const REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+type ReminderFields = Pick<
+  Task,
+  'date' | 'completed' | 'dueTime' | 'reminderMinutes' | 'remindedAt'
+>;
+
+/**
+ * Get when a task is due
+ * @returns Local date and time, or null if the task has no due time
+ */
+export function getDueDate(task: Pick<Task, 'date' | 'dueTime'>): Date | null {
+  if (!task.dueTime) {
+    return null;
+  }
+
+  const [year = 0, month = 1, day = 1] = task.date.split('-').map(Number);
+  const [hours = 0, minutes = 0] = task.dueTime.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Get when a task's reminder is due
+ * @returns null for completed tasks and tasks without a due time or reminder
+ */
+export function getReminderTime(task: ReminderFields): Date | null {
+  const dueDate = getDueDate(task);
+  if (!dueDate || task.reminderMinutes === undefined || task.completed) {
+    return null;
+  }
+
+  return new Date(dueDate.getTime() - task.reminderMinutes * 60 * 1000);
+}
+
+/**
+ * Check whether a reminder was already delivered for its current time
+ */
+function isReminded(task: ReminderFields, reminderTime: Date): boolean {
+  return (
+    task.remindedAt !== undefined && new Date(task.remindedAt) >= reminderTime
+  );
+}
+
+/**
+ * Get the tasks whose reminders should be delivered now
+ * Reminders older than MISSED_REMINDER_WINDOW_MS are skipped
+ */
+export function getDueReminders<T extends ReminderFields>(
+  tasks: T[],
+  now: Date = new Date()
+): T[] {
+  return tasks.filter((task) => {
+    const reminderTime = getReminderTime(task);
+    return (
+      reminderTime !== null &&
+      reminderTime <= now &&
+      now.getTime() - reminderTime.getTime() <= MISSED_REMINDER_WINDOW_MS &&
+      !isReminded(task, reminderTime)
+    );
+  });
+}
+
+/**
+ * Get the time of the next reminder after now
+ * @returns null if no reminder is scheduled
+ */
+export function getNextReminderTime(
+  tasks: ReminderFields[],
+  now: Date = new Date()
+): Date | null {
+  let next: Date | null = null;
+
+  for (const task of tasks) {
+    const reminderTime = getReminderTime(task);
+    if (reminderTime && reminderTime > now && !isReminded(task, reminderTime)) {
+      if (!next || reminderTime < next) {
+        next = reminderTime;
+      }
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Get how long to wait before checking for reminders again
+ * Waits until the next reminder but at most REMINDER_CHECK_INTERVAL_MS, so
+ * reminders edited in another tab or missed while the computer slept are picked up
+ */
+export function getReminderDelay(
+  tasks: ReminderFields[],
+  now: Date = new Date()
+): number {
+  const next = getNextReminderTime(tasks, now);
+  if (!next) {
+    return REMINDER_CHECK_INTERVAL_MS;
+  }
+
+  return Math.min(next.getTime() - now.getTime(), REMINDER_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Describe a reminder for its notification
+ * e.g. "Due at 09:30", "Due tomorrow at 09:30", "Overdue since 09:30"
+ */
+export function describeReminder(
+  task: Pick<Task, 'date' | 'dueTime'>,
+  now: Date = new Date()
+): string {
+  const dueDate = getDueDate(task);
+  if (!dueDate) {
+    return '';
+  }
+
+  if (dueDate < now) {
+    return `Overdue since ${task.dueTime}`;
+  }
+
+  const tomorrow = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + 1
+  );
+  if (dueDate >= tomorrow) {
+    const dayAfter = new Date(
+      tomorrow.getFullYear(),
+      tomorrow.getMonth(),
+      tomorrow.getDate() + 1
+    );
+    return dueDate < dayAfter
+      ? `Due tomorrow at ${task.dueTime}`
+      : `Due ${task.date} at ${task.dueTime}`;
+  }
+
+  return `Due at ${task.dueTime}`;
+}
+
+/**
+ * Check whether reminders can be shown as system notifications
+ */
+export function canNotify(): boolean {
+  return (
+    typeof Notification !== 'undefined' && Notification.permission === 'granted'
+  );
+}
+
+/**
+ * Ask for permission to show system notifications, once
+ * Reminders fall back to in-app toasts if it is denied
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission | null> {
+  if (typeof Notification === 'undefined') {
+    return null;
+  }
+
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return null;
+  }
+}
@@ -0,0 +1,131 @@
+import type { Tag, Task } from './validation';
+import { formatDate, getDatesInRange } from './dateUtils';
+
+/**
+ * Report-style exports
+ * Filters tasks by date range and status and renders them as CSV or as a
+ * Markdown checklist grouped by day. CSV lists tag names separated by "; ".
+ */
+
+export type ReportStatus = 'all' | 'pending' | 'completed';
+
+export type ReportFormat = 'csv' | 'markdown';
+
+export interface ReportFilter {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  status: ReportStatus;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'description',
+  'completed',
+  'createdAt',
+  'completedAt',
+  'date',
+  'dueTime',
+  'priority',
+  'tags',
+  'notes',
+] as const;
+
+/**
+ * Select the tasks in a report, ordered by date then creation time
+ */
+export function filterTasksForReport(
+  tasks: Task[],
+  filter: ReportFilter
+): Task[] {
+  return tasks
+    .filter(
+      (task) => task.date >= filter.startDate && task.date <= filter.endDate
+    )
+    .filter((task) => {
+      if (filter.status === 'pending') return !task.completed;
+      if (filter.status === 'completed') return task.completed;
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+/**
+ * Quote a CSV field if needed (RFC 4180)
+ */
+export function escapeCSVField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render tasks as CSV with a header row and CRLF line breaks
+ */
+export function tasksToCSV(tasks: Task[], tags: Tag[] = []): string {
+  const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+  const getField = (
+    task: Task,
+    column: (typeof CSV_COLUMNS)[number]
+  ): string => {
+    if (column === 'tags') {
+      return task.tags.flatMap((id) => tagNames.get(id) ?? []).join('; ');
+    }
+    return String(task[column] ?? '');
+  };
+
+  const rows = tasks.map((task) =>
+    CSV_COLUMNS.map((column) => escapeCSVField(getField(task, column))).join(
+      ','
+    )
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Render tasks as a Markdown checklist with one section per day
+ * Days without tasks are left out
+ */
+export function tasksToMarkdown(tasks: Task[], filter: ReportFilter): string {
+  const range =
+    filter.startDate === filter.endDate
+      ? formatDate(filter.startDate, 'MMM d, yyyy')
+      : `${formatDate(filter.startDate, 'MMM d, yyyy')} – ${formatDate(filter.endDate, 'MMM d, yyyy')}`;
+  const lines = [`# Tasks: ${range}`];
+
+  for (const date of getDatesInRange(filter.startDate, filter.endDate)) {
+    const dayTasks = tasks.filter((task) => task.date === date);
+    if (dayTasks.length === 0) {
+      continue;
+    }
+
+    lines.push('', `## ${formatDate(date, 'EEEE, MMM d')}`, '');
+    for (const task of dayTasks) {
+      // Keep multi-line descriptions inside their list item
+      const description = task.description.replace(/\s*\r?\n\s*/g, ' ');
+      lines.push(`- [${task.completed ? 'x' : ' '}] ${description}`);
+    }
+  }
+
+  if (tasks.length === 0) {
+    lines.push('', '_No tasks_');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a filtered report in the given format
+ */
+export function createReport(
+  tasks: Task[],
+  filter: ReportFilter,
+  format: ReportFormat,
+  tags: Tag[] = []
+): string {
+  const selected = filterTasksForReport(tasks, filter);
+  return format === 'csv'
+    ? tasksToCSV(selected, tags)
+    : tasksToMarkdown(selected, filter);
+}
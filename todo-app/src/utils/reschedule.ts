@@ -0,0 +1,79 @@
+import { resetChecklist } from './checklist';
+import { normalizeToUTC } from './dateUtils';
+import { getPositionAfter } from './ordering';
+import type { Task } from './validation';
+
+/**
+ * Moving and copying tasks to another date
+ * A moved task keeps its id and state; a copy is a new pending task. Either
+ * way the task is placed last on its new date. Moving a recurring occurrence
+ * detaches it from its series, which records the old date as an exception so
+ * the occurrence is not created again.
+ */
+
+export type RescheduleMode = 'move' | 'copy';
+
+/**
+ * dataTransfer type of a dragged task, carrying its id
+ */
+export const TASK_DRAG_TYPE = 'application/x-daily-todo-task';
+
+function shiftDays(dateString: string, days: number): string {
+  const date = new Date(`${dateString}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return normalizeToUTC(date);
+}
+
+/**
+ * Quick target dates offered next to the calendar
+ * Next Monday is always after today, so on a Monday it is a week away
+ */
+export function getQuickDates(
+  today: string
+): { label: string; date: string }[] {
+  const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+  const daysToMonday = (8 - weekday) % 7 || 7;
+
+  return [
+    { label: 'Tomorrow', date: shiftDays(today, 1) },
+    { label: 'Next Monday', date: shiftDays(today, daysToMonday) },
+    { label: 'Next week', date: shiftDays(today, 7) },
+  ];
+}
+
+/**
+ * Move a task to a date
+ * Carry-over details are dropped, since the user picked the date
+ */
+export function moveTaskToDate(task: Task, date: string, tasks: Task[]): Task {
+  return {
+    ...task,
+    date,
+    position: getPositionAfter(
+      tasks.filter((t) => t.date === date && t.id !== task.id)
+    ),
+    seriesId: undefined,
+    originalDate: undefined,
+    rolloverCount: undefined,
+  };
+}
+
+/**
+ * Copy a task to a date as a new pending task
+ */
+export function copyTaskToDate(
+  task: Task,
+  date: string,
+  tasks: Task[],
+  now: Date = new Date()
+): Task {
+  return {
+    ...moveTaskToDate(task, date, tasks),
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    completed: false,
+    completedAt: null,
+    checklist: resetChecklist(task.checklist),
+    remindedAt: undefined,
+  };
+}
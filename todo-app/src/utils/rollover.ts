@@ -0,0 +1,97 @@
+import type { Task } from './validation';
+
+/**
+ * Carry-over of unfinished tasks
+ * Pending tasks left on past dates are moved (or copied) to today. The
+ * date of the last run is stored in the preferences, so each past date is
+ * only processed once no matter how often the app reloads.
+ */
+
+export type RolloverMode = 'off' | 'move' | 'copy';
+
+export const ROLLOVER_MODES: { value: RolloverMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'move', label: 'Move to today' },
+  { value: 'copy', label: 'Copy to today' },
+];
+
+export interface RolloverResult {
+  tasks: Task[];
+  carried: Task[]; // Tasks as they were before being carried over
+}
+
+/**
+ * Check whether a task should be carried over
+ * Recurring occurrences are skipped, since their series repeats them anyway
+ */
+function isCandidate(task: Task, today: string, since: string | null): boolean {
+  return (
+    !task.completed &&
+    !task.seriesId &&
+    task.date < today &&
+    (since === null || task.date >= since)
+  );
+}
+
+function carryOver(task: Task, today: string): Task {
+  return {
+    ...task,
+    date: today,
+    originalDate: task.originalDate ?? task.date,
+    rolloverCount: (task.rolloverCount ?? 0) + 1,
+    position: undefined, // Positions are per day; carried tasks go last
+  };
+}
+
+/**
+ * Carry pending tasks from past dates over to today
+ * @param since Date of the previous run; earlier dates were already processed
+ */
+export function rolloverTasks(
+  tasks: Task[],
+  today: string,
+  mode: RolloverMode,
+  since: string | null = null,
+  now: Date = new Date()
+): RolloverResult {
+  if (mode === 'off') {
+    return { tasks, carried: [] };
+  }
+
+  const carried = tasks.filter((task) => isCandidate(task, today, since));
+  if (carried.length === 0) {
+    return { tasks, carried };
+  }
+
+  if (mode === 'move') {
+    return {
+      tasks: tasks.map((task) =>
+        isCandidate(task, today, since) ? carryOver(task, today) : task
+      ),
+      carried,
+    };
+  }
+
+  const copies = carried.map((task) => ({
+    ...carryOver(task, today),
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+  }));
+
+  return { tasks: [...tasks, ...copies], carried };
+}
+
+/**
+ * Summarize a rollover, e.g. "3 tasks carried over from yesterday"
+ */
+export function describeRollover(carried: Task[], today: string): string {
+  const yesterday = new Date(`${today}T00:00:00.000Z`);
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  const fromYesterday = carried.every(
+    (task) => task.date === yesterday.toISOString().split('T')[0]
+  );
+
+  return `${carried.length} task${carried.length !== 1 ? 's' : ''} carried over from ${
+    fromYesterday ? 'yesterday' : 'earlier days'
+  }`;
+}
@@ -0,0 +1,378 @@
+import type { Tag, Task } from './validation';
+
+/**
+ * Full-text search over tasks of every date
+ * An inverted index maps each word of a task's description, notes and tag
+ * names to the tasks containing it. Words are compared without case or
+ * diacritics ("cafe" finds "Café"), and every query word matches the words it
+ * starts ("meet" finds "meeting"); a task must match all query words.
+ * The index is updated by `sync`, which only re-indexes tasks whose object
+ * changed, so searching never scans the task list. A filter, such as a parsed
+ * query, narrows the words' matches further, or every task without words.
+ */
+
+export const SEARCH_RESULT_LIMIT = 100;
+
+// Characters of a snippet kept around the first match in notes
+const SNIPPET_CONTEXT = 40;
+
+// New words merged one by one into the sorted word list; more are sorted in
+const MAX_WORDS_MERGED = 1000;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+// Words of text that was not normalized, with their combining marks
+const TEXT_WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}\p{M}]*/gu;
+
+export type SearchField = 'description' | 'notes' | 'tags';
+
+export interface SearchResult {
+  tasks: Task[]; // Newest date first, at most the limit
+  total: number; // Matching tasks, including those over the limit
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchIndex {
+  sync: (tasks: Task[], tags: Tag[]) => void;
+  search: (
+    query: string,
+    limit?: number,
+    filter?: (task: Task) => boolean
+  ) => SearchResult;
+  readonly size: number;
+}
+
+/**
+ * Lowercase a text and strip its diacritics
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Split a text into normalized words
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(WORD_PATTERN) ?? [];
+}
+
+// Index of the first entry of a sorted array not less than a value
+function lowerBound(sorted: string[], value: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((sorted[mid] ?? '') < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function getTaskText(task: Task, tagNames: Map<string, string>): string {
+  const names = task.tags.map((id) => tagNames.get(id) ?? '');
+  return [task.description, task.notes, ...names].join(' ');
+}
+
+/**
+ * Create an empty search index
+ */
+export function createSearchIndex(): SearchIndex {
+  const documents = new Map<string, { task: Task; words: Set<string> }>();
+  const postings = new Map<string, Set<Task>>(); // Word → tasks with it
+  // Indexed words, sorted for prefix lookups. Removed words are only dropped
+  // when the list is sorted again; words added since the last search wait in
+  // newWords, so a batch of updates is sorted once
+  let words: string[] = [];
+  let newWords: string[] = [];
+  let tagNames = new Map<string, string>();
+
+  const addDocument = (task: Task) => {
+    const taskWords = new Set(tokenize(getTaskText(task, tagNames)));
+    documents.set(task.id, { task, words: taskWords });
+
+    for (const word of taskWords) {
+      const wordTasks = postings.get(word);
+      if (wordTasks) {
+        wordTasks.add(task);
+        continue;
+      }
+      postings.set(word, new Set([task]));
+      newWords.push(word);
+    }
+  };
+
+  const removeDocument = (id: string) => {
+    const document = documents.get(id);
+    if (!document) {
+      return;
+    }
+    documents.delete(id);
+
+    for (const word of document.words) {
+      const wordTasks = postings.get(word);
+      wordTasks?.delete(document.task);
+      if (wordTasks?.size === 0) {
+        postings.delete(word);
+      }
+    }
+  };
+
+  const mergeNewWords = () => {
+    if (newWords.length > MAX_WORDS_MERGED) {
+      words = [...new Set([...words, ...newWords])]
+        .filter((word) => postings.has(word))
+        .sort();
+    } else {
+      for (const word of newWords) {
+        const index = lowerBound(words, word);
+        if (words[index] !== word) {
+          words.splice(index, 0, word);
+        }
+      }
+    }
+    newWords = [];
+  };
+
+  // Tasks of each word starting with the prefix; a task may be in several
+  const findPrefix = (prefix: string): Set<Task>[] => {
+    if (newWords.length > 0) {
+      mergeNewWords();
+    }
+
+    const found: Set<Task>[] = [];
+    for (let i = lowerBound(words, prefix); i < words.length; i++) {
+      const word = words[i] ?? '';
+      if (!word.startsWith(prefix)) {
+        break;
+      }
+      const wordTasks = postings.get(word);
+      if (wordTasks) {
+        found.push(wordTasks);
+      }
+    }
+    return found;
+  };
+
+  return {
+    get size() {
+      return documents.size;
+    },
+
+    sync(tasks: Task[], tags: Tag[]) {
+      // Tasks with a renamed or removed tag are re-indexed too
+      const updatedTagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+      const changedTagIds = new Set(
+        [...tagNames.keys(), ...updatedTagNames.keys()].filter(
+          (id) => tagNames.get(id) !== updatedTagNames.get(id)
+        )
+      );
+      tagNames = updatedTagNames;
+
+      const ids = new Set<string>();
+      for (const task of tasks) {
+        ids.add(task.id);
+        const document = documents.get(task.id);
+        const hasChangedTag =
+          changedTagIds.size > 0 &&
+          task.tags.some((id) => changedTagIds.has(id));
+        if (document?.task !== task || hasChangedTag) {
+          removeDocument(task.id);
+          addDocument(task);
+        }
+      }
+
+      for (const id of [...documents.keys()]) {
+        if (!ids.has(id)) {
+          removeDocument(id);
+        }
+      }
+    },
+
+    search(
+      query: string,
+      limit: number = SEARCH_RESULT_LIMIT,
+      filter?: (task: Task) => boolean
+    ) {
+      const queryWords = [...new Set(tokenize(query))];
+      if (queryWords.length === 0 && !filter) {
+        return { tasks: [], total: 0 };
+      }
+
+      // Go through the tasks of the rarest query word, checking the others
+      const allTasks = () => [
+        new Set([...documents.values()].map((document) => document.task)),
+      ];
+      const [rarest = allTasks(), ...others] = queryWords
+        .map(findPrefix)
+        .map((sets) => ({
+          sets,
+          size: sets.reduce((total, set) => total + set.size, 0),
+        }))
+        .sort((a, b) => a.size - b.size)
+        .map(({ sets }) => sets);
+      const rest = others.map((sets) =>
+        sets.length === 1
+          ? (sets[0] ?? new Set<Task>())
+          : new Set(sets.flatMap((set) => [...set]))
+      );
+      const seen = rarest.length > 1 ? new Set<Task>() : null;
+      const matching: Task[] = [];
+      const countByDate = new Map<string, number>();
+
+      for (const wordTasks of rarest) {
+        for (const task of wordTasks) {
+          if (
+            seen?.has(task) ||
+            !rest.every((set) => set.has(task)) ||
+            (filter && !filter(task))
+          ) {
+            continue;
+          }
+          seen?.add(task);
+          matching.push(task);
+          countByDate.set(task.date, (countByDate.get(task.date) ?? 0) + 1);
+        }
+      }
+
+      // Only the tasks of the newest dates up to the limit need sorting
+      let shown = 0;
+      let oldestShown = '';
+      for (const date of [...countByDate.keys()].sort().reverse()) {
+        oldestShown = date;
+        shown += countByDate.get(date) ?? 0;
+        if (shown >= limit) {
+          break;
+        }
+      }
+
+      const results = matching
+        .filter((task) => task.date >= oldestShown)
+        .sort(
+          (a, b) =>
+            b.date.localeCompare(a.date) ||
+            a.createdAt.localeCompare(b.createdAt)
+        )
+        .slice(0, limit);
+
+      return { tasks: results, total: matching.length };
+    },
+  };
+}
+
+/**
+ * Split a text into segments, marking the words that start with a query word
+ * Matching ignores case and diacritics, while segments keep the original text
+ */
+export function highlightText(text: string, query: string): HighlightSegment[] {
+  const queryWords = tokenize(query);
+  if (queryWords.length === 0 || !text) {
+    return text ? [{ text, match: false }] : [];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(TEXT_WORD_PATTERN)) {
+    const start = word.index ?? 0;
+    const normalized = normalizeText(word[0]);
+    const prefix = queryWords
+      .filter((queryWord) => normalized.startsWith(queryWord))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!prefix) {
+      continue;
+    }
+
+    // Find where the matched prefix ends in the original word
+    const wordEnd = start + word[0].length;
+    let end = start;
+    while (
+      end < wordEnd &&
+      normalizeText(text.slice(start, end)).length < prefix.length
+    ) {
+      end++;
+    }
+    // Keep combining marks with their letter
+    while (end < wordEnd && /\p{M}/u.test(text.charAt(end))) {
+      end++;
+    }
+
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: text.slice(start, end), match: true });
+    last = end;
+  }
+
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
+
+/**
+ * Get the part of a text around its first match, on one line
+ * @returns null if the text does not match the query
+ */
+export function getSnippet(
+  text: string,
+  query: string
+): HighlightSegment[] | null {
+  const line = text.replace(/\s+/g, ' ').trim();
+  const segments = highlightText(line, query);
+  const firstMatch = segments.findIndex((segment) => segment.match);
+  if (firstMatch < 0) {
+    return null;
+  }
+
+  const offset = segments
+    .slice(0, firstMatch)
+    .reduce((length, s) => length + s.text.length, 0);
+  const start = Math.max(0, offset - SNIPPET_CONTEXT);
+  const end = Math.min(line.length, offset + SNIPPET_CONTEXT * 2);
+  const snippet = highlightText(line.slice(start, end), query);
+
+  if (start > 0) {
+    snippet.unshift({ text: '…', match: false });
+  }
+  if (end < line.length) {
+    snippet.push({ text: '…', match: false });
+  }
+  return snippet;
+}
+
+/**
+ * Fields of a task that match a query, to show why it was found
+ */
+export function getMatchedFields(
+  task: Task,
+  tags: Tag[],
+  query: string
+): SearchField[] {
+  const queryWords = tokenize(query);
+  const matches = (text: string) => {
+    const textWords = tokenize(text);
+    return queryWords.some((queryWord) =>
+      textWords.some((word) => word.startsWith(queryWord))
+    );
+  };
+  const tagNames = tags
+    .filter((tag) => task.tags.includes(tag.id))
+    .map((tag) => tag.name);
+
+  const fields: SearchField[] = [];
+  if (matches(task.description)) {
+    fields.push('description');
+  }
+  if (matches(task.notes)) {
+    fields.push('notes');
+  }
+  if (tagNames.some(matches)) {
+    fields.push('tags');
+  }
+  return fields;
+}
@@ -1,64 +1,199 @@
 import { AppDataSchema, type AppData } from './validation';
-
-const STORAGE_KEY = 'todo-app-data';
-const BACKUP_KEY = 'todo-app-data-backup';
+import { getStorageDriver } from './storageDriver';
+import {
+  STORAGE_KEY,
+  BACKUP_KEY,
+  PRE_MIGRATION_BACKUP_KEY,
+  QUARANTINE_KEY,
+  CORRUPTED_BACKUP_KEY,
+  SNAPSHOT_INDEX_KEY,
+  HISTORY_KEY,
+  TRASH_KEY,
+  SERIES_KEY,
+} from './storageKeys';
+import {
+  needsMigration,
+  runMigrations,
+  type MigrationReport,
+} from './migrations';
+import {
+  isSalvageable,
+  salvageAppData,
+  type QuarantinedRecord,
+  type RecoveryReport,
+} from './recovery';
+import {
+  takeSnapshot,
+  removeOldestSnapshot,
+  readSnapshotIndex,
+  writeSnapshotIndex,
+  getSnapshotKey,
+  parseSnapshotIndex,
+  type BackupSettings,
+  type SnapshotIndex,
+  type SnapshotReason,
+} from './backups';
+import { createEmptyHistory, parseHistory, type TaskHistory } from './history';
+import { parseTrash, purgeExpiredTasks, type Trash } from './trash';
+import { parseSeries, type RecurringSeries } from './recurrence';
 
 /**
  * Storage utility for atomic writes and corruption handling
+ * All operations go through the active StorageDriver
  */
 
 /**
- * Atomically write data to localStorage with backup
- * @throws {DOMException} If quota exceeded
+ * Read stored data, upgrading older schema versions in place
+ * The original data is kept under a pre-migration backup key
+ * @returns Unvalidated data (null if storage is empty) and the report of the
+ * migration, if one ran
  */
-export async function atomicWrite(data: AppData): Promise<void> {
+async function readAndMigrate(): Promise<{
+  data: unknown;
+  migration: MigrationReport | null;
+}> {
+  const driver = getStorageDriver();
+  const parsed = await driver.read(STORAGE_KEY);
+
+  if (parsed === null || !needsMigration(parsed)) {
+    return { data: parsed, migration: null };
+  }
+
   try {
-    const serialized = JSON.stringify(data);
+    const { data, steps, fromVersion } = runMigrations(parsed);
+    const backupKey = `${PRE_MIGRATION_BACKUP_KEY}-${fromVersion}`;
 
-    // Validate before writing
-    const validationResult = AppDataSchema.safeParse(data);
-    if (!validationResult.success) {
-      throw new Error('Invalid data structure');
+    await driver.transaction(async (tx) => {
+      await tx.write(backupKey, parsed);
+      await tx.write(STORAGE_KEY, data);
+    });
+
+    const migration: MigrationReport = {
+      fromVersion,
+      toVersion: steps[steps.length - 1]?.to ?? fromVersion,
+      steps,
+      backupKey,
+      migratedAt: new Date().toISOString(),
+    };
+
+    return { data, migration };
+  } catch (error) {
+    // Leave the data untouched; validation will report it as corrupted
+    console.error('Storage migration failed:', error);
+    return { data: parsed, migration: null };
+  }
+}
+
+/**
+ * Upgrade stored data written by an older schema version
+ * Called during app initialization so the upgrade can be reported to the user
+ * @returns Migration report, or null if the data was already up to date
+ */
+export async function migrateStorage(): Promise<MigrationReport | null> {
+  try {
+    const { migration } = await readAndMigrate();
+    return migration;
+  } catch {
+    return null; // Unreadable data is reported by validateStorage
+  }
+}
+
+export interface WriteOptions {
+  snapshotReason?: SnapshotReason; // Anything but 'scheduled' always snapshots the previous data
+  history?: TaskHistory; // Undo history to store in the same transaction
+  trash?: Trash; // Trash to store in the same transaction
+  series?: RecurringSeries[]; // Recurring series to store in the same transaction
+}
+
+function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.code === 22)
+  );
+}
+
+/**
+ * Add data that was just overwritten to the backup history, on a best-effort basis
+ * Runs after the write it protects so a failed snapshot never rolls it back;
+ * when storage is full, the oldest snapshots make room for the new one
+ */
+async function snapshotPreviousData(
+  data: unknown,
+  reason: SnapshotReason
+): Promise<void> {
+  const driver = getStorageDriver();
+
+  for (;;) {
+    try {
+      await driver.transaction((tx) => takeSnapshot(tx, data, reason));
+      return;
+    } catch (error) {
+      const freed =
+        isQuotaExceededError(error) &&
+        (await driver.transaction(removeOldestSnapshot).catch(() => false));
+      if (!freed) {
+        console.error('Failed to add a snapshot to the backup history:', error);
+        return;
+      }
     }
+  }
+}
+
+/**
+ * Atomically write data with backup
+ * The previous data is then added to the backup history if a snapshot is due
+ * @throws {DOMException} If quota exceeded
+ */
+export async function atomicWrite(
+  data: AppData,
+  { snapshotReason = 'scheduled', history, trash, series }: WriteOptions = {}
+): Promise<void> {
+  // Validate before writing
+  const validationResult = AppDataSchema.safeParse(data);
+  if (!validationResult.success) {
+    throw new Error('Invalid data structure');
+  }
 
-    // Step 1: Save backup of current data
-    const currentData = localStorage.getItem(STORAGE_KEY);
-    if (currentData) {
-      localStorage.setItem(BACKUP_KEY, currentData);
+  // The driver rolls back every step if any of them fails
+  const previousData = await getStorageDriver().transaction(async (tx) => {
+    // Step 1: Save backup of current data (skipped if unreadable)
+    const currentData = await tx.read(STORAGE_KEY).catch(() => null);
+    if (currentData !== null) {
+      await tx.write(BACKUP_KEY, currentData);
     }
 
-    // Step 2: Write new data
-    localStorage.setItem(STORAGE_KEY, serialized);
+    // Step 2: Write new data (drivers verify the write)
+    await tx.write(STORAGE_KEY, data);
 
-    // Step 3: Verify write succeeded
-    const written = localStorage.getItem(STORAGE_KEY);
-    if (written !== serialized) {
-      throw new Error('Write verification failed');
+    if (history) {
+      await tx.write(HISTORY_KEY, history);
     }
-  } catch (error) {
-    // Rollback to backup if write failed
-    const backup = localStorage.getItem(BACKUP_KEY);
-    if (backup) {
-      localStorage.setItem(STORAGE_KEY, backup);
+    if (trash) {
+      await tx.write(TRASH_KEY, trash);
+    }
+    if (series) {
+      await tx.write(SERIES_KEY, series);
     }
 
-    // Re-throw to let caller handle
-    throw error;
+    return currentData;
+  });
+
+  if (previousData !== null) {
+    await snapshotPreviousData(previousData, snapshotReason);
   }
 }
 
 /**
- * Read and validate data from localStorage
+ * Read and validate data from storage
  * @returns {AppData | null} Parsed data or null if corrupted
  */
-export function readStorage(): AppData | null {
+export async function readStorage(): Promise<AppData | null> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) {
+    const { data: parsed } = await readAndMigrate();
+    if (parsed === null) {
       return null;
     }
 
-    const parsed = JSON.parse(raw);
     const validationResult = AppDataSchema.safeParse(parsed);
 
     if (!validationResult.success) {
@@ -74,16 +209,15 @@ export function readStorage(): AppData | null {
 }
 
 /**
- * Validate storage integrity without reading full data
+ * Validate storage integrity
  */
-export function validateStorage(): boolean {
+export async function validateStorage(): Promise<boolean> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) {
+    const { data: parsed } = await readAndMigrate();
+    if (parsed === null) {
       return true; // Empty is valid
     }
 
-    const parsed = JSON.parse(raw);
     const validationResult = AppDataSchema.safeParse(parsed);
 
     return validationResult.success;
@@ -95,23 +229,18 @@ export function validateStorage(): boolean {
 /**
  * Get storage usage information
  */
-export function getStorageUsage(): {
+export async function getStorageUsage(): Promise<{
   used: number;
   quota: number;
   percentage: number;
-} {
+}> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    const used = raw ? new Blob([raw]).size : 0;
-
-    // Estimate quota (most browsers: 5-10 MB)
-    // Try to detect actual quota if available
-    const quota = 10 * 1024 * 1024; // 10 MB default
+    const { used, quota } = await getStorageDriver().estimate();
 
     return {
       used,
       quota,
-      percentage: Math.round((used / quota) * 100),
+      percentage: quota > 0 ? Math.round((used / quota) * 100) : 0,
     };
   } catch {
     return {
@@ -125,49 +254,250 @@ export function getStorageUsage(): {
 /**
  * Clear all storage data
  */
-export function clearStorage(): void {
-  localStorage.removeItem(STORAGE_KEY);
-  localStorage.removeItem(BACKUP_KEY);
+export async function clearStorage(): Promise<void> {
+  await getStorageDriver().transaction(async (tx) => {
+    await tx.remove(STORAGE_KEY);
+    await tx.remove(BACKUP_KEY);
+    await tx.remove(HISTORY_KEY);
+    await tx.remove(TRASH_KEY);
+    await tx.remove(SERIES_KEY);
+  });
+}
+
+/**
+ * Read the undo/redo history
+ */
+export async function readHistory(): Promise<TaskHistory> {
+  const raw = await getStorageDriver()
+    .read(HISTORY_KEY)
+    .catch(() => null);
+  return parseHistory(raw);
+}
+
+/**
+ * Read the trash of soft-deleted tasks
+ */
+export async function readTrash(): Promise<Trash> {
+  const raw = await getStorageDriver()
+    .read(TRASH_KEY)
+    .catch(() => null);
+  return parseTrash(raw);
+}
+
+/**
+ * Read the recurring task series
+ */
+export async function readSeries(): Promise<RecurringSeries[]> {
+  const raw = await getStorageDriver()
+    .read(SERIES_KEY)
+    .catch(() => null);
+  return parseSeries(raw);
+}
+
+/**
+ * Permanently delete trashed tasks older than the retention period
+ * @returns The remaining trash and how many tasks were purged
+ */
+export async function purgeTrash(now: Date = new Date()): Promise<{
+  trash: Trash;
+  purgedCount: number;
+}> {
+  return getStorageDriver().transaction(async (tx) => {
+    const result = purgeExpiredTasks(
+      parseTrash(await tx.read(TRASH_KEY).catch(() => null)),
+      now
+    );
+    if (result.purgedCount > 0) {
+      await tx.write(TRASH_KEY, result.trash);
+    }
+    return result;
+  });
+}
+
+/**
+ * Change how long trashed tasks are kept, purging expired ones
+ */
+export async function updateTrashRetention(
+  retentionDays: number
+): Promise<Trash> {
+  return getStorageDriver().transaction(async (tx) => {
+    const trash = parseTrash(await tx.read(TRASH_KEY).catch(() => null));
+    const { trash: updated } = purgeExpiredTasks({ ...trash, retentionDays });
+    await tx.write(TRASH_KEY, updated);
+    return updated;
+  });
 }
 
 /**
  * Export raw storage data for recovery
  */
-export function exportRawData(): string {
-  const raw = localStorage.getItem(STORAGE_KEY);
+export async function exportRawData(): Promise<string> {
+  const raw = await getStorageDriver().readRaw(STORAGE_KEY);
   return raw || '{}';
 }
 
 /**
- * Attempt to recover from backup
+ * List snapshots in the backup history (newest first) and its settings
+ */
+export async function listSnapshots(): Promise<SnapshotIndex> {
+  try {
+    return parseSnapshotIndex(
+      await getStorageDriver().read(SNAPSHOT_INDEX_KEY)
+    );
+  } catch {
+    return parseSnapshotIndex(null);
+  }
+}
+
+/**
+ * Read a snapshot, migrating it if it predates the current schema
+ * @returns Snapshot data, or null if missing or invalid
  */
-export function recoverFromBackup(): boolean {
+export async function readSnapshot(id: string): Promise<AppData | null> {
   try {
-    const backup = localStorage.getItem(BACKUP_KEY);
-    if (!backup) {
-      return false;
+    let raw = await getStorageDriver().read(getSnapshotKey(id));
+    if (raw !== null && needsMigration(raw)) {
+      raw = runMigrations(raw).data;
     }
 
-    // Validate backup
-    const parsed = JSON.parse(backup);
-    const validationResult = AppDataSchema.safeParse(parsed);
+    const validationResult = AppDataSchema.safeParse(raw);
+    return validationResult.success ? validationResult.data : null;
+  } catch {
+    return null;
+  }
+}
 
-    if (!validationResult.success) {
-      return false;
+/**
+ * Restore snapshot X
+ * The current data is added to the backup history so the restore can be reverted
+ * @throws {Error} If the snapshot is missing or invalid
+ */
+export async function restoreSnapshot(id: string): Promise<AppData> {
+  const snapshot = await readSnapshot(id);
+  if (!snapshot) {
+    throw new Error('Backup not found or invalid');
+  }
+
+  const restored: AppData = {
+    ...snapshot,
+    metadata: {
+      ...snapshot.metadata,
+      lastModified: new Date().toISOString(),
+    },
+  };
+
+  const previousData = await getStorageDriver().transaction(async (tx) => {
+    const currentData = await tx.read(STORAGE_KEY).catch(() => null);
+    await tx.write(STORAGE_KEY, restored);
+    // The snapshot replaces undo for restores
+    await tx.write(HISTORY_KEY, createEmptyHistory());
+    return currentData;
+  });
+  await snapshotPreviousData(previousData, 'before-restore');
+
+  return restored;
+}
+
+/**
+ * Replace the stored data with imported data
+ * Corrupted data is preserved before being overwritten; valid data is
+ * snapshotted so the import can be undone from the backup history
+ */
+export async function importAppData(data: AppData): Promise<void> {
+  const driver = getStorageDriver();
+
+  if (!(await validateStorage())) {
+    const original = await driver.readRaw(STORAGE_KEY);
+    if (original !== null) {
+      await driver.writeRaw(CORRUPTED_BACKUP_KEY, original);
     }
+  }
 
-    // Restore from backup
-    localStorage.setItem(STORAGE_KEY, backup);
-    return true;
-  } catch {
-    return false;
+  // The snapshot replaces undo for imports
+  await atomicWrite(data, {
+    snapshotReason: 'before-import',
+    history: createEmptyHistory(),
+  });
+}
+
+/**
+ * Change how many snapshots are kept and how often they are taken
+ */
+export async function updateBackupSettings(
+  settings: BackupSettings
+): Promise<SnapshotIndex> {
+  return getStorageDriver().transaction(async (tx) => {
+    const index = await readSnapshotIndex(tx);
+    const updated = { ...index, settings };
+    await writeSnapshotIndex(tx, updated);
+    return parseSnapshotIndex(await tx.read(SNAPSHOT_INDEX_KEY));
+  });
+}
+
+/**
+ * Salvage valid tasks from corrupted storage
+ * Tries the main data first, then the backup. The corrupted original is
+ * preserved and invalid task records are appended to the quarantine.
+ * @returns Recovery report, or null if nothing could be salvaged
+ */
+export async function recoverCorruptedStorage(): Promise<RecoveryReport | null> {
+  const driver = getStorageDriver();
+  const sources = [
+    { source: 'data' as const, key: STORAGE_KEY },
+    { source: 'backup' as const, key: BACKUP_KEY },
+  ];
+
+  for (const { source, key } of sources) {
+    const raw = await driver.read(key).catch(() => null);
+    if (!isSalvageable(raw)) {
+      continue;
+    }
+
+    const { data, repaired, quarantined, preferencesReset } =
+      salvageAppData(raw);
+    if (data.tasks.length === 0) {
+      continue;
+    }
+
+    const original = await driver.readRaw(STORAGE_KEY);
+
+    await driver.transaction(async (tx) => {
+      if (original !== null) {
+        await tx.writeRaw(CORRUPTED_BACKUP_KEY, original);
+      }
+
+      if (quarantined.length > 0) {
+        const existing = await tx.read(QUARANTINE_KEY).catch(() => null);
+        const records = Array.isArray(existing)
+          ? (existing as QuarantinedRecord[])
+          : [];
+        await tx.write(QUARANTINE_KEY, [...records, ...quarantined]);
+      }
+
+      await tx.write(STORAGE_KEY, data);
+    });
+
+    const report: RecoveryReport = {
+      source,
+      recoveredCount: data.tasks.length,
+      repaired,
+      quarantined,
+      preferencesReset,
+      recoveredAt: data.metadata.lastModified,
+    };
+
+    return report;
   }
+
+  return null;
 }
 
 /**
  * Check if storage quota is near limit
  */
-export function isStorageNearQuota(threshold: number = 90): boolean {
-  const { percentage } = getStorageUsage();
+export async function isStorageNearQuota(
+  threshold: number = 90
+): Promise<boolean> {
+  const { percentage } = await getStorageUsage();
   return percentage >= threshold;
 }
@@ -0,0 +1,154 @@
+import { createLocalStorageDriver } from './localStorageDriver';
+import { createIndexedDBDriver, isIndexedDBAvailable } from './indexedDBDriver';
+
+/**
+ * Storage driver abstraction
+ * Decouples the storage utilities from the concrete browser storage backend
+ */
+
+export type StorageDriverName = 'localStorage' | 'indexedDB';
+
+export const STORAGE_DRIVERS: { value: StorageDriverName; label: string }[] = [
+  { value: 'localStorage', label: 'Local storage (about 5 MB)' },
+  { value: 'indexedDB', label: 'IndexedDB (for large histories and notes)' },
+];
+
+export interface StorageEstimate {
+  used: number; // bytes
+  quota: number; // bytes
+}
+
+/**
+ * Key/value operations available inside a transaction
+ * Values are plain JSON-compatible structures (never raw strings)
+ */
+export interface StorageTransaction {
+  read(key: string): Promise<unknown>;
+  write(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+
+  /**
+   * Write a serialized value as is, e.g. a corrupted original from readRaw
+   */
+  writeRaw(key: string, raw: string): Promise<void>;
+}
+
+export interface StorageDriver extends StorageTransaction {
+  readonly name: StorageDriverName;
+
+  /**
+   * Read the serialized form of a key, even if it cannot be parsed
+   * Used for exporting corrupted data
+   */
+  readRaw(key: string): Promise<string | null>;
+
+  /**
+   * List every key owned by the application
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Run work atomically: either every write inside succeeds or none is kept
+   */
+  transaction<T>(work: (tx: StorageTransaction) => Promise<T>): Promise<T>;
+
+  /**
+   * Estimate bytes used and available to the application
+   */
+  estimate(): Promise<StorageEstimate>;
+}
+
+const DRIVER_PREFERENCE_KEY = 'todo-app-driver';
+// Copy of the task store that older versions kept in localStorage
+const LEGACY_TASK_STORE_KEY = 'todo-app-tasks';
+
+let activeDriver: StorageDriver = createLocalStorageDriver();
+
+/**
+ * Get the driver currently used by the storage utilities
+ */
+export function getStorageDriver(): StorageDriver {
+  return activeDriver;
+}
+
+/**
+ * Replace the active driver (used by tests and driver switching)
+ */
+export function setStorageDriver(driver: StorageDriver): void {
+  activeDriver = driver;
+}
+
+/**
+ * Create a driver by name
+ */
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  return name === 'indexedDB'
+    ? createIndexedDBDriver()
+    : createLocalStorageDriver();
+}
+
+/**
+ * Get the driver the user opted into, falling back to localStorage
+ */
+export function getPreferredDriverName(): StorageDriverName {
+  try {
+    const preferred = localStorage.getItem(DRIVER_PREFERENCE_KEY);
+    if (preferred === 'indexedDB' && isIndexedDBAvailable()) {
+      return 'indexedDB';
+    }
+  } catch {
+    // localStorage unavailable, fall through to default
+  }
+
+  return 'localStorage';
+}
+
+/**
+ * Activate the preferred driver
+ * Called once during app initialization
+ */
+export async function initStorageDriver(): Promise<StorageDriver> {
+  try {
+    localStorage.removeItem(LEGACY_TASK_STORE_KEY);
+  } catch {
+    // localStorage unavailable, nothing to clean up
+  }
+
+  const preferred = getPreferredDriverName();
+  if (activeDriver.name !== preferred) {
+    activeDriver = createStorageDriver(preferred);
+  }
+  return activeDriver;
+}
+
+/**
+ * Copy all application data to another driver and make it active
+ * The source data is kept untouched so a failed switch loses nothing
+ */
+export async function switchStorageDriver(
+  name: StorageDriverName
+): Promise<void> {
+  if (activeDriver.name === name) {
+    return;
+  }
+
+  if (name === 'indexedDB' && !isIndexedDBAvailable()) {
+    throw new Error('IndexedDB is not available in this browser');
+  }
+
+  const source = activeDriver;
+  const target = createStorageDriver(name);
+  const keys = await source.keys();
+
+  await target.transaction(async (tx) => {
+    for (const key of keys) {
+      const value = await source.read(key);
+      if (value !== null) {
+        await tx.write(key, value);
+      }
+    }
+  });
+
+  localStorage.setItem(DRIVER_PREFERENCE_KEY, name);
+  activeDriver = target;
+}
@@ -0,0 +1,16 @@
+/**
+ * Storage keys shared by the storage utilities and drivers
+ * Every key owned by the app starts with STORAGE_KEY so drivers can
+ * enumerate them without touching unrelated keys (tab lock, preferences)
+ */
+
+export const STORAGE_KEY = 'todo-app-data';
+export const BACKUP_KEY = 'todo-app-data-backup';
+export const PRE_MIGRATION_BACKUP_KEY = 'todo-app-data-pre-migration';
+export const QUARANTINE_KEY = 'todo-app-data-quarantine';
+export const CORRUPTED_BACKUP_KEY = 'todo-app-data-corrupted';
+export const SNAPSHOT_INDEX_KEY = 'todo-app-data-snapshots';
+export const SNAPSHOT_KEY_PREFIX = 'todo-app-data-snapshot';
+export const HISTORY_KEY = 'todo-app-data-history';
+export const TRASH_KEY = 'todo-app-data-trash';
+export const SERIES_KEY = 'todo-app-data-series';
@@ -0,0 +1,182 @@
+import {
+  TagColorSchema,
+  type Tag,
+  type TagColor,
+  type Task,
+} from './validation';
+
+/**
+ * Tag registry
+ * Tags are stored in AppData.tags and tasks (and recurring series) refer to
+ * them by id. Names are unique, ignoring case.
+ */
+
+export const TAG_COLORS: readonly TagColor[] = TagColorSchema.options;
+
+export const MAX_TAG_NAME_LENGTH = 30;
+
+/**
+ * Trim a tag name and collapse inner whitespace
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+export function findTagByName(tags: Tag[], name: string): Tag | undefined {
+  const key = normalizeTagName(name).toLowerCase();
+  return tags.find((tag) => tag.name.toLowerCase() === key);
+}
+
+/**
+ * Validate a tag name against the registry
+ * @param exceptId Tag being renamed, which may keep its own name
+ * @returns Error message if invalid, null if valid
+ */
+export function validateTagName(
+  tags: Tag[],
+  name: string,
+  exceptId?: string
+): string | null {
+  const normalized = normalizeTagName(name);
+
+  if (normalized.length === 0) {
+    return 'Tag name cannot be empty';
+  }
+
+  if (normalized.length > MAX_TAG_NAME_LENGTH) {
+    return `Tag name must be ${MAX_TAG_NAME_LENGTH} characters or less`;
+  }
+
+  const existing = findTagByName(tags, normalized);
+  if (existing && existing.id !== exceptId) {
+    return `A tag named "${existing.name}" already exists`;
+  }
+
+  return null;
+}
+
+/**
+ * Pick the first color not used yet, cycling once every color is taken
+ */
+export function getNextTagColor(tags: Tag[]): TagColor {
+  const unused = TAG_COLORS.find(
+    (color) => !tags.some((tag) => tag.color === color)
+  );
+  return unused ?? TAG_COLORS[tags.length % TAG_COLORS.length] ?? 'gray';
+}
+
+/**
+ * Add a tag to the registry
+ * @throws {Error} If the name is invalid or taken
+ */
+export function addTag(
+  tags: Tag[],
+  name: string,
+  color: TagColor = getNextTagColor(tags)
+): { tags: Tag[]; tag: Tag } {
+  const error = validateTagName(tags, name);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const tag: Tag = {
+    id: crypto.randomUUID(),
+    name: normalizeTagName(name),
+    color,
+  };
+  return { tags: [...tags, tag], tag };
+}
+
+/**
+ * Rename or recolor a tag
+ * @throws {Error} If the tag does not exist or the new name is invalid or taken
+ */
+export function updateTag(
+  tags: Tag[],
+  id: string,
+  changes: Partial<Pick<Tag, 'name' | 'color'>>
+): Tag[] {
+  if (!tags.some((tag) => tag.id === id)) {
+    throw new Error('Tag not found');
+  }
+
+  if (changes.name !== undefined) {
+    const error = validateTagName(tags, changes.name, id);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  return tags.map((tag) =>
+    tag.id === id
+      ? {
+          ...tag,
+          ...changes,
+          name:
+            changes.name !== undefined
+              ? normalizeTagName(changes.name)
+              : tag.name,
+        }
+      : tag
+  );
+}
+
+/**
+ * Remove a tag id from items, or replace it with another tag's id
+ * Items without the tag are returned as is
+ */
+export function replaceTagId<T extends { tags: string[] }>(
+  items: T[],
+  id: string,
+  replacementId: string | null = null
+): T[] {
+  return items.map((item) => {
+    if (!item.tags.includes(id)) {
+      return item;
+    }
+
+    const tags = item.tags.filter((tagId) => tagId !== id);
+    if (replacementId && !tags.includes(replacementId)) {
+      tags.push(replacementId);
+    }
+    return { ...item, tags };
+  });
+}
+
+/**
+ * Keep the tasks that have any of the given tags; no tags keeps every task
+ */
+export function filterTasksByTags(tasks: Task[], tagIds: string[]): Task[] {
+  if (tagIds.length === 0) {
+    return tasks;
+  }
+  return tasks.filter((task) => task.tags.some((id) => tagIds.includes(id)));
+}
+
+/**
+ * Combine an imported tag registry with the current one
+ * Imported tags whose name is already taken are mapped to the existing tag
+ * @returns The combined registry and a map from imported to current tag ids
+ */
+export function mergeTagRegistries(
+  current: Tag[],
+  incoming: Tag[]
+): { tags: Tag[]; idMap: Map<string, string> } {
+  const tags = [...current];
+  const idMap = new Map<string, string>();
+
+  for (const tag of incoming) {
+    if (tags.some((existing) => existing.id === tag.id)) {
+      continue;
+    }
+
+    const sameName = findTagByName(tags, tag.name);
+    if (sameName) {
+      idMap.set(tag.id, sameName.id);
+    } else {
+      tags.push(tag);
+    }
+  }
+
+  return { tags, idMap };
+}
@@ -0,0 +1,174 @@
+import { TaskSchema, type Task, type TaskPriority } from './validation';
+import { isValidDateString } from './dateUtils';
+
+/**
+ * todo.txt interoperability (https://github.com/todotxt/todo.txt)
+ * - `x` marks completed tasks, followed by the completion date (completedAt)
+ * - The creation date comes from createdAt
+ * - `due:YYYY-MM-DD` carries the task date
+ * - Priorities `(A)`-`(D)` map to urgent, high, medium and low (later
+ *   letters are low); completed tasks keep theirs in a `pri:` tag
+ * Everything else on the line, including +project, @context and unknown
+ * key:value tags, stays in the description.
+ */
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface TodoTxtImportResult {
+  tasks: Task[];
+  skipped: { line: number; reason: string }[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DUE_PATTERN = /(?:^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const PRI_PATTERN = /(?:^|\s)pri:([A-Z])(?=\s|$)/;
+
+const PRIORITY_LETTERS: Partial<Record<TaskPriority, string>> = {
+  urgent: 'A',
+  high: 'B',
+  medium: 'C',
+  low: 'D',
+};
+
+function toPriority(letter: string): TaskPriority {
+  const entry = Object.entries(PRIORITY_LETTERS).find(
+    ([, value]) => value === letter
+  );
+  return entry ? (entry[0] as TaskPriority) : 'low';
+}
+
+/**
+ * Serialize one task as a todo.txt line
+ */
+export function taskToTodoTxt(task: Task): string {
+  const createdDate = task.createdAt.slice(0, 10);
+  // todo.txt is line based, so multi-line descriptions are joined
+  const description = task.description.replace(/\s*\r?\n\s*/g, ' ');
+  const letter = PRIORITY_LETTERS[task.priority];
+  const parts: string[] = [];
+
+  if (task.completed) {
+    // A creation date is only valid after a completion date
+    parts.push('x', task.completedAt?.slice(0, 10) ?? createdDate);
+  } else if (letter) {
+    parts.push(`(${letter})`);
+  }
+  parts.push(createdDate, description, `due:${task.date}`);
+  if (task.completed && letter) {
+    parts.push(`pri:${letter}`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Serialize tasks as a todo.txt file, ordered by date
+ */
+export function tasksToTodoTxt(tasks: Task[]): string {
+  const sorted = [...tasks].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+  return sorted.map(taskToTodoTxt).join('\n') + '\n';
+}
+
+function takeDate(tokens: string[]): string | null {
+  const token = tokens[0];
+  if (token && DATE_PATTERN.test(token) && isValidDateString(token)) {
+    tokens.shift();
+    return token;
+  }
+  return null;
+}
+
+/**
+ * Parse one todo.txt line
+ * @returns The task, or the reason it was skipped
+ */
+export function parseTodoTxtLine(
+  line: string,
+  now: Date = new Date()
+): Task | string {
+  const tokens = line.trim().split(/\s+/);
+
+  let completed = false;
+  let completedDate: string | null = null;
+  let priority: TaskPriority = 'none';
+  if (tokens[0] === 'x') {
+    tokens.shift();
+    completed = true;
+    completedDate = takeDate(tokens);
+  } else if (tokens[0] && /^\([A-Z]\)$/.test(tokens[0])) {
+    priority = toPriority(tokens[0].charAt(1));
+    tokens.shift();
+  }
+
+  const createdDate = takeDate(tokens);
+
+  let description = tokens.join(' ');
+  let date: string | null = null;
+  const due = DUE_PATTERN.exec(description);
+  if (due?.[1] && isValidDateString(due[1])) {
+    date = due[1];
+    description = description.replace(DUE_PATTERN, ' ').replace(/\s+/g, ' ');
+  }
+  const pri = PRI_PATTERN.exec(description);
+  if (completed && pri?.[1]) {
+    priority = toPriority(pri[1]);
+    description = description.replace(PRI_PATTERN, ' ').replace(/\s+/g, ' ');
+  }
+  description = description.trim();
+
+  if (description.length === 0) {
+    return 'Missing description';
+  }
+
+  const createdAt = createdDate
+    ? `${createdDate}T00:00:00.000Z`
+    : now.toISOString();
+
+  const result = TaskSchema.safeParse({
+    id: crypto.randomUUID(),
+    description: description.slice(0, MAX_DESCRIPTION_LENGTH),
+    notes: '',
+    completed,
+    createdAt,
+    completedAt: completedDate ? `${completedDate}T00:00:00.000Z` : null,
+    date: date ?? createdAt.slice(0, 10),
+    priority,
+    tags: [],
+    checklist: [],
+  });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return `Invalid ${issue?.path.join('.') || 'task'}`;
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse a todo.txt file; blank lines are ignored
+ * Tasks get new ids, as todo.txt has no stable identifiers
+ */
+export function parseTodoTxt(
+  text: string,
+  now: Date = new Date()
+): TodoTxtImportResult {
+  const result: TodoTxtImportResult = { tasks: [], skipped: [] };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    const task = parseTodoTxtLine(line, now);
+    if (typeof task === 'string') {
+      result.skipped.push({ line: index + 1, reason: task });
+    } else {
+      result.tasks.push(task);
+    }
+  });
+
+  return result;
+}
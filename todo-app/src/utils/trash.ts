@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { StoredTaskSchema, type Task } from './validation';
+
+/**
+ * Trash for soft-deleted tasks
+ * Deleted tasks are kept with a deletedAt timestamp until they are restored,
+ * deleted permanently, or purged after the retention period
+ */
+
+export const TrashedTaskSchema = StoredTaskSchema.extend({
+  deletedAt: z.string().datetime(),
+});
+
+export type TrashedTask = z.infer<typeof TrashedTaskSchema>;
+
+export const TrashSchema = z.object({
+  retentionDays: z.number().int().min(0).max(365), // 0 keeps tasks until emptied
+  tasks: z.array(TrashedTaskSchema), // Most recently deleted first
+});
+
+export type Trash = z.infer<typeof TrashSchema>;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createEmptyTrash(): Trash {
+  return { retentionDays: DEFAULT_TRASH_RETENTION_DAYS, tasks: [] };
+}
+
+/**
+ * Parse the stored trash, falling back to an empty one
+ */
+export function parseTrash(raw: unknown): Trash {
+  const result = TrashSchema.safeParse(raw);
+  return result.success ? result.data : createEmptyTrash();
+}
+
+/**
+ * Add tasks to the trash
+ */
+export function moveToTrash(
+  trash: Trash,
+  tasks: Task[],
+  now: Date = new Date()
+): Trash {
+  const deletedAt = now.toISOString();
+  const trashed = tasks.map((task) => ({ ...task, deletedAt }));
+  return { ...trash, tasks: [...trashed, ...trash.tasks] };
+}
+
+/**
+ * Strip the trash timestamp from a task being restored
+ */
+export function toTask(trashed: TrashedTask): Task {
+  const { deletedAt: _deletedAt, ...task } = trashed;
+  return task;
+}
+
+/**
+ * Drop tasks that have been in the trash longer than the retention period
+ */
+export function purgeExpiredTasks(
+  trash: Trash,
+  now: Date = new Date()
+): { trash: Trash; purgedCount: number } {
+  if (trash.retentionDays === 0) {
+    return { trash, purgedCount: 0 };
+  }
+
+  const cutoff = now.getTime() - trash.retentionDays * DAY_MS;
+  const kept = trash.tasks.filter(
+    (task) => new Date(task.deletedAt).getTime() > cutoff
+  );
+
+  return {
+    trash: { ...trash, tasks: kept },
+    purgedCount: trash.tasks.length - kept.length,
+  };
+}
+
+/**
+ * Group trashed tasks by their original date, newest date first
+ */
+export function groupTrashByDate(
+  tasks: TrashedTask[]
+): [string, TrashedTask[]][] {
+  const groups = new Map<string, TrashedTask[]>();
+
+  for (const task of tasks) {
+    groups.set(task.date, [...(groups.get(task.date) ?? []), task]);
+  }
+
+  return [...groups.entries()].sort(([a], [b]) => b.localeCompare(a));
+}
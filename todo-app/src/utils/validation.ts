@@ -1,27 +1,158 @@
 import { z } from 'zod';
 
+/**
+ * Current storage schema version
+ * Stamped into StorageMetadata.version; older versions are migrated on read
+ */
+export const CURRENT_SCHEMA_VERSION = '1.5.0';
+
+/**
+ * Task priority levels, lowest first
+ */
+export const TaskPrioritySchema = z.enum([
+  'none',
+  'low',
+  'medium',
+  'high',
+  'urgent',
+]);
+
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>;
+
+/**
+ * Tag colors, used for the tag chips
+ */
+export const TagColorSchema = z.enum([
+  'gray',
+  'red',
+  'orange',
+  'amber',
+  'green',
+  'teal',
+  'blue',
+  'purple',
+  'pink',
+]);
+
+export type TagColor = z.infer<typeof TagColorSchema>;
+
+/**
+ * Tag registry entry schema
+ * Tasks refer to tags by id, so renaming a tag needs no task changes
+ */
+export const TagSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(30),
+  color: TagColorSchema,
+});
+
+export type Tag = z.infer<typeof TagSchema>;
+
+/**
+ * Checklist item schema
+ * Items are ordered by their position in the task's checklist
+ */
+export const ChecklistItemSchema = z.object({
+  id: z.string().uuid(),
+  text: z.string().min(1).max(200),
+  completed: z.boolean(),
+});
+
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+
+/**
+ * Task checklist schema: at most 50 items with unique ids
+ */
+export const ChecklistSchema = z
+  .array(ChecklistItemSchema)
+  .max(50)
+  .refine(
+    (items) => new Set(items.map((item) => item.id)).size === items.length,
+    {
+      message: 'Checklist item ids must be unique',
+    }
+  );
+
+/**
+ * Time of day schema, HH:mm on a 24-hour clock
+ */
+export const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
 /**
  * Task entity schema
  * Validates individual todo task data
  */
 export const TaskSchema = z.object({
   id: z.string().uuid(),
-  description: z.string().min(1).max(500),
+  description: z.string().min(1).max(500), // One-line title
+  notes: z.string().max(10000), // Markdown
   completed: z.boolean(),
   createdAt: z.string().datetime(),
   completedAt: z.string().datetime().nullable(),
+  updatedAt: z.string().datetime().optional(), // Last recorded edit
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD format
+  priority: TaskPrioritySchema,
+  tags: z.array(z.string().uuid()), // Tag ids
+  checklist: ChecklistSchema,
+  seriesId: z.string().uuid().optional(), // Recurring series this task is an occurrence of
+  originalDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(), // Date before carry-over
+  rolloverCount: z.number().int().positive().optional(), // Times the task was carried over
+  dueTime: TimeOfDaySchema.optional(), // HH:mm local time on `date`
+  reminderMinutes: z.number().int().min(0).max(10080).optional(), // Remind this long before dueTime
+  remindedAt: z.string().datetime().optional(), // Last reminder delivered
+  position: z
+    .string()
+    .regex(/^[0-9a-z]*[1-9a-z]$/)
+    .max(100)
+    .optional(), // Manual order on `date`
 });
 
 export type Task = z.infer<typeof TaskSchema>;
 
+/**
+ * Task schema for stores kept next to AppData (trash, undo history)
+ * They are not migrated, so fields added by later versions get their defaults
+ */
+export const StoredTaskSchema = TaskSchema.extend({
+  priority: TaskPrioritySchema.default('none'),
+  tags: z.array(z.string().uuid()).default([]),
+  checklist: ChecklistSchema.default([]),
+  notes: z.string().max(10000).default(''),
+});
+
+/**
+ * Saved filter query, pinned ones are listed as views
+ */
+export const SavedQuerySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(50),
+  query: z.string().min(1).max(500),
+  pinned: z.boolean(),
+});
+
+export type SavedQuery = z.infer<typeof SavedQuerySchema>;
+
 /**
  * User preferences schema
  * Stores UI state preferences
  */
 export const UserPreferencesSchema = z.object({
   lastViewedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  sortOrder: z.enum(['newest-first', 'oldest-first']),
+  sortOrder: z.enum(['newest-first', 'oldest-first', 'manual']),
+  rolloverMode: z.enum(['off', 'move', 'copy']).optional(), // Carry-over of unfinished tasks
+  lastRolloverDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(), // Last carry-over run
+  autoCompleteChecklist: z.boolean().optional(), // Complete a task when its checklist is done
+  savedQueries: z.array(SavedQuerySchema).max(50).optional(), // Saved search filters
+  // Key sequences by command id, replacing the defaults
+  keymap: z
+    .record(z.string().max(100), z.array(z.string().min(1).max(50)).max(4))
+    .optional(),
 });
 
 export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
@@ -34,8 +165,14 @@ export const StorageMetadataSchema = z.object({
   version: z.string(),
   lastModified: z.string().datetime(),
   totalTaskCount: z.number().int().nonnegative(),
-  oldestTaskDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
-  newestTaskDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  oldestTaskDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable(),
+  newestTaskDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable(),
 });
 
 export type StorageMetadata = z.infer<typeof StorageMetadataSchema>;
@@ -48,6 +185,7 @@ export const AppDataSchema = z.object({
   metadata: StorageMetadataSchema,
   tasks: z.array(TaskSchema),
   preferences: UserPreferencesSchema,
+  tags: z.array(TagSchema), // Tag registry
 });
 
 export type AppData = z.infer<typeof AppDataSchema>;
@@ -89,7 +227,7 @@ export function createInitialAppData(): AppData {
 
   return {
     metadata: {
-      version: '1.0.0',
+      version: CURRENT_SCHEMA_VERSION,
       lastModified: now,
       totalTaskCount: 0,
       oldestTaskDate: null,
@@ -100,5 +238,6 @@ export function createInitialAppData(): AppData {
       lastViewedDate: today,
       sortOrder: 'newest-first',
     },
+    tags: [],
   };
 }